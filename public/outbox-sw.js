@@ -0,0 +1,13 @@
+// Loaded into the generated service worker via workbox importScripts.
+// Must stay in sync with OUTBOX_SYNC_TAG in src/services/outbox.service.ts
+const OUTBOX_SYNC_TAG = 'outbox-sync'
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: OUTBOX_SYNC_TAG }))
+    })
+  )
+})
@@ -1,10 +1,14 @@
 import 'yet-another-react-lightbox/styles.css'
 import './index.css'
 
+import RelayAuthConsentDialog from '@/components/RelayAuthConsentDialog'
 import { Toaster } from '@/components/ui/sonner'
 import { BookmarksProvider } from '@/providers/BookmarksProvider'
+import { CashuWalletProvider } from '@/providers/CashuWalletProvider'
 import { ContentPolicyProvider } from '@/providers/ContentPolicyProvider'
 import { DeletedEventProvider } from '@/providers/DeletedEventProvider'
+import { DirectMessageProvider } from '@/providers/DirectMessageProvider'
+import { DraftsProvider } from '@/providers/DraftsProvider'
 import { FavoriteRelaysProvider } from '@/providers/FavoriteRelaysProvider'
 import { FeedProvider } from '@/providers/FeedProvider'
 import { FollowListProvider } from '@/providers/FollowListProvider'
@@ -16,6 +20,7 @@ import { NostrProvider } from '@/providers/NostrProvider'
 import { PinListProvider } from '@/providers/PinListProvider'
 import { ReplyProvider } from '@/providers/ReplyProvider'
 import { RTLProvider } from '@/providers/RTLProvider'
+import { SavedSearchesProvider } from '@/providers/SavedSearchesProvider'
 import { ScreenSizeProvider } from '@/providers/ScreenSizeProvider'
 import { ThemeProvider } from '@/providers/ThemeProvider'
 import { TranslationServiceProvider } from '@/providers/TranslationServiceProvider'
@@ -34,32 +39,41 @@ export default function App(): JSX.Element {
               <DeletedEventProvider>
                 <NostrProvider>
                   <ZapProvider>
-                    <TranslationServiceProvider>
-                      <FavoriteRelaysProvider>
-                        <Nip05CommunitiesProvider>
-                          <FollowListProvider>
-                            <MuteListProvider>
-                              <UserTrustProvider>
-                                <BookmarksProvider>
-                                  <PinListProvider>
-                                    <FeedProvider>
-                                      <ReplyProvider>
-                                        <MediaUploadServiceProvider>
-                                          <KindFilterProvider>
-                                            <PageManager />
-                                            <Toaster />
-                                          </KindFilterProvider>
-                                        </MediaUploadServiceProvider>
-                                      </ReplyProvider>
-                                    </FeedProvider>
-                                  </PinListProvider>
-                                </BookmarksProvider>
-                              </UserTrustProvider>
-                            </MuteListProvider>
-                          </FollowListProvider>
-                        </Nip05CommunitiesProvider>
-                      </FavoriteRelaysProvider>
-                    </TranslationServiceProvider>
+                    <CashuWalletProvider>
+                      <TranslationServiceProvider>
+                        <FavoriteRelaysProvider>
+                          <Nip05CommunitiesProvider>
+                            <FollowListProvider>
+                              <MuteListProvider>
+                                <UserTrustProvider>
+                                  <BookmarksProvider>
+                                    <DraftsProvider>
+                                      <PinListProvider>
+                                        <DirectMessageProvider>
+                                          <FeedProvider>
+                                            <ReplyProvider>
+                                              <MediaUploadServiceProvider>
+                                                <KindFilterProvider>
+                                                  <SavedSearchesProvider>
+                                                    <PageManager />
+                                                    <Toaster />
+                                                    <RelayAuthConsentDialog />
+                                                  </SavedSearchesProvider>
+                                                </KindFilterProvider>
+                                              </MediaUploadServiceProvider>
+                                            </ReplyProvider>
+                                          </FeedProvider>
+                                        </DirectMessageProvider>
+                                      </PinListProvider>
+                                    </DraftsProvider>
+                                  </BookmarksProvider>
+                                </UserTrustProvider>
+                              </MuteListProvider>
+                            </FollowListProvider>
+                          </Nip05CommunitiesProvider>
+                        </FavoriteRelaysProvider>
+                      </TranslationServiceProvider>
+                    </CashuWalletProvider>
                   </ZapProvider>
                 </NostrProvider>
               </DeletedEventProvider>
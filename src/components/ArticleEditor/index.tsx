@@ -0,0 +1,233 @@
+import LongFormArticle from '@/components/Note/LongFormArticle'
+import Uploader from '@/components/PostEditor/Uploader'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Textarea } from '@/components/ui/textarea'
+import { StorageKey } from '@/constants'
+import { createDeletionRequestDraftEvent, createLongFormArticleDraftEvent } from '@/lib/draft-event'
+import { getLongFormArticleMetadataFromEvent } from '@/lib/event-metadata'
+import { toNote } from '@/lib/link'
+import { randomString } from '@/lib/random'
+import { tagNameEquals } from '@/lib/tag'
+import { useSecondaryPage } from '@/PageManager'
+import { useNostr } from '@/providers/NostrProvider'
+import { ImageUp, LoaderCircle } from 'lucide-react'
+import { Event, kinds } from 'nostr-tools'
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+export default function ArticleEditor({ article }: { article?: Event }) {
+  const { t } = useTranslation()
+  const { push } = useSecondaryPage()
+  const { pubkey, publish, checkLogin } = useNostr()
+  const metadata = useMemo(
+    () => (article ? getLongFormArticleMetadataFromEvent(article) : undefined),
+    [article]
+  )
+  const [identifier, setIdentifier] = useState(article?.tags.find(tagNameEquals('d'))?.[1] ?? '')
+  const [title, setTitle] = useState(metadata?.title ?? '')
+  const [summary, setSummary] = useState(metadata?.summary ?? '')
+  const [image, setImage] = useState(metadata?.image ?? '')
+  const [hashtags, setHashtags] = useState(
+    article?.tags
+      .filter(tagNameEquals('t'))
+      .map(([, hashtag]) => hashtag)
+      .join(' ') ?? ''
+  )
+  const [content, setContent] = useState(article?.content ?? '')
+  // The kind 30024 draft is deleted once the article is published
+  const [draftEvent, setDraftEvent] = useState<Event | undefined>(
+    article?.kind === kinds.DraftLong ? article : undefined
+  )
+  const [uploading, setUploading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+  const publishedAt = useMemo(() => {
+    const publishedAt = article?.tags.find(tagNameEquals('published_at'))?.[1]
+    return publishedAt ? parseInt(publishedAt) : undefined
+  }, [article])
+  const hashtagList = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          hashtags
+            .split(/[\s,]+/)
+            .map((hashtag) => hashtag.replace(/^#/, '').trim().toLowerCase())
+            .filter(Boolean)
+        )
+      ),
+    [hashtags]
+  )
+  const previewEvent = useMemo<Event>(
+    () => ({
+      id: '',
+      sig: '',
+      pubkey: pubkey ?? '',
+      kind: kinds.LongFormArticle,
+      created_at: 0,
+      content,
+      tags: [
+        ['title', title],
+        ['summary', summary],
+        ['image', image],
+        ...hashtagList.map((hashtag) => ['t', hashtag])
+      ]
+    }),
+    [pubkey, title, summary, image, hashtagList, content]
+  )
+  const canSubmit = !!pubkey && !!title.trim() && !!content.trim() && !uploading
+
+  const getIdentifier = () => {
+    if (identifier) return identifier
+
+    // Identifiers stay the same across edits so the article is replaced, not duplicated
+    const slug = title
+      .trim()
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60)
+    const newIdentifier = `${slug || 'article'}-${randomString(6)}`
+    setIdentifier(newIdentifier)
+    return newIdentifier
+  }
+
+  const createDraftEvent = (isDraft: boolean) =>
+    createLongFormArticleDraftEvent(
+      {
+        identifier: getIdentifier(),
+        title: title.trim(),
+        summary: summary.trim(),
+        image: image.trim(),
+        hashtags: hashtagList,
+        content,
+        publishedAt
+      },
+      {
+        isDraft,
+        addClientTag: window.localStorage.getItem(StorageKey.ADD_CLIENT_TAG) === 'true'
+      }
+    )
+
+  const handleSaveDraft = () => {
+    checkLogin(async () => {
+      if (!canSubmit) return
+
+      setSaving(true)
+      try {
+        const event = await publish(await createDraftEvent(true))
+        setDraftEvent(event)
+        toast.success(t('Draft saved'))
+      } catch (error) {
+        toast.error(`${t('Failed to save draft')}: ${(error as Error).message}`)
+      } finally {
+        setSaving(false)
+      }
+    })
+  }
+
+  const handlePublish = () => {
+    checkLogin(async () => {
+      if (!canSubmit) return
+
+      setPublishing(true)
+      try {
+        const event = await publish(await createDraftEvent(false))
+        if (draftEvent) {
+          await publish(createDeletionRequestDraftEvent(draftEvent)).catch((error) => {
+            console.error('Failed to delete article draft', error)
+          })
+          setDraftEvent(undefined)
+        }
+        toast.success(t('Article published'))
+        push(toNote(event))
+      } catch (error) {
+        toast.error(`${t('Failed to publish article')}: ${(error as Error).message}`)
+      } finally {
+        setPublishing(false)
+      }
+    })
+  }
+
+  return (
+    <div className="px-4 pt-3 space-y-4">
+      <div className="grid gap-2">
+        <Label htmlFor="article-title">{t('Title')}</Label>
+        <Input id="article-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="article-summary">{t('Summary')}</Label>
+        <Textarea
+          id="article-summary"
+          rows={2}
+          value={summary}
+          onChange={(e) => setSummary(e.target.value)}
+        />
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="article-image">{t('Cover image')}</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            id="article-image"
+            placeholder="https://"
+            value={image}
+            onChange={(e) => setImage(e.target.value)}
+          />
+          <Uploader
+            onUploadSuccess={({ url }) => setImage(url)}
+            onUploadStart={() => setUploading(true)}
+            onUploadEnd={() => setUploading(false)}
+          >
+            <Button variant="secondary" size="icon" disabled={uploading}>
+              {uploading ? <LoaderCircle className="animate-spin" /> : <ImageUp />}
+            </Button>
+          </Uploader>
+        </div>
+        {image && <img src={image} className="w-full aspect-[3/1] object-cover rounded-lg" />}
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="article-hashtags">{t('Hashtags')}</Label>
+        <Input
+          id="article-hashtags"
+          placeholder="nostr, bitcoin"
+          value={hashtags}
+          onChange={(e) => setHashtags(e.target.value)}
+        />
+      </div>
+      <Tabs defaultValue="edit" className="space-y-2">
+        <TabsList>
+          <TabsTrigger value="edit">{t('Edit')}</TabsTrigger>
+          <TabsTrigger value="preview">{t('Preview')}</TabsTrigger>
+        </TabsList>
+        <TabsContent value="edit">
+          <Textarea
+            className="min-h-96 font-mono text-sm"
+            placeholder={t('Write your article in Markdown...')}
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+          />
+        </TabsContent>
+        <TabsContent value="preview" className="border rounded-lg p-3">
+          <LongFormArticle event={previewEvent} />
+        </TabsContent>
+      </Tabs>
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="secondary"
+          disabled={!canSubmit || saving || publishing}
+          onClick={handleSaveDraft}
+        >
+          {saving && <LoaderCircle className="animate-spin" />}
+          {t('Save draft')}
+        </Button>
+        <Button disabled={!canSubmit || saving || publishing} onClick={handlePublish}>
+          {publishing && <LoaderCircle className="animate-spin" />}
+          {article?.kind === kinds.LongFormArticle ? t('Update') : t('Publish')}
+        </Button>
+      </div>
+    </div>
+  )
+}
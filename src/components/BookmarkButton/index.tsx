@@ -1,4 +1,3 @@
-import { getReplaceableCoordinateFromEvent, isReplaceableEvent } from '@/lib/event'
 import { useBookmarks } from '@/providers/BookmarksProvider'
 import { useNostr } from '@/providers/NostrProvider'
 import { BookmarkIcon, Loader } from 'lucide-react'
@@ -9,17 +8,10 @@ import { toast } from 'sonner'
 
 export default function BookmarkButton({ event }: { event: Event }) {
   const { t } = useTranslation()
-  const { pubkey: accountPubkey, bookmarkListEvent, checkLogin } = useNostr()
-  const { addBookmark, removeBookmark } = useBookmarks()
+  const { pubkey: accountPubkey, checkLogin } = useNostr()
+  const { getBookmarkType, addBookmark, removeBookmark } = useBookmarks()
   const [updating, setUpdating] = useState(false)
-  const isBookmarked = useMemo(() => {
-    const isReplaceable = isReplaceableEvent(event.kind)
-    const eventKey = isReplaceable ? getReplaceableCoordinateFromEvent(event) : event.id
-
-    return bookmarkListEvent?.tags.some((tag) =>
-      isReplaceable ? tag[0] === 'a' && tag[1] === eventKey : tag[0] === 'e' && tag[1] === eventKey
-    )
-  }, [bookmarkListEvent, event])
+  const isBookmarked = useMemo(() => !!getBookmarkType(event), [getBookmarkType, event])
 
   if (!accountPubkey) return null
 
@@ -1,6 +1,6 @@
 import { useFetchEvent } from '@/hooks'
 import { generateBech32IdFromATag, generateBech32IdFromETag } from '@/lib/tag'
-import { useNostr } from '@/providers/NostrProvider'
+import { useBookmarks } from '@/providers/BookmarksProvider'
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import NoteCard, { NoteCardLoadingSkeleton } from '../NoteCard'
@@ -9,12 +9,10 @@ const SHOW_COUNT = 10
 
 export default function BookmarkList() {
   const { t } = useTranslation()
-  const { bookmarkListEvent } = useNostr()
+  const { bookmarkTags } = useBookmarks()
   const eventIds = useMemo(() => {
-    if (!bookmarkListEvent) return []
-
     return (
-      bookmarkListEvent.tags
+      bookmarkTags
         .map((tag) =>
           tag[0] === 'e'
             ? generateBech32IdFromETag(tag)
@@ -24,7 +22,7 @@ export default function BookmarkList() {
         )
         .filter(Boolean) as (`nevent1${string}` | `naddr1${string}`)[]
     ).reverse()
-  }, [bookmarkListEvent])
+  }, [bookmarkTags])
   const [showCount, setShowCount] = useState(SHOW_COUNT)
   const bottomRef = useRef<HTMLDivElement | null>(null)
 
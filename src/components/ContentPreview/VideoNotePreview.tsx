@@ -1,3 +1,4 @@
+import { tagNameEquals } from '@/lib/tag'
 import { cn } from '@/lib/utils'
 import { Event } from 'nostr-tools'
 import { useTranslation } from 'react-i18next'
@@ -10,10 +11,11 @@ export default function VideoNotePreview({
   className?: string
 }) {
   const { t } = useTranslation()
+  const text = event.content || event.tags.find(tagNameEquals('title'))?.[1]
 
   return (
     <div className={cn('pointer-events-none', className)}>
-      [{t('Media')}] <span className="italic pr-0.5">{event.content}</span>
+      [{t('Media')}] <span className="italic pr-0.5">{text}</span>
     </div>
   )
 }
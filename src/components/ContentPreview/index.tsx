@@ -1,5 +1,5 @@
 import { ExtendedKind } from '@/constants'
-import { isMentioningMutedUsers } from '@/lib/event'
+import { isMentioningMutedUsers, isVideoEvent } from '@/lib/event'
 import { cn } from '@/lib/utils'
 import { useContentPolicy } from '@/providers/ContentPolicyProvider'
 import { useMuteList } from '@/providers/MuteListProvider'
@@ -80,7 +80,7 @@ export default function ContentPreview({
     return <LongFormArticlePreview event={event} className={className} />
   }
 
-  if (event.kind === ExtendedKind.VIDEO || event.kind === ExtendedKind.SHORT_VIDEO) {
+  if (isVideoEvent(event)) {
     return <VideoNotePreview event={event} className={className} />
   }
 
@@ -0,0 +1,113 @@
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+import { useDirectMessages } from '@/providers/DirectMessageProvider'
+import { useNostr } from '@/providers/NostrProvider'
+import { TDirectMessage } from '@/types'
+import { Loader, SendHorizontal } from 'lucide-react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { FormattedTimestamp } from '../FormattedTimestamp'
+
+export default function DirectMessageConversation({ peerPubkey }: { peerPubkey: string }) {
+  const { t } = useTranslation()
+  const { pubkey } = useNostr()
+  const { isSupported, isLoading, getMessages, loadInbox, sendMessage } = useDirectMessages()
+  const messages = useMemo(() => getMessages(peerPubkey), [getMessages, peerPubkey])
+  const [text, setText] = useState('')
+  const [sending, setSending] = useState(false)
+  const bottomRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    loadInbox()
+  }, [loadInbox])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' })
+  }, [messages.length])
+
+  if (!pubkey || !isSupported) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        {t('Direct messages require a signer that supports NIP-44 encryption')}
+      </div>
+    )
+  }
+
+  const handleSend = async () => {
+    if (!text.trim() || sending) return
+
+    setSending(true)
+    try {
+      await sendMessage(peerPubkey, text)
+      setText('')
+    } catch (error) {
+      const errors = error instanceof AggregateError ? error.errors : [error]
+      errors.forEach((err) => {
+        toast.error(
+          `${t('Failed to send message')}: ${err instanceof Error ? err.message : String(err)}`
+        )
+        console.error(err)
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col min-h-[calc(100vh-6rem)]">
+      <div className="flex-1 flex flex-col gap-2 p-4">
+        {messages.length === 0 && (
+          <div className="text-center text-sm text-muted-foreground">
+            {isLoading ? t('loading...') : t('No messages yet')}
+          </div>
+        )}
+        {messages.map((message) => (
+          <MessageBubble key={message.id} message={message} isMine={message.pubkey === pubkey} />
+        ))}
+        <div ref={bottomRef} />
+      </div>
+      <div className="sticky bottom-0 flex items-end gap-2 p-2 border-t bg-background">
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault()
+              handleSend()
+            }
+          }}
+          placeholder={t('Write a message...')}
+          className="min-h-10 resize-none"
+          rows={1}
+          dir="auto"
+        />
+        <Button size="icon" disabled={!text.trim() || sending} onClick={handleSend}>
+          {sending ? <Loader className="animate-spin" /> : <SendHorizontal />}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function MessageBubble({ message, isMine }: { message: TDirectMessage; isMine: boolean }) {
+  return (
+    <div className={cn('flex flex-col max-w-[80%]', isMine ? 'self-end items-end' : 'items-start')}>
+      <div
+        className={cn(
+          'rounded-2xl px-3 py-2 whitespace-pre-wrap break-words select-text',
+          isMine ? 'bg-primary text-primary-foreground' : 'bg-muted'
+        )}
+        dir="auto"
+      >
+        {message.content}
+      </div>
+      <FormattedTimestamp
+        timestamp={message.created_at}
+        short
+        className="text-xs text-muted-foreground mt-1"
+      />
+    </div>
+  )
+}
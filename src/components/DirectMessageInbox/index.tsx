@@ -0,0 +1,105 @@
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { toDirectMessageConversation } from '@/lib/link'
+import { useSecondaryPage } from '@/PageManager'
+import { useDirectMessages } from '@/providers/DirectMessageProvider'
+import { useNostr } from '@/providers/NostrProvider'
+import { TDirectMessageConversation } from '@/types'
+import { useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { FormattedTimestamp } from '../FormattedTimestamp'
+import { SimpleUserAvatar } from '../UserAvatar'
+import { SimpleUsername } from '../Username'
+
+export default function DirectMessageInbox() {
+  const { t } = useTranslation()
+  const { pubkey, startLogin } = useNostr()
+  const { isSupported, isLoading, conversations, loadInbox } = useDirectMessages()
+
+  useEffect(() => {
+    loadInbox()
+  }, [loadInbox])
+
+  if (!pubkey) {
+    return (
+      <div className="flex flex-col items-center gap-4 p-8 text-muted-foreground">
+        {t('Login to view your messages')}
+        <Button onClick={() => startLogin()}>{t('Login')}</Button>
+      </div>
+    )
+  }
+
+  if (!isSupported) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        {t('Direct messages require a signer that supports NIP-44 encryption')}
+      </div>
+    )
+  }
+
+  if (conversations.length === 0) {
+    return isLoading ? (
+      <div>
+        {Array.from({ length: 5 }).map((_, i) => (
+          <ConversationItemSkeleton key={i} />
+        ))}
+      </div>
+    ) : (
+      <div className="p-8 text-center text-muted-foreground">{t('No messages yet')}</div>
+    )
+  }
+
+  return (
+    <div>
+      {conversations.map((conversation) => (
+        <ConversationItem key={conversation.peerPubkey} conversation={conversation} />
+      ))}
+    </div>
+  )
+}
+
+function ConversationItem({ conversation }: { conversation: TDirectMessageConversation }) {
+  const { t } = useTranslation()
+  const { push } = useSecondaryPage()
+  const { pubkey } = useNostr()
+  const { peerPubkey, lastMessage } = conversation
+
+  return (
+    <div
+      className="flex items-center gap-3 px-4 py-3 border-b clickable"
+      onClick={() => push(toDirectMessageConversation(peerPubkey))}
+    >
+      <SimpleUserAvatar userId={peerPubkey} />
+      <div className="flex-1 w-0">
+        <div className="flex items-center justify-between gap-2">
+          <SimpleUsername
+            userId={peerPubkey}
+            className="font-semibold truncate"
+            skeletonClassName="h-4"
+          />
+          <FormattedTimestamp
+            timestamp={lastMessage.created_at}
+            short
+            className="shrink-0 text-xs text-muted-foreground"
+          />
+        </div>
+        <div className="text-sm text-muted-foreground truncate">
+          {lastMessage.pubkey === pubkey && `${t('You')}: `}
+          {lastMessage.content}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function ConversationItemSkeleton() {
+  return (
+    <div className="flex items-center gap-3 px-4 py-3 border-b">
+      <Skeleton className="w-10 h-10 rounded-full" />
+      <div className="flex-1 space-y-2">
+        <Skeleton className="h-4 w-24" />
+        <Skeleton className="h-3 w-48" />
+      </div>
+    </div>
+  )
+}
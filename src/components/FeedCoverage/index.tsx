@@ -0,0 +1,182 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { toRelay } from '@/lib/link'
+import { computeRelayCoverage } from '@/lib/relay-selection'
+import { simplifyUrl } from '@/lib/url'
+import { useSecondaryPage } from '@/PageManager'
+import { useFavoriteRelays } from '@/providers/FavoriteRelaysProvider'
+import { useNostr } from '@/providers/NostrProvider'
+import client from '@/services/client.service'
+import nip05CommunityService from '@/services/nip05-community.service'
+import { TRelayList } from '@/types'
+import { LoaderCircle, Save } from 'lucide-react'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import RelayIcon from '../RelayIcon'
+import UserItem from '../UserItem'
+
+const SHOW_COUNT = 20
+
+/**
+ * Which relays are needed to read the following feed or a community domain's feed
+ */
+export default function FeedCoverage({ domain }: { domain?: string }) {
+  const { t } = useTranslation()
+  const { push } = useSecondaryPage()
+  const { pubkey, checkLogin } = useNostr()
+  const { createRelaySet } = useFavoriteRelays()
+  const [authors, setAuthors] = useState<string[] | null>(null)
+  const [relayLists, setRelayLists] = useState<TRelayList[]>([])
+  const [targetPercent, setTargetPercent] = useState(90)
+  const [relaySetName, setRelaySetName] = useState(
+    domain ? t('{{domain}} coverage', { domain }) : t('Following coverage')
+  )
+  const [saving, setSaving] = useState(false)
+  const [showCount, setShowCount] = useState(SHOW_COUNT)
+  const coverage = useMemo(
+    () =>
+      authors
+        ? computeRelayCoverage(authors, relayLists, { targetRatio: targetPercent / 100 })
+        : null,
+    [authors, relayLists, targetPercent]
+  )
+
+  useEffect(() => {
+    const init = async () => {
+      setAuthors(null)
+      const authors = domain
+        ? await nip05CommunityService.getDomainMembers(domain)
+        : pubkey
+          ? await client.fetchFollowings(pubkey)
+          : []
+      const relayLists = await client.fetchRelayLists(authors)
+      setRelayLists(relayLists)
+      setAuthors(authors)
+    }
+    init().catch((error) => {
+      console.error('Failed to compute feed coverage', error)
+      setAuthors([])
+    })
+  }, [domain, pubkey])
+
+  const handleSave = () => {
+    checkLogin(async () => {
+      if (!coverage?.relays.length || !relaySetName.trim()) return
+
+      setSaving(true)
+      try {
+        await createRelaySet(
+          relaySetName.trim(),
+          coverage.relays.map(({ url }) => url)
+        )
+        toast.success(t('Relay set saved'))
+      } catch (error) {
+        toast.error(`${t('Failed to save relay set')}: ${(error as Error).message}`)
+      } finally {
+        setSaving(false)
+      }
+    })
+  }
+
+  if (!coverage || !authors) {
+    return (
+      <div className="flex justify-center p-8">
+        <LoaderCircle className="animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (authors.length === 0) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        {domain ? t('This community has no members yet') : t('You are not following anyone yet')}
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-4 pt-3 space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>{t('Target coverage')}</Label>
+          <div className="font-semibold">{targetPercent}%</div>
+        </div>
+        <Slider
+          value={[targetPercent]}
+          onValueChange={([percent]) => setTargetPercent(percent)}
+          min={50}
+          max={100}
+          step={5}
+        />
+        <div className="text-sm text-muted-foreground">
+          {t('n relays cover m of k authors', {
+            n: coverage.relays.length,
+            m: coverage.coveredAuthors.length,
+            k: authors.length
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {coverage.relays.map(({ url, authorCount, newAuthorCount }) => (
+          <div
+            key={url}
+            className="flex items-center gap-2 rounded-lg border p-3 clickable"
+            onClick={() => push(toRelay(url))}
+          >
+            <RelayIcon url={url} />
+            <div className="flex-1 w-0 truncate font-semibold">{simplifyUrl(url)}</div>
+            <div className="shrink-0 text-sm text-muted-foreground">
+              {t('+n authors', { n: newAuthorCount })} / {authorCount}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={relaySetName}
+          onChange={(e) => setRelaySetName(e.target.value)}
+          placeholder={t('Relay set name')}
+        />
+        <Button
+          disabled={saving || !coverage.relays.length || !relaySetName.trim()}
+          onClick={handleSave}
+        >
+          {saving ? <LoaderCircle className="animate-spin" /> : <Save />}
+          {t('Save as relay set')}
+        </Button>
+      </div>
+
+      {coverage.uncoveredAuthors.length > 0 && (
+        <div className="space-y-2">
+          <div className="font-semibold">
+            {t('Uncovered authors')} ({coverage.uncoveredAuthors.length})
+          </div>
+          {coverage.authorsWithoutRelayList.length > 0 && (
+            <div className="text-sm text-muted-foreground">
+              {t('n of them have not published a relay list', {
+                n: coverage.authorsWithoutRelayList.length
+              })}
+            </div>
+          )}
+          {coverage.uncoveredAuthors.slice(0, showCount).map((author) => (
+            <UserItem key={author} userId={author} hideFollowButton />
+          ))}
+          {showCount < coverage.uncoveredAuthors.length && (
+            <Button
+              variant="ghost"
+              className="w-full"
+              onClick={() => setShowCount((prev) => prev + SHOW_COUNT)}
+            >
+              {t('Show more')}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
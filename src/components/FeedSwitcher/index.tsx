@@ -1,11 +1,12 @@
-import { toRelaySettings } from '@/lib/link'
+import { toFeedCoverage, toRelaySettings } from '@/lib/link'
 import { simplifyUrl } from '@/lib/url'
 import { SecondaryPageLink } from '@/PageManager'
 import { useFavoriteRelays } from '@/providers/FavoriteRelaysProvider'
 import { useFeed } from '@/providers/FeedProvider'
 import { useNip05Communities } from '@/providers/Nip05CommunitiesProvider'
 import { useNostr } from '@/providers/NostrProvider'
-import { Globe, UsersRound } from 'lucide-react'
+import { useSavedSearches } from '@/providers/SavedSearchesProvider'
+import { Globe, Search, UsersRound } from 'lucide-react'
 import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import RelayIcon from '../RelayIcon'
@@ -18,6 +19,7 @@ export default function FeedSwitcher({ close }: { close?: () => void }) {
   const { relaySets, favoriteRelays } = useFavoriteRelays()
   const { communitySets, favoriteDomains } = useNip05Communities()
   const { feedInfo, switchFeed } = useFeed()
+  const { savedSearches } = useSavedSearches()
 
   // Extract user's NIP-05 domain
   const userDomain = pubkey && profile?.nip05 ? profile.nip05.split('@')[1]?.toLowerCase().trim() : null
@@ -48,6 +50,26 @@ export default function FeedSwitcher({ close }: { close?: () => void }) {
         </FeedSwitcherItem>
       )}
 
+      {savedSearches
+        .filter((savedSearch) => savedSearch.pinned)
+        .map((savedSearch) => (
+          <FeedSwitcherItem
+            key={savedSearch.id}
+            isActive={feedInfo.feedType === 'search' && feedInfo.id === savedSearch.id}
+            onClick={() => {
+              switchFeed('search', { savedSearchId: savedSearch.id })
+              close?.()
+            }}
+          >
+            <div className="flex gap-2 items-center w-full">
+              <div className="flex justify-center items-center w-6 h-6 shrink-0">
+                <Search className="size-4" />
+              </div>
+              <div className="flex-1 w-0 truncate">{savedSearch.query}</div>
+            </div>
+          </FeedSwitcherItem>
+        ))}
+
       {/* Mode Toggle */}
       <div className="flex gap-2 p-1 bg-muted rounded-lg">
         <Button
@@ -68,7 +90,16 @@ export default function FeedSwitcher({ close }: { close?: () => void }) {
         </Button>
       </div>
 
-      <div className="flex justify-end items-center text-sm">
+      <div className="flex justify-end items-center gap-4 text-sm">
+        {pubkey && (
+          <SecondaryPageLink
+            to={toFeedCoverage()}
+            className="text-primary font-semibold"
+            onClick={() => close?.()}
+          >
+            {t('Feed coverage')}
+          </SecondaryPageLink>
+        )}
         <SecondaryPageLink
           to={toRelaySettings()}
           className="text-primary font-semibold"
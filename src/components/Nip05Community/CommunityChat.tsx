@@ -0,0 +1,197 @@
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Textarea } from '@/components/ui/textarea'
+import { ExtendedKind } from '@/constants'
+import { getCommunityChatLocation } from '@/lib/community'
+import { createCommunityChatMessageDraftEvent } from '@/lib/draft-event'
+import { useNostr } from '@/providers/NostrProvider'
+import client from '@/services/client.service'
+import { TCommunityChat } from '@/types'
+import { Info, Loader, SendHorizontal } from 'lucide-react'
+import { Event, kinds } from 'nostr-tools'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import Content from '../Content'
+import { FormattedTimestamp } from '../FormattedTimestamp'
+import GroupMetadata from '../Note/GroupMetadata'
+import UserAvatar from '../UserAvatar'
+import Username from '../Username'
+
+const LIMIT = 200
+
+export default function CommunityChat({
+  domain,
+  members,
+  chat
+}: {
+  domain: string
+  members: string[]
+  chat?: TCommunityChat
+}) {
+  const { t } = useTranslation()
+  const { pubkey, checkLogin, publish } = useNostr()
+  const { relayUrls, group, isRelayHosted } = useMemo(
+    () => getCommunityChatLocation(domain, chat),
+    [domain, chat?.relay, chat?.group]
+  )
+  const memberSet = useMemo(() => new Set(members), [members])
+  const [messages, setMessages] = useState<Event[]>([])
+  const [groupMetadataEvent, setGroupMetadataEvent] = useState<Event | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [text, setText] = useState('')
+  const [sending, setSending] = useState(false)
+  const bottomRef = useRef<HTMLDivElement | null>(null)
+  const isMember = !!pubkey && memberSet.has(pubkey)
+
+  useEffect(() => {
+    setMessages([])
+    setIsLoading(true)
+
+    // Anyone can read, but only messages from verified domain members are shown
+    const subCloser = client.subscribe(
+      relayUrls,
+      { kinds: [kinds.ChatMessage], '#h': [group], limit: LIMIT },
+      {
+        onevent: (evt) => {
+          if (!memberSet.has(evt.pubkey)) return
+          setMessages((prev) => {
+            if (prev.some((e) => e.id === evt.id)) return prev
+            return [...prev, evt].sort((a, b) => a.created_at - b.created_at)
+          })
+        },
+        oneose: (eosed) => {
+          if (eosed) {
+            setIsLoading(false)
+          }
+        }
+      }
+    )
+
+    return () => subCloser.close()
+  }, [relayUrls, group, memberSet])
+
+  useEffect(() => {
+    setGroupMetadataEvent(null)
+    if (!isRelayHosted) return
+
+    // Group metadata is signed by the relay hosting the group
+    client
+      .fetchEvents(relayUrls, { kinds: [ExtendedKind.GROUP_METADATA], '#d': [group] })
+      .then((events) => {
+        if (events.length === 0) return
+        setGroupMetadataEvent(events.reduce((a, b) => (a.created_at > b.created_at ? a : b)))
+      })
+      .catch((error) => {
+        console.error('Error fetching group metadata:', error)
+      })
+  }, [relayUrls, group, isRelayHosted])
+
+  useEffect(() => {
+    if (isLoading) return
+    bottomRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [messages.length, isLoading])
+
+  const handleSend = async () => {
+    if (!text.trim() || sending) return
+
+    setSending(true)
+    try {
+      const draftEvent = createCommunityChatMessageDraftEvent(domain, group, text)
+      await publish(draftEvent, { specifiedRelayUrls: relayUrls })
+      setText('')
+    } catch (error) {
+      const errors = error instanceof AggregateError ? error.errors : [error]
+      errors.forEach((err) => {
+        toast.error(
+          `${t('Failed to send message')}: ${err instanceof Error ? err.message : String(err)}`
+        )
+        console.error(err)
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col min-h-[50vh]">
+      {groupMetadataEvent && <GroupMetadata className="p-4 border-b" event={groupMetadataEvent} />}
+      <div className="flex-1">
+        {isLoading && messages.length === 0 ? (
+          Array.from({ length: 3 }).map((_, i) => <ChatMessageSkeleton key={i} />)
+        ) : messages.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">{t('No messages yet')}</div>
+        ) : (
+          messages.map((message) => <ChatMessage key={message.id} event={message} />)
+        )}
+        <div ref={bottomRef} />
+      </div>
+      <div className="sticky bottom-0 border-t bg-background p-2">
+        {isMember ? (
+          <div className="flex items-end gap-2">
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                  e.preventDefault()
+                  handleSend()
+                }
+              }}
+              placeholder={t('Write a message...')}
+              className="min-h-10 resize-none"
+              rows={1}
+              dir="auto"
+            />
+            <Button size="icon" disabled={!text.trim() || sending} onClick={handleSend}>
+              {sending ? <Loader className="animate-spin" /> : <SendHorizontal />}
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 px-2 py-1 text-sm text-muted-foreground">
+            <Info className="w-4 h-4 shrink-0" />
+            <div className="flex-1">
+              {t('Only verified members of domain can post in the chat', { domain })}
+            </div>
+            {!pubkey && (
+              <Button variant="outline" size="sm" onClick={() => checkLogin()}>
+                {t('Login')}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function ChatMessage({ event }: { event: Event }) {
+  return (
+    <div className="flex gap-2 px-4 py-2">
+      <UserAvatar userId={event.pubkey} size="small" className="mt-0.5" />
+      <div className="flex-1 w-0">
+        <div className="flex items-center gap-2">
+          <Username userId={event.pubkey} className="font-semibold text-sm truncate" />
+          <FormattedTimestamp
+            timestamp={event.created_at}
+            short
+            className="shrink-0 text-xs text-muted-foreground"
+          />
+        </div>
+        <Content event={event} className="text-sm" />
+      </div>
+    </div>
+  )
+}
+
+function ChatMessageSkeleton() {
+  return (
+    <div className="flex gap-2 px-4 py-2">
+      <Skeleton className="w-7 h-7 rounded-full" />
+      <div className="flex-1 space-y-2">
+        <Skeleton className="h-3 w-24" />
+        <Skeleton className="h-4 w-48" />
+      </div>
+    </div>
+  )
+}
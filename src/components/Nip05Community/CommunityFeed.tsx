@@ -1,70 +1,81 @@
-import NoteList from '@/components/NoteList'
-import { useKindFilter } from '@/providers/KindFilterProvider'
+import NoteList, { TNoteListRef } from '@/components/NoteList'
+import {
+  CommunityModerationProvider,
+  useCommunityModeration
+} from '@/providers/CommunityModerationProvider'
 import { useNostr } from '@/providers/NostrProvider'
 import client from '@/services/client.service'
 import { TFeedSubRequest } from '@/types'
-import { useEffect, useState } from 'react'
-import { RefreshButton } from '../RefreshButton'
-import KindFilter from '../KindFilter'
+import { forwardRef, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
 import { Skeleton } from '../ui/skeleton'
 
-export default function CommunityFeed({ domain, topSpace }: { domain: string; topSpace: number }) {
-  const { pubkey } = useNostr()
-  const { showKinds, updateShowKinds } = useKindFilter()
-  const [subRequests, setSubRequests] = useState<TFeedSubRequest[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+const CommunityFeed = forwardRef<TNoteListRef, { domain: string; showKinds: number[] }>(
+  ({ domain, showKinds }, ref) => {
+    return (
+      <CommunityModerationProvider domain={domain}>
+        <CommunityNoteList ref={ref} domain={domain} showKinds={showKinds} />
+      </CommunityModerationProvider>
+    )
+  }
+)
+CommunityFeed.displayName = 'CommunityFeed'
+export default CommunityFeed
+
+const CommunityNoteList = forwardRef<TNoteListRef, { domain: string; showKinds: number[] }>(
+  ({ domain, showKinds }, ref) => {
+    const { t } = useTranslation()
+    const { pubkey } = useNostr()
+    const communityModeration = useCommunityModeration()
+    const [subRequests, setSubRequests] = useState<TFeedSubRequest[]>([])
+    const [isLoading, setIsLoading] = useState(true)
 
-  useEffect(() => {
-    const init = async () => {
-      setIsLoading(true)
-      try {
-        // Generate subscription requests for this domain community
-        const requests = await client.generateSubRequestsForDomain(domain, pubkey)
-        setSubRequests(requests)
-      } catch (error) {
-        console.error('Error generating community feed requests:', error)
-        setSubRequests([])
-      } finally {
-        setIsLoading(false)
+    useEffect(() => {
+      const init = async () => {
+        setIsLoading(true)
+        try {
+          // Generate subscription requests for this domain community
+          const requests = await client.generateSubRequestsForDomain(domain, pubkey)
+          setSubRequests(requests)
+        } catch (error) {
+          console.error('Error generating community feed requests:', error)
+          setSubRequests([])
+        } finally {
+          setIsLoading(false)
+        }
       }
-    }
 
-    init()
-  }, [domain, pubkey])
+      init()
+    }, [domain, pubkey])
 
-  if (isLoading) {
-    return (
-      <div className="p-4">
-        <Skeleton className="h-24 mb-2" />
-        <Skeleton className="h-24 mb-2" />
-        <Skeleton className="h-24 mb-2" />
-      </div>
-    )
-  }
+    if (isLoading) {
+      return (
+        <div className="p-4">
+          <Skeleton className="h-24 mb-2" />
+          <Skeleton className="h-24 mb-2" />
+          <Skeleton className="h-24 mb-2" />
+        </div>
+      )
+    }
 
-  if (subRequests.length === 0) {
-    return (
-      <div className="p-4 text-center text-muted-foreground">
-        No members found for this community
-      </div>
-    )
-  }
+    if (subRequests.length === 0) {
+      return (
+        <div className="p-4 text-center text-muted-foreground">
+          {t('No members found for this community')}
+        </div>
+      )
+    }
 
-  return (
-    <>
-      <div
-        className="sticky bg-background z-20 flex justify-between items-center px-4 py-2 border-b"
-        style={{ top: `${topSpace}px` }}
-      >
-        <KindFilter showKinds={showKinds} onShowKindsChange={updateShowKinds} />
-        <RefreshButton onClick={() => window.location.reload()} />
-      </div>
+    return (
       <NoteList
+        ref={ref}
         subRequests={subRequests}
         showKinds={showKinds}
+        pinnedEventIds={communityModeration?.pinnedEventIds}
         filterMutedNotes
         hideUntrustedNotes
       />
-    </>
-  )
-}
+    )
+  }
+)
+CommunityNoteList.displayName = 'CommunityNoteList'
@@ -0,0 +1,246 @@
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle
+} from '@/components/ui/drawer'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { toCommunityZapReceipts } from '@/lib/link'
+import { splitZapAmount } from '@/lib/lightning'
+import { useSecondaryPage } from '@/PageManager'
+import { useNostr } from '@/providers/NostrProvider'
+import { useScreenSize } from '@/providers/ScreenSizeProvider'
+import { useZap } from '@/providers/ZapProvider'
+import communityZapService from '@/services/community-zap.service'
+import userActivityService from '@/services/user-activity.service'
+import { TCommunityZapLeg, TZapSplit } from '@/types'
+import { History, Zap } from 'lucide-react'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import ZapSplitLegs, { TZapSplitLeg } from '../ZapDialog/ZapSplitLegs'
+
+const MAX_MEMBER_COUNT = 10
+
+export default function CommunityZapButton({
+  domain,
+  admins,
+  members
+}: {
+  domain: string
+  admins: string[]
+  members: string[]
+}) {
+  const { t } = useTranslation()
+  const { isSmallScreen } = useScreenSize()
+  const { checkLogin } = useNostr()
+  const [open, setOpen] = useState(false)
+
+  const title = t('Zap this community')
+  const description = t('Split a zap between the admins and the most active members')
+  const content = (
+    <CommunityZapContent domain={domain} admins={admins} members={members} setOpen={setOpen} />
+  )
+
+  return (
+    <>
+      <Button variant="outline" className="gap-2" onClick={() => checkLogin(() => setOpen(true))}>
+        <Zap className="w-4 h-4" />
+        {t('Zap')}
+      </Button>
+      {isSmallScreen ? (
+        <Drawer open={open} onOpenChange={setOpen}>
+          <DrawerContent className="px-4 pb-4">
+            <DrawerHeader>
+              <DrawerTitle>{title}</DrawerTitle>
+              <DrawerDescription>{description}</DrawerDescription>
+            </DrawerHeader>
+            {open && content}
+          </DrawerContent>
+        </Drawer>
+      ) : (
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{title}</DialogTitle>
+              <DialogDescription>{description}</DialogDescription>
+            </DialogHeader>
+            {open && content}
+          </DialogContent>
+        </Dialog>
+      )}
+    </>
+  )
+}
+
+function CommunityZapContent({
+  domain,
+  admins,
+  members,
+  setOpen
+}: {
+  domain: string
+  admins: string[]
+  members: string[]
+  setOpen: (open: boolean) => void
+}) {
+  const { t } = useTranslation()
+  const { push } = useSecondaryPage()
+  const { pubkey } = useNostr()
+  const { defaultZapSats, defaultZapComment } = useZap()
+  const [sats, setSats] = useState(defaultZapSats)
+  const [comment, setComment] = useState(defaultZapComment)
+  const [adminShare, setAdminShare] = useState(50)
+  const [memberCount, setMemberCount] = useState(5)
+  const [topMembers, setTopMembers] = useState<string[]>([])
+
+  useEffect(() => {
+    const candidates = members.filter((member) => !admins.includes(member))
+    userActivityService
+      .getTopActiveMembers(candidates, MAX_MEMBER_COUNT)
+      .then((activities) => {
+        // Fall back to the member list order when no activity stats are available
+        setTopMembers(
+          activities.length
+            ? activities.map(({ pubkey }) => pubkey)
+            : candidates.slice(0, MAX_MEMBER_COUNT)
+        )
+      })
+      .catch(() => setTopMembers(candidates.slice(0, MAX_MEMBER_COUNT)))
+  }, [domain])
+
+  const legs = useMemo(() => {
+    const selectedMembers = topMembers.slice(0, memberCount)
+    const adminWeight = selectedMembers.length ? adminShare : 100
+    const memberWeight = admins.length ? 100 - adminShare : 100
+    const splits: TZapSplit[] = [
+      ...admins.map((admin) => ({ pubkey: admin, weight: adminWeight / admins.length })),
+      ...selectedMembers.map((member) => ({
+        pubkey: member,
+        weight: memberWeight / selectedMembers.length
+      }))
+    ]
+    return splitZapAmount(sats, splits).map(
+      (leg): Pick<TCommunityZapLeg, 'pubkey' | 'role' | 'sats'> => ({
+        ...leg,
+        role: admins.includes(leg.pubkey) ? 'admin' : 'member'
+      })
+    )
+  }, [sats, admins, topMembers, memberCount, adminShare])
+
+  const handleZap = async () => {
+    if (!pubkey || !legs.length) return
+
+    // Payment modals may pop up for every leg, so progress is reported in a toast
+    setOpen(false)
+    const progressLegs: TZapSplitLeg[] = legs.map((leg) => ({ ...leg }))
+    const toastId = toast.loading(t('Zapping community...'), {
+      description: <ZapSplitLegs legs={progressLegs} />
+    })
+
+    const receipt = await communityZapService.zap(pubkey, domain, legs, comment, (index, leg) => {
+      progressLegs[index] = leg ?? { ...progressLegs[index], status: 'paying' }
+      toast.loading(t('Zapping community...'), {
+        id: toastId,
+        description: <ZapSplitLegs legs={[...progressLegs]} />
+      })
+    })
+
+    const successCount = receipt.legs.filter(({ status }) => status === 'success').length
+    const options = {
+      id: toastId,
+      description: <ZapSplitLegs legs={receipt.legs} />,
+      duration: 10_000,
+      action: {
+        label: t('View receipts'),
+        onClick: () => push(toCommunityZapReceipts(domain))
+      }
+    }
+    if (successCount > 0) {
+      toast.success(
+        t('Zapped n of m recipients', { n: successCount, m: receipt.legs.length }),
+        options
+      )
+    } else {
+      toast.error(t('Zap failed'), options)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="community-zap-sats">{t('Sats')}</Label>
+          <Input
+            id="community-zap-sats"
+            type="number"
+            min={0}
+            value={sats}
+            onChange={(e) => setSats(Math.max(0, parseInt(e.target.value) || 0))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="community-zap-comment">{t('zapComment')}</Label>
+          <Input
+            id="community-zap-comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label>{t('Admin share ({{share}}%)', { share: adminShare })}</Label>
+        <Slider
+          value={[adminShare]}
+          onValueChange={([share]) => setAdminShare(share)}
+          max={100}
+          step={5}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <Label>{t('Active members ({{count}})', { count: memberCount })}</Label>
+        <Slider
+          value={[memberCount]}
+          onValueChange={([count]) => setMemberCount(count)}
+          min={0}
+          max={MAX_MEMBER_COUNT}
+          step={1}
+        />
+      </div>
+
+      <div className="max-h-60 overflow-y-auto">
+        <ZapSplitLegs legs={legs} />
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant="ghost"
+          onClick={() => {
+            setOpen(false)
+            push(toCommunityZapReceipts(domain))
+          }}
+        >
+          <History />
+          {t('Receipts')}
+        </Button>
+        <Button className="flex-1" disabled={!legs.length} onClick={handleZap}>
+          <Zap />
+          {t('Zap n sats', { n: legs.reduce((sum, leg) => sum + leg.sats, 0) })}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Skeleton } from '@/components/ui/skeleton'
+import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import {
@@ -11,29 +12,58 @@ import {
   DialogTitle
 } from '@/components/ui/dialog'
 import { Textarea } from '@/components/ui/textarea'
-import { TNip05Community } from '@/types'
-import { Globe, Users, UserPlus, Check, Info } from 'lucide-react'
-import { useEffect, useState } from 'react'
+import { TCommunityJoinDecision, TCommunityRole, TNip05Community } from '@/types'
+import {
+  Check,
+  Globe,
+  Info,
+  RadioTower,
+  ScrollText,
+  Shield,
+  UserPlus,
+  Users,
+  X
+} from 'lucide-react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNip05Communities } from '@/providers/Nip05CommunitiesProvider'
 import { useFollowList } from '@/providers/FollowListProvider'
 import NotFound from '../NotFound'
-import { useFetchProfile } from '@/hooks'
-import { toProfile } from '@/lib/link'
+import { useFetchCommunityRoles, useFetchNip05DomainInfo, useFetchProfile } from '@/hooks'
+import { toCommunityFeedCoverage, toProfile } from '@/lib/link'
 import { useSecondaryPage } from '@/PageManager'
 import { SimpleUserAvatar } from '../UserAvatar'
 import ProfileAbout from '../ProfileAbout'
 import Nip05 from '../Nip05'
 import { useNostr } from '@/providers/NostrProvider'
 import { createCommunityJoinRequestDraftEvent } from '@/lib/draft-event'
+import { getCommunityJoinDecisionFromEvent } from '@/lib/community'
+import { ExtendedKind } from '@/constants'
 import { toast } from 'sonner'
 import client from '@/services/client.service'
+import { useKindFilter } from '@/providers/KindFilterProvider'
+import { isTouchDevice } from '@/lib/utils'
+import { TNoteListRef } from '../NoteList'
+import Tabs from '../Tabs'
+import KindFilter from '../KindFilter'
+import { RefreshButton } from '../RefreshButton'
+import CommunityChat from './CommunityChat'
+import CommunityZapButton from './CommunityZapButton'
+import CommunityFeed from './CommunityFeed'
 
 export default function Nip05Community({ domain }: { domain?: string }) {
   const { t } = useTranslation()
+  const { push } = useSecondaryPage()
   const { getCommunity } = useNip05Communities()
   const [community, setCommunity] = useState<TNip05Community | null | undefined>(undefined)
   const [isLoading, setIsLoading] = useState(true)
+  const { domainInfo } = useFetchNip05DomainInfo(domain ? decodeURIComponent(domain) : undefined)
+  const { roles } = useFetchCommunityRoles(domain ? decodeURIComponent(domain) : undefined)
+  const { showKinds } = useKindFilter()
+  const [temporaryShowKinds, setTemporaryShowKinds] = useState(showKinds)
+  const [tab, setTab] = useState<'posts' | 'chat' | 'members'>('posts')
+  const supportTouch = useMemo(() => isTouchDevice(), [])
+  const noteListRef = useRef<TNoteListRef>(null)
 
   useEffect(() => {
     console.log('[Nip05Community] Received domain:', domain)
@@ -86,7 +116,13 @@ export default function Nip05Community({ domain }: { domain?: string }) {
     return <NotFound />
   }
 
-  const { name, icon, memberCount, members } = community
+  const { memberCount, members } = community
+  const name = domainInfo?.name || community.name
+  const icon = domainInfo?.icon || community.icon
+  const banner = domainInfo?.banner || community.banner
+  const description = domainInfo?.description || community.description
+  const categories = domainInfo?.categories || community.tags || []
+  const rules = domainInfo?.rules || []
 
   if (!members || members.length === 0) {
     return (
@@ -100,12 +136,24 @@ export default function Nip05Community({ domain }: { domain?: string }) {
     )
   }
 
-  // First member is the admin
-  const adminPubkey = members[0]
-  const otherMembers = members.slice(1)
+  // The first member is the owner; the role list can add more admins and moderators
+  const admins = roles?.admins.length ? roles.admins : members.slice(0, 1)
+  const moderators = roles?.moderators ?? []
+  const otherMembers = members.filter((pubkey) => !admins.includes(pubkey))
 
   return (
     <div className="pb-4">
+      {banner && (
+        <img
+          src={banner}
+          alt={name || domain}
+          className="w-full aspect-[3/1] object-cover"
+          onError={(e) => {
+            e.currentTarget.style.display = 'none'
+          }}
+        />
+      )}
+
       {/* Community Header */}
       <div className="p-6 border-b">
         <div className="flex items-start gap-4">
@@ -137,27 +185,127 @@ export default function Nip05Community({ domain }: { domain?: string }) {
               {memberCount || members.length} {t('members')}
             </p>
           </div>
-          <RequestToJoinButton domain={domain} adminPubkey={adminPubkey} members={members} />
+          <div className="flex flex-col items-end gap-2">
+            <RequestToJoinButton
+              domain={domain}
+              adminPubkeys={admins}
+              staffPubkeys={[...admins, ...moderators]}
+              members={members}
+            />
+            <CommunityZapButton
+              domain={decodeURIComponent(domain)}
+              admins={admins}
+              members={members}
+            />
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => push(toCommunityFeedCoverage(decodeURIComponent(domain)))}
+            >
+              <RadioTower className="w-4 h-4" />
+              {t('Feed coverage')}
+            </Button>
+          </div>
         </div>
+        {description && (
+          <p className="text-sm mt-4 whitespace-pre-wrap break-words" dir="auto">
+            {description}
+          </p>
+        )}
+        {categories.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {categories.map((category) => (
+              <Badge key={category} variant="secondary">
+                {category}
+              </Badge>
+            ))}
+          </div>
+        )}
       </div>
 
-      {/* Admin Profile */}
-      {adminPubkey && (
+      {/* Community Rules */}
+      {rules.length > 0 && (
+        <div className="p-6 border-b">
+          <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <ScrollText className="w-5 h-5" />
+            {t('Community Rules')}
+          </h2>
+          <ol className="list-decimal list-inside space-y-1 text-sm" dir="auto">
+            {rules.map((rule, index) => (
+              <li key={index}>{rule}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <Tabs
+        value={tab}
+        tabs={[
+          { value: 'posts', label: 'Posts' },
+          { value: 'chat', label: 'Chat' },
+          { value: 'members', label: 'Members' }
+        ]}
+        onTabChange={(tab) => setTab(tab as 'posts' | 'chat' | 'members')}
+        options={
+          tab === 'posts' && (
+            <>
+              {!supportTouch && <RefreshButton onClick={() => noteListRef.current?.refresh()} />}
+              <KindFilter
+                showKinds={temporaryShowKinds}
+                onShowKindsChange={(newShowKinds) => {
+                  setTemporaryShowKinds(newShowKinds)
+                  noteListRef.current?.scrollToTop('instant')
+                }}
+              />
+            </>
+          )
+        }
+      />
+
+      {tab === 'posts' && (
+        <CommunityFeed
+          ref={noteListRef}
+          domain={decodeURIComponent(domain)}
+          showKinds={temporaryShowKinds}
+        />
+      )}
+
+      {tab === 'chat' && (
+        <CommunityChat
+          domain={decodeURIComponent(domain)}
+          members={members}
+          chat={domainInfo?.chat}
+        />
+      )}
+
+      {/* Admin Profiles */}
+      {tab === 'members' && admins.length > 0 && (
         <div className="p-6 border-b">
-          <h2 className="text-lg font-semibold mb-4">{t('Community Admin')}</h2>
-          <AdminProfile pubkey={adminPubkey} />
+          <h2 className="text-lg font-semibold mb-4">
+            {admins.length > 1 ? t('Community Admins') : t('Community Admin')}
+          </h2>
+          <div className="space-y-2">
+            {admins.map((pubkey) => (
+              <AdminProfile key={pubkey} pubkey={pubkey} />
+            ))}
+          </div>
         </div>
       )}
 
       {/* Other Members */}
-      {otherMembers.length > 0 && (
+      {tab === 'members' && otherMembers.length > 0 && (
         <div className="p-6">
           <h2 className="text-lg font-semibold mb-4">
             {t('Members')} ({otherMembers.length})
           </h2>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
             {otherMembers.map((pubkey) => (
-              <MemberCard key={pubkey} pubkey={pubkey} domain={domain} />
+              <MemberCard
+                key={pubkey}
+                pubkey={pubkey}
+                domain={domain}
+                role={moderators.includes(pubkey) ? 'moderator' : undefined}
+              />
             ))}
           </div>
         </div>
@@ -278,7 +426,15 @@ function AdminProfile({ pubkey }: { pubkey: string }) {
   )
 }
 
-function MemberCard({ pubkey, domain }: { pubkey: string; domain: string }) {
+function MemberCard({
+  pubkey,
+  domain,
+  role
+}: {
+  pubkey: string
+  domain: string
+  role?: TCommunityRole
+}) {
   const { push } = useSecondaryPage()
   const { profile, isFetching } = useFetchProfile(pubkey)
 
@@ -304,7 +460,10 @@ function MemberCard({ pubkey, domain }: { pubkey: string; domain: string }) {
     >
       <SimpleUserAvatar userId={pubkey} className="w-12 h-12" />
       <div className="flex-1 min-w-0">
-        <div className="font-medium truncate">{displayName}</div>
+        <div className="flex items-center gap-2">
+          <div className="font-medium truncate">{displayName}</div>
+          {role && <CommunityRoleBadge role={role} />}
+        </div>
         {nip05 && (
           <div className="text-xs text-muted-foreground truncate">
             {nip05.endsWith(`@${domain}`) ? nip05.replace(`@${domain}`, '') : nip05}@{domain}
@@ -318,17 +477,39 @@ function MemberCard({ pubkey, domain }: { pubkey: string; domain: string }) {
   )
 }
 
-function RequestToJoinButton({ domain, adminPubkey, members }: { domain: string; adminPubkey: string; members: string[] }) {
+function CommunityRoleBadge({ role }: { role: TCommunityRole }) {
+  const { t } = useTranslation()
+
+  return (
+    <Badge variant="secondary" className="shrink-0 gap-1 px-1.5 py-0 text-xs">
+      <Shield className="w-3 h-3" />
+      {role === 'admin' ? t('Admin') : t('Moderator')}
+    </Badge>
+  )
+}
+
+function RequestToJoinButton({
+  domain,
+  adminPubkeys,
+  staffPubkeys,
+  members
+}: {
+  domain: string
+  adminPubkeys: string[]
+  staffPubkeys: string[]
+  members: string[]
+}) {
   const { t } = useTranslation()
   const { pubkey, checkLogin, profile, publish } = useNostr()
   const { followingSet } = useFollowList()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [hasRequested, setHasRequested] = useState(false)
+  const [decision, setDecision] = useState<TCommunityJoinDecision | null>(null)
   const [showPreviewDialog, setShowPreviewDialog] = useState(false)
   const [requestMessage, setRequestMessage] = useState('')
 
-  // Check if user is the admin (first pubkey in members list)
-  const isAdmin = pubkey === adminPubkey
+  // Check if user is one of the community admins
+  const isAdmin = pubkey ? adminPubkeys.includes(pubkey) : false
 
   // Check if user is already a member (by pubkey in nostr.json)
   const isAlreadyMember = pubkey ? members.includes(pubkey) : false
@@ -337,8 +518,8 @@ function RequestToJoinButton({ domain, adminPubkey, members }: { domain: string;
   const userNip05Domain = profile?.nip05?.split('@')[1]
   const hasNip05Set = userNip05Domain === domain
 
-  // Check if user follows the admin
-  const isFollowingAdmin = followingSet.has(adminPubkey)
+  // Check if user follows anyone who can review the request
+  const isFollowingAdmin = staffPubkeys.some((staffPubkey) => followingSet.has(staffPubkey))
 
   useEffect(() => {
     // Check if user has already sent a request
@@ -356,10 +537,20 @@ function RequestToJoinButton({ domain, adminPubkey, members }: { domain: string;
         if (events && events.length > 0) {
           setHasRequested(true)
 
-          // TODO: Phase 5 - Check if request has been approved
-          // We could periodically check if the user now appears in nostr.json
-          // and show a notification/badge when they've been approved
-          // For now, users can manually check the community page
+          // Check whether the admin has answered the latest request
+          const latestRequest = events.reduce((a, b) => (a.created_at > b.created_at ? a : b))
+          const decisionEvents = await client.fetchEvents([], {
+            kinds: [ExtendedKind.COMMUNITY_JOIN_DECISION],
+            authors: staffPubkeys,
+            '#d': [`${domain}:${pubkey}`]
+          })
+          const latestDecision = decisionEvents
+            .map((event) => getCommunityJoinDecisionFromEvent(event))
+            .filter((d): d is TCommunityJoinDecision => !!d)
+            .sort((a, b) => b.created_at - a.created_at)[0]
+          if (latestDecision && latestDecision.created_at >= latestRequest.created_at) {
+            setDecision(latestDecision)
+          }
         }
       } catch (error) {
         console.error('Error checking existing request:', error)
@@ -367,7 +558,7 @@ function RequestToJoinButton({ domain, adminPubkey, members }: { domain: string;
     }
 
     checkExistingRequest()
-  }, [pubkey, domain])
+  }, [pubkey, domain, staffPubkeys.join(',')])
 
   const handleRequestToJoinClick = () => {
     checkLogin(() => {
@@ -383,16 +574,12 @@ function RequestToJoinButton({ domain, adminPubkey, members }: { domain: string;
 
     try {
       // Create the join request draft event
-      const draftEvent = createCommunityJoinRequestDraftEvent(
-        domain,
-        adminPubkey,
-        requestMessage
-      )
-
-      // Get admin's write relays for targeting
-      const adminRelayList = await client.fetchRelayList(adminPubkey)
+      const draftEvent = createCommunityJoinRequestDraftEvent(domain, staffPubkeys, requestMessage)
+
+      // Get the write relays of admins and moderators for targeting
+      const staffRelayLists = await client.fetchRelayLists(staffPubkeys)
       const targetRelays = [
-        ...(adminRelayList?.write || []),
+        ...staffRelayLists.flatMap((relayList) => relayList.write.slice(0, 4)),
         'wss://relay.damus.io',
         'wss://relay.primal.net',
         'wss://nos.lol'
@@ -404,6 +591,7 @@ function RequestToJoinButton({ domain, adminPubkey, members }: { domain: string;
       })
 
       setHasRequested(true)
+      setDecision(null)
       toast.success(t('Join request sent!'))
       if (!isFollowingAdmin) {
         toast.info(t('Make sure the admin follows you to see your request'))
@@ -435,6 +623,37 @@ function RequestToJoinButton({ domain, adminPubkey, members }: { domain: string;
     )
   }
 
+  if (hasRequested && decision?.status === 'approved') {
+    return (
+      <div className="flex flex-col items-end gap-2">
+        <Button variant="outline" disabled className="gap-2">
+          <Check className="w-4 h-4" />
+          {t('Request Approved')}
+        </Button>
+        <Alert className="max-w-sm">
+          <Info className="h-4 w-4" />
+          <AlertDescription className="text-xs">
+            {t('The admin approved your request. You will appear as a member once they publish the updated nostr.json.')}
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  if (hasRequested && decision?.status === 'rejected') {
+    return (
+      <div className="flex flex-col items-end gap-2">
+        <Button variant="outline" disabled className="gap-2">
+          <X className="w-4 h-4" />
+          {t('Request Declined')}
+        </Button>
+        {decision.reason && (
+          <div className="max-w-sm text-xs text-muted-foreground italic">"{decision.reason}"</div>
+        )}
+      </div>
+    )
+  }
+
   if (hasRequested) {
     return (
       <div className="flex flex-col items-end gap-2">
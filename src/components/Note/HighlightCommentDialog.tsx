@@ -0,0 +1,132 @@
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle
+} from '@/components/ui/drawer'
+import { Textarea } from '@/components/ui/textarea'
+import { createHighlightDraftEvent } from '@/lib/draft-event'
+import { useNostr } from '@/providers/NostrProvider'
+import { useScreenSize } from '@/providers/ScreenSizeProvider'
+import { Loader } from 'lucide-react'
+import { Event } from 'nostr-tools'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { TSelectedText } from './HighlightableContent'
+
+export default function HighlightCommentDialog({
+  event,
+  selected,
+  closeDialog
+}: {
+  event: Event
+  selected: TSelectedText
+  closeDialog: () => void
+}) {
+  const { t } = useTranslation()
+  const { isSmallScreen } = useScreenSize()
+
+  if (isSmallScreen) {
+    return (
+      <Drawer
+        open
+        onOpenChange={(open) => {
+          if (!open) {
+            closeDialog()
+          }
+        }}
+      >
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle>{t('Highlight with comment')}</DrawerTitle>
+            <DrawerDescription className="hidden" />
+          </DrawerHeader>
+          <div className="p-4">
+            <HighlightCommentContent event={event} selected={selected} closeDialog={closeDialog} />
+          </div>
+        </DrawerContent>
+      </Drawer>
+    )
+  }
+
+  return (
+    <Dialog
+      open
+      onOpenChange={(open) => {
+        if (!open) {
+          closeDialog()
+        }
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('Highlight with comment')}</DialogTitle>
+          <DialogDescription className="hidden" />
+        </DialogHeader>
+        <HighlightCommentContent event={event} selected={selected} closeDialog={closeDialog} />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function HighlightCommentContent({
+  event,
+  selected,
+  closeDialog
+}: {
+  event: Event
+  selected: TSelectedText
+  closeDialog: () => void
+}) {
+  const { t } = useTranslation()
+  const { publish } = useNostr()
+  const [comment, setComment] = useState('')
+  const [publishing, setPublishing] = useState(false)
+
+  const handlePublish = async () => {
+    setPublishing(true)
+    try {
+      await publish(
+        createHighlightDraftEvent(selected.text, event, {
+          comment: comment.trim(),
+          context: selected.context
+        })
+      )
+      toast.success(t('Highlight published'))
+      closeDialog()
+    } catch (error) {
+      toast.error(`${t('Failed to publish highlight')}: ${(error as Error).message}`)
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex gap-4">
+        <div className="w-1 flex-shrink-0 my-1 bg-primary/60 rounded-md" />
+        <div className="italic whitespace-pre-line line-clamp-6">{selected.text}</div>
+      </div>
+      <Textarea
+        placeholder={t('Write a comment...')}
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        rows={4}
+      />
+      <Button className="w-full" disabled={publishing || !comment.trim()} onClick={handlePublish}>
+        {publishing && <Loader className="animate-spin" />}
+        {t('Publish')}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+import { Button } from '@/components/ui/button'
+import { createHighlightDraftEvent } from '@/lib/draft-event'
+import { useNostr } from '@/providers/NostrProvider'
+import { Highlighter, MessageSquareQuote } from 'lucide-react'
+import { Event, kinds } from 'nostr-tools'
+import { useEffect, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import HighlightCommentDialog from './HighlightCommentDialog'
+
+export type TSelectedText = {
+  text: string
+  context?: string
+}
+
+export default function HighlightableContent({
+  event,
+  children
+}: {
+  event: Event
+  children: React.ReactNode
+}) {
+  const { t } = useTranslation()
+  const { publish, checkLogin } = useNostr()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [selected, setSelected] = useState<(TSelectedText & { rect: DOMRect }) | null>(null)
+  const [commenting, setCommenting] = useState<TSelectedText | null>(null)
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const updateSelection = () => {
+      const selection = window.getSelection()
+      const container = containerRef.current
+      if (!selection || selection.isCollapsed || !selection.rangeCount || !container) {
+        setSelected(null)
+        return
+      }
+
+      const range = selection.getRangeAt(0)
+      const text = selection.toString().trim()
+      if (!text || !container.contains(range.commonAncestorContainer)) {
+        setSelected(null)
+        return
+      }
+
+      // The surrounding paragraph, or the whole note since short notes have no paragraphs
+      const ancestor = range.commonAncestorContainer
+      const block = (ancestor instanceof Element ? ancestor : ancestor.parentElement)?.closest(
+        'p, li, blockquote, pre, h1, h2, h3, h4, h5, h6'
+      )
+      const context =
+        block && container.contains(block)
+          ? block.textContent?.trim()
+          : event.kind === kinds.LongFormArticle
+            ? undefined
+            : event.content.trim()
+
+      setSelected({ text, context, rect: range.getBoundingClientRect() })
+    }
+
+    const handleChange = () => {
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(updateSelection, 200)
+    }
+
+    document.addEventListener('selectionchange', handleChange)
+    window.addEventListener('scroll', handleChange, true)
+    return () => {
+      if (timer) clearTimeout(timer)
+      document.removeEventListener('selectionchange', handleChange)
+      window.removeEventListener('scroll', handleChange, true)
+    }
+  }, [event])
+
+  const handleHighlight = () => {
+    if (!selected) return
+
+    const { text, context } = selected
+    checkLogin(async () => {
+      try {
+        await publish(createHighlightDraftEvent(text, event, { context }))
+        window.getSelection()?.removeAllRanges()
+        toast.success(t('Highlight published'))
+      } catch (error) {
+        toast.error(`${t('Failed to publish highlight')}: ${(error as Error).message}`)
+      }
+    })
+  }
+
+  const handleHighlightWithComment = () => {
+    if (!selected) return
+
+    const { text, context } = selected
+    checkLogin(() => {
+      setCommenting({ text, context })
+      window.getSelection()?.removeAllRanges()
+    })
+  }
+
+  return (
+    <div ref={containerRef}>
+      {children}
+      {selected &&
+        createPortal(
+          <div
+            className="fixed z-50 flex gap-1 p-1 rounded-lg border bg-background shadow-lg -translate-x-1/2"
+            style={{
+              top: selected.rect.bottom + 8,
+              left: selected.rect.left + selected.rect.width / 2
+            }}
+            // Keep the selection when clicking the buttons
+            onMouseDown={(e) => e.preventDefault()}
+          >
+            <Button variant="ghost" size="sm" onClick={handleHighlight}>
+              <Highlighter />
+              {t('Highlight')}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleHighlightWithComment}>
+              <MessageSquareQuote />
+              {t('Highlight with comment')}
+            </Button>
+          </div>,
+          document.body
+        )}
+      {commenting && (
+        <HighlightCommentDialog
+          event={event}
+          selected={commenting}
+          closeDialog={() => setCommenting(null)}
+        />
+      )}
+    </div>
+  )
+}
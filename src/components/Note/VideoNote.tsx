@@ -1,14 +1,25 @@
-import { getImetaInfosFromEvent } from '@/lib/event'
+import { getImetaInfosFromEvent, isReplaceableEvent } from '@/lib/event'
+import { tagNameEquals } from '@/lib/tag'
 import { Event } from 'nostr-tools'
 import { useMemo } from 'react'
 import Content from '../Content'
 import MediaPlayer from '../MediaPlayer'
 
 export default function VideoNote({ event, className }: { event: Event; className?: string }) {
-  const videoInfos = useMemo(() => getImetaInfosFromEvent(event), [event])
+  const isAddressable = isReplaceableEvent(event.kind)
+  const videoInfos = useMemo(() => {
+    const infos = getImetaInfosFromEvent(event)
+    // The imeta tags of addressable videos are variants of the same video
+    return isAddressable ? infos.slice(0, 1) : infos
+  }, [event, isAddressable])
+  const title = useMemo(
+    () => (isAddressable ? event.tags.find(tagNameEquals('title'))?.[1] : undefined),
+    [event, isAddressable]
+  )
 
   return (
     <div className={className}>
+      {title && <div className="text-lg font-semibold break-words">{title}</div>}
       <Content event={event} />
       {videoInfos.map((video) => (
         <MediaPlayer src={video.url} key={video.url} className="mt-2" />
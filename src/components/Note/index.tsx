@@ -1,6 +1,6 @@
 import { useSecondaryPage } from '@/PageManager'
 import { ExtendedKind, SUPPORTED_KINDS } from '@/constants'
-import { getParentBech32Id, isNsfwEvent } from '@/lib/event'
+import { getParentBech32Id, isNsfwEvent, isVideoEvent } from '@/lib/event'
 import { toNote } from '@/lib/link'
 import { useContentPolicy } from '@/providers/ContentPolicyProvider'
 import { useMuteList } from '@/providers/MuteListProvider'
@@ -14,13 +14,16 @@ import FollowingBadge from '../FollowingBadge'
 import { FormattedTimestamp } from '../FormattedTimestamp'
 import Nip05 from '../Nip05'
 import NoteOptions from '../NoteOptions'
+import OutboxBadge from '../OutboxBadge'
 import ParentNotePreview from '../ParentNotePreview'
+import PublishReceipt from '../PublishReceipt'
 import TranslateButton from '../TranslateButton'
 import UserAvatar from '../UserAvatar'
 import Username from '../Username'
 import CommunityDefinition from './CommunityDefinition'
 import GroupMetadata from './GroupMetadata'
 import Highlight from './Highlight'
+import HighlightableContent from './HighlightableContent'
 import IValue from './IValue'
 import LiveEvent from './LiveEvent'
 import LongFormArticle from './LongFormArticle'
@@ -77,7 +80,9 @@ export default function Note({
     content = <Highlight className="mt-2" event={event} />
   } else if (event.kind === kinds.LongFormArticle) {
     content = showFull ? (
-      <LongFormArticle className="mt-2" event={event} />
+      <HighlightableContent event={event}>
+        <LongFormArticle className="mt-2" event={event} />
+      </HighlightableContent>
     ) : (
       <LongFormArticlePreview className="mt-2" event={event} />
     )
@@ -98,12 +103,18 @@ export default function Note({
     content = <AudioPlayer className="mt-2" src={event.content} />
   } else if (event.kind === ExtendedKind.PICTURE) {
     content = <PictureNote className="mt-2" event={event} />
-  } else if (event.kind === ExtendedKind.VIDEO || event.kind === ExtendedKind.SHORT_VIDEO) {
+  } else if (isVideoEvent(event)) {
     content = <VideoNote className="mt-2" event={event} />
   } else if (event.kind === ExtendedKind.RELAY_REVIEW) {
     content = <RelayReview className="mt-2" event={event} />
   } else {
-    content = <Content className="mt-2" event={event} />
+    content = showFull ? (
+      <HighlightableContent event={event}>
+        <Content className="mt-2" event={event} />
+      </HighlightableContent>
+    ) : (
+      <Content className="mt-2" event={event} />
+    )
   }
 
   return (
@@ -120,6 +131,7 @@ export default function Note({
               />
               <FollowingBadge pubkey={event.pubkey} />
               <ClientTag event={event} />
+              <OutboxBadge event={event} />
             </div>
             <div className="flex items-center gap-1 text-sm text-muted-foreground">
               <Nip05 pubkey={event.pubkey} append="·" />
@@ -128,6 +140,7 @@ export default function Note({
                 className="shrink-0"
                 short={isSmallScreen}
               />
+              {size === 'normal' && <PublishReceipt event={event} className="truncate" />}
             </div>
           </div>
         </div>
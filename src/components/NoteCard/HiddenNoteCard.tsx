@@ -0,0 +1,39 @@
+import { Button } from '@/components/ui/button'
+import { Separator } from '@/components/ui/separator'
+import { EyeOff } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+export default function HiddenNoteCard({
+  reason,
+  className,
+  onShow
+}: {
+  reason?: string
+  className?: string
+  onShow: () => void
+}) {
+  const { t } = useTranslation()
+
+  return (
+    <div className={className}>
+      <div className="flex items-center gap-3 px-4 py-3 text-muted-foreground">
+        <EyeOff size={16} className="shrink-0" />
+        <div className="flex-1 w-0 text-sm">
+          <div>{t('Hidden by community moderators')}</div>
+          {reason && <div className="truncate">{t(reason)}</div>}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => {
+            e.stopPropagation()
+            onShow()
+          }}
+        >
+          {t('Show')}
+        </Button>
+      </div>
+      <Separator />
+    </div>
+  )
+}
@@ -9,11 +9,12 @@ import { useTranslation } from 'react-i18next'
 export default function PinnedButton({ event }: { event: NostrEvent }) {
   const { t } = useTranslation()
   const { pubkey } = useNostr()
-  const { unpin } = usePinList()
+  const { pinnedEventHexIdSet, unpin } = usePinList()
   const [hovered, setHovered] = useState(false)
   const [unpinning, setUnpinning] = useState(false)
 
-  if (event.pubkey !== pubkey) {
+  // Notes pinned by someone else (e.g. community moderators) can't be unpinned here
+  if (event.pubkey !== pubkey || !pinnedEventHexIdSet.has(event.id)) {
     return (
       <div className="flex gap-1 text-sm items-center text-primary mb-1 px-4 py-0 h-fit">
         <Pin size={16} className="shrink-0" />
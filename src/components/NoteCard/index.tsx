@@ -1,9 +1,11 @@
 import { Skeleton } from '@/components/ui/skeleton'
 import { isMentioningMutedUsers } from '@/lib/event'
+import { useCommunityModeration } from '@/providers/CommunityModerationProvider'
 import { useContentPolicy } from '@/providers/ContentPolicyProvider'
 import { useMuteList } from '@/providers/MuteListProvider'
 import { Event, kinds } from 'nostr-tools'
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
+import HiddenNoteCard from './HiddenNoteCard'
 import MainNoteCard from './MainNoteCard'
 import RepostNoteCard from './RepostNoteCard'
 
@@ -20,6 +22,8 @@ export default function NoteCard({
 }) {
   const { mutePubkeySet } = useMuteList()
   const { hideContentMentioningMutedUsers } = useContentPolicy()
+  const communityModeration = useCommunityModeration()
+  const [showHiddenByCommunity, setShowHiddenByCommunity] = useState(false)
   const shouldHide = useMemo(() => {
     if (filterMutedNotes && mutePubkeySet.has(event.pubkey)) {
       return true
@@ -31,6 +35,17 @@ export default function NoteCard({
   }, [event, filterMutedNotes, mutePubkeySet])
   if (shouldHide) return null
 
+  const moderation = communityModeration?.getModeration(event.id)
+  if (moderation?.action === 'hide' && !showHiddenByCommunity) {
+    return (
+      <HiddenNoteCard
+        reason={moderation.reason}
+        className={className}
+        onShow={() => setShowHiddenByCommunity(true)}
+      />
+    )
+  }
+
   if (event.kind === kinds.Repost) {
     return (
       <RepostNoteCard
@@ -1,5 +1,6 @@
 import NewNotesButton from '@/components/NewNotesButton'
 import { Button } from '@/components/ui/button'
+import { useOutbox } from '@/hooks'
 import {
   getReplaceableCoordinateFromEvent,
   isMentioningMutedUsers,
@@ -15,7 +16,7 @@ import { useUserTrust } from '@/providers/UserTrustProvider'
 import client from '@/services/client.service'
 import { TFeedSubRequest } from '@/types'
 import dayjs from 'dayjs'
-import { Event } from 'nostr-tools'
+import { Event, matchFilter } from 'nostr-tools'
 import { decode } from 'nostr-tools/nip19'
 import {
   forwardRef,
@@ -74,6 +75,7 @@ const NoteList = forwardRef(
     const [timelineKey, setTimelineKey] = useState<string | undefined>(undefined)
     const [refreshCount, setRefreshCount] = useState(0)
     const [showCount, setShowCount] = useState(SHOW_COUNT)
+    const outboxItems = useOutbox(pubkey)
     const supportTouch = useMemo(() => isTouchDevice(), [])
     const bottomRef = useRef<HTMLDivElement | null>(null)
     const topRef = useRef<HTMLDivElement | null>(null)
@@ -113,10 +115,22 @@ const NoteList = forwardRef(
       [hideReplies, hideUntrustedNotes, mutePubkeySet, pinnedEventIds, isEventDeleted, filterFn]
     )
 
+    // The user's notes still waiting in the outbox are shown where they would appear once published
+    const pendingEvents = useMemo(() => {
+      if (!pubkey || showKinds.length === 0) return []
+
+      return outboxItems
+        .map(({ event }) => event)
+        .filter((event) =>
+          subRequests.some(({ filter }) => matchFilter({ kinds: showKinds, ...filter }, event))
+        )
+        .sort((a, b) => b.created_at - a.created_at)
+    }, [pubkey, outboxItems, subRequests, showKinds])
+
     const filteredEvents = useMemo(() => {
       const idSet = new Set<string>()
 
-      return events.slice(0, showCount).filter((evt) => {
+      return pendingEvents.concat(events.slice(0, showCount)).filter((evt) => {
         if (shouldHideEvent(evt)) return false
 
         const id = isReplaceableEvent(evt.kind) ? getReplaceableCoordinateFromEvent(evt) : evt.id
@@ -126,7 +140,7 @@ const NoteList = forwardRef(
         idSet.add(id)
         return true
       })
-    }, [events, showCount, shouldHideEvent])
+    }, [pendingEvents, events, showCount, shouldHideEvent])
 
     const filteredNewEvents = useMemo(() => {
       const idSet = new Set<string>()
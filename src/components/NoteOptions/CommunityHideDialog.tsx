@@ -0,0 +1,136 @@
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle
+} from '@/components/ui/drawer'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { useCommunityModeration } from '@/providers/CommunityModerationProvider'
+import { useScreenSize } from '@/providers/ScreenSizeProvider'
+import { Loader } from 'lucide-react'
+import { NostrEvent } from 'nostr-tools'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+export default function CommunityHideDialog({
+  event,
+  isOpen,
+  closeDialog
+}: {
+  event: NostrEvent
+  isOpen: boolean
+  closeDialog: () => void
+}) {
+  const { isSmallScreen } = useScreenSize()
+
+  if (isSmallScreen) {
+    return (
+      <Drawer
+        open={isOpen}
+        onOpenChange={(open) => {
+          if (!open) {
+            closeDialog()
+          }
+        }}
+      >
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle className="hidden" />
+            <DrawerDescription className="hidden" />
+          </DrawerHeader>
+          <div className="p-4">
+            <CommunityHideContent event={event} closeDialog={closeDialog} />
+          </div>
+        </DrawerContent>
+      </Drawer>
+    )
+  }
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open) {
+          closeDialog()
+        }
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="hidden" />
+          <DialogDescription className="hidden" />
+        </DialogHeader>
+        <CommunityHideContent event={event} closeDialog={closeDialog} />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function CommunityHideContent({
+  event,
+  closeDialog
+}: {
+  event: NostrEvent
+  closeDialog: () => void
+}) {
+  const { t } = useTranslation()
+  const communityModeration = useCommunityModeration()
+  const [reason, setReason] = useState<string | null>(null)
+  const [hiding, setHiding] = useState(false)
+
+  const handleHide = async () => {
+    if (!reason || !communityModeration) return
+
+    try {
+      setHiding(true)
+      await communityModeration.moderate(event, 'hide', reason)
+      toast.success(t('Post hidden in community'))
+      closeDialog()
+    } catch (error) {
+      toast.error(
+        `${t('Failed to hide post')}: ${error instanceof Error ? error.message : String(error)}`
+      )
+      console.error(error)
+    } finally {
+      setHiding(false)
+    }
+  }
+
+  return (
+    <div className="w-full space-y-4">
+      <RadioGroup value={reason} onValueChange={setReason} className="space-y-2">
+        {['spam', 'off-topic', 'rule violation', 'other'].map((item) => (
+          <div key={item} className="flex items-center space-x-2">
+            <RadioGroupItem value={item} id={`community-hide-${item}`} />
+            <Label htmlFor={`community-hide-${item}`} className="text-base">
+              {t(item)}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+      <Button
+        variant="destructive"
+        className="w-full"
+        disabled={!reason || hiding}
+        onClick={(e) => {
+          e.stopPropagation()
+          handleHide()
+        }}
+      >
+        {hiding && <Loader className="animate-spin" />}
+        {t('Hide in community')}
+      </Button>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@ import { useScreenSize } from '@/providers/ScreenSizeProvider'
 import { Ellipsis } from 'lucide-react'
 import { Event } from 'nostr-tools'
 import { useState } from 'react'
+import CommunityHideDialog from './CommunityHideDialog'
 import { DesktopMenu } from './DesktopMenu'
 import { MobileMenu } from './MobileMenu'
 import RawEventDialog from './RawEventDialog'
@@ -12,6 +13,7 @@ export default function NoteOptions({ event, className }: { event: Event; classN
   const { isSmallScreen } = useScreenSize()
   const [isRawEventDialogOpen, setIsRawEventDialogOpen] = useState(false)
   const [isReportDialogOpen, setIsReportDialogOpen] = useState(false)
+  const [isCommunityHideDialogOpen, setIsCommunityHideDialogOpen] = useState(false)
   const [isDrawerOpen, setIsDrawerOpen] = useState(false)
   const [showSubMenu, setShowSubMenu] = useState(false)
   const [activeSubMenu, setActiveSubMenu] = useState<SubMenuAction[]>([])
@@ -38,6 +40,7 @@ export default function NoteOptions({ event, className }: { event: Event; classN
     showSubMenuActions,
     setIsRawEventDialogOpen,
     setIsReportDialogOpen,
+    setIsCommunityHideDialogOpen,
     isSmallScreen
   })
 
@@ -78,6 +81,11 @@ export default function NoteOptions({ event, className }: { event: Event; classN
         isOpen={isReportDialogOpen}
         closeDialog={() => setIsReportDialogOpen(false)}
       />
+      <CommunityHideDialog
+        event={event}
+        isOpen={isCommunityHideDialogOpen}
+        closeDialog={() => setIsCommunityHideDialogOpen(false)}
+      />
     </div>
   )
 }
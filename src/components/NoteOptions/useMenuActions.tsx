@@ -1,7 +1,10 @@
 import { getNoteBech32Id, isProtectedEvent } from '@/lib/event'
-import { toNjump } from '@/lib/link'
+import { toArticleEditor, toNjump } from '@/lib/link'
 import { pubkeyToNpub } from '@/lib/pubkey'
 import { simplifyUrl } from '@/lib/url'
+import { useSecondaryPage } from '@/PageManager'
+import { useBookmarks } from '@/providers/BookmarksProvider'
+import { useCommunityModeration } from '@/providers/CommunityModerationProvider'
 import { useCurrentRelays } from '@/providers/CurrentRelaysProvider'
 import { useFavoriteRelays } from '@/providers/FavoriteRelaysProvider'
 import { useMuteList } from '@/providers/MuteListProvider'
@@ -11,9 +14,14 @@ import client from '@/services/client.service'
 import {
   Bell,
   BellOff,
+  BookmarkCheck,
+  BookmarkPlus,
   Code,
   Copy,
+  Eye,
+  EyeOff,
   Link,
+  Pencil,
   Pin,
   PinOff,
   SatelliteDish,
@@ -48,6 +56,7 @@ interface UseMenuActionsProps {
   showSubMenuActions: (subMenu: SubMenuAction[], title: string) => void
   setIsRawEventDialogOpen: (open: boolean) => void
   setIsReportDialogOpen: (open: boolean) => void
+  setIsCommunityHideDialogOpen: (open: boolean) => void
   isSmallScreen: boolean
 }
 
@@ -57,10 +66,12 @@ export function useMenuActions({
   showSubMenuActions,
   setIsRawEventDialogOpen,
   setIsReportDialogOpen,
+  setIsCommunityHideDialogOpen,
   isSmallScreen
 }: UseMenuActionsProps) {
   const { t } = useTranslation()
   const { pubkey, attemptDelete } = useNostr()
+  const { push } = useSecondaryPage()
   const { relayUrls: currentBrowsingRelayUrls } = useCurrentRelays()
   const { relaySets, favoriteRelays } = useFavoriteRelays()
   const relayUrls = useMemo(() => {
@@ -68,6 +79,9 @@ export function useMenuActions({
   }, [currentBrowsingRelayUrls, favoriteRelays])
   const { mutePubkeyPublicly, mutePubkeyPrivately, unmutePubkey, mutePubkeySet } = useMuteList()
   const { pinnedEventHexIdSet, pin, unpin } = usePinList()
+  const communityModeration = useCommunityModeration()
+  const { getBookmarkType, addBookmark, removeBookmark } = useBookmarks()
+  const bookmarkType = useMemo(() => getBookmarkType(event), [getBookmarkType, event])
   const isMuted = useMemo(() => mutePubkeySet.has(event.pubkey), [mutePubkeySet, event])
 
   const broadcastSubMenu: SubMenuAction[] = useMemo(() => {
@@ -220,6 +234,65 @@ export function useMenuActions({
       })
     }
 
+    if (event.pubkey === pubkey && event.kind === kinds.LongFormArticle) {
+      actions.push({
+        icon: Pencil,
+        label: t('Edit article'),
+        onClick: () => {
+          closeDrawer()
+          push(toArticleEditor(event))
+        }
+      })
+    }
+
+    if (pubkey && bookmarkType !== 'public') {
+      const isPrivateBookmark = bookmarkType === 'private'
+      actions.push({
+        icon: isPrivateBookmark ? BookmarkCheck : BookmarkPlus,
+        label: isPrivateBookmark ? t('Remove private bookmark') : t('Bookmark privately'),
+        onClick: async () => {
+          closeDrawer()
+          try {
+            await (isPrivateBookmark ? removeBookmark(event) : addBookmark(event, true))
+          } catch (error) {
+            toast.error(t('Bookmark failed') + ': ' + (error as Error).message)
+          }
+        },
+        separator: true
+      })
+    }
+
+    if (communityModeration?.canModerate) {
+      const moderation = communityModeration.getModeration(event.id)
+      const pinned = moderation?.action === 'pin'
+      const hidden = moderation?.action === 'hide'
+      const moderate = (action: 'pin' | 'clear') => {
+        closeDrawer()
+        toast.promise(communityModeration.moderate(event, action), {
+          loading: t('Updating community...'),
+          success: t('Community updated'),
+          error: (err) => t('Failed to update community: {{error}}', { error: err.message })
+        })
+      }
+      actions.push(
+        {
+          icon: pinned ? PinOff : Pin,
+          label: pinned ? t('Unpin from community') : t('Pin in community'),
+          onClick: () => moderate(pinned ? 'clear' : 'pin'),
+          separator: true
+        },
+        {
+          icon: hidden ? Eye : EyeOff,
+          label: hidden ? t('Unhide in community') : t('Hide in community'),
+          onClick: () => {
+            if (hidden) return moderate('clear')
+            closeDrawer()
+            setIsCommunityHideDialogOpen(true)
+          }
+        }
+      )
+    }
+
     if (pubkey && event.pubkey !== pubkey) {
       actions.push({
         icon: TriangleAlert,
@@ -292,7 +365,10 @@ export function useMenuActions({
     isSmallScreen,
     broadcastSubMenu,
     pinnedEventHexIdSet,
+    communityModeration,
+    bookmarkType,
     closeDrawer,
+    push,
     showSubMenuActions,
     setIsRawEventDialogOpen,
     mutePubkeyPrivately,
@@ -0,0 +1,111 @@
+import NormalFeed from '@/components/NormalFeed'
+import { fetchPubkeyFromNip05 } from '@/lib/nip05'
+import {
+  buildSearchFilter,
+  getSearchRelayUrls,
+  matchSearchQuery,
+  parseSearchQuery,
+  TSearchQuery
+} from '@/lib/search-query'
+import { useNostr } from '@/providers/NostrProvider'
+import client from '@/services/client.service'
+import nip05CommunityService from '@/services/nip05-community.service'
+import { TFeedSubRequest } from '@/types'
+import { Event } from 'nostr-tools'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+export default function NoteSearchResult({
+  query,
+  isMainFeed = false
+}: {
+  query: string
+  isMainFeed?: boolean
+}) {
+  const { t } = useTranslation()
+  const { pubkey } = useNostr()
+  const searchQuery = useMemo(() => parseSearchQuery(query), [query])
+  const [resolvedQuery, setResolvedQuery] = useState<TSearchQuery>(searchQuery)
+  const [subRequests, setSubRequests] = useState<TFeedSubRequest[] | null>(null)
+  const filterFn = useCallback(
+    (event: Event) => matchSearchQuery(event, resolvedQuery),
+    [resolvedQuery]
+  )
+
+  useEffect(() => {
+    const init = async () => {
+      setSubRequests(null)
+
+      const [nip05Authors, nip05ExcludedAuthors] = await Promise.all(
+        [searchQuery.unresolvedAuthors, searchQuery.unresolvedExcludedAuthors].map((nip05s) =>
+          Promise.all(nip05s.map((nip05) => fetchPubkeyFromNip05(nip05)))
+        )
+      )
+      // An author that can't be found must never widen the search to everyone
+      if (nip05Authors.concat(nip05ExcludedAuthors).some((pubkey) => !pubkey)) {
+        setSubRequests([])
+        return
+      }
+      const query = {
+        ...searchQuery,
+        authors: searchQuery.authors.concat(nip05Authors as string[]),
+        excludedAuthors: searchQuery.excludedAuthors.concat(nip05ExcludedAuthors as string[])
+      }
+      setResolvedQuery(query)
+
+      let authors = query.authors.length ? query.authors : undefined
+      if (searchQuery.domains.length) {
+        const members = (
+          await Promise.all(
+            searchQuery.domains.map((domain) => nip05CommunityService.getDomainMembers(domain))
+          )
+        ).flat()
+        authors = authors ? authors.filter((author) => members.includes(author)) : members
+      }
+      if (authors?.length === 0) {
+        setSubRequests([])
+        return
+      }
+
+      const filter = buildSearchFilter(query, authors)
+      // Without search text there is no need for NIP-50 relays, read from the authors' outboxes
+      if (authors && !filter.search) {
+        const requests = await client.generateSubRequestsForPubkeys(authors, pubkey)
+        setSubRequests(
+          requests.map(({ urls, filter: authorsFilter }) => ({
+            urls,
+            filter: { ...filter, ...authorsFilter }
+          }))
+        )
+        return
+      }
+
+      setSubRequests([{ urls: getSearchRelayUrls(query), filter }])
+    }
+    init().catch((error) => {
+      console.error('Failed to build search requests', error)
+      setSubRequests([])
+    })
+  }, [searchQuery, pubkey])
+
+  if (!subRequests) {
+    return <div className="text-center text-sm text-muted-foreground">{t('loading...')}</div>
+  }
+
+  if (subRequests.length === 0) {
+    return (
+      <div className="text-center text-sm text-muted-foreground">
+        {t('No authors match this search')}
+      </div>
+    )
+  }
+
+  return (
+    <NormalFeed
+      subRequests={subRequests}
+      isMainFeed={isMainFeed}
+      filterFn={filterFn}
+      showRelayCloseReason
+    />
+  )
+}
@@ -0,0 +1,48 @@
+import { getCommunityJoinDecisionFromEvent } from '@/lib/community'
+import { toNip05Community } from '@/lib/link'
+import { UserCheck, UserX } from 'lucide-react'
+import { Event } from 'nostr-tools'
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import Notification from './Notification'
+
+export function CommunityJoinDecisionNotification({
+  notification,
+  isNew = false
+}: {
+  notification: Event
+  isNew?: boolean
+}) {
+  const { t } = useTranslation()
+  const decision = useMemo(() => getCommunityJoinDecisionFromEvent(notification), [notification])
+  if (!decision) return null
+
+  const isApproved = decision.status === 'approved'
+
+  return (
+    <Notification
+      notificationId={notification.id}
+      icon={
+        isApproved ? (
+          <UserCheck size={24} className="text-green-400" />
+        ) : (
+          <UserX size={24} className="text-red-400" />
+        )
+      }
+      sender={notification.pubkey}
+      sentAt={notification.created_at}
+      description={
+        isApproved
+          ? t('approved your request to join domain', { domain: decision.domain })
+          : t('declined your request to join domain', { domain: decision.domain })
+      }
+      middle={
+        decision.reason && (
+          <div className="text-sm text-muted-foreground line-clamp-2">{decision.reason}</div>
+        )
+      }
+      targetLink={toNip05Community(decision.domain)}
+      isNew={isNew}
+    />
+  )
+}
@@ -23,6 +23,7 @@ export default function Notification({
   description,
   middle = null,
   targetEvent,
+  targetLink,
   isNew = false,
   showStats = false
 }: {
@@ -33,6 +34,7 @@ export default function Notification({
   description: string
   middle?: React.ReactNode
   targetEvent?: NostrEvent
+  targetLink?: string
   isNew?: boolean
   showStats?: boolean
 }) {
@@ -50,6 +52,8 @@ export default function Notification({
     markNotificationAsRead(notificationId)
     if (targetEvent) {
       push(toNote(targetEvent.id))
+    } else if (targetLink) {
+      push(targetLink)
     } else if (pubkey) {
       push(toProfile(pubkey))
     }
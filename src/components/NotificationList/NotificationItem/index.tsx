@@ -6,6 +6,7 @@ import { useNostr } from '@/providers/NostrProvider'
 import { useUserTrust } from '@/providers/UserTrustProvider'
 import { Event, kinds } from 'nostr-tools'
 import { useMemo } from 'react'
+import { CommunityJoinDecisionNotification } from './CommunityJoinDecisionNotification'
 import { MentionNotification } from './MentionNotification'
 import { PollResponseNotification } from './PollResponseNotification'
 import { ReactionNotification } from './ReactionNotification'
@@ -60,5 +61,8 @@ export function NotificationItem({
   if (notification.kind === ExtendedKind.POLL_RESPONSE) {
     return <PollResponseNotification notification={notification} isNew={isNew} />
   }
+  if (notification.kind === ExtendedKind.COMMUNITY_JOIN_DECISION) {
+    return <CommunityJoinDecisionNotification notification={notification} isNew={isNew} />
+  }
   return null
 }
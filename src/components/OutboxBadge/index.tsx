@@ -0,0 +1,30 @@
+import { useOutbox } from '@/hooks'
+import { useNostr } from '@/providers/NostrProvider'
+import { CloudUpload } from 'lucide-react'
+import { Event } from 'nostr-tools'
+import { useTranslation } from 'react-i18next'
+
+export default function OutboxBadge({ event }: { event: Event }) {
+  const { pubkey } = useNostr()
+
+  if (event.pubkey !== pubkey) return null
+
+  return <OutboxBadgeInner event={event} />
+}
+
+function OutboxBadgeInner({ event }: { event: Event }) {
+  const { t } = useTranslation()
+  const items = useOutbox(event.pubkey)
+
+  if (!items.some((item) => item.id === event.id)) return null
+
+  return (
+    <div
+      className="shrink-0 rounded-full bg-muted px-2 py-0.5 flex items-center gap-1 text-xs text-muted-foreground"
+      title={t('No relay has accepted this note yet, it will be published later')}
+    >
+      <CloudUpload className="!size-3" />
+      {t('Pending')}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useOutbox } from '@/hooks'
+import { useNostr } from '@/providers/NostrProvider'
+import outbox from '@/services/outbox.service'
+import { TOutboxItem } from '@/types'
+import dayjs from 'dayjs'
+import { CloudOff, RotateCw, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import Note from '../Note'
+import RelayPublishStatus from '../PublishReceipt/RelayPublishStatus'
+
+export default function OutboxList() {
+  const { t } = useTranslation()
+  const { pubkey } = useNostr()
+  const items = useOutbox(pubkey)
+
+  if (items.length === 0) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        {t('All your notes have been published')}
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      {items.map((item) => (
+        <OutboxItem key={item.id} item={item} />
+      ))}
+    </div>
+  )
+}
+
+function OutboxItem({ item }: { item: TOutboxItem }) {
+  const { t } = useTranslation()
+  const [retrying, setRetrying] = useState(false)
+  const isPending = item.relayStatuses.some(({ status }) => status === 'pending')
+
+  const handleRetry = async () => {
+    setRetrying(true)
+    await outbox.retry(item.id).finally(() => setRetrying(false))
+  }
+
+  return (
+    <div className="px-4 py-3 border-b space-y-2">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Badge variant="secondary" className="gap-1">
+          <CloudOff className="size-3" />
+          {t('Pending')}
+        </Badge>
+        <div className="flex-1 truncate">
+          {isPending
+            ? t('Publishing...')
+            : t('Next retry', { time: dayjs(item.nextAttemptAt).format('HH:mm:ss') })}
+        </div>
+      </div>
+      <Note event={item.event} size="small" />
+      <div className="space-y-1">
+        {item.relayStatuses.map((relayStatus) => (
+          <RelayPublishStatus key={relayStatus.url} relayPublishStatus={relayStatus} />
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={() => outbox.remove(item.id)}>
+          <Trash2 />
+          {t('Discard')}
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={retrying || isPending}
+          onClick={handleRetry}
+        >
+          <RotateCw className={retrying ? 'animate-spin' : ''} />
+          {t('Retry now')}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -7,11 +7,16 @@ import {
   createShortTextNoteDraftEvent,
   deleteDraftEventCache
 } from '@/lib/draft-event'
+import { toDrafts, toScheduledPosts } from '@/lib/link'
 import { isTouchDevice } from '@/lib/utils'
+import { useSecondaryPage } from '@/PageManager'
+import { useDrafts } from '@/providers/DraftsProvider'
 import { useNostr } from '@/providers/NostrProvider'
 import { useReply } from '@/providers/ReplyProvider'
 import postEditorCache from '@/services/post-editor-cache.service'
-import { TPollCreateData } from '@/types'
+import outbox from '@/services/outbox.service'
+import { TPollCreateData, TPostDraft, TZapSplit } from '@/types'
+import dayjs from 'dayjs'
 import { AlignLeft, AlignRight, ImageUp, ListTodo, LoaderCircle, Settings, Smile, X } from 'lucide-react'
 import { Event, kinds } from 'nostr-tools'
 import { useEffect, useMemo, useRef, useState } from 'react'
@@ -23,22 +28,27 @@ import PollEditor from './PollEditor'
 import PostOptions from './PostOptions'
 import PostRelaySelector from './PostRelaySelector'
 import PostTextarea, { TPostTextareaHandle } from './PostTextarea'
+import SaveDraftButton from './SaveDraftButton'
 import Uploader from './Uploader'
 
 export default function PostContent({
   defaultContent = '',
   parentEvent,
   close,
-  openFrom
+  openFrom,
+  draft
 }: {
   defaultContent?: string
   parentEvent?: Event
   close: () => void
   openFrom?: string[]
+  draft?: TPostDraft
 }) {
   const { t } = useTranslation()
   const { pubkey, publish, checkLogin } = useNostr()
   const { addReplies } = useReply()
+  const { push } = useSecondaryPage()
+  const { saveDraft, deleteDraft } = useDrafts()
   const [text, setText] = useState('')
   const [textDirection, setTextDirection] = useState<'ltr' | 'rtl'>('ltr')
   const textareaRef = useRef<TPostTextareaHandle>(null)
@@ -48,18 +58,25 @@ export default function PostContent({
   >([])
   const [showMoreOptions, setShowMoreOptions] = useState(false)
   const [addClientTag, setAddClientTag] = useState(false)
-  const [mentions, setMentions] = useState<string[]>([])
-  const [isNsfw, setIsNsfw] = useState(false)
-  const [isPoll, setIsPoll] = useState(false)
-  const [isProtectedEvent, setIsProtectedEvent] = useState(false)
-  const [additionalRelayUrls, setAdditionalRelayUrls] = useState<string[]>([])
-  const [pollCreateData, setPollCreateData] = useState<TPollCreateData>({
-    isMultipleChoice: false,
-    options: ['', ''],
-    endsAt: undefined,
-    relays: []
-  })
-  const [minPow, setMinPow] = useState(0)
+  const [mentions, setMentions] = useState<string[]>(draft?.mentions ?? [])
+  const [isNsfw, setIsNsfw] = useState(draft?.isNsfw ?? false)
+  const [isPoll, setIsPoll] = useState(draft?.isPoll ?? false)
+  const [isProtectedEvent, setIsProtectedEvent] = useState(draft?.isProtectedEvent ?? false)
+  const [additionalRelayUrls, setAdditionalRelayUrls] = useState<string[]>(
+    draft?.additionalRelayUrls ?? []
+  )
+  const [pollCreateData, setPollCreateData] = useState<TPollCreateData>(
+    draft?.pollCreateData ?? {
+      isMultipleChoice: false,
+      options: ['', ''],
+      endsAt: undefined,
+      relays: []
+    }
+  )
+  const [minPow, setMinPow] = useState(draft?.minPow ?? 0)
+  const [zapSplits, setZapSplits] = useState<TZapSplit[]>(draft?.zapSplits ?? [])
+  const [draftId, setDraftId] = useState(draft?.id)
+  const [scheduledAt, setScheduledAt] = useState<number | undefined>(undefined)
   const isFirstRender = useRef(true)
   const canPost = useMemo(() => {
     return (
@@ -84,6 +101,10 @@ export default function PostContent({
   useEffect(() => {
     if (isFirstRender.current) {
       isFirstRender.current = false
+      if (draft) {
+        setAddClientTag(draft.addClientTag)
+        return
+      }
       const cachedSettings = postEditorCache.getPostSettingsCache({
         defaultContent,
         parentEvent
@@ -103,6 +124,8 @@ export default function PostContent({
       }
       return
     }
+    if (draft) return
+
     postEditorCache.setPostSettingsCache(
       { defaultContent, parentEvent },
       {
@@ -118,6 +141,10 @@ export default function PostContent({
     e?.stopPropagation()
     checkLogin(async () => {
       if (!canPost) return
+      if (scheduledAt && scheduledAt <= dayjs().unix()) {
+        toast.error(t('The scheduled time must be in the future'))
+        return
+      }
 
       setPosting(true)
       try {
@@ -126,29 +153,54 @@ export default function PostContent({
             ? await createCommentDraftEvent(text, parentEvent, mentions, {
                 addClientTag,
                 protectedEvent: isProtectedEvent,
-                isNsfw
+                isNsfw,
+                zapSplits
               })
             : isPoll
               ? await createPollDraftEvent(pubkey!, text, mentions, pollCreateData, {
                   addClientTag,
-                  isNsfw
+                  isNsfw,
+                  zapSplits
                 })
               : await createShortTextNoteDraftEvent(text, mentions, {
                   parentEvent,
                   addClientTag,
                   protectedEvent: isProtectedEvent,
-                  isNsfw
+                  isNsfw,
+                  zapSplits
                 })
 
         const newEvent = await publish(draftEvent, {
           specifiedRelayUrls: isProtectedEvent ? additionalRelayUrls : undefined,
           additionalRelayUrls: isPoll ? pollCreateData.relays : additionalRelayUrls,
-          minPow
+          minPow,
+          queueOnFailure: true,
+          scheduledAt
         })
         postEditorCache.clearPostCache({ defaultContent, parentEvent })
         deleteDraftEventCache(draftEvent)
-        addReplies([newEvent])
+        if (draftId) {
+          await deleteDraft(draftId)
+        }
         close()
+        if (scheduledAt) {
+          toast.success(
+            t('Note scheduled for {{time}}', {
+              time: dayjs(scheduledAt * 1000).format('YYYY-MM-DD HH:mm')
+            }),
+            {
+              action: { label: t('View'), onClick: () => push(toScheduledPosts()) }
+            }
+          )
+          return
+        }
+        addReplies([newEvent])
+        if (outbox.has(newEvent.id)) {
+          toast.info(t('No relay is reachable right now, the note will be published later'), {
+            duration: 5000
+          })
+          return
+        }
       } catch (error) {
         const errors = error instanceof AggregateError ? error.errors : [error]
         errors.forEach((err) => {
@@ -166,6 +218,33 @@ export default function PostContent({
     })
   }
 
+  const handleSaveDraft = async (name: string) => {
+    try {
+      const savedDraft = await saveDraft({
+        id: draftId,
+        name,
+        content: textareaRef.current?.getContent() ?? {},
+        text,
+        parentEvent,
+        mentions,
+        isPoll,
+        pollCreateData,
+        isNsfw,
+        addClientTag,
+        minPow,
+        isProtectedEvent,
+        additionalRelayUrls,
+        zapSplits
+      })
+      setDraftId(savedDraft.id)
+      toast.success(t('Draft saved'), {
+        action: { label: t('View'), onClick: () => push(toDrafts()) }
+      })
+    } catch (error) {
+      toast.error(`${t('Failed to save draft')}: ${(error as Error).message}`)
+    }
+  }
+
   const handlePollToggle = () => {
     if (parentEvent) return
 
@@ -202,6 +281,7 @@ export default function PostContent({
         textDirection={textDirection}
         defaultContent={defaultContent}
         parentEvent={parentEvent}
+        draftContent={draft?.content}
         onSubmit={() => post()}
         className={isPoll ? 'min-h-20' : 'min-h-52'}
         onUploadStart={handleUploadStart}
@@ -248,6 +328,12 @@ export default function PostContent({
           setAdditionalRelayUrls={setAdditionalRelayUrls}
           parentEvent={parentEvent}
           openFrom={openFrom}
+          draftRelays={
+            draft && {
+              isProtectedEvent: draft.isProtectedEvent,
+              relayUrls: draft.additionalRelayUrls
+            }
+          }
         />
       )}
       <div className="flex items-center justify-between">
@@ -299,6 +385,11 @@ export default function PostContent({
               <ListTodo />
             </Button>
           )}
+          <SaveDraftButton
+            defaultName={draft?.name ?? text.split('\n')[0].slice(0, 50)}
+            disabled={!pubkey || !text || posting}
+            onSave={handleSaveDraft}
+          />
           <Button
             variant="ghost"
             size="icon"
@@ -327,7 +418,7 @@ export default function PostContent({
             </Button>
             <Button type="submit" disabled={!canPost} onClick={post}>
               {posting && <LoaderCircle className="animate-spin" />}
-              {parentEvent ? t('Reply') : t('Post')}
+              {scheduledAt ? t('Schedule') : parentEvent ? t('Reply') : t('Post')}
             </Button>
           </div>
         </div>
@@ -341,6 +432,10 @@ export default function PostContent({
         setIsNsfw={setIsNsfw}
         minPow={minPow}
         setMinPow={setMinPow}
+        zapSplits={zapSplits}
+        setZapSplits={setZapSplits}
+        scheduledAt={scheduledAt}
+        setScheduledAt={setScheduledAt}
       />
       <div className="flex gap-2 items-center justify-around sm:hidden">
         <Button
@@ -355,7 +450,7 @@ export default function PostContent({
         </Button>
         <Button className="w-full" type="submit" disabled={!canPost} onClick={post}>
           {posting && <LoaderCircle className="animate-spin" />}
-          {parentEvent ? t('Reply') : t('Post')}
+          {scheduledAt ? t('Schedule') : parentEvent ? t('Reply') : t('Post')}
         </Button>
       </div>
     </div>
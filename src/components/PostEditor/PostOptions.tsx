@@ -1,9 +1,13 @@
+import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Slider } from '@/components/ui/slider'
 import { Switch } from '@/components/ui/switch'
 import { StorageKey } from '@/constants'
+import { TZapSplit } from '@/types'
+import dayjs from 'dayjs'
 import { Dispatch, SetStateAction, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
+import ZapSplitsEditor from './ZapSplitsEditor'
 
 export default function PostOptions({
   posting,
@@ -13,7 +17,11 @@ export default function PostOptions({
   isNsfw,
   setIsNsfw,
   minPow,
-  setMinPow
+  setMinPow,
+  zapSplits,
+  setZapSplits,
+  scheduledAt,
+  setScheduledAt
 }: {
   posting: boolean
   show: boolean
@@ -23,6 +31,10 @@ export default function PostOptions({
   setIsNsfw: Dispatch<SetStateAction<boolean>>
   minPow: number
   setMinPow: Dispatch<SetStateAction<number>>
+  zapSplits: TZapSplit[]
+  setZapSplits: Dispatch<SetStateAction<TZapSplit[]>>
+  scheduledAt?: number
+  setScheduledAt: Dispatch<SetStateAction<number | undefined>>
 }) {
   const { t } = useTranslation()
 
@@ -41,6 +53,10 @@ export default function PostOptions({
     setIsNsfw(checked)
   }
 
+  const onScheduleChange = (checked: boolean) => {
+    setScheduledAt(checked ? dayjs().add(1, 'hour').startOf('minute').unix() : undefined)
+  }
+
   return (
     <div className="space-y-4">
       <div className="space-y-2">
@@ -68,6 +84,35 @@ export default function PostOptions({
         />
       </div>
 
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Label htmlFor="schedule-post">{t('Schedule for later')}</Label>
+          <Switch
+            id="schedule-post"
+            checked={!!scheduledAt}
+            onCheckedChange={onScheduleChange}
+            disabled={posting}
+          />
+        </div>
+        {!!scheduledAt && (
+          <Input
+            type="datetime-local"
+            value={dayjs(scheduledAt * 1000).format('YYYY-MM-DDTHH:mm')}
+            min={dayjs().format('YYYY-MM-DDTHH:mm')}
+            onChange={(e) => {
+              if (!e.target.value) return
+              setScheduledAt(dayjs(e.target.value).startOf('minute').unix())
+            }}
+            disabled={posting}
+          />
+        )}
+        <div className="text-muted-foreground text-xs">
+          {t('Scheduled notes are published while Jumble is open')}
+        </div>
+      </div>
+
+      <ZapSplitsEditor posting={posting} zapSplits={zapSplits} setZapSplits={setZapSplits} />
+
       <div className="grid gap-4 pb-4">
         <Label>{t('Proof of Work (difficulty {{minPow}})', { minPow })}</Label>
         <Slider
@@ -37,11 +37,13 @@ type TPostTargetItem =
 export default function PostRelaySelector({
   parentEvent,
   openFrom,
+  draftRelays,
   setIsProtectedEvent,
   setAdditionalRelayUrls
 }: {
   parentEvent?: NostrEvent
   openFrom?: string[]
+  draftRelays?: { isProtectedEvent: boolean; relayUrls: string[] }
   setIsProtectedEvent: Dispatch<SetStateAction<boolean>>
   setAdditionalRelayUrls: Dispatch<SetStateAction<string[]>>
 }) {
@@ -95,6 +97,13 @@ export default function PostRelaySelector({
   }, [postTargetItems])
 
   useEffect(() => {
+    if (draftRelays) {
+      setPostTargetItems([
+        ...(draftRelays.isProtectedEvent ? [] : [{ type: 'writeRelays' } as const]),
+        ...draftRelays.relayUrls.map((url) => ({ type: 'relay', url }) as const)
+      ])
+      return
+    }
     if (openFrom && openFrom.length) {
       setPostTargetItems(Array.from(new Set(openFrom)).map((url) => ({ type: 'relay', url })))
       return
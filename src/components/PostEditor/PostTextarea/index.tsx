@@ -11,7 +11,7 @@ import Paragraph from '@tiptap/extension-paragraph'
 import Placeholder from '@tiptap/extension-placeholder'
 import Text from '@tiptap/extension-text'
 import { TextSelection } from '@tiptap/pm/state'
-import { EditorContent, useEditor } from '@tiptap/react'
+import { EditorContent, JSONContent, useEditor } from '@tiptap/react'
 import { Event } from 'nostr-tools'
 import { Dispatch, forwardRef, SetStateAction, useEffect, useImperativeHandle, useState } from 'react'
 import { useTranslation } from 'react-i18next'
@@ -26,6 +26,7 @@ export type TPostTextareaHandle = {
   appendText: (text: string, addNewline?: boolean) => void
   insertText: (text: string) => void
   insertEmoji: (emoji: string | TEmoji) => void
+  getContent: () => JSONContent | undefined
 }
 
 const PostTextarea = forwardRef<
@@ -36,6 +37,7 @@ const PostTextarea = forwardRef<
     textDirection: 'ltr' | 'rtl'
     defaultContent?: string
     parentEvent?: Event
+    draftContent?: JSONContent
     onSubmit?: () => void
     className?: string
     onUploadStart?: (file: File, cancel: () => void) => void
@@ -50,6 +52,7 @@ const PostTextarea = forwardRef<
       textDirection,
       defaultContent,
       parentEvent,
+      draftContent,
       onSubmit,
       className,
       onUploadStart,
@@ -106,11 +109,17 @@ const PostTextarea = forwardRef<
           return parseEditorJsonToText(content.toJSON())
         }
       },
-      content: postEditorCache.getPostContentCache({ defaultContent, parentEvent }),
+      content: draftContent ?? postEditorCache.getPostContentCache({ defaultContent, parentEvent }),
       onUpdate(props) {
         const newText = parseEditorJsonToText(props.editor.getJSON())
         setText(newText)
-        postEditorCache.setPostContentCache({ defaultContent, parentEvent }, props.editor.getJSON())
+        // A reopened draft is saved explicitly and must not overwrite the editor cache
+        if (!draftContent) {
+          postEditorCache.setPostContentCache(
+            { defaultContent, parentEvent },
+            props.editor.getJSON()
+          )
+        }
       },
       onCreate(props) {
         const newText = parseEditorJsonToText(props.editor.getJSON())
@@ -164,7 +173,8 @@ const PostTextarea = forwardRef<
             editor.chain().insertContent(emojiNode).insertContent(' ').run()
           }
         }
-      }
+      },
+      getContent: () => editor?.getJSON()
     }))
 
     if (!editor) {
@@ -0,0 +1,66 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { FilePen, LoaderCircle } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+export default function SaveDraftButton({
+  defaultName,
+  disabled,
+  onSave
+}: {
+  defaultName: string
+  disabled: boolean
+  onSave: (name: string) => Promise<void>
+}) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setName(defaultName)
+    }
+    setOpen(open)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await onSave(name.trim() || t('Untitled draft'))
+      setOpen(false)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" title={t('Save draft')} disabled={disabled}>
+          <FilePen />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-2">
+        <Input
+          placeholder={t('Draft name')}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleSave()
+            }
+          }}
+          disabled={saving}
+        />
+        <Button className="w-full" onClick={handleSave} disabled={saving}>
+          {saving && <LoaderCircle className="animate-spin" />}
+          {t('Save draft')}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
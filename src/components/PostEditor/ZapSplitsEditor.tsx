@@ -0,0 +1,118 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { isValidPubkey, userIdToPubkey } from '@/lib/pubkey'
+import client from '@/services/client.service'
+import { TZapSplit } from '@/types'
+import { Plus, X } from 'lucide-react'
+import { Dispatch, SetStateAction, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { SimpleUserAvatar } from '../UserAvatar'
+import { SimpleUsername } from '../Username'
+
+export default function ZapSplitsEditor({
+  posting,
+  zapSplits,
+  setZapSplits
+}: {
+  posting: boolean
+  zapSplits: TZapSplit[]
+  setZapSplits: Dispatch<SetStateAction<TZapSplit[]>>
+}) {
+  const { t } = useTranslation()
+  const [input, setInput] = useState('')
+  const [error, setError] = useState('')
+  const totalWeight = zapSplits.reduce((sum, { weight }) => sum + weight, 0)
+
+  const handleAdd = async () => {
+    const pubkey = userIdToPubkey(input.trim())
+    if (!isValidPubkey(pubkey)) {
+      setError(t('Invalid npub or public key'))
+      return
+    }
+    if (zapSplits.some((split) => split.pubkey === pubkey)) {
+      setError(t('Recipient already added'))
+      return
+    }
+
+    setError('')
+    setInput('')
+    setZapSplits((prev) => [...prev, { pubkey, weight: 1 }])
+
+    // A relay hint helps others find the recipient's profile
+    const relayList = await client.fetchRelayList(pubkey)
+    const relay = relayList.write[0]
+    if (relay) {
+      setZapSplits((prev) =>
+        prev.map((split) => (split.pubkey === pubkey ? { ...split, relay } : split))
+      )
+    }
+  }
+
+  const handleWeightChange = (pubkey: string, value: string) => {
+    const weight = Math.max(0, parseInt(value) || 0)
+    setZapSplits((prev) =>
+      prev.map((split) => (split.pubkey === pubkey ? { ...split, weight } : split))
+    )
+  }
+
+  const handleRemove = (pubkey: string) => {
+    setZapSplits((prev) => prev.filter((split) => split.pubkey !== pubkey))
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>{t('Zap splits')}</Label>
+      <div className="text-muted-foreground text-xs">
+        {t('Zaps to this note will be split between these recipients')}
+      </div>
+      {zapSplits.map((split) => (
+        <div key={split.pubkey} className="flex items-center gap-2">
+          <SimpleUserAvatar userId={split.pubkey} size="small" />
+          <SimpleUsername userId={split.pubkey} className="flex-1 w-0 truncate font-semibold" />
+          <Input
+            className="w-20"
+            type="number"
+            min={0}
+            value={split.weight}
+            onChange={(e) => handleWeightChange(split.pubkey, e.target.value)}
+            disabled={posting}
+          />
+          <div className="w-12 shrink-0 text-right text-sm text-muted-foreground">
+            {totalWeight > 0 ? Math.round((split.weight / totalWeight) * 100) : 0}%
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => handleRemove(split.pubkey)}
+            disabled={posting}
+          >
+            <X />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder={t('npub or hex public key')}
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value)
+            setError('')
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleAdd()
+            }
+          }}
+          disabled={posting}
+        />
+        <Button variant="secondary" onClick={handleAdd} disabled={posting || !input.trim()}>
+          <Plus />
+          {t('Add')}
+        </Button>
+      </div>
+      {error && <div className="text-destructive text-xs">{error}</div>}
+    </div>
+  )
+}
@@ -15,6 +15,7 @@ import {
 } from '@/components/ui/sheet'
 import { useScreenSize } from '@/providers/ScreenSizeProvider'
 import postEditor from '@/services/post-editor.service'
+import { TPostDraft } from '@/types'
 import { Event } from 'nostr-tools'
 import { Dispatch, useMemo } from 'react'
 import PostContent from './PostContent'
@@ -25,13 +26,15 @@ export default function PostEditor({
   parentEvent,
   open,
   setOpen,
-  openFrom
+  openFrom,
+  draft
 }: {
   defaultContent?: string
   parentEvent?: Event
   open: boolean
   setOpen: Dispatch<boolean>
   openFrom?: string[]
+  draft?: TPostDraft
 }) {
   const { isSmallScreen } = useScreenSize()
 
@@ -42,6 +45,7 @@ export default function PostEditor({
         parentEvent={parentEvent}
         close={() => setOpen(false)}
         openFrom={openFrom}
+        draft={draft}
       />
     )
   }, [])
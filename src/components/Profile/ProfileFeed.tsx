@@ -13,6 +13,7 @@ import { TFeedSubRequest, TNoteListMode } from '@/types'
 import { NostrEvent } from 'nostr-tools'
 import { useEffect, useMemo, useRef, useState } from 'react'
 import { RefreshButton } from '../RefreshButton'
+import ProfileHighlights from './ProfileHighlights'
 
 export default function ProfileFeed({
   pubkey,
@@ -26,13 +27,16 @@ export default function ProfileFeed({
   const { pubkey: myPubkey, pinListEvent: myPinListEvent } = useNostr()
   const { showKinds } = useKindFilter()
   const [temporaryShowKinds, setTemporaryShowKinds] = useState(showKinds)
-  const [listMode, setListMode] = useState<TNoteListMode>(() => storage.getNoteListMode())
+  const [listMode, setListMode] = useState<TNoteListMode | 'highlights'>(() =>
+    storage.getNoteListMode()
+  )
   const [subRequests, setSubRequests] = useState<TFeedSubRequest[]>([])
   const [pinnedEventIds, setPinnedEventIds] = useState<string[]>([])
   const tabs = useMemo(() => {
     const _tabs = [
       { value: 'posts', label: 'Notes' },
-      { value: 'postsAndReplies', label: 'Replies' }
+      { value: 'postsAndReplies', label: 'Replies' },
+      { value: 'highlights', label: 'Highlights' }
     ]
 
     if (myPubkey && myPubkey !== pubkey) {
@@ -78,6 +82,11 @@ export default function ProfileFeed({
 
   useEffect(() => {
     const init = async () => {
+      if (listMode === 'highlights') {
+        setSubRequests([])
+        return
+      }
+
       if (listMode === 'you') {
         if (!myPubkey) {
           setSubRequests([])
@@ -136,7 +145,7 @@ export default function ProfileFeed({
     init()
   }, [pubkey, listMode, search])
 
-  const handleListModeChange = (mode: TNoteListMode) => {
+  const handleListModeChange = (mode: TNoteListMode | 'highlights') => {
     setListMode(mode)
     noteListRef.current?.scrollToTop('smooth')
   }
@@ -152,24 +161,33 @@ export default function ProfileFeed({
         value={listMode}
         tabs={tabs}
         onTabChange={(listMode) => {
-          handleListModeChange(listMode as TNoteListMode)
+          handleListModeChange(listMode as TNoteListMode | 'highlights')
         }}
         threshold={Math.max(800, topSpace)}
         options={
-          <>
-            {!supportTouch && <RefreshButton onClick={() => noteListRef.current?.refresh()} />}
-            <KindFilter showKinds={temporaryShowKinds} onShowKindsChange={handleShowKindsChange} />
-          </>
+          listMode !== 'highlights' && (
+            <>
+              {!supportTouch && <RefreshButton onClick={() => noteListRef.current?.refresh()} />}
+              <KindFilter
+                showKinds={temporaryShowKinds}
+                onShowKindsChange={handleShowKindsChange}
+              />
+            </>
+          )
         }
       />
-      <NoteList
-        ref={noteListRef}
-        subRequests={subRequests}
-        showKinds={temporaryShowKinds}
-        hideReplies={listMode === 'posts'}
-        filterMutedNotes={false}
-        pinnedEventIds={listMode === 'you' || !!search ? [] : pinnedEventIds}
-      />
+      {listMode === 'highlights' ? (
+        <ProfileHighlights pubkey={pubkey} />
+      ) : (
+        <NoteList
+          ref={noteListRef}
+          subRequests={subRequests}
+          showKinds={temporaryShowKinds}
+          hideReplies={listMode === 'posts'}
+          filterMutedNotes={false}
+          pinnedEventIds={listMode === 'you' || !!search ? [] : pinnedEventIds}
+        />
+      )}
     </>
   )
 }
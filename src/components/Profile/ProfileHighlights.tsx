@@ -0,0 +1,87 @@
+import { FormattedTimestamp } from '@/components/FormattedTimestamp'
+import { HighlightSource } from '@/components/Note/Highlight'
+import { BIG_RELAY_URLS } from '@/constants'
+import { getHighlightSourceTagFromEvent } from '@/lib/event-metadata'
+import { toNote } from '@/lib/link'
+import { useSecondaryPage } from '@/PageManager'
+import { useDeletedEvent } from '@/providers/DeletedEventProvider'
+import client from '@/services/client.service'
+import { Event, kinds } from 'nostr-tools'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+export default function ProfileHighlights({ pubkey }: { pubkey: string }) {
+  const { t } = useTranslation()
+  const { push } = useSecondaryPage()
+  const { isEventDeleted } = useDeletedEvent()
+  const [highlights, setHighlights] = useState<Event[]>([])
+  const [loading, setLoading] = useState(true)
+  const groups = useMemo(() => {
+    // Highlights are newest first, so are the groups
+    const groupMap = new Map<string, Event[]>()
+    highlights
+      .filter((highlight) => !isEventDeleted(highlight))
+      .forEach((highlight) => {
+        const sourceTag = getHighlightSourceTagFromEvent(highlight)
+        const key = sourceTag ? `${sourceTag[0]}:${sourceTag[1]}` : highlight.id
+        groupMap.set(key, [...(groupMap.get(key) ?? []), highlight])
+      })
+    return Array.from(groupMap.values())
+  }, [highlights, isEventDeleted])
+
+  useEffect(() => {
+    const fetchHighlights = async () => {
+      setLoading(true)
+      const relayList = await client.fetchRelayList(pubkey)
+      const events = await client.fetchEvents(relayList.write.concat(BIG_RELAY_URLS).slice(0, 8), {
+        kinds: [kinds.Highlights],
+        authors: [pubkey],
+        limit: 500
+      })
+      setHighlights(events.sort((a, b) => b.created_at - a.created_at))
+    }
+    fetchHighlights()
+      .catch((error) => console.error('Failed to fetch highlights', error))
+      .finally(() => setLoading(false))
+  }, [pubkey])
+
+  if (loading) {
+    return <div className="p-8 text-center text-sm text-muted-foreground">{t('loading...')}</div>
+  }
+
+  if (groups.length === 0) {
+    return <div className="p-8 text-center text-sm text-muted-foreground">{t('No highlights')}</div>
+  }
+
+  return (
+    <div>
+      {groups.map((group) => (
+        <div key={group[0].id} className="px-4 py-3 border-b space-y-3">
+          <HighlightSource event={group[0]} />
+          {group.map((highlight) => {
+            const comment = highlight.tags.find(([tagName]) => tagName === 'comment')?.[1]
+            return (
+              <div
+                key={highlight.id}
+                className="clickable rounded-lg p-2 space-y-1"
+                onClick={() => push(toNote(highlight))}
+              >
+                <div className="flex gap-4">
+                  <div className="w-1 flex-shrink-0 my-1 bg-primary/60 rounded-md" />
+                  <div className="italic whitespace-pre-line break-words">{highlight.content}</div>
+                </div>
+                {comment && (
+                  <div className="text-sm whitespace-pre-line break-words">{comment}</div>
+                )}
+                <FormattedTimestamp
+                  timestamp={highlight.created_at}
+                  className="text-xs text-muted-foreground"
+                />
+              </div>
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -5,16 +5,19 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu'
+import { toDirectMessageConversation } from '@/lib/link'
 import { pubkeyToNpub } from '@/lib/pubkey'
+import { useSecondaryPage } from '@/PageManager'
 import { useMuteList } from '@/providers/MuteListProvider'
 import { useNostr } from '@/providers/NostrProvider'
-import { Bell, BellOff, Copy, Ellipsis } from 'lucide-react'
+import { Bell, BellOff, Copy, Ellipsis, Mail } from 'lucide-react'
 import { useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 
 export default function ProfileOptions({ pubkey }: { pubkey: string }) {
   const { t } = useTranslation()
-  const { pubkey: accountPubkey } = useNostr()
+  const { push } = useSecondaryPage()
+  const { pubkey: accountPubkey, checkLogin } = useNostr()
   const { mutePubkeySet, mutePubkeyPrivately, mutePubkeyPublicly, unmutePubkey } = useMuteList()
   const isMuted = useMemo(() => mutePubkeySet.has(pubkey), [mutePubkeySet, pubkey])
 
@@ -32,6 +35,12 @@ export default function ProfileOptions({ pubkey }: { pubkey: string }) {
           <Copy />
           {t('Copy user ID')}
         </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={() => checkLogin(() => push(toDirectMessageConversation(pubkey)))}
+        >
+          <Mail />
+          {t('Send message')}
+        </DropdownMenuItem>
         {isMuted ? (
           <DropdownMenuItem
             onClick={() => unmutePubkey(pubkey)}
@@ -0,0 +1,25 @@
+import { simplifyUrl } from '@/lib/url'
+import { TRelayPublishStatus } from '@/types'
+import { Check, Loader, X } from 'lucide-react'
+
+export default function RelayPublishStatus({
+  relayPublishStatus
+}: {
+  relayPublishStatus: TRelayPublishStatus
+}) {
+  const { url, status, message } = relayPublishStatus
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      {status === 'success' ? (
+        <Check className="size-3 shrink-0 text-green-500" />
+      ) : status === 'pending' ? (
+        <Loader className="size-3 shrink-0 animate-spin text-muted-foreground" />
+      ) : (
+        <X className="size-3 shrink-0 text-destructive" />
+      )}
+      <div className="shrink-0">{simplifyUrl(url)}</div>
+      {message && <div className="flex-1 w-0 truncate text-muted-foreground">{message}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import { Button } from '@/components/ui/button'
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { usePublishReceipt } from '@/hooks'
+import { cn } from '@/lib/utils'
+import { useNostr } from '@/providers/NostrProvider'
+import { useScreenSize } from '@/providers/ScreenSizeProvider'
+import client from '@/services/client.service'
+import { RotateCw } from 'lucide-react'
+import { Event } from 'nostr-tools'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import RelayPublishStatus from './RelayPublishStatus'
+
+export default function PublishReceipt({ event, className }: { event: Event; className?: string }) {
+  const { pubkey } = useNostr()
+
+  if (event.pubkey !== pubkey) return null
+
+  return <PublishReceiptInner event={event} className={className} />
+}
+
+function PublishReceiptInner({ event, className }: { event: Event; className?: string }) {
+  const { t } = useTranslation()
+  const { isSmallScreen } = useScreenSize()
+  const receipt = usePublishReceipt(event.id)
+  const [open, setOpen] = useState(false)
+  const [retrying, setRetrying] = useState(false)
+
+  if (!receipt || receipt.relayStatuses.length === 0) return null
+
+  const { relayStatuses } = receipt
+  const successCount = relayStatuses.filter(({ status }) => status === 'success').length
+  const failedUrls = relayStatuses.filter(({ status }) => status === 'failed').map(({ url }) => url)
+  const isPending = relayStatuses.some(({ status }) => status === 'pending')
+
+  const handleRetry = async () => {
+    setRetrying(true)
+    try {
+      await client.publishEvent(failedUrls, event)
+    } catch (error) {
+      const errors = error instanceof AggregateError ? error.errors : [error]
+      toast.error(
+        `${t('Failed to republish to relays')}: ${errors
+          .map((err) => (err instanceof Error ? err.message : String(err)))
+          .join('; ')}`
+      )
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  const trigger = (
+    <button
+      className={cn(
+        'shrink-0 hover:underline',
+        failedUrls.length > 0 && !isPending && 'text-destructive',
+        className
+      )}
+      onClick={(e) => {
+        e.stopPropagation()
+        setOpen(true)
+      }}
+    >
+      {t('Published to n/m relays', { n: successCount, m: relayStatuses.length })}
+    </button>
+  )
+
+  const content = (
+    <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div className="space-y-1">
+        {relayStatuses.map((relayStatus) => (
+          <RelayPublishStatus key={relayStatus.url} relayPublishStatus={relayStatus} />
+        ))}
+      </div>
+      {failedUrls.length > 0 && (
+        <Button
+          className="w-full"
+          variant="secondary"
+          disabled={retrying || isPending}
+          onClick={handleRetry}
+        >
+          <RotateCw className={retrying ? 'animate-spin' : ''} />
+          {t('Retry failed relays')}
+        </Button>
+      )}
+    </div>
+  )
+
+  if (isSmallScreen) {
+    return (
+      <>
+        <span>·</span>
+        {trigger}
+        <Drawer open={open} onOpenChange={setOpen}>
+          <DrawerContent className="px-4 pb-4" onClick={(e) => e.stopPropagation()}>
+            <DrawerHeader>
+              <DrawerTitle>{t('Relays')}</DrawerTitle>
+            </DrawerHeader>
+            {content}
+          </DrawerContent>
+        </Drawer>
+      </>
+    )
+  }
+
+  return (
+    <>
+      <span>·</span>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>{trigger}</PopoverTrigger>
+        <PopoverContent className="w-96" collisionPadding={16}>
+          {content}
+        </PopoverContent>
+      </Popover>
+    </>
+  )
+}
@@ -0,0 +1,104 @@
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle
+} from '@/components/ui/drawer'
+import { simplifyUrl } from '@/lib/url'
+import { useScreenSize } from '@/providers/ScreenSizeProvider'
+import client from '@/services/client.service'
+import storage from '@/services/local-storage.service'
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+type TAuthRequest = {
+  url: string
+  resolve: (allowed: boolean) => void
+}
+
+/**
+ * Asks the user before authenticating to relays with the "ask" policy (NIP-42)
+ */
+export default function RelayAuthConsentDialog() {
+  const { t } = useTranslation()
+  const { isSmallScreen } = useScreenSize()
+  const [requests, setRequests] = useState<TAuthRequest[]>([])
+  const request = requests[0]
+
+  useEffect(() => {
+    client.authConsentHandler = (url: string) =>
+      new Promise<boolean>((resolve) => {
+        setRequests((prev) => [...prev, { url, resolve }])
+      })
+
+    return () => {
+      client.authConsentHandler = undefined
+    }
+  }, [])
+
+  const answer = (allowed: boolean, remember = false) => {
+    if (!request) return
+
+    if (remember) {
+      storage.setRelayAuthPolicy(request.url, allowed ? 'always' : 'never')
+    }
+    request.resolve(allowed)
+    setRequests((prev) => prev.slice(1))
+  }
+
+  const title = t('Authenticate to relay?')
+  const description = request
+    ? t('Relay asks you to authenticate', { relay: simplifyUrl(request.url) })
+    : ''
+  const buttons = (
+    <>
+      <Button variant="ghost" onClick={() => answer(false, true)}>
+        {t('Never')}
+      </Button>
+      <Button variant="outline" onClick={() => answer(false)}>
+        {t('Not now')}
+      </Button>
+      <Button variant="outline" onClick={() => answer(true)}>
+        {t('Allow once')}
+      </Button>
+      <Button onClick={() => answer(true, true)}>{t('Always allow')}</Button>
+    </>
+  )
+
+  if (isSmallScreen) {
+    return (
+      <Drawer open={!!request} onOpenChange={(open) => !open && answer(false)}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle>{title}</DrawerTitle>
+            <DrawerDescription>{description}</DrawerDescription>
+          </DrawerHeader>
+          <DrawerFooter>{buttons}</DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    )
+  }
+
+  return (
+    <AlertDialog open={!!request} onOpenChange={(open) => !open && answer(false)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>{description}</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>{buttons}</AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
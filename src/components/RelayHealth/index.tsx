@@ -0,0 +1,111 @@
+import { useRelayHealth } from '@/hooks'
+import { cn } from '@/lib/utils'
+import relayHealthService from '@/services/relay-health.service'
+import { TRelayHealth, TRelayHealthStatus } from '@/types'
+import dayjs from 'dayjs'
+import { useTranslation } from 'react-i18next'
+
+export default function RelayHealth({ url, className }: { url: string; className?: string }) {
+  const { t } = useTranslation()
+  const health = useRelayHealth(url)
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-2">
+        <div className="text-sm font-semibold text-muted-foreground">{t('Health')}</div>
+        <RelayHealthStatusBadge status={relayHealthService.getStatus(url)} />
+      </div>
+      {health ? (
+        <RelayHealthStats health={health} />
+      ) : (
+        <div className="text-sm text-muted-foreground">
+          {t('No data yet, it is collected while you use this relay')}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function RelayHealthStatusBadge({ status }: { status: TRelayHealthStatus }) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+      <div
+        className={cn(
+          'size-2 rounded-full',
+          status === 'healthy' && 'bg-green-400',
+          status === 'degraded' && 'bg-yellow-400',
+          status === 'unhealthy' && 'bg-red-400',
+          status === 'unknown' && 'bg-muted-foreground'
+        )}
+      />
+      {t(
+        {
+          unknown: 'Unknown',
+          healthy: 'Healthy',
+          degraded: 'Degraded',
+          unhealthy: 'Unhealthy'
+        }[status]
+      )}
+    </div>
+  )
+}
+
+export function RelayHealthStats({
+  health,
+  className
+}: {
+  health: TRelayHealth
+  className?: string
+}) {
+  const { t } = useTranslation()
+
+  return (
+    <div className={cn('space-y-1 text-sm', className)}>
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        <Stat
+          label={t('Connection')}
+          value={formatMs(health.connectionLatency)}
+          detail={formatRate(health.connectionSuccessRate)}
+        />
+        <Stat
+          label={t('EOSE')}
+          value={formatMs(health.eoseTime)}
+          detail={
+            health.eoseTimeoutRate
+              ? t('{{rate}} timed out', { rate: formatRate(health.eoseTimeoutRate) })
+              : undefined
+          }
+        />
+        <Stat label={t('Publish')} value={formatRate(health.publishSuccessRate)} />
+      </div>
+      {health.lastError && (
+        <div className="text-xs text-muted-foreground break-words select-text">
+          {t('Last error')}: {health.lastError}
+          {health.lastErrorAt && ` (${dayjs(health.lastErrorAt).format('YYYY-MM-DD HH:mm')})`}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="text-nowrap">
+      <span className="text-muted-foreground">{label}</span>{' '}
+      <span className="font-semibold">{value}</span>
+      {detail && <span className="text-muted-foreground"> · {detail}</span>}
+    </div>
+  )
+}
+
+function formatMs(ms?: number) {
+  if (ms === undefined) return '-'
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`
+}
+
+function formatRate(rate?: number) {
+  if (rate === undefined) return '-'
+  return `${Math.round(rate * 100)}%`
+}
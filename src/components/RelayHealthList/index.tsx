@@ -0,0 +1,64 @@
+import { Button } from '@/components/ui/button'
+import { useRelayHealthList } from '@/hooks'
+import { toRelay } from '@/lib/link'
+import { simplifyUrl } from '@/lib/url'
+import { useSecondaryPage } from '@/PageManager'
+import relayHealthService from '@/services/relay-health.service'
+import { RotateCcw } from 'lucide-react'
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { RelayHealthStats, RelayHealthStatusBadge } from '../RelayHealth'
+import RelayIcon from '../RelayIcon'
+
+export default function RelayHealthList() {
+  const { t } = useTranslation()
+  const { push } = useSecondaryPage()
+  const healthList = useRelayHealthList()
+  // Worst relays first, they are the ones worth looking at
+  const sortedHealthList = useMemo(
+    () =>
+      [...healthList].sort(
+        (a, b) => relayHealthService.getScore(a.url) - relayHealthService.getScore(b.url)
+      ),
+    [healthList]
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-muted-foreground">
+        {t(
+          'Relays that are slow, unreachable or reject your notes are used last when picking relays to read from and publish to.'
+        )}
+      </div>
+      {sortedHealthList.length === 0 ? (
+        <div className="text-center text-sm text-muted-foreground">{t('No data yet')}</div>
+      ) : (
+        <div className="space-y-2">
+          {sortedHealthList.map((health) => (
+            <div
+              key={health.url}
+              className="rounded-lg border p-3 space-y-2 clickable"
+              onClick={() => push(toRelay(health.url))}
+            >
+              <div className="flex items-center gap-2">
+                <RelayIcon url={health.url} />
+                <div className="flex-1 w-0 truncate font-semibold">{simplifyUrl(health.url)}</div>
+                <RelayHealthStatusBadge status={relayHealthService.getStatus(health.url)} />
+              </div>
+              <RelayHealthStats health={health} />
+            </div>
+          ))}
+        </div>
+      )}
+      <Button
+        variant="secondary"
+        className="w-full"
+        disabled={sortedHealthList.length === 0}
+        onClick={() => relayHealthService.reset()}
+      >
+        <RotateCcw />
+        {t('Reset relay health')}
+      </Button>
+    </div>
+  )
+}
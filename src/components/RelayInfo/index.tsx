@@ -10,6 +10,7 @@ import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
 import PostEditor from '../PostEditor'
+import RelayHealth from '../RelayHealth'
 import RelayIcon from '../RelayIcon'
 import SaveRelayDropdownMenu from '../SaveRelayDropdownMenu'
 import UserAvatar from '../UserAvatar'
@@ -64,6 +65,8 @@ export default function RelayInfo({ url, className }: { url: string; className?:
           </a>
         </div>
 
+        <RelayHealth url={url} />
+
         <ScrollArea className="overflow-x-auto">
           <div className="flex gap-8 pb-2">
             {relayInfo.pubkey && (
@@ -1,4 +1,4 @@
-import { BIG_RELAY_URLS, ExtendedKind } from '@/constants'
+import { ExtendedKind } from '@/constants'
 import {
   getEventKey,
   getEventKeyFromTag,
@@ -11,6 +11,7 @@ import {
   isReplyNoteEvent
 } from '@/lib/event'
 import { toNote } from '@/lib/link'
+import { selectInteractionRelays } from '@/lib/relay-selection'
 import { generateBech32IdFromATag, generateBech32IdFromETag, tagNameEquals } from '@/lib/tag'
 import { useSecondaryPage } from '@/PageManager'
 import { useContentPolicy } from '@/providers/ContentPolicyProvider'
@@ -32,7 +33,15 @@ type TRootInfo =
 const LIMIT = 100
 const SHOW_COUNT = 10
 
-export default function ReplyNoteList({ index, event }: { index?: number; event: NEvent }) {
+export default function ReplyNoteList({
+  index,
+  event,
+  externalContent
+}: {
+  index?: number
+  event?: NEvent
+  externalContent?: string
+}) {
   const { t } = useTranslation()
   const { push, currentIndex } = useSecondaryPage()
   const { hideUntrustedInteractions, isUserTrusted } = useUserTrust()
@@ -40,11 +49,15 @@ export default function ReplyNoteList({ index, event }: { index?: number; event:
   const { hideContentMentioningMutedUsers } = useContentPolicy()
   const [rootInfo, setRootInfo] = useState<TRootInfo | undefined>(undefined)
   const { repliesMap, addReplies } = useReply()
+  // Discussions of external content (URLs, hashtags, ...) have no root event
+  const rootKey = useMemo(
+    () => (event ? getEventKey(event) : externalContent),
+    [event, externalContent]
+  )
   const replies = useMemo(() => {
     const replyKeySet = new Set<string>()
     const replyEvents: NEvent[] = []
-    const currentEventKey = getEventKey(event)
-    let parentEventKeys = [currentEventKey]
+    let parentEventKeys = rootKey ? [rootKey] : []
     while (parentEventKeys.length > 0) {
       const events = parentEventKeys.flatMap((key) => repliesMap.get(key)?.events || [])
       events.forEach((evt) => {
@@ -59,7 +72,7 @@ export default function ReplyNoteList({ index, event }: { index?: number; event:
       parentEventKeys = events.map((evt) => getEventKey(evt))
     }
     return replyEvents.sort((a, b) => a.created_at - b.created_at)
-  }, [event.id, repliesMap])
+  }, [rootKey, repliesMap])
   const [timelineKey, setTimelineKey] = useState<string | undefined>(undefined)
   const [until, setUntil] = useState<number | undefined>(undefined)
   const [loading, setLoading] = useState<boolean>(false)
@@ -70,6 +83,11 @@ export default function ReplyNoteList({ index, event }: { index?: number; event:
 
   useEffect(() => {
     const fetchRootEvent = async () => {
+      if (!event) {
+        setRootInfo(externalContent ? { type: 'I', id: externalContent } : undefined)
+        return
+      }
+
       let root: TRootInfo = isReplaceableEvent(event.kind)
         ? {
             type: 'A',
@@ -107,7 +125,7 @@ export default function ReplyNoteList({ index, event }: { index?: number; event:
       setRootInfo(root)
     }
     fetchRootEvent()
-  }, [event])
+  }, [event, externalContent])
 
   useEffect(() => {
     if (loading || !rootInfo || currentIndex !== index) return
@@ -116,16 +134,18 @@ export default function ReplyNoteList({ index, event }: { index?: number; event:
       setLoading(true)
 
       try {
-        const relayList = await client.fetchRelayList(
-          (rootInfo as { pubkey?: string }).pubkey ?? event.pubkey
-        )
-        const relayUrls = relayList.read.concat(BIG_RELAY_URLS).slice(0, 4)
-
+        const rootPubkey = (rootInfo as { pubkey?: string }).pubkey ?? event?.pubkey
+        const relayList = rootPubkey ? await client.fetchRelayList(rootPubkey) : undefined
         // If current event is protected, we can assume its replies are also protected and stored on the same relays
-        if (isProtectedEvent(event)) {
-          const seenOn = client.getSeenEventRelayUrls(event.id)
-          relayUrls.concat(...seenOn)
+        const hints = event
+          ? isProtectedEvent(event)
+            ? client.getSeenEventRelayUrls(event.id)
+            : client.getEventHints(event.id)
+          : []
+        if (rootInfo.type === 'A' && rootInfo.relay) {
+          hints.unshift(rootInfo.relay)
         }
+        const relayUrls = selectInteractionRelays(relayList, { hints })
 
         const filters: (Omit<Filter, 'since' | 'until'> & {
           limit: number
@@ -136,7 +156,7 @@ export default function ReplyNoteList({ index, event }: { index?: number; event:
             kinds: [kinds.ShortTextNote],
             limit: LIMIT
           })
-          if (event.kind !== kinds.ShortTextNote) {
+          if (event?.kind !== kinds.ShortTextNote) {
             filters.push({
               '#E': [rootInfo.id],
               kinds: [ExtendedKind.COMMENT, ExtendedKind.VOICE_COMMENT],
@@ -156,9 +176,6 @@ export default function ReplyNoteList({ index, event }: { index?: number; event:
               limit: LIMIT
             }
           )
-          if (rootInfo.relay) {
-            relayUrls.push(rootInfo.relay)
-          }
         } else {
           filters.push({
             '#I': [rootInfo.id],
@@ -166,9 +183,25 @@ export default function ReplyNoteList({ index, event }: { index?: number; event:
             limit: LIMIT
           })
         }
+        // Repliers publish to their own outbox relays, which the root author's inbox may miss
+        const fetchFromReplierOutboxes = async (evts: NEvent[]) => {
+          const repliers = Array.from(new Set(evts.map((evt) => evt.pubkey)))
+          if (!repliers.length) return
+
+          const replierRelayLists = await client.fetchRelayLists(repliers)
+          const outboxRelayUrls = selectInteractionRelays(relayList, {
+            replierRelayLists,
+            limit: 12
+          }).filter((url) => !relayUrls.includes(url))
+          if (!outboxRelayUrls.length) return
+
+          const events = await client.fetchEvents(outboxRelayUrls, filters)
+          addReplies(events.filter((evt) => isReplyNoteEvent(evt)))
+        }
+
         const { closer, timelineKey } = await client.subscribeTimeline(
           filters.map((filter) => ({
-            urls: relayUrls.slice(0, 8),
+            urls: relayUrls,
             filter
           })),
           {
@@ -179,6 +212,9 @@ export default function ReplyNoteList({ index, event }: { index?: number; event:
               if (eosed) {
                 setUntil(evts.length >= LIMIT ? evts[evts.length - 1].created_at - 1 : undefined)
                 setLoading(false)
+                fetchFromReplierOutboxes(evts).catch((error) => {
+                  console.error('Failed to fetch replies from outbox relays', error)
+                })
               }
             },
             onNew: (evt) => {
@@ -269,7 +305,7 @@ export default function ReplyNoteList({ index, event }: { index?: number; event:
   return (
     <div className="min-h-[80vh]">
       {loading && <LoadingBar />}
-      {!loading && until && until > event.created_at && (
+      {!loading && until && until > (event?.created_at ?? 0) && (
         <div
           className={`text-sm text-center text-muted-foreground border-b py-2 ${!loading ? 'hover:text-foreground cursor-pointer' : ''}`}
           onClick={loadMore}
@@ -291,7 +327,6 @@ export default function ReplyNoteList({ index, event }: { index?: number; event:
             }
           }
 
-          const rootEventKey = getEventKey(event)
           const currentReplyKey = getEventKey(reply)
           const parentTag = getParentTag(reply)
           const parentEventKey = parentTag ? getEventKeyFromTag(parentTag.tag) : undefined
@@ -308,7 +343,7 @@ export default function ReplyNoteList({ index, event }: { index?: number; event:
             >
               <ReplyNote
                 event={reply}
-                parentEventId={rootEventKey !== parentEventKey ? parentEventId : undefined}
+                parentEventId={rootKey !== parentEventKey ? parentEventId : undefined}
                 onClickParent={() => {
                   if (!parentEventKey) return
                   highlightReply(parentEventKey, parentEventId)
@@ -0,0 +1,102 @@
+import { Button } from '@/components/ui/button'
+import { toSearch } from '@/lib/link'
+import { cn } from '@/lib/utils'
+import { useSecondaryPage } from '@/PageManager'
+import { useSavedSearches } from '@/providers/SavedSearchesProvider'
+import { TSavedSearch } from '@/types'
+import { Bookmark, BookmarkCheck, Pin, PinOff, Search, Trash2 } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+export default function SavedSearches({ className }: { className?: string }) {
+  const { t } = useTranslation()
+  const { savedSearches } = useSavedSearches()
+
+  if (savedSearches.length === 0) return null
+
+  return (
+    <div className={cn('px-4 pt-3 space-y-2', className)}>
+      <div className="font-semibold">{t('Saved searches')}</div>
+      {savedSearches.map((savedSearch) => (
+        <SavedSearchItem key={savedSearch.id} savedSearch={savedSearch} />
+      ))}
+    </div>
+  )
+}
+
+function SavedSearchItem({ savedSearch }: { savedSearch: TSavedSearch }) {
+  const { t } = useTranslation()
+  const { push } = useSecondaryPage()
+  const { deleteSavedSearch, setSavedSearchPinned } = useSavedSearches()
+
+  return (
+    <div
+      className="flex items-center gap-2 rounded-lg border py-2 pl-3 pr-1 clickable"
+      onClick={() => push(toSearch({ type: 'notes', search: savedSearch.query }))}
+    >
+      <Search className="size-4 shrink-0 text-muted-foreground" />
+      <div className="flex-1 w-0">
+        <div className="font-semibold truncate">{savedSearch.query}</div>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        title={savedSearch.pinned ? t('Unpin from feeds') : t('Pin as feed')}
+        onClick={(e) => {
+          e.stopPropagation()
+          setSavedSearchPinned(savedSearch.id, !savedSearch.pinned)
+        }}
+      >
+        {savedSearch.pinned ? <PinOff /> : <Pin />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        title={t('Delete')}
+        onClick={(e) => {
+          e.stopPropagation()
+          deleteSavedSearch(savedSearch.id)
+        }}
+      >
+        <Trash2 />
+      </Button>
+    </div>
+  )
+}
+
+export function SaveSearchButton({ query }: { query: string }) {
+  const { t } = useTranslation()
+  const { savedSearches, saveSearch, setSavedSearchPinned } = useSavedSearches()
+  const savedSearch = savedSearches.find((savedSearch) => savedSearch.query === query.trim())
+
+  return (
+    <div className="flex items-center justify-end gap-2 px-4 pt-3">
+      <Button
+        variant="secondary"
+        size="sm"
+        disabled={!!savedSearch}
+        onClick={() => {
+          saveSearch(query)
+          toast.success(t('Search saved'))
+        }}
+      >
+        {savedSearch ? <BookmarkCheck /> : <Bookmark />}
+        {savedSearch ? t('Saved') : t('Save search')}
+      </Button>
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={() => {
+          if (savedSearch) {
+            setSavedSearchPinned(savedSearch.id, !savedSearch.pinned)
+          } else {
+            saveSearch(query, true)
+          }
+        }}
+      >
+        {savedSearch?.pinned ? <PinOff /> : <Pin />}
+        {savedSearch?.pinned ? t('Unpin from feeds') : t('Pin as feed')}
+      </Button>
+    </div>
+  )
+}
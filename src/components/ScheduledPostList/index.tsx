@@ -0,0 +1,163 @@
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { useScheduledPosts } from '@/hooks'
+import { createShortTextNoteDraftEvent } from '@/lib/draft-event'
+import { useNostr } from '@/providers/NostrProvider'
+import scheduledPostService from '@/services/scheduled-post.service'
+import { TScheduledPost } from '@/types'
+import dayjs from 'dayjs'
+import { Clock, Pencil, Send, Trash2 } from 'lucide-react'
+import { Event } from 'nostr-tools'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import Note from '../Note'
+
+// Tags the composer derives from the content, the proof of work no longer matches either
+const CONTENT_TAG_NAMES = ['t', 'imeta', 'q', 'emoji', 'nonce']
+
+export default function ScheduledPostList() {
+  const { t } = useTranslation()
+  const { pubkey } = useNostr()
+  const items = useScheduledPosts(pubkey)
+
+  if (items.length === 0) {
+    return <div className="p-8 text-center text-muted-foreground">{t('No scheduled notes')}</div>
+  }
+
+  return (
+    <div>
+      {items.map((item) => (
+        <ScheduledPostItem key={item.id} item={item} />
+      ))}
+    </div>
+  )
+}
+
+function ScheduledPostItem({ item }: { item: TScheduledPost }) {
+  const { t } = useTranslation()
+  const { signEvent } = useNostr()
+  const [editing, setEditing] = useState(false)
+  const [content, setContent] = useState(item.event.content)
+  const [publishAt, setPublishAt] = useState(
+    dayjs(item.event.created_at * 1000).format('YYYY-MM-DDTHH:mm')
+  )
+  const [saving, setSaving] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+
+  const handleSave = async () => {
+    const createdAt = dayjs(publishAt).startOf('minute').unix()
+    if (!publishAt || createdAt <= dayjs().unix()) {
+      toast.error(t('The scheduled time must be in the future'))
+      return
+    }
+
+    setSaving(true)
+    try {
+      const event = await signEvent(await createEditedDraftEvent(item.event, content, createdAt))
+      await scheduledPostService.reschedule(item.id, event)
+      setEditing(false)
+    } catch (error) {
+      toast.error(`${t('Failed to save')}: ${(error as Error).message}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePublishNow = async () => {
+    setPublishing(true)
+    try {
+      // Relays may reject events dated in the future, so sign it again with the current time
+      const event = await signEvent({
+        kind: item.event.kind,
+        content: item.event.content,
+        tags: item.event.tags.filter(([tagName]) => tagName !== 'nonce'),
+        created_at: dayjs().unix()
+      })
+      await scheduledPostService.reschedule(item.id, event)
+      await scheduledPostService.publishNow(event.id)
+    } catch (error) {
+      toast.error(`${t('Failed to post')}: ${(error as Error).message}`)
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  return (
+    <div className="px-4 py-3 border-b space-y-2">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Badge variant="secondary" className="gap-1">
+          <Clock className="size-3" />
+          {t('Scheduled')}
+        </Badge>
+        <div className="flex-1 truncate">
+          {dayjs(item.event.created_at * 1000).format('YYYY-MM-DD HH:mm')}
+        </div>
+      </div>
+      {editing ? (
+        <div className="space-y-2">
+          <Textarea
+            className="min-h-32"
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            disabled={saving}
+          />
+          <Input
+            type="datetime-local"
+            value={publishAt}
+            min={dayjs().format('YYYY-MM-DDTHH:mm')}
+            onChange={(e) => setPublishAt(e.target.value)}
+            disabled={saving}
+          />
+        </div>
+      ) : (
+        <Note event={item.event} size="small" />
+      )}
+      <div className="flex justify-end gap-2">
+        {editing ? (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => setEditing(false)} disabled={saving}>
+              {t('Cancel')}
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={saving || !content.trim()}>
+              {t('Save')}
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => scheduledPostService.remove(item.id)}>
+              <Trash2 />
+              {t('Discard')}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setEditing(true)}>
+              <Pencil />
+              {t('Edit')}
+            </Button>
+            <Button variant="secondary" size="sm" disabled={publishing} onClick={handlePublishNow}>
+              <Send />
+              {t('Publish now')}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Build the tags derived from the content again with the composer's builder and keep only
+ * what the content doesn't decide: the reply/root context, mentions, poll options and so on
+ */
+async function createEditedDraftEvent(event: Event, content: string, createdAt: number) {
+  const draftEvent = await createShortTextNoteDraftEvent(content, [])
+  return {
+    kind: event.kind,
+    content: draftEvent.content,
+    tags: draftEvent.tags.concat(
+      event.tags.filter(([tagName]) => !CONTENT_TAG_NAMES.includes(tagName))
+    ),
+    created_at: createdAt
+  }
+}
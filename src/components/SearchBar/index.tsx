@@ -2,6 +2,7 @@ import SearchInput from '@/components/SearchInput'
 import { useSearchProfiles } from '@/hooks'
 import { toNote } from '@/lib/link'
 import { randomString } from '@/lib/random'
+import { isAdvancedSearchQuery } from '@/lib/search-query'
 import { normalizeUrl } from '@/lib/url'
 import { cn } from '@/lib/utils'
 import { useSecondaryPage } from '@/PageManager'
@@ -124,6 +125,11 @@ const SearchBar = forwardRef<
       // ignore
     }
 
+    if (isAdvancedSearchQuery(search)) {
+      setSelectableOptions([{ type: 'notes', search }])
+      return
+    }
+
     const hashtag = search.match(/[\p{L}\p{N}\p{M}]+/u)?.[0].toLowerCase() ?? ''
 
     setSelectableOptions([
@@ -1,14 +1,21 @@
-import { BIG_RELAY_URLS, SEARCHABLE_RELAY_URLS } from '@/constants'
+import { BIG_RELAY_URLS } from '@/constants'
 import { TSearchParams } from '@/types'
 import NormalFeed from '../NormalFeed'
+import NoteSearchResult from '../NoteSearchResult'
 import Profile from '../Profile'
 import { ProfileListBySearch } from '../ProfileListBySearch'
 import Relay from '../Relay'
+import SavedSearches, { SaveSearchButton } from '../SavedSearches'
 import TrendingNotes from '../TrendingNotes'
 
 export default function SearchResult({ searchParams }: { searchParams: TSearchParams | null }) {
   if (!searchParams) {
-    return <TrendingNotes />
+    return (
+      <>
+        <SavedSearches className="mb-2" />
+        <TrendingNotes />
+      </>
+    )
   }
   if (searchParams.type === 'profile') {
     return <Profile id={searchParams.search} />
@@ -18,10 +25,10 @@ export default function SearchResult({ searchParams }: { searchParams: TSearchPa
   }
   if (searchParams.type === 'notes') {
     return (
-      <NormalFeed
-        subRequests={[{ urls: SEARCHABLE_RELAY_URLS, filter: { search: searchParams.search } }]}
-        showRelayCloseReason
-      />
+      <>
+        <SaveSearchButton query={searchParams.search} />
+        <NoteSearchResult query={searchParams.search} />
+      </>
     )
   }
   if (searchParams.type === 'hashtag') {
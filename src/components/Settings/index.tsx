@@ -4,6 +4,7 @@ import {
   toAppearanceSettings,
   toGeneralSettings,
   toPostSettings,
+  toRelayAuthSettings,
   toRelaySettings,
   toTranslation,
   toWallet
@@ -22,6 +23,7 @@ import {
   PencilLine,
   Server,
   Settings2,
+  ShieldCheck,
   Wallet
 } from 'lucide-react'
 import { forwardRef, HTMLProps, useState } from 'react'
@@ -57,6 +59,15 @@ export default function Settings() {
         </div>
         <ChevronRight />
       </SettingItem>
+      {!!pubkey && (
+        <SettingItem className="clickable" onClick={() => push(toRelayAuthSettings())}>
+          <div className="flex items-center gap-4">
+            <ShieldCheck />
+            <div>{t('Relay authentication')}</div>
+          </div>
+          <ChevronRight />
+        </SettingItem>
+      )}
       {!!pubkey && (
         <SettingItem className="clickable" onClick={() => push(toTranslation())}>
           <div className="flex items-center gap-4">
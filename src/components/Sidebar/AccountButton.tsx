@@ -7,11 +7,30 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu'
-import { toWallet } from '@/lib/link'
+import { useOutbox, useScheduledPosts } from '@/hooks'
+import {
+  toArticleEditor,
+  toDirectMessages,
+  toDrafts,
+  toOutbox,
+  toScheduledPosts,
+  toWallet
+} from '@/lib/link'
 import { cn } from '@/lib/utils'
 import { useSecondaryPage } from '@/PageManager'
 import { useNostr } from '@/providers/NostrProvider'
-import { LogIn, LogOut, Plus, Wallet } from 'lucide-react'
+import {
+  Clapperboard,
+  Clock,
+  CloudOff,
+  FilePen,
+  LogIn,
+  LogOut,
+  Mail,
+  Newspaper,
+  Plus,
+  Wallet
+} from 'lucide-react'
 import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import LoginDialog from '../LoginDialog'
@@ -19,6 +38,7 @@ import LogoutDialog from '../LogoutDialog'
 import SignerTypeBadge from '../SignerTypeBadge'
 import { SimpleUserAvatar } from '../UserAvatar'
 import { SimpleUsername } from '../Username'
+import VideoPostDialog from '../VideoPostDialog'
 import SidebarItem from './SidebarItem'
 
 export default function AccountButton({ collapse }: { collapse: boolean }) {
@@ -36,8 +56,11 @@ function ProfileButton({ collapse }: { collapse: boolean }) {
   const { account, accounts, switchAccount } = useNostr()
   const pubkey = account?.pubkey
   const { push } = useSecondaryPage()
+  const outboxItems = useOutbox(pubkey)
+  const scheduledPosts = useScheduledPosts(pubkey)
   const [loginDialogOpen, setLoginDialogOpen] = useState(false)
   const [logoutDialogOpen, setLogoutDialogOpen] = useState(false)
+  const [videoPostDialogOpen, setVideoPostDialogOpen] = useState(false)
   if (!pubkey) return null
 
   return (
@@ -63,6 +86,38 @@ function ProfileButton({ collapse }: { collapse: boolean }) {
           <Wallet />
           {t('Wallet')}
         </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => push(toDirectMessages())}>
+          <Mail />
+          {t('Messages')}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => push(toDrafts())}>
+          <FilePen />
+          {t('Drafts')}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => push(toArticleEditor())}>
+          <Newspaper />
+          {t('Write article')}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => setVideoPostDialogOpen(true)}>
+          <Clapperboard />
+          {t('Publish video')}
+        </DropdownMenuItem>
+        {outboxItems.length > 0 && (
+          <DropdownMenuItem onClick={() => push(toOutbox())}>
+            <CloudOff />
+            {t('Outbox')}
+            <span className="ml-auto text-xs text-muted-foreground">
+              {t('n pending', { n: outboxItems.length })}
+            </span>
+          </DropdownMenuItem>
+        )}
+        {scheduledPosts.length > 0 && (
+          <DropdownMenuItem onClick={() => push(toScheduledPosts())}>
+            <Clock />
+            {t('Scheduled notes')}
+            <span className="ml-auto text-xs text-muted-foreground">{scheduledPosts.length}</span>
+          </DropdownMenuItem>
+        )}
         <DropdownMenuSeparator />
         <DropdownMenuLabel>{t('Switch account')}</DropdownMenuLabel>
         {accounts.map((act) => (
@@ -117,6 +172,7 @@ function ProfileButton({ collapse }: { collapse: boolean }) {
       </DropdownMenuContent>
       <LoginDialog open={loginDialogOpen} setOpen={setLoginDialogOpen} />
       <LogoutDialog open={logoutDialogOpen} setOpen={setLogoutDialogOpen} />
+      <VideoPostDialog open={videoPostDialogOpen} setOpen={setVideoPostDialogOpen} />
     </DropdownMenu>
   )
 }
@@ -4,7 +4,7 @@ import { PlusCircle, Settings } from 'lucide-react'
 import SidebarItem from './SidebarItem'
 import { useFeed } from '@/providers/FeedProvider'
 import { useEffect, useState } from 'react'
-import nip05CommunityService from '@/services/nip05-community.service'
+import communityRolesService from '@/services/community-roles.service'
 
 export default function CreateCommunityButton({ collapse }: { collapse: boolean }) {
   const { push } = useSecondaryPage()
@@ -22,11 +22,9 @@ export default function CreateCommunityButton({ collapse }: { collapse: boolean
       }
 
       try {
-        // Get members from the domain (uses cache if available)
-        const members = await nip05CommunityService.getDomainMembers(domain)
-
-        // User is admin if they're the first member
-        setIsAdmin(members.length > 0 && members[0] === pubkey)
+        // Admins are the nostr.json owner plus any declared in the community's roles
+        const roles = await communityRolesService.getRoles(domain)
+        setIsAdmin(roles.admins.includes(pubkey))
       } catch (error) {
         console.error('[CreateCommunityButton] Error checking admin status:', error)
         setIsAdmin(false)
@@ -0,0 +1,282 @@
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle
+} from '@/components/ui/drawer'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { StorageKey } from '@/constants'
+import { createAddressableVideoDraftEvent } from '@/lib/draft-event'
+import { toNote } from '@/lib/link'
+import { randomString } from '@/lib/random'
+import { useSecondaryPage } from '@/PageManager'
+import { useNostr } from '@/providers/NostrProvider'
+import { useScreenSize } from '@/providers/ScreenSizeProvider'
+import mediaUpload, { UPLOAD_ABORTED_ERROR_MSG } from '@/services/media-upload.service'
+import { TVideoVariant } from '@/types'
+import { LoaderCircle, Video, X } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import VideoPlayer from '../VideoPlayer'
+import { extractVideoMetadata, formatDuration } from './utils'
+
+export default function VideoPostDialog({
+  open,
+  setOpen
+}: {
+  open: boolean
+  setOpen: (open: boolean) => void
+}) {
+  const { t } = useTranslation()
+  const { isSmallScreen } = useScreenSize()
+
+  if (isSmallScreen) {
+    return (
+      <Drawer open={open} onOpenChange={setOpen}>
+        <DrawerContent className="max-h-[90vh]">
+          <DrawerHeader>
+            <DrawerTitle>{t('Publish video')}</DrawerTitle>
+            <DrawerDescription className="hidden" />
+          </DrawerHeader>
+          <div className="p-4 overflow-y-auto">
+            {open && <VideoPostContent close={() => setOpen(false)} />}
+          </div>
+        </DrawerContent>
+      </Drawer>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('Publish video')}</DialogTitle>
+          <DialogDescription className="hidden" />
+        </DialogHeader>
+        {open && <VideoPostContent close={() => setOpen(false)} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function VideoPostContent({ close }: { close: () => void }) {
+  const { t } = useTranslation()
+  const { push } = useSecondaryPage()
+  const { publish, checkLogin } = useNostr()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const [variant, setVariant] = useState<TVideoVariant | null>(null)
+  const [progress, setProgress] = useState<number | null>(null)
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+  const [hashtags, setHashtags] = useState('')
+  const [isShort, setIsShort] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+  const uploading = progress !== null
+  const canPublish = !!variant && !!title.trim() && !uploading && !publishing
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    setVariant(null)
+    setProgress(0)
+    try {
+      const metadata = await extractVideoMetadata(file)
+      const result = await mediaUpload.upload(file, {
+        onProgress: (p) => setProgress(p),
+        signal: abortController.signal
+      })
+      // The video is still usable without a thumbnail
+      const thumbnailResult = metadata.thumbnail
+        ? await mediaUpload
+            .upload(metadata.thumbnail, { signal: abortController.signal })
+            .catch((error) => {
+              console.error('Failed to upload thumbnail', error)
+              return undefined
+            })
+        : undefined
+
+      setVariant({
+        url: result.url,
+        mimeType: file.type || undefined,
+        dim:
+          metadata.width && metadata.height
+            ? { width: metadata.width, height: metadata.height }
+            : undefined,
+        duration: metadata.duration || undefined,
+        thumbnail: thumbnailResult?.url,
+        uploadTags: result.tags
+      })
+      setIsShort(metadata.height > metadata.width)
+      setTitle((prev) => prev || file.name.replace(/\.[^.]+$/, ''))
+    } catch (error) {
+      const message = (error as Error).message
+      if (message !== UPLOAD_ABORTED_ERROR_MSG) {
+        toast.error(`${t('Failed to upload video')}: ${message}`)
+      }
+    } finally {
+      abortControllerRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const handleSelectFile = () => {
+    if (!fileInputRef.current) return
+
+    fileInputRef.current.value = '' // clear the value so that the same file can be selected again
+    fileInputRef.current.click()
+  }
+
+  const handlePublish = () => {
+    checkLogin(async () => {
+      if (!variant || !canPublish) return
+
+      setPublishing(true)
+      try {
+        const draftEvent = createAddressableVideoDraftEvent(
+          {
+            identifier: randomString(12),
+            title: title.trim(),
+            description: description.trim(),
+            isShort,
+            variants: [variant],
+            hashtags: Array.from(
+              new Set(
+                hashtags
+                  .split(/[\s,]+/)
+                  .map((hashtag) => hashtag.replace(/^#/, '').trim().toLowerCase())
+                  .filter(Boolean)
+              )
+            )
+          },
+          {
+            addClientTag: window.localStorage.getItem(StorageKey.ADD_CLIENT_TAG) === 'true'
+          }
+        )
+        const event = await publish(draftEvent)
+        toast.success(t('Video published'))
+        close()
+        push(toNote(event))
+      } catch (error) {
+        toast.error(`${t('Failed to publish video')}: ${(error as Error).message}`)
+      } finally {
+        setPublishing(false)
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {variant ? (
+        <div className="space-y-1">
+          <VideoPlayer src={variant.url} />
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {variant.dim && (
+              <span>
+                {variant.dim.width}×{variant.dim.height}
+              </span>
+            )}
+            {variant.duration && <span>{formatDuration(variant.duration)}</span>}
+            {!variant.thumbnail && <span>{t('No thumbnail')}</span>}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto"
+              disabled={publishing}
+              onClick={handleSelectFile}
+            >
+              {t('Replace')}
+            </Button>
+          </div>
+        </div>
+      ) : uploading ? (
+        <div className="flex items-center gap-2 rounded-lg border p-4">
+          <div className="flex-1 space-y-1">
+            <div className="text-sm text-muted-foreground">{t('Uploading...')}</div>
+            <div className="h-0.5 w-full rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full bg-primary transition-[width] duration-200 ease-out"
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => abortControllerRef.current?.abort()}
+            className="text-muted-foreground hover:text-foreground"
+            title={t('Cancel')}
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+      ) : (
+        <Button variant="outline" className="w-full h-24" onClick={handleSelectFile}>
+          <Video />
+          {t('Select a video')}
+        </Button>
+      )}
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept="video/*"
+        onChange={handleFileChange}
+      />
+      <div className="grid gap-2">
+        <Label htmlFor="video-title">{t('Title')}</Label>
+        <Input id="video-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="video-description">{t('Description')}</Label>
+        <Textarea
+          id="video-description"
+          rows={3}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="video-hashtags">{t('Hashtags')}</Label>
+        <Input
+          id="video-hashtags"
+          placeholder="nostr, bitcoin"
+          value={hashtags}
+          onChange={(e) => setHashtags(e.target.value)}
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="video-short">{t('Short video')}</Label>
+        <Switch id="video-short" checked={isShort} onCheckedChange={setIsShort} />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={close}>
+          {t('Cancel')}
+        </Button>
+        <Button disabled={!canPublish} onClick={handlePublish}>
+          {publishing && <LoaderCircle className="animate-spin" />}
+          {t('Publish')}
+        </Button>
+      </div>
+    </div>
+  )
+}
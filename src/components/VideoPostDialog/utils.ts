@@ -0,0 +1,80 @@
+const THUMBNAIL_TIMEOUT = 10_000 // 10 seconds
+
+export type TVideoMetadata = {
+  width: number
+  height: number
+  duration: number
+  thumbnail: File | null
+}
+
+/**
+ * Read the dimensions and duration of a video file and capture a frame as its thumbnail
+ */
+export function extractVideoMetadata(file: File): Promise<TVideoMetadata> {
+  return new Promise((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(file)
+    const video = document.createElement('video')
+    video.preload = 'metadata'
+    video.muted = true
+    video.playsInline = true
+
+    let settled = false
+    const finish = (thumbnail: File | null) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      resolve({
+        width: video.videoWidth,
+        height: video.videoHeight,
+        duration: isFinite(video.duration) ? video.duration : 0,
+        thumbnail
+      })
+      video.src = ''
+      URL.revokeObjectURL(objectUrl)
+    }
+    // Some codecs can be read but never seek, publish without a thumbnail then
+    const timer = setTimeout(() => finish(null), THUMBNAIL_TIMEOUT)
+
+    video.onloadedmetadata = () => {
+      const duration = isFinite(video.duration) ? video.duration : 0
+      video.currentTime = Math.min(1, duration / 2)
+    }
+    video.onseeked = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = video.videoWidth
+      canvas.height = video.videoHeight
+      const context = canvas.getContext('2d')
+      if (!context || !canvas.width || !canvas.height) {
+        finish(null)
+        return
+      }
+      context.drawImage(video, 0, 0, canvas.width, canvas.height)
+      canvas.toBlob(
+        (blob) => {
+          const name = `${file.name.replace(/\.[^.]+$/, '')}-thumbnail.jpg`
+          finish(blob ? new File([blob], name, { type: 'image/jpeg' }) : null)
+        },
+        'image/jpeg',
+        0.85
+      )
+    }
+    video.onerror = () => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      URL.revokeObjectURL(objectUrl)
+      reject(new Error('Unsupported video file'))
+    }
+    video.src = objectUrl
+  })
+}
+
+export function formatDuration(seconds: number) {
+  const total = Math.round(seconds)
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = (total % 60).toString().padStart(2, '0')
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`
+}
@@ -0,0 +1,38 @@
+import { Check, Loader, X } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { SimpleUserAvatar } from '../UserAvatar'
+import { SimpleUsername } from '../Username'
+
+export type TZapSplitLeg = {
+  pubkey: string
+  sats: number
+  status?: 'paying' | 'success' | 'failed' | 'cancelled'
+  error?: string
+}
+
+export default function ZapSplitLegs({ legs }: { legs: TZapSplitLeg[] }) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="space-y-1 w-full">
+      {legs.map((leg) => (
+        <div key={leg.pubkey} className="flex items-center gap-2 text-sm">
+          <SimpleUserAvatar userId={leg.pubkey} size="xSmall" />
+          <SimpleUsername userId={leg.pubkey} className="flex-1 w-0 truncate" />
+          {leg.status === 'paying' && <Loader className="size-4 shrink-0 animate-spin" />}
+          {leg.status === 'success' && <Check className="size-4 shrink-0 text-green-500" />}
+          {leg.status === 'failed' && (
+            <div className="flex items-center gap-1 min-w-0 text-destructive">
+              <X className="size-4 shrink-0" />
+              {leg.error && <span className="truncate text-xs">{leg.error}</span>}
+            </div>
+          )}
+          {leg.status === 'cancelled' && (
+            <span className="shrink-0 text-xs text-muted-foreground">{t('Cancelled')}</span>
+          )}
+          <div className="shrink-0 font-semibold">{t('n sats', { n: leg.sats })}</div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -15,11 +15,17 @@ import {
 } from '@/components/ui/drawer'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { getZapSplitsFromEvent } from '@/lib/event-metadata'
+import { splitZapAmount } from '@/lib/lightning'
+import { useCashuWallet } from '@/providers/CashuWalletProvider'
 import { useNostr } from '@/providers/NostrProvider'
 import { useScreenSize } from '@/providers/ScreenSizeProvider'
 import { useZap } from '@/providers/ZapProvider'
+import cashuService from '@/services/cashu.service'
 import lightning from '@/services/lightning.service'
 import noteStatsService from '@/services/note-stats.service'
+import { TNutzapInfo } from '@/types'
 import { Loader } from 'lucide-react'
 import { NostrEvent } from 'nostr-tools'
 import { Dispatch, SetStateAction, useEffect, useMemo, useRef, useState } from 'react'
@@ -27,6 +33,7 @@ import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
 import UserAvatar from '../UserAvatar'
 import Username from '../Username'
+import ZapSplitLegs, { TZapSplitLeg } from './ZapSplitLegs'
 
 export default function ZapDialog({
   open,
@@ -136,10 +143,31 @@ function ZapDialogContent({
 }) {
   const { t, i18n } = useTranslation()
   const { pubkey } = useNostr()
-  const { defaultZapSats, defaultZapComment } = useZap()
+  const { defaultZapSats, defaultZapComment, isWalletConnected } = useZap()
+  const { wallet: cashuWallet, balance: cashuBalance, sendNutzap } = useCashuWallet()
   const [sats, setSats] = useState(defaultAmount ?? defaultZapSats)
   const [comment, setComment] = useState(defaultComment ?? defaultZapComment)
   const [zapping, setZapping] = useState(false)
+  const [nutzapInfo, setNutzapInfo] = useState<TNutzapInfo | null>(null)
+  const [isNutzap, setIsNutzap] = useState(false)
+  const zapSplits = useMemo(() => (event ? getZapSplitsFromEvent(event) : []), [event])
+  const zapSplitLegs = useMemo(() => splitZapAmount(sats, zapSplits), [sats, zapSplits])
+  const canNutzap = !!cashuWallet && !!nutzapInfo && zapSplitLegs.length === 0
+
+  useEffect(() => {
+    if (!cashuWallet) return
+
+    cashuService
+      .fetchNutzapInfo(recipient)
+      .then((nutzapInfo) => {
+        setNutzapInfo(nutzapInfo)
+        // Ecash is the only way to zap without a connected Lightning wallet
+        if (nutzapInfo && !isWalletConnected) {
+          setIsNutzap(true)
+        }
+      })
+      .catch(() => setNutzapInfo(null))
+  }, [recipient, cashuWallet])
   const presetAmounts = useMemo(() => {
     if (i18n.language.startsWith('zh')) {
       return [
@@ -175,6 +203,13 @@ function ZapDialogContent({
   }, [i18n.language])
 
   const handleZap = async () => {
+    if (canNutzap && isNutzap) {
+      return handleNutzap()
+    }
+    if (event && zapSplitLegs.length) {
+      return handleSplitZap(event)
+    }
+
     try {
       if (!pubkey) {
         throw new Error('You need to be logged in to zap')
@@ -197,6 +232,67 @@ function ZapDialogContent({
     }
   }
 
+  const handleNutzap = async () => {
+    setZapping(true)
+    try {
+      await sendNutzap(recipient, sats, comment, event)
+      setOpen(false)
+      toast.success(t('Nutzap sent'))
+    } catch (error) {
+      toast.error(`${t('Zap failed')}: ${(error as Error).message}`)
+    } finally {
+      setZapping(false)
+    }
+  }
+
+  const handleSplitZap = async (event: NostrEvent) => {
+    if (!pubkey) {
+      toast.error(`${t('Zap failed')}: ${t('You need to be logged in to zap')}`)
+      return
+    }
+
+    // Payment modals may pop up for every leg, so progress is reported in a toast
+    setOpen(false)
+    const legs: TZapSplitLeg[] = zapSplitLegs.map((leg) => ({ ...leg }))
+    const toastId = toast.loading(t('Zapping splits...'), {
+      description: <ZapSplitLegs legs={legs} />
+    })
+    const updateToast = (done = false) => {
+      const options = { id: toastId, description: <ZapSplitLegs legs={[...legs]} /> }
+      if (!done) {
+        toast.loading(t('Zapping splits...'), options)
+      } else if (legs.some(({ status }) => status === 'success')) {
+        toast.success(t('Split zap finished'), { ...options, duration: 10_000 })
+      } else {
+        toast.error(t('Zap failed'), { ...options, duration: 10_000 })
+      }
+    }
+
+    for (const leg of legs) {
+      leg.status = 'paying'
+      updateToast()
+      try {
+        const zapResult = await lightning.zapSplitRecipient(
+          pubkey,
+          event,
+          leg.pubkey,
+          leg.sats,
+          comment
+        )
+        if (!zapResult) {
+          leg.status = 'cancelled'
+        } else {
+          leg.status = 'success'
+          noteStatsService.addZap(pubkey, event.id, zapResult.invoice, leg.sats, comment)
+        }
+      } catch (error) {
+        leg.status = 'failed'
+        leg.error = (error as Error).message
+      }
+    }
+    updateToast(true)
+  }
+
   return (
     <>
       {/* Sats slider or input */}
@@ -244,6 +340,27 @@ function ZapDialogContent({
         <Input id="comment" value={comment} onChange={(e) => setComment(e.target.value)} />
       </div>
 
+      {/* Pay with ecash instead of Lightning */}
+      {canNutzap && (
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <Label htmlFor="nutzap">{t('Send as nutzap')}</Label>
+            <div className="text-xs text-muted-foreground">
+              {t('Ecash balance: n sats', { n: cashuBalance })}
+            </div>
+          </div>
+          <Switch id="nutzap" checked={isNutzap} onCheckedChange={setIsNutzap} />
+        </div>
+      )}
+
+      {/* Zap splits of the event */}
+      {zapSplitLegs.length > 0 && (
+        <div className="space-y-2">
+          <Label>{t('Zap splits')}</Label>
+          <ZapSplitLegs legs={zapSplitLegs} />
+        </div>
+      )}
+
       <Button onClick={handleZap}>
         {zapping && <Loader className="animate-spin" />} {t('Zap n sats', { n: sats })}
       </Button>
@@ -65,6 +65,9 @@ export const StorageKey = {
   PRIMARY_COLOR: 'primaryColor',
   COMMUNITY_THEME_DOMAIN: 'communityThemeDomain',
   ENABLE_SINGLE_COLUMN_LAYOUT: 'enableSingleColumnLayout',
+  RELAY_AUTH_RECORD_MAP: 'relayAuthRecordMap',
+  SYNC_DRAFTS: 'syncDrafts',
+  SAVED_SEARCHES: 'savedSearches',
   MEDIA_UPLOAD_SERVICE: 'mediaUploadService', // deprecated
   HIDE_UNTRUSTED_EVENTS: 'hideUntrustedEvents', // deprecated
   ACCOUNT_RELAY_LIST_EVENT_MAP: 'accountRelayListEventMap', // deprecated
@@ -95,6 +98,8 @@ export const ExtendedKind = {
   PICTURE: 20,
   VIDEO: 21,
   SHORT_VIDEO: 22,
+  ADDRESSABLE_VIDEO: 34235,
+  ADDRESSABLE_SHORT_VIDEO: 34236,
   POLL: 1068,
   POLL_RESPONSE: 1018,
   COMMENT: 1111,
@@ -104,15 +109,28 @@ export const ExtendedKind = {
   BLOSSOM_SERVER_LIST: 10063,
   RELAY_REVIEW: 31987,
   GROUP_METADATA: 39000,
-  COMMUNITY_JOIN_REQUEST: 39457
+  COMMUNITY_JOIN_REQUEST: 39457,
+  COMMUNITY_JOIN_DECISION: 39458,
+  COMMUNITY_ROLE_LIST: 39459,
+  COMMUNITY_MODERATION: 39460,
+  CASHU_WALLET: 17375,
+  CASHU_TOKEN: 7375,
+  CASHU_HISTORY: 7376,
+  NUTZAP_INFO: 10019,
+  NUTZAP: 9321,
+  DRAFT: 31234
 }
 
+export const DEFAULT_CASHU_MINTS = ['https://mint.minibits.cash/Bitcoin', 'https://mint.coinos.io']
+
 export const SUPPORTED_KINDS = [
   kinds.ShortTextNote,
   kinds.Repost,
   ExtendedKind.PICTURE,
   ExtendedKind.VIDEO,
   ExtendedKind.SHORT_VIDEO,
+  ExtendedKind.ADDRESSABLE_VIDEO,
+  ExtendedKind.ADDRESSABLE_SHORT_VIDEO,
   ExtendedKind.POLL,
   ExtendedKind.COMMENT,
   ExtendedKind.VOICE,
@@ -1,9 +1,15 @@
+export * from './useFetchCommunityRoles'
 export * from './useFetchEvent'
 export * from './useFetchFollowings'
 export * from './useFetchNip05'
+export * from './useFetchNip05DomainInfo'
 export * from './useFetchProfile'
 export * from './useFetchRelayInfo'
 export * from './useFetchRelayInfos'
 export * from './useFetchRelayList'
+export * from './useOutbox'
+export * from './usePublishReceipt'
+export * from './useRelayHealth'
+export * from './useScheduledPosts'
 export * from './useSearchProfiles'
 export * from './useTranslatedEvent'
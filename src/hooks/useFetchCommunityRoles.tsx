@@ -0,0 +1,31 @@
+import communityRolesService from '@/services/community-roles.service'
+import { TCommunityRoles } from '@/types'
+import { useEffect, useState } from 'react'
+
+export function useFetchCommunityRoles(domain?: string | null) {
+  const [isFetching, setIsFetching] = useState(true)
+  const [roles, setRoles] = useState<TCommunityRoles | undefined>(undefined)
+
+  useEffect(() => {
+    if (!domain) {
+      setRoles(undefined)
+      setIsFetching(false)
+      return
+    }
+    const fetchRoles = async () => {
+      setIsFetching(true)
+      try {
+        const roles = await communityRolesService.getRoles(domain)
+        setRoles(roles)
+      } catch (err) {
+        console.error(err)
+      } finally {
+        setIsFetching(false)
+      }
+    }
+
+    fetchRoles()
+  }, [domain])
+
+  return { roles, isFetching }
+}
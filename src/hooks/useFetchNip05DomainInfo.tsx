@@ -0,0 +1,30 @@
+import nip05CommunityService from '@/services/nip05-community.service'
+import { TNip05DomainInfo } from '@/types'
+import { useEffect, useState } from 'react'
+
+export function useFetchNip05DomainInfo(domain?: string) {
+  const [isFetching, setIsFetching] = useState(true)
+  const [domainInfo, setDomainInfo] = useState<TNip05DomainInfo | undefined>(undefined)
+
+  useEffect(() => {
+    if (!domain) {
+      setIsFetching(false)
+      return
+    }
+    const fetchDomainInfo = async () => {
+      setIsFetching(true)
+      try {
+        const domainInfo = await nip05CommunityService.getDomainInfo(domain)
+        setDomainInfo(domainInfo)
+      } catch (err) {
+        console.error(err)
+      } finally {
+        setIsFetching(false)
+      }
+    }
+
+    fetchDomainInfo()
+  }, [domain])
+
+  return { domainInfo, isFetching }
+}
@@ -0,0 +1,10 @@
+import outbox from '@/services/outbox.service'
+import { useSyncExternalStore } from 'react'
+
+export function useOutbox(pubkey?: string | null) {
+  const items = useSyncExternalStore(
+    (cb) => outbox.subscribe(cb),
+    () => outbox.getItems()
+  )
+  return pubkey ? items.filter((item) => item.event.pubkey === pubkey) : items
+}
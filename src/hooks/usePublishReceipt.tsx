@@ -0,0 +1,13 @@
+import publishReceiptService from '@/services/publish-receipt.service'
+import { useEffect, useSyncExternalStore } from 'react'
+
+export function usePublishReceipt(eventId: string) {
+  useEffect(() => {
+    publishReceiptService.loadReceipt(eventId)
+  }, [eventId])
+
+  return useSyncExternalStore(
+    (cb) => publishReceiptService.subscribe(eventId, cb),
+    () => publishReceiptService.getReceipt(eventId)
+  )
+}
@@ -0,0 +1,16 @@
+import relayHealthService from '@/services/relay-health.service'
+import { useSyncExternalStore } from 'react'
+
+export function useRelayHealthList() {
+  return useSyncExternalStore(
+    (cb) => relayHealthService.subscribe(cb),
+    () => relayHealthService.getHealthList()
+  )
+}
+
+export function useRelayHealth(url: string) {
+  return useSyncExternalStore(
+    (cb) => relayHealthService.subscribe(cb),
+    () => relayHealthService.getHealth(url)
+  )
+}
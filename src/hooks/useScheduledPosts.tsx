@@ -0,0 +1,10 @@
+import scheduledPostService from '@/services/scheduled-post.service'
+import { useSyncExternalStore } from 'react'
+
+export function useScheduledPosts(pubkey?: string | null) {
+  const items = useSyncExternalStore(
+    (cb) => scheduledPostService.subscribe(cb),
+    () => scheduledPostService.getItems()
+  )
+  return pubkey ? items.filter((item) => item.event.pubkey === pubkey) : items
+}
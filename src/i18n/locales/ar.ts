@@ -503,13 +503,11 @@ export default {
     'Failed to send join request': 'فشل إرسال طلب الانضمام',
     'Incoming Join Requests': 'طلبات الانضمام الواردة',
     'Review and approve requests from users who want to join your community': 'راجع واقبل الطلبات من المستخدمين الذين يريدون الانضمام إلى مجتمعك',
-    'Review requests from users who want to join your community. Add them to your nostr.json file to approve.': 'راجع طلبات المستخدمين الذين يريدون الانضمام إلى مجتمعك. أضفهم إلى ملف nostr.json للموافقة.',
     'Please login to view join requests for your community': 'يرجى تسجيل الدخول لعرض طلبات الانضمام لمجتمعك',
     'Only requests from users you follow are shown here. This helps maintain a well-connected community and filters out spam.': 'يتم عرض الطلبات من المستخدمين الذين تتابعهم فقط هنا. يساعد هذا في الحفاظ على مجتمع متصل جيدًا وتصفية الرسائل غير المرغوب فيها.',
     'No Pending Requests': 'لا توجد طلبات معلقة',
     'You have no pending join requests from users you follow. When users request to join, they will appear here.': 'ليس لديك طلبات انضمام معلقة من المستخدمين الذين تتابعهم. عندما يطلب المستخدمون الانضمام، سيظهرون هنا.',
     'How to approve': 'كيفية الموافقة',
-    'To approve a request, add the user\'s pubkey to your domain\'s .well-known/nostr.json file. Once they appear in the file, the request will automatically be marked as approved.': 'للموافقة على طلب، أضف المفتاح العام للمستخدم إلى ملف .well-known/nostr.json الخاص بنطاقك. بمجرد ظهورهم في الملف، سيتم وضع علامة على الطلب تلقائيًا على أنه تمت الموافقة عليه.',
     'Requesting to join': 'طلب الانضمام إلى',
     Approved: 'تمت الموافقة',
     'Copy Pubkey': 'نسخ المفتاح العام',
@@ -636,6 +634,316 @@ export default {
     'Generated nostr.json file - copy or download to .well-known/nostr.json': 'ملف nostr.json المُنشأ - انسخه أو قم بتنزيله إلى .well-known/nostr.json',
     'Copied to clipboard': 'تم النسخ إلى الحافظة',
     'File downloaded': 'تم تنزيل الملف',
-    Important: 'مهم'
+    Important: 'مهم',
+
+    // Community Settings
+    'Community Settings': 'إعدادات المجتمع',
+    'Community Rules': 'قواعد المجتمع',
+    'Community Details': 'تفاصيل المجتمع',
+    'Shown on community cards and at the top of your community page':
+      'تظهر في بطاقات المجتمع وأعلى صفحة مجتمعك',
+    'The community.json file describes your community. Place it next to nostr.json in the .well-known directory and clients will show its name, description, rules and banner on your community page.':
+      'يصف ملف community.json مجتمعك. ضعه بجانب nostr.json في مجلد .well-known وستعرض التطبيقات اسمه ووصفه وقواعده وغلافه في صفحة مجتمعك.',
+    'Your published community.json has problems': 'ملف community.json المنشور يحتوي على مشاكل',
+    Name: 'الاسم',
+    Description: 'الوصف',
+    'Icon URL': 'رابط الأيقونة',
+    'Banner URL': 'رابط الغلاف',
+    Categories: 'الفئات',
+    'Separate categories with commas': 'افصل بين الفئات بفواصل',
+    Rules: 'القواعد',
+    'One rule per line': 'قاعدة واحدة في كل سطر',
+    'Live community.json Preview': 'معاينة مباشرة لملف community.json',
+    'Copy or download to .well-known/community.json next to your nostr.json':
+      'انسخه أو نزّله إلى .well-known/community.json بجانب ملف nostr.json',
+    optional: 'اختياري',
+
+    // Community Join Decisions
+    'Review requests from users who want to join your community. Approved users are added to the member list in Manage Members.':
+      'راجع طلبات المستخدمين الذين يرغبون في الانضمام إلى مجتمعك. تتم إضافة المستخدمين المقبولين إلى قائمة الأعضاء في إدارة الأعضاء.',
+    "Approving publishes a signed decision and notifies the requester. Approved users are added to the generated nostr.json in Manage Members, so you can download the merged file and upload it to your domain's .well-known directory.":
+      'تنشر الموافقة قرارًا موقّعًا وتُعلم مقدم الطلب. تتم إضافة المستخدمين المقبولين إلى ملف nostr.json المُنشأ في إدارة الأعضاء، لتتمكن من تنزيل الملف المدمج ورفعه إلى مجلد .well-known في نطاقك.',
+    Approve: 'موافقة',
+    Reject: 'رفض',
+    Rejected: 'مرفوض',
+    'Approved, pending nostr.json upload': 'تمت الموافقة، بانتظار رفع nostr.json',
+    'Request approved. The user has been added to your nostr.json.':
+      'تمت الموافقة على الطلب. تمت إضافة المستخدم إلى ملف nostr.json.',
+    'Request rejected': 'تم رفض الطلب',
+    'Failed to publish decision': 'فشل نشر القرار',
+    'Request Approved': 'تمت الموافقة على الطلب',
+    'Request Declined': 'تم رفض الطلب',
+    'The admin approved your request. You will appear as a member once they publish the updated nostr.json.':
+      'وافق المسؤول على طلبك. ستظهر كعضو بمجرد نشر ملف nostr.json المحدّث.',
+    'approved your request to join domain': 'وافق على طلب انضمامك إلى {{domain}}',
+    'declined your request to join domain': 'رفض طلب انضمامك إلى {{domain}}',
+
+    // Community Roles
+    'Community Admins': 'مسؤولو المجتمع',
+    Admin: 'مسؤول',
+    Moderator: 'مشرف',
+    Owner: 'المالك',
+    'Admins & Moderators': 'المسؤولون والمشرفون',
+    'Admins and moderators can review join requests. Save them in community.json, or publish them as a signed role list that only the owner or an admin listed in community.json can update.':
+      'يمكن للمسؤولين والمشرفين مراجعة طلبات الانضمام. احفظهم في community.json أو انشرهم كقائمة أدوار موقّعة لا يمكن تحديثها إلا من المالك أو مسؤول مدرج في community.json.',
+    'This user already has a role': 'هذا المستخدم لديه دور بالفعل',
+    'Publish Role List': 'نشر قائمة الأدوار',
+    'Publishing...': 'جارٍ النشر...',
+    'Role list published': 'تم نشر قائمة الأدوار',
+    'Failed to publish role list': 'فشل نشر قائمة الأدوار',
+
+    // Community moderation
+    'off-topic': 'خارج الموضوع',
+    'rule violation': 'مخالفة القواعد',
+    Show: 'إظهار',
+    'No members found for this community': 'لم يتم العثور على أعضاء لهذا المجتمع',
+    'Hidden by community moderators': 'مخفي من قبل مشرفي المجتمع',
+    'Post hidden in community': 'تم إخفاء المنشور في المجتمع',
+    'Failed to hide post': 'فشل إخفاء المنشور',
+    'Hide in community': 'إخفاء في المجتمع',
+    'Unhide in community': 'إلغاء الإخفاء في المجتمع',
+    'Pin in community': 'تثبيت في المجتمع',
+    'Unpin from community': 'إلغاء التثبيت من المجتمع',
+    'Updating community...': 'جارٍ تحديث المجتمع...',
+    'Community updated': 'تم تحديث المجتمع',
+    'Failed to update community: {{error}}': 'فشل تحديث المجتمع: {{error}}',
+
+    // Direct messages
+    Messages: 'الرسائل',
+    You: 'أنت',
+    'Send message': 'إرسال رسالة',
+    'Login to view your messages': 'سجّل الدخول لعرض رسائلك',
+    'Direct messages require a signer that supports NIP-44 encryption':
+      'تتطلب الرسائل المباشرة موقّعًا يدعم تشفير NIP-44',
+    'No messages yet': 'لا توجد رسائل بعد',
+    'Failed to send message': 'فشل إرسال الرسالة',
+    'Write a message...': 'اكتب رسالة...',
+
+    // Community chat
+    Chat: 'الدردشة',
+    'Community Chat': 'دردشة المجتمع',
+    'Group relay': 'مرحّل المجموعة',
+    'Group ID': 'معرّف المجموعة',
+    'Only verified members of domain can post in the chat':
+      'يمكن فقط للأعضاء الموثقين في {{domain}} النشر في الدردشة',
+    'Members chat in a NIP-29 group. Use a relay that hosts groups to have it enforce membership, otherwise the chat runs on public relays and only messages from verified members are shown.':
+      'يتحدث الأعضاء في مجموعة NIP-29. استخدم مرحّلًا يستضيف المجموعات ليفرض العضوية، وإلا فستعمل الدردشة على المرحّلات العامة ولن تظهر إلا رسائل الأعضاء الموثقين.',
+
+    // Private bookmarks
+    'Bookmark privately': 'إضافة إشارة مرجعية خاصة',
+    'Remove private bookmark': 'إزالة الإشارة المرجعية الخاصة',
+
+    // Outbox
+    'No relay is reachable right now, the note will be published later':
+      'لا يمكن الوصول إلى أي مرحل حاليًا، سيتم نشر الملاحظة لاحقًا',
+    'All your notes have been published': 'تم نشر جميع ملاحظاتك',
+    Pending: 'قيد الانتظار',
+    'Next retry': 'إعادة المحاولة التالية في {{time}}',
+    Discard: 'تجاهل',
+    'Retry now': 'أعد المحاولة الآن',
+    Outbox: 'صندوق الصادر',
+    'n pending': '{{n}} قيد الانتظار',
+
+    // Publish receipts
+    'Published to n/m relays': 'تم النشر على {{n}}/{{m}} من المرحلات',
+    'Retry failed relays': 'أعد المحاولة على المرحلات الفاشلة',
+    'Failed to republish to relays': 'فشل إعادة النشر على المرحلات',
+
+    // Relay authentication
+    'Authenticate to relay?': 'المصادقة مع المرحل؟',
+    'Relay asks you to authenticate': 'يطلب {{relay}} منك المصادقة. سيعرف المرحل مفتاحك العام.',
+    'Not now': 'ليس الآن',
+    'Allow once': 'السماح مرة واحدة',
+    'Always allow': 'السماح دائمًا',
+    Ask: 'اسأل',
+    'Relay authentication': 'مصادقة المرحلات',
+    'Some relays ask you to prove who you are (NIP-42) before you can read or write. Choose how to answer them.':
+      'تطلب بعض المرحلات إثبات هويتك (NIP-42) قبل القراءة أو الكتابة. اختر كيفية الرد عليها.',
+    'You have not authenticated to any relay yet': 'لم تقم بالمصادقة مع أي مرحل بعد',
+    'Last authenticated': 'آخر مصادقة',
+    'Never authenticated': 'لم تتم المصادقة أبدًا',
+
+    // Zap splits
+    'n sats': '{{n}} ساتوشي',
+    Cancelled: 'ملغى',
+    'Zap splits': 'تقسيم الزاب',
+    'Zapping splits...': 'جارٍ إرسال أجزاء الزاب...',
+    'Split zap finished': 'اكتمل الزاب المقسّم',
+    'Zaps to this note will be split between these recipients':
+      'سيتم تقسيم الزابات على هذه الملاحظة بين هؤلاء المستلمين',
+    'Invalid npub or public key': 'npub أو مفتاح عام غير صالح',
+    'Recipient already added': 'تمت إضافة المستلم بالفعل',
+    'npub or hex public key': 'npub أو مفتاح عام بصيغة hex',
+
+    // Community zaps
+    'Zap this community': 'إرسال زاب لهذا المجتمع',
+    'Split a zap between the admins and the most active members':
+      'قسّم زابًا بين المشرفين والأعضاء الأكثر نشاطًا',
+    'Zapping community...': 'جارٍ إرسال الزاب للمجتمع...',
+    'View receipts': 'عرض الإيصالات',
+    'Zapped n of m recipients': 'تم إرسال الزاب إلى {{n}} من {{m}} مستلمين',
+    'Admin share ({{share}}%)': 'حصة المشرفين ({{share}}%)',
+    'Active members ({{count}})': 'الأعضاء النشطون ({{count}})',
+    Receipts: 'الإيصالات',
+    'Community zaps': 'زابات المجتمع',
+    'You have not zapped this community yet': 'لم ترسل أي زاب لهذا المجتمع بعد',
+    'n of m sats sent': 'تم إرسال {{n}} من {{m}} ساتوشي',
+
+    // Zap history
+    'Zap history': 'سجل الزابات',
+    'Export CSV': 'تصدير CSV',
+    Sent: 'المُرسل',
+    Received: 'المُستلم',
+    People: 'الأشخاص',
+    Communities: 'المجتمعات',
+    Months: 'الأشهر',
+    'n zaps': '{{n}} زابات',
+    Anonymous: 'مجهول',
+
+    // Cashu wallet
+    'Cashu wallet': 'محفظة كاشو',
+    'Received n sats in nutzaps': 'تم استلام {{n}} ساتوشي عبر النَتزاب',
+    'Invalid mint URL': 'رابط دار السك غير صالح',
+    Mints: 'دور السك',
+    'Others can only send you nutzaps from these mints':
+      'يمكن للآخرين إرسال النَتزاب إليك من دور السك هذه فقط',
+    'Deposited n sats': 'تم إيداع {{n}} ساتوشي',
+    'Failed to create invoice': 'فشل إنشاء الفاتورة',
+    Deposit: 'إيداع',
+    'Pay this invoice to receive n sats of ecash':
+      'ادفع هذه الفاتورة لتستلم {{n}} ساتوشي من النقد الإلكتروني',
+    Copied: 'تم النسخ',
+    Copy: 'نسخ',
+    'Pay with connected wallet': 'الدفع بالمحفظة المتصلة',
+    'Waiting for payment...': 'في انتظار الدفع...',
+    Mint: 'دار السك',
+    'Create invoice': 'إنشاء فاتورة',
+    'Received n sats': 'تم استلام {{n}} ساتوشي',
+    'Failed to receive ecash': 'فشل استلام النقد الإلكتروني',
+    'No new nutzaps': 'لا يوجد نَتزاب جديد',
+    'Receive ecash': 'استلام نقد إلكتروني',
+    Receive: 'استلام',
+    'Check for nutzaps': 'التحقق من النَتزاب',
+    'Failed to save wallet': 'فشل حفظ المحفظة',
+    'Ecash lets you send and receive nutzaps without a Lightning wallet. Your tokens are stored encrypted on your relays.':
+      'يتيح لك النقد الإلكتروني إرسال النَتزاب واستلامه دون محفظة لايتننغ. تُخزَّن رموزك مشفرة على مرحّلاتك.',
+    'Create Cashu wallet': 'إنشاء محفظة كاشو',
+    'Nutzap sent': 'تم إرسال النَتزاب',
+    'Send as nutzap': 'الإرسال كنَتزاب',
+    'Ecash balance: n sats': 'رصيد النقد الإلكتروني: {{n}} ساتوشي',
+
+    // Scheduled posts
+    'Schedule for later': 'الجدولة لوقت لاحق',
+    'Scheduled notes are published while Jumble is open':
+      'تُنشر الملاحظات المجدولة أثناء فتح Jumble',
+    'The scheduled time must be in the future': 'يجب أن يكون الوقت المجدول في المستقبل',
+    'Note scheduled for {{time}}': 'تمت جدولة الملاحظة في {{time}}',
+    View: 'عرض',
+    Schedule: 'جدولة',
+    'Scheduled notes': 'الملاحظات المجدولة',
+    'No scheduled notes': 'لا توجد ملاحظات مجدولة',
+    Scheduled: 'مجدولة',
+    'Failed to save': 'فشل الحفظ',
+    'Publish now': 'النشر الآن',
+
+    // Drafts
+    Drafts: 'المسودات',
+    'Save draft': 'حفظ المسودة',
+    'Draft saved': 'تم حفظ المسودة',
+    'Failed to save draft': 'فشل حفظ المسودة',
+    'Untitled draft': 'مسودة بلا عنوان',
+    'Draft name': 'اسم المسودة',
+    'Sync drafts across devices': 'مزامنة المسودات بين الأجهزة',
+    'Drafts are encrypted and stored on your relays (NIP-37)':
+      'تُشفَّر المسودات وتُخزَّن على مرحّلاتك (NIP-37)',
+    'No drafts': 'لا توجد مسودات',
+    'Reply draft': 'مسودة رد',
+    Open: 'فتح',
+
+    // Articles
+    'Article published': 'تم نشر المقالة',
+    'Failed to publish article': 'فشل نشر المقالة',
+    Title: 'العنوان',
+    Summary: 'الملخص',
+    'Cover image': 'صورة الغلاف',
+    Hashtags: 'الوسوم',
+    'Write your article in Markdown...': 'اكتب مقالتك بصيغة Markdown...',
+    Update: 'تحديث',
+    Publish: 'نشر',
+    'Edit article': 'تعديل المقالة',
+    'New article': 'مقالة جديدة',
+    'You can only edit your own articles': 'يمكنك تعديل مقالاتك فقط',
+    'Article drafts': 'مسودات المقالات',
+    'Write article': 'كتابة مقالة',
+
+    // Highlights
+    Highlight: 'تمييز',
+    'Highlight with comment': 'تمييز مع تعليق',
+    'Highlight published': 'تم نشر التمييز',
+    'Failed to publish highlight': 'فشل نشر التمييز',
+    'Write a comment...': 'اكتب تعليقًا...',
+    'No highlights': 'لا توجد تمييزات',
+
+    // Discussions
+    Discussion: 'نقاش',
+    Comment: 'تعليق',
+
+    // Videos
+    'Publish video': 'نشر فيديو',
+    'Select a video': 'اختر فيديو',
+    'Uploading...': 'جارٍ الرفع...',
+    'Failed to upload video': 'فشل رفع الفيديو',
+    'Video published': 'تم نشر الفيديو',
+    'Failed to publish video': 'فشل نشر الفيديو',
+    'No thumbnail': 'لا توجد صورة مصغرة',
+    Replace: 'استبدال',
+    'Short video': 'فيديو قصير',
+
+    // Relay health
+    Health: 'الصحة',
+    'No data yet, it is collected while you use this relay':
+      'لا توجد بيانات بعد، يتم جمعها أثناء استخدامك لهذا المرحل',
+    Unknown: 'غير معروف',
+    Healthy: 'سليم',
+    Degraded: 'متدهور',
+    Unhealthy: 'غير سليم',
+    Connection: 'الاتصال',
+    EOSE: 'EOSE',
+    '{{rate}} timed out': 'انتهت مهلة {{rate}}',
+    'Last error': 'آخر خطأ',
+    'Relays that are slow, unreachable or reject your notes are used last when picking relays to read from and publish to.':
+      'المرحلات البطيئة أو التي يتعذر الوصول إليها أو التي ترفض ملاحظاتك تُستخدم أخيرًا عند اختيار المرحلات للقراءة منها والنشر إليها.',
+    'No data yet': 'لا توجد بيانات بعد',
+    'Reset relay health': 'إعادة تعيين صحة المرحلات',
+
+    // Feed coverage
+    'Feed coverage': 'تغطية الخلاصة',
+    '{{domain}} coverage': 'تغطية {{domain}}',
+    'Following coverage': 'تغطية المتابَعين',
+    'Relay set saved': 'تم حفظ مجموعة المرحلات',
+    'Failed to save relay set': 'فشل حفظ مجموعة المرحلات',
+    'This community has no members yet': 'لا يوجد أعضاء في هذا المجتمع بعد',
+    'You are not following anyone yet': 'أنت لا تتابع أحدًا بعد',
+    'Target coverage': 'التغطية المستهدفة',
+    'n relays cover m of k authors': '{{n}} مرحلات تغطي {{m}} من {{k}} مؤلفين',
+    '+n authors': '+{{n}} مؤلفين',
+    'Save as relay set': 'حفظ كمجموعة مرحلات',
+    'Uncovered authors': 'مؤلفون غير مغطَّين',
+    'n of them have not published a relay list': '{{n}} منهم لم ينشروا قائمة مرحلات',
+
+    // Saved searches
+    'No authors match this search': 'لا يوجد مؤلفون يطابقون هذا البحث',
+    'Saved searches': 'عمليات البحث المحفوظة',
+    'Saved search': 'بحث محفوظ',
+    'Save search': 'حفظ البحث',
+    Saved: 'تم الحفظ',
+    'Search saved': 'تم حفظ البحث',
+    'Pin as feed': 'تثبيت كخلاصة',
+    'Unpin from feeds': 'إلغاء التثبيت من الخلاصات',
+    'This saved search no longer exists': 'لم يعد هذا البحث المحفوظ موجودًا',
+
+    // Outbox badge
+    'No relay has accepted this note yet, it will be published later':
+      'لم يقبل أي مرحل هذه الملاحظة بعد، سيتم نشرها لاحقًا'
   }
 }
@@ -502,13 +502,11 @@ export default {
     'Failed to send join request': 'Failed to send join request',
     'Incoming Join Requests': 'Incoming Join Requests',
     'Review and approve requests from users who want to join your community': 'Review and approve requests from users who want to join your community',
-    'Review requests from users who want to join your community. Add them to your nostr.json file to approve.': 'Review requests from users who want to join your community. Add them to your nostr.json file to approve.',
     'Please login to view join requests for your community': 'Please login to view join requests for your community',
     'Only requests from users you follow are shown here. This helps maintain a well-connected community and filters out spam.': 'Only requests from users you follow are shown here. This helps maintain a well-connected community and filters out spam.',
     'No Pending Requests': 'No Pending Requests',
     'You have no pending join requests from users you follow. When users request to join, they will appear here.': 'You have no pending join requests from users you follow. When users request to join, they will appear here.',
     'How to approve': 'How to approve',
-    'To approve a request, add the user\'s pubkey to your domain\'s .well-known/nostr.json file. Once they appear in the file, the request will automatically be marked as approved.': 'To approve a request, add the user\'s pubkey to your domain\'s .well-known/nostr.json file. Once they appear in the file, the request will automatically be marked as approved.',
     'Requesting to join': 'Requesting to join',
     Approved: 'Approved',
     'Copy Pubkey': 'Copy Pubkey',
@@ -543,6 +541,318 @@ export default {
     'and more...': 'and more...',
     'How to add theme.json:': 'How to add theme.json:',
     'Paste the template above and customize the values': 'Paste the template above and customize the values',
-    'Set up your NIP-05 community using GitHub Pages. Your community needs: a .well-known/nostr.json file, a favicon, and optionally a theme.json for custom styling.': 'Set up your NIP-05 community using GitHub Pages. Your community needs: a .well-known/nostr.json file, a favicon, and optionally a theme.json for custom styling.'
+    'Set up your NIP-05 community using GitHub Pages. Your community needs: a .well-known/nostr.json file, a favicon, and optionally a theme.json for custom styling.':
+      'Set up your NIP-05 community using GitHub Pages. Your community needs: a .well-known/nostr.json file, a favicon, and optionally a theme.json for custom styling.',
+
+    // Community Settings
+    'Community Settings': 'Community Settings',
+    'Community Rules': 'Community Rules',
+    'Community Details': 'Community Details',
+    'Shown on community cards and at the top of your community page':
+      'Shown on community cards and at the top of your community page',
+    'The community.json file describes your community. Place it next to nostr.json in the .well-known directory and clients will show its name, description, rules and banner on your community page.':
+      'The community.json file describes your community. Place it next to nostr.json in the .well-known directory and clients will show its name, description, rules and banner on your community page.',
+    'Your published community.json has problems': 'Your published community.json has problems',
+    Name: 'Name',
+    Description: 'Description',
+    'Icon URL': 'Icon URL',
+    'Banner URL': 'Banner URL',
+    Categories: 'Categories',
+    'Separate categories with commas': 'Separate categories with commas',
+    Rules: 'Rules',
+    'One rule per line': 'One rule per line',
+    'Live community.json Preview': 'Live community.json Preview',
+    'Copy or download to .well-known/community.json next to your nostr.json':
+      'Copy or download to .well-known/community.json next to your nostr.json',
+    optional: 'optional',
+
+    // Community Join Decisions
+    'Review requests from users who want to join your community. Approved users are added to the member list in Manage Members.':
+      'Review requests from users who want to join your community. Approved users are added to the member list in Manage Members.',
+    "Approving publishes a signed decision and notifies the requester. Approved users are added to the generated nostr.json in Manage Members, so you can download the merged file and upload it to your domain's .well-known directory.":
+      "Approving publishes a signed decision and notifies the requester. Approved users are added to the generated nostr.json in Manage Members, so you can download the merged file and upload it to your domain's .well-known directory.",
+    Approve: 'Approve',
+    Reject: 'Reject',
+    Rejected: 'Rejected',
+    'Approved, pending nostr.json upload': 'Approved, pending nostr.json upload',
+    'Request approved. The user has been added to your nostr.json.':
+      'Request approved. The user has been added to your nostr.json.',
+    'Request rejected': 'Request rejected',
+    'Failed to publish decision': 'Failed to publish decision',
+    'Request Approved': 'Request Approved',
+    'Request Declined': 'Request Declined',
+    'The admin approved your request. You will appear as a member once they publish the updated nostr.json.':
+      'The admin approved your request. You will appear as a member once they publish the updated nostr.json.',
+    'approved your request to join domain': 'approved your request to join {{domain}}',
+    'declined your request to join domain': 'declined your request to join {{domain}}',
+
+    // Community Roles
+    'Community Admins': 'Community Admins',
+    Admin: 'Admin',
+    Moderator: 'Moderator',
+    Owner: 'Owner',
+    'Admins & Moderators': 'Admins & Moderators',
+    'Admins and moderators can review join requests. Save them in community.json, or publish them as a signed role list that only the owner or an admin listed in community.json can update.':
+      'Admins and moderators can review join requests. Save them in community.json, or publish them as a signed role list that only the owner or an admin listed in community.json can update.',
+    'This user already has a role': 'This user already has a role',
+    'Publish Role List': 'Publish Role List',
+    'Publishing...': 'Publishing...',
+    'Role list published': 'Role list published',
+    'Failed to publish role list': 'Failed to publish role list',
+
+    // Community moderation
+    'off-topic': 'off-topic',
+    'rule violation': 'rule violation',
+    Show: 'Show',
+    'No members found for this community': 'No members found for this community',
+    'Hidden by community moderators': 'Hidden by community moderators',
+    'Post hidden in community': 'Post hidden in community',
+    'Failed to hide post': 'Failed to hide post',
+    'Hide in community': 'Hide in community',
+    'Unhide in community': 'Unhide in community',
+    'Pin in community': 'Pin in community',
+    'Unpin from community': 'Unpin from community',
+    'Updating community...': 'Updating community...',
+    'Community updated': 'Community updated',
+    'Failed to update community: {{error}}': 'Failed to update community: {{error}}',
+
+    // Direct messages
+    Messages: 'Messages',
+    You: 'You',
+    'Send message': 'Send message',
+    'Login to view your messages': 'Login to view your messages',
+    'Direct messages require a signer that supports NIP-44 encryption':
+      'Direct messages require a signer that supports NIP-44 encryption',
+    'No messages yet': 'No messages yet',
+    'Failed to send message': 'Failed to send message',
+    'Write a message...': 'Write a message...',
+
+    // Community chat
+    Chat: 'Chat',
+    'Community Chat': 'Community Chat',
+    'Group relay': 'Group relay',
+    'Group ID': 'Group ID',
+    'Only verified members of domain can post in the chat':
+      'Only verified members of {{domain}} can post in the chat',
+    'Members chat in a NIP-29 group. Use a relay that hosts groups to have it enforce membership, otherwise the chat runs on public relays and only messages from verified members are shown.':
+      'Members chat in a NIP-29 group. Use a relay that hosts groups to have it enforce membership, otherwise the chat runs on public relays and only messages from verified members are shown.',
+
+    // Private bookmarks
+    'Bookmark privately': 'Bookmark privately',
+    'Remove private bookmark': 'Remove private bookmark',
+
+    // Outbox
+    'No relay is reachable right now, the note will be published later':
+      'No relay is reachable right now, the note will be published later',
+    'All your notes have been published': 'All your notes have been published',
+    Pending: 'Pending',
+    'Next retry': 'Next retry at {{time}}',
+    Discard: 'Discard',
+    'Retry now': 'Retry now',
+    Outbox: 'Outbox',
+    'n pending': '{{n}} pending',
+
+    // Publish receipts
+    'Published to n/m relays': 'Published to {{n}}/{{m}} relays',
+    'Retry failed relays': 'Retry failed relays',
+    'Failed to republish to relays': 'Failed to republish to relays',
+
+    // Relay authentication
+    'Authenticate to relay?': 'Authenticate to relay?',
+    'Relay asks you to authenticate':
+      '{{relay}} asks you to authenticate. The relay will learn your public key.',
+    'Not now': 'Not now',
+    'Allow once': 'Allow once',
+    'Always allow': 'Always allow',
+    Ask: 'Ask',
+    'Relay authentication': 'Relay authentication',
+    'Some relays ask you to prove who you are (NIP-42) before you can read or write. Choose how to answer them.':
+      'Some relays ask you to prove who you are (NIP-42) before you can read or write. Choose how to answer them.',
+    'You have not authenticated to any relay yet': 'You have not authenticated to any relay yet',
+    'Last authenticated': 'Last authenticated',
+    'Never authenticated': 'Never authenticated',
+
+    // Zap splits
+    'n sats': '{{n}} sats',
+    Cancelled: 'Cancelled',
+    'Zap splits': 'Zap splits',
+    'Zapping splits...': 'Zapping splits...',
+    'Split zap finished': 'Split zap finished',
+    'Zaps to this note will be split between these recipients':
+      'Zaps to this note will be split between these recipients',
+    'Invalid npub or public key': 'Invalid npub or public key',
+    'Recipient already added': 'Recipient already added',
+    'npub or hex public key': 'npub or hex public key',
+
+    // Community zaps
+    'Zap this community': 'Zap this community',
+    'Split a zap between the admins and the most active members':
+      'Split a zap between the admins and the most active members',
+    'Zapping community...': 'Zapping community...',
+    'View receipts': 'View receipts',
+    'Zapped n of m recipients': 'Zapped {{n}} of {{m}} recipients',
+    'Admin share ({{share}}%)': 'Admin share ({{share}}%)',
+    'Active members ({{count}})': 'Active members ({{count}})',
+    Receipts: 'Receipts',
+    'Community zaps': 'Community zaps',
+    'You have not zapped this community yet': 'You have not zapped this community yet',
+    'n of m sats sent': '{{n}} of {{m}} sats sent',
+
+    // Zap history
+    'Zap history': 'Zap history',
+    'Export CSV': 'Export CSV',
+    Sent: 'Sent',
+    Received: 'Received',
+    People: 'People',
+    Communities: 'Communities',
+    Months: 'Months',
+    'n zaps': '{{n}} zaps',
+    Anonymous: 'Anonymous',
+
+    // Cashu wallet
+    'Cashu wallet': 'Cashu wallet',
+    'Received n sats in nutzaps': 'Received {{n}} sats in nutzaps',
+    'Invalid mint URL': 'Invalid mint URL',
+    Mints: 'Mints',
+    'Others can only send you nutzaps from these mints':
+      'Others can only send you nutzaps from these mints',
+    'Deposited n sats': 'Deposited {{n}} sats',
+    'Failed to create invoice': 'Failed to create invoice',
+    Deposit: 'Deposit',
+    'Pay this invoice to receive n sats of ecash':
+      'Pay this invoice to receive {{n}} sats of ecash',
+    Copied: 'Copied',
+    Copy: 'Copy',
+    'Pay with connected wallet': 'Pay with connected wallet',
+    'Waiting for payment...': 'Waiting for payment...',
+    Mint: 'Mint',
+    'Create invoice': 'Create invoice',
+    'Received n sats': 'Received {{n}} sats',
+    'Failed to receive ecash': 'Failed to receive ecash',
+    'No new nutzaps': 'No new nutzaps',
+    'Receive ecash': 'Receive ecash',
+    Receive: 'Receive',
+    'Check for nutzaps': 'Check for nutzaps',
+    'Failed to save wallet': 'Failed to save wallet',
+    'Ecash lets you send and receive nutzaps without a Lightning wallet. Your tokens are stored encrypted on your relays.':
+      'Ecash lets you send and receive nutzaps without a Lightning wallet. Your tokens are stored encrypted on your relays.',
+    'Create Cashu wallet': 'Create Cashu wallet',
+    'Nutzap sent': 'Nutzap sent',
+    'Send as nutzap': 'Send as nutzap',
+    'Ecash balance: n sats': 'Ecash balance: {{n}} sats',
+
+    // Scheduled posts
+    'Schedule for later': 'Schedule for later',
+    'Scheduled notes are published while Jumble is open':
+      'Scheduled notes are published while Jumble is open',
+    'The scheduled time must be in the future': 'The scheduled time must be in the future',
+    'Note scheduled for {{time}}': 'Note scheduled for {{time}}',
+    View: 'View',
+    Schedule: 'Schedule',
+    'Scheduled notes': 'Scheduled notes',
+    'No scheduled notes': 'No scheduled notes',
+    Scheduled: 'Scheduled',
+    'Failed to save': 'Failed to save',
+    'Publish now': 'Publish now',
+
+    // Drafts
+    Drafts: 'Drafts',
+    'Save draft': 'Save draft',
+    'Draft saved': 'Draft saved',
+    'Failed to save draft': 'Failed to save draft',
+    'Untitled draft': 'Untitled draft',
+    'Draft name': 'Draft name',
+    'Sync drafts across devices': 'Sync drafts across devices',
+    'Drafts are encrypted and stored on your relays (NIP-37)':
+      'Drafts are encrypted and stored on your relays (NIP-37)',
+    'No drafts': 'No drafts',
+    'Reply draft': 'Reply draft',
+    Open: 'Open',
+
+    // Articles
+    'Article published': 'Article published',
+    'Failed to publish article': 'Failed to publish article',
+    Title: 'Title',
+    Summary: 'Summary',
+    'Cover image': 'Cover image',
+    Hashtags: 'Hashtags',
+    'Write your article in Markdown...': 'Write your article in Markdown...',
+    Update: 'Update',
+    Publish: 'Publish',
+    'Edit article': 'Edit article',
+    'New article': 'New article',
+    'You can only edit your own articles': 'You can only edit your own articles',
+    'Article drafts': 'Article drafts',
+    'Write article': 'Write article',
+
+    // Highlights
+    Highlight: 'Highlight',
+    'Highlight with comment': 'Highlight with comment',
+    'Highlight published': 'Highlight published',
+    'Failed to publish highlight': 'Failed to publish highlight',
+    'Write a comment...': 'Write a comment...',
+    'No highlights': 'No highlights',
+
+    // Discussions
+    Discussion: 'Discussion',
+    Comment: 'Comment',
+
+    // Videos
+    'Publish video': 'Publish video',
+    'Select a video': 'Select a video',
+    'Uploading...': 'Uploading...',
+    'Failed to upload video': 'Failed to upload video',
+    'Video published': 'Video published',
+    'Failed to publish video': 'Failed to publish video',
+    'No thumbnail': 'No thumbnail',
+    Replace: 'Replace',
+    'Short video': 'Short video',
+
+    // Relay health
+    Health: 'Health',
+    'No data yet, it is collected while you use this relay':
+      'No data yet, it is collected while you use this relay',
+    Unknown: 'Unknown',
+    Healthy: 'Healthy',
+    Degraded: 'Degraded',
+    Unhealthy: 'Unhealthy',
+    Connection: 'Connection',
+    EOSE: 'EOSE',
+    '{{rate}} timed out': '{{rate}} timed out',
+    'Last error': 'Last error',
+    'Relays that are slow, unreachable or reject your notes are used last when picking relays to read from and publish to.':
+      'Relays that are slow, unreachable or reject your notes are used last when picking relays to read from and publish to.',
+    'No data yet': 'No data yet',
+    'Reset relay health': 'Reset relay health',
+
+    // Feed coverage
+    'Feed coverage': 'Feed coverage',
+    '{{domain}} coverage': '{{domain}} coverage',
+    'Following coverage': 'Following coverage',
+    'Relay set saved': 'Relay set saved',
+    'Failed to save relay set': 'Failed to save relay set',
+    'This community has no members yet': 'This community has no members yet',
+    'You are not following anyone yet': 'You are not following anyone yet',
+    'Target coverage': 'Target coverage',
+    'n relays cover m of k authors': '{{n}} relays cover {{m}} of {{k}} authors',
+    '+n authors': '+{{n}} authors',
+    'Save as relay set': 'Save as relay set',
+    'Uncovered authors': 'Uncovered authors',
+    'n of them have not published a relay list': '{{n}} of them have not published a relay list',
+
+    // Saved searches
+    'No authors match this search': 'No authors match this search',
+    'Saved searches': 'Saved searches',
+    'Saved search': 'Saved search',
+    'Save search': 'Save search',
+    Saved: 'Saved',
+    'Search saved': 'Search saved',
+    'Pin as feed': 'Pin as feed',
+    'Unpin from feeds': 'Unpin from feeds',
+    'This saved search no longer exists': 'This saved search no longer exists',
+
+    // Outbox badge
+    'No relay has accepted this note yet, it will be published later':
+      'No relay has accepted this note yet, it will be published later'
   }
 }
@@ -0,0 +1,321 @@
+import { BIG_RELAY_URLS, ExtendedKind } from '@/constants'
+import {
+  TCommunityChat,
+  TCommunityJoinDecision,
+  TCommunityMetadata,
+  TCommunityModeration,
+  TCommunityRole,
+  TCommunityRoles
+} from '@/types'
+import { Event } from 'nostr-tools'
+import { isValidPubkey, userIdToPubkey } from './pubkey'
+import { tagNameEquals } from './tag'
+import { isWebsocketUrl, normalizeUrl } from './url'
+
+export const COMMUNITY_METADATA_FILE_NAME = 'community.json'
+
+const MAX_NAME_LENGTH = 64
+const MAX_DESCRIPTION_LENGTH = 500
+const MAX_RULES = 20
+const MAX_CATEGORIES = 10
+const MAX_GROUP_ID_LENGTH = 64
+
+type TValidateCommunityMetadataResult = {
+  metadata: TCommunityMetadata
+  errors: string[]
+}
+
+/**
+ * Validate a parsed community.json object.
+ * Invalid fields are reported in `errors` and dropped from `metadata`,
+ * so callers can still use whatever part of the file is valid.
+ */
+export function validateCommunityMetadata(json: unknown): TValidateCommunityMetadataResult {
+  const errors: string[] = []
+  const metadata: TCommunityMetadata = {}
+
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    return { metadata, errors: ['File must contain a JSON object'] }
+  }
+  const data = json as Record<string, unknown>
+
+  const name = validateString(data.name, 'name', MAX_NAME_LENGTH, errors)
+  if (name) metadata.name = name
+
+  const description = validateString(
+    data.description,
+    'description',
+    MAX_DESCRIPTION_LENGTH,
+    errors
+  )
+  if (description) metadata.description = description
+
+  const icon = validateUrl(data.icon, 'icon', errors)
+  if (icon) metadata.icon = icon
+
+  const banner = validateUrl(data.banner, 'banner', errors)
+  if (banner) metadata.banner = banner
+
+  const website = validateUrl(data.website, 'website', errors)
+  if (website) metadata.website = website
+
+  const contact = validateString(data.contact, 'contact', MAX_NAME_LENGTH, errors)
+  if (contact) metadata.contact = contact
+
+  const rules = validateStringArray(data.rules, 'rules', MAX_RULES, errors)
+  if (rules?.length) metadata.rules = rules
+
+  const categories = validateStringArray(data.categories, 'categories', MAX_CATEGORIES, errors)
+  if (categories?.length) {
+    metadata.categories = Array.from(new Set(categories.map((c) => c.toLowerCase())))
+  }
+
+  const admins = validatePubkeyArray(data.admins, 'admins', errors)
+  if (admins?.length) metadata.admins = admins
+
+  const moderators = validatePubkeyArray(data.moderators, 'moderators', errors)
+  if (moderators?.length) metadata.moderators = moderators
+
+  const chat = validateChat(data.chat, errors)
+  if (chat) metadata.chat = chat
+
+  return { metadata, errors }
+}
+
+export function parseCommunityMetadata(text: string): TValidateCommunityMetadataResult {
+  try {
+    return validateCommunityMetadata(JSON.parse(text))
+  } catch (error) {
+    return {
+      metadata: {},
+      errors: ['Invalid JSON format: ' + (error as Error).message]
+    }
+  }
+}
+
+export function generateCommunityMetadataJson(metadata: TCommunityMetadata): string {
+  const json: TCommunityMetadata = {}
+  if (metadata.name?.trim()) json.name = metadata.name.trim()
+  if (metadata.description?.trim()) json.description = metadata.description.trim()
+  if (metadata.icon?.trim()) json.icon = metadata.icon.trim()
+  if (metadata.banner?.trim()) json.banner = metadata.banner.trim()
+  if (metadata.website?.trim()) json.website = metadata.website.trim()
+  if (metadata.contact?.trim()) json.contact = metadata.contact.trim()
+
+  const rules = metadata.rules?.map((rule) => rule.trim()).filter(Boolean)
+  if (rules?.length) json.rules = rules
+
+  const categories = metadata.categories?.map((c) => c.trim().toLowerCase()).filter(Boolean)
+  if (categories?.length) json.categories = Array.from(new Set(categories))
+
+  if (metadata.admins?.length) json.admins = Array.from(new Set(metadata.admins))
+  if (metadata.moderators?.length) json.moderators = Array.from(new Set(metadata.moderators))
+
+  const chatRelay = metadata.chat?.relay?.trim()
+  const chatGroup = metadata.chat?.group?.trim()
+  if (chatRelay || chatGroup) {
+    json.chat = {}
+    if (chatRelay) json.chat.relay = chatRelay
+    if (chatGroup) json.chat.group = chatGroup
+  }
+
+  return JSON.stringify(json, null, 2)
+}
+
+export function getCommunityJoinDecisionFromEvent(event: Event): TCommunityJoinDecision | null {
+  if (event.kind !== ExtendedKind.COMMUNITY_JOIN_DECISION) return null
+
+  const requesterPubkey = event.tags.find(tagNameEquals('p'))?.[1]
+  const domain = event.tags.find(tagNameEquals('domain'))?.[1]
+  const status = event.tags.find(tagNameEquals('status'))?.[1]
+  if (!requesterPubkey || !isValidPubkey(requesterPubkey) || !domain) return null
+  if (status !== 'approved' && status !== 'rejected') return null
+
+  return {
+    id: event.id,
+    adminPubkey: event.pubkey,
+    requesterPubkey,
+    requestId: event.tags.find(tagNameEquals('e'))?.[1],
+    domain,
+    status,
+    reason: event.content || undefined,
+    created_at: event.created_at
+  }
+}
+
+export function getCommunityModerationFromEvent(event: Event): TCommunityModeration | null {
+  if (event.kind !== ExtendedKind.COMMUNITY_MODERATION) return null
+
+  const eventId = event.tags.find(tagNameEquals('e'))?.[1]
+  const domain = event.tags.find(tagNameEquals('domain'))?.[1]
+  const action = event.tags.find(tagNameEquals('action'))?.[1]
+  if (!eventId || !domain) return null
+  if (action !== 'hide' && action !== 'pin' && action !== 'clear') return null
+
+  return {
+    id: event.id,
+    moderatorPubkey: event.pubkey,
+    domain,
+    eventId,
+    authorPubkey: event.tags.find(tagNameEquals('p'))?.[1],
+    action,
+    reason: event.content || undefined,
+    created_at: event.created_at
+  }
+}
+
+export function getCommunityRoleListFromEvent(event: Event): {
+  admins: string[]
+  moderators: string[]
+} {
+  const admins: string[] = []
+  const moderators: string[] = []
+  if (event.kind !== ExtendedKind.COMMUNITY_ROLE_LIST) return { admins, moderators }
+
+  event.tags.forEach(([tagName, pubkey, role]) => {
+    if (tagName !== 'p' || !pubkey || !isValidPubkey(pubkey)) return
+    if (role === 'admin' && !admins.includes(pubkey)) {
+      admins.push(pubkey)
+    } else if (role === 'moderator' && !moderators.includes(pubkey)) {
+      moderators.push(pubkey)
+    }
+  })
+  return { admins, moderators }
+}
+
+export function getCommunityRole(
+  roles: TCommunityRoles | null | undefined,
+  pubkey: string | null | undefined
+): TCommunityRole | undefined {
+  if (!roles || !pubkey) return undefined
+  if (roles.admins.includes(pubkey)) return 'admin'
+  if (roles.moderators.includes(pubkey)) return 'moderator'
+  return undefined
+}
+
+/**
+ * Where the community group chat lives. Without a configured relay the chat
+ * runs on the big relays, which store NIP-29 messages without enforcing membership.
+ */
+export function getCommunityChatLocation(
+  domain: string,
+  chat: TCommunityChat | undefined
+): { relayUrls: string[]; group: string; isRelayHosted: boolean } {
+  const group = chat?.group || domain
+  if (chat?.relay) {
+    return { relayUrls: [chat.relay], group, isRelayHosted: true }
+  }
+  return { relayUrls: BIG_RELAY_URLS, group, isRelayHosted: false }
+}
+
+/**
+ * Everyone who can review join requests and moderate the community
+ */
+export function getCommunityStaff(roles: TCommunityRoles | null | undefined): string[] {
+  if (!roles) return []
+  return Array.from(new Set([...roles.admins, ...roles.moderators]))
+}
+
+function validateString(
+  value: unknown,
+  field: string,
+  maxLength: number,
+  errors: string[]
+): string | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'string') {
+    errors.push(`"${field}" must be a string`)
+    return undefined
+  }
+  const trimmed = value.trim()
+  if (trimmed.length > maxLength) {
+    errors.push(`"${field}" must be at most ${maxLength} characters`)
+    return trimmed.slice(0, maxLength)
+  }
+  return trimmed || undefined
+}
+
+function validateUrl(value: unknown, field: string, errors: string[]): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  if (typeof value !== 'string') {
+    errors.push(`"${field}" must be a string`)
+    return undefined
+  }
+  try {
+    const url = new URL(value.trim())
+    if (url.protocol !== 'https:') {
+      errors.push(`"${field}" must be an https:// URL`)
+      return undefined
+    }
+    return url.toString()
+  } catch {
+    errors.push(`"${field}" is not a valid URL`)
+    return undefined
+  }
+}
+
+function validateStringArray(
+  value: unknown,
+  field: string,
+  maxItems: number | undefined,
+  errors: string[]
+): string[] | undefined {
+  if (value === undefined || value === null) return undefined
+  if (!Array.isArray(value)) {
+    errors.push(`"${field}" must be an array of strings`)
+    return undefined
+  }
+  const items = value.filter((item): item is string => typeof item === 'string')
+  if (items.length !== value.length) {
+    errors.push(`"${field}" must only contain strings`)
+  }
+  const trimmed = items.map((item) => item.trim()).filter(Boolean)
+  if (maxItems !== undefined && trimmed.length > maxItems) {
+    errors.push(`"${field}" can have at most ${maxItems} entries`)
+    return trimmed.slice(0, maxItems)
+  }
+  return trimmed
+}
+
+function validateChat(value: unknown, errors: string[]): TCommunityChat | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    errors.push('"chat" must be an object')
+    return undefined
+  }
+  const data = value as Record<string, unknown>
+  const chat: TCommunityChat = {}
+
+  if (data.relay !== undefined && data.relay !== null && data.relay !== '') {
+    if (typeof data.relay !== 'string' || !isWebsocketUrl(data.relay.trim())) {
+      errors.push('"chat.relay" must be a wss:// URL')
+    } else {
+      chat.relay = normalizeUrl(data.relay.trim())
+    }
+  }
+
+  const group = validateString(data.group, 'chat.group', MAX_GROUP_ID_LENGTH, errors)
+  if (group) chat.group = group
+
+  return chat.relay || chat.group ? chat : undefined
+}
+
+function validatePubkeyArray(
+  value: unknown,
+  field: string,
+  errors: string[]
+): string[] | undefined {
+  const userIds = validateStringArray(value, field, undefined, errors)
+  if (!userIds) return undefined
+
+  const pubkeys: string[] = []
+  userIds.forEach((userId) => {
+    const pubkey = userIdToPubkey(userId)
+    if (!isValidPubkey(pubkey)) {
+      errors.push(`"${field}" contains an invalid pubkey: ${userId}`)
+    } else if (!pubkeys.includes(pubkey)) {
+      pubkeys.push(pubkey)
+    }
+  })
+  return pubkeys
+}
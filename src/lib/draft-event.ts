@@ -3,13 +3,18 @@ import client from '@/services/client.service'
 import customEmojiService from '@/services/custom-emoji.service'
 import mediaUpload from '@/services/media-upload.service'
 import {
+  TCommunityJoinDecisionStatus,
+  TCommunityModerationAction,
   TDraftEvent,
   TEmoji,
   TMailboxRelay,
   TMailboxRelayScope,
   TPollCreateData,
-  TRelaySet
+  TRelaySet,
+  TVideoVariant,
+  TZapSplit
 } from '@/types'
+import { Proof } from '@cashu/cashu-ts'
 import { sha256 } from '@noble/hashes/sha2'
 import dayjs from 'dayjs'
 import { Event, kinds, nip19 } from 'nostr-tools'
@@ -110,6 +115,7 @@ export async function createShortTextNoteDraftEvent(
     addClientTag?: boolean
     protectedEvent?: boolean
     isNsfw?: boolean
+    zapSplits?: TZapSplit[]
   } = {}
 ): Promise<TDraftEvent> {
   const { content: transformedEmojisContent, emojiTags } = transformCustomEmojisInContent(content)
@@ -153,6 +159,10 @@ export async function createShortTextNoteDraftEvent(
     tags.push(buildProtectedTag())
   }
 
+  if (options.zapSplits?.length) {
+    tags.push(...options.zapSplits.map((split) => buildZapTag(split)))
+  }
+
   const baseDraft = {
     kind: kinds.ShortTextNote,
     content: transformedEmojisContent,
@@ -161,6 +171,122 @@ export async function createShortTextNoteDraftEvent(
   return setDraftEventCache(baseDraft)
 }
 
+// https://github.com/nostr-protocol/nips/blob/master/23.md
+export async function createLongFormArticleDraftEvent(
+  article: {
+    identifier: string
+    title: string
+    summary: string
+    image: string
+    hashtags: string[]
+    content: string
+    publishedAt?: number
+  },
+  options: {
+    isDraft?: boolean
+    addClientTag?: boolean
+  } = {}
+): Promise<TDraftEvent> {
+  const { quoteEventHexIds, quoteReplaceableCoordinates } = await extractRelatedEventIds(
+    article.content
+  )
+
+  const tags = [buildDTag(article.identifier), buildTitleTag(article.title)]
+  if (article.summary) {
+    tags.push(['summary', article.summary])
+  }
+  if (article.image) {
+    tags.push(['image', article.image])
+  }
+  if (!options.isDraft) {
+    tags.push(['published_at', (article.publishedAt ?? dayjs().unix()).toString()])
+  }
+  tags.push(...article.hashtags.map((hashtag) => buildTTag(hashtag)))
+
+  // q tags
+  tags.push(...quoteEventHexIds.map((eventId) => buildQTag(eventId)))
+  tags.push(...quoteReplaceableCoordinates.map((coordinate) => buildReplaceableQTag(coordinate)))
+
+  if (options.addClientTag) {
+    tags.push(buildClientTag())
+  }
+
+  return {
+    kind: options.isDraft ? kinds.DraftLong : kinds.LongFormArticle,
+    content: article.content,
+    tags,
+    created_at: dayjs().unix()
+  }
+}
+
+// https://github.com/nostr-protocol/nips/blob/master/71.md
+export function createAddressableVideoDraftEvent(
+  video: {
+    identifier: string
+    title: string
+    description: string
+    isShort: boolean
+    variants: TVideoVariant[]
+    hashtags: string[]
+  },
+  options: {
+    addClientTag?: boolean
+    isNsfw?: boolean
+  } = {}
+): TDraftEvent {
+  const tags = [
+    buildDTag(video.identifier),
+    buildTitleTag(video.title),
+    ['published_at', dayjs().unix().toString()],
+    ['alt', video.title]
+  ]
+  tags.push(...video.variants.map((variant) => buildVideoImetaTag(variant)))
+  tags.push(...video.hashtags.map((hashtag) => buildTTag(hashtag)))
+
+  if (options.addClientTag) {
+    tags.push(buildClientTag())
+  }
+
+  if (options.isNsfw) {
+    tags.push(buildNsfwTag())
+  }
+
+  return {
+    kind: video.isShort ? ExtendedKind.ADDRESSABLE_SHORT_VIDEO : ExtendedKind.ADDRESSABLE_VIDEO,
+    content: video.description,
+    tags,
+    created_at: dayjs().unix()
+  }
+}
+
+// https://github.com/nostr-protocol/nips/blob/master/84.md
+export function createHighlightDraftEvent(
+  highlight: string,
+  sourceEvent: Event,
+  { comment, context }: { comment?: string; context?: string } = {}
+): TDraftEvent {
+  const tags = [
+    isReplaceableEvent(sourceEvent.kind)
+      ? buildATag(sourceEvent)
+      : buildETag(sourceEvent.id, sourceEvent.pubkey),
+    ['p', sourceEvent.pubkey, '', 'author']
+  ]
+  // Only needed when the highlight is a part of a longer paragraph
+  if (context && context !== highlight) {
+    tags.push(['context', context])
+  }
+  if (comment) {
+    tags.push(['comment', comment])
+  }
+
+  return {
+    kind: kinds.Highlights,
+    content: highlight,
+    tags,
+    created_at: dayjs().unix()
+  }
+}
+
 // https://github.com/nostr-protocol/nips/blob/master/51.md
 export function createRelaySetDraftEvent(relaySet: Omit<TRelaySet, 'aTag'>): TDraftEvent {
   return {
@@ -183,6 +309,7 @@ export async function createCommentDraftEvent(
     addClientTag?: boolean
     protectedEvent?: boolean
     isNsfw?: boolean
+    zapSplits?: TZapSplit[]
   } = {}
 ): Promise<TDraftEvent> {
   const { content: transformedEmojisContent, emojiTags } = transformCustomEmojisInContent(content)
@@ -247,6 +374,56 @@ export async function createCommentDraftEvent(
     tags.push(buildProtectedTag())
   }
 
+  if (options.zapSplits?.length) {
+    tags.push(...options.zapSplits.map((split) => buildZapTag(split)))
+  }
+
+  const baseDraft = {
+    kind: ExtendedKind.COMMENT,
+    content: transformedEmojisContent,
+    tags
+  }
+  return setDraftEventCache(baseDraft)
+}
+
+export function createExternalContentCommentDraftEvent(
+  content: string,
+  externalContent: string,
+  mentions: string[],
+  options: {
+    addClientTag?: boolean
+    isNsfw?: boolean
+  } = {}
+): TDraftEvent {
+  const { content: transformedEmojisContent, emojiTags } = transformCustomEmojisInContent(content)
+  const hashtags = extractHashtags(transformedEmojisContent)
+  const externalContentKind = getExternalContentKind(externalContent)
+
+  const tags = emojiTags
+    .concat(hashtags.map((hashtag) => buildTTag(hashtag)))
+    .concat(mentions.map((pubkey) => buildPTag(pubkey)))
+
+  const images = extractImagesFromContent(transformedEmojisContent)
+  if (images && images.length) {
+    tags.push(...generateImetaTags(images))
+  }
+
+  // NIP-73: the external content is both the root and the parent of a top-level comment
+  tags.push(
+    buildITag(externalContent, true),
+    buildKTag(externalContentKind, true),
+    buildITag(externalContent),
+    buildKTag(externalContentKind)
+  )
+
+  if (options.addClientTag) {
+    tags.push(buildClientTag())
+  }
+
+  if (options.isNsfw) {
+    tags.push(buildNsfwTag())
+  }
+
   const baseDraft = {
     kind: ExtendedKind.COMMENT,
     content: transformedEmojisContent,
@@ -357,10 +534,12 @@ export async function createPollDraftEvent(
   { isMultipleChoice, relays, options, endsAt }: TPollCreateData,
   {
     addClientTag,
-    isNsfw
+    isNsfw,
+    zapSplits
   }: {
     addClientTag?: boolean
     isNsfw?: boolean
+    zapSplits?: TZapSplit[]
   } = {}
 ): Promise<TDraftEvent> {
   const { content: transformedEmojisContent, emojiTags } = transformCustomEmojisInContent(question)
@@ -408,6 +587,10 @@ export async function createPollDraftEvent(
     tags.push(buildNsfwTag())
   }
 
+  if (zapSplits?.length) {
+    tags.push(...zapSplits.map((split) => buildZapTag(split)))
+  }
+
   const baseDraft = {
     content: transformedEmojisContent.trim(),
     kind: ExtendedKind.POLL,
@@ -675,6 +858,14 @@ function buildETagWithMarker(
   return trimTagEnd(['e', eventHexId, hint, marker, pubkey])
 }
 
+function getExternalContentKind(externalContent: string) {
+  if (/^https?:\/\//.test(externalContent)) return 'web'
+  if (externalContent.startsWith('#')) return '#'
+  // e.g. "isbn:9780765382030" -> "isbn", "podcast:item:guid:abc" -> "podcast:item:guid"
+  const index = externalContent.lastIndexOf(':')
+  return index > 0 ? externalContent.slice(0, index) : externalContent
+}
+
 function buildITag(url: string, upperCase: boolean = false) {
   return [upperCase ? 'I' : 'i', url]
 }
@@ -699,6 +890,28 @@ function buildRTag(url: string, scope: TMailboxRelayScope) {
   return scope !== 'both' ? ['r', url, scope] : ['r', url]
 }
 
+function buildVideoImetaTag(variant: TVideoVariant) {
+  const tag = ['imeta', `url ${variant.url}`]
+  if (variant.mimeType) {
+    tag.push(`m ${variant.mimeType}`)
+  }
+  if (variant.dim) {
+    tag.push(`dim ${variant.dim.width}x${variant.dim.height}`)
+  }
+  if (variant.duration) {
+    tag.push(`duration ${variant.duration.toFixed(3)}`)
+  }
+  if (variant.thumbnail) {
+    tag.push(`image ${variant.thumbnail}`)
+  }
+  // Keep hashes, sizes and fallbacks from the upload service, the fields above take precedence
+  variant.uploadTags?.forEach(([name, value]) => {
+    if (!name || !value || ['url', 'm', 'dim', 'duration', 'image'].includes(name)) return
+    tag.push(`${name} ${value}`)
+  })
+  return tag
+}
+
 function buildTTag(hashtag: string) {
   return ['t', hashtag]
 }
@@ -735,6 +948,11 @@ function buildProtectedTag() {
   return ['-']
 }
 
+// https://github.com/nostr-protocol/nips/blob/master/57.md#appendix-g-zap-tag-on-other-events
+function buildZapTag({ pubkey, relay, weight }: TZapSplit) {
+  return ['zap', pubkey, relay ?? '', weight.toString()]
+}
+
 function trimTagEnd(tag: string[]) {
   let endIndex = tag.length - 1
   while (endIndex >= 0 && tag[endIndex] === '') {
@@ -749,20 +967,20 @@ function trimTagEnd(tag: string[]) {
  * This is an addressable event that allows users to request joining a NIP-05 community
  *
  * @param domain - The NIP-05 domain community to join (e.g., "nostr.build")
- * @param adminPubkey - The pubkey of the community admin (first member in nostr.json)
- * @param message - Optional message to the admin
+ * @param staffPubkeys - The pubkeys of the community admins and moderators who review requests
+ * @param message - Optional message to the admins
  * @returns Draft event for the join request
  */
 export function createCommunityJoinRequestDraftEvent(
   domain: string,
-  adminPubkey: string,
+  staffPubkeys: string[],
   message?: string
 ): TDraftEvent {
   const content = message || `I would like to join the ${domain} community`
 
   const tags: string[][] = [
     ['d', domain], // addressable identifier - one request per domain per user
-    ['p', adminPubkey], // tag the admin who will receive this request
+    ...Array.from(new Set(staffPubkeys)).map((pubkey) => ['p', pubkey]), // tag everyone who can review this request
     ['t', 'community-join-request'], // helpful for filtering
     ['domain', domain] // explicit domain tag for easier querying
   ]
@@ -773,3 +991,292 @@ export function createCommunityJoinRequestDraftEvent(
     tags
   })
 }
+
+/**
+ * Create a community join decision event (kind 39458)
+ * Published by the community admin to approve or reject a join request.
+ * Addressable per domain and requester, so a later decision replaces an earlier one.
+ *
+ * @param request - The join request event being answered
+ * @param status - Whether the request was approved or rejected
+ * @param reason - Optional note for the requester
+ * @returns Draft event for the decision
+ */
+export function createCommunityJoinDecisionDraftEvent(
+  request: Event,
+  status: TCommunityJoinDecisionStatus,
+  reason?: string
+): TDraftEvent {
+  const domain = request.tags.find(tagNameEquals('d'))?.[1] ?? ''
+  const content =
+    reason ||
+    (status === 'approved'
+      ? `Your request to join the ${domain} community has been approved`
+      : `Your request to join the ${domain} community has been declined`)
+
+  const tags: string[][] = [
+    ['d', `${domain}:${request.pubkey}`], // one decision per requester per domain
+    ['e', request.id], // the join request being answered
+    ['a', getReplaceableCoordinateFromEvent(request)],
+    ['p', request.pubkey], // notify the requester
+    ['t', 'community-join-decision'],
+    ['domain', domain],
+    ['status', status]
+  ]
+
+  return setDraftEventCache({
+    content,
+    kind: ExtendedKind.COMMUNITY_JOIN_DECISION,
+    tags
+  })
+}
+
+/**
+ * Create a community role list event (kind 39459)
+ * Published by the community owner to declare additional admins and moderators.
+ *
+ * @param domain - The NIP-05 domain community
+ * @param admins - Pubkeys of additional admins
+ * @param moderators - Pubkeys of moderators
+ * @returns Draft event for the role list
+ */
+export function createCommunityRoleListDraftEvent(
+  domain: string,
+  admins: string[],
+  moderators: string[]
+): TDraftEvent {
+  const tags: string[][] = [
+    ['d', domain],
+    ...Array.from(new Set(admins)).map((pubkey) => ['p', pubkey, 'admin']),
+    ...Array.from(new Set(moderators))
+      .filter((pubkey) => !admins.includes(pubkey))
+      .map((pubkey) => ['p', pubkey, 'moderator']),
+    ['t', 'community-role-list']
+  ]
+
+  return setDraftEventCache({
+    content: '',
+    kind: ExtendedKind.COMMUNITY_ROLE_LIST,
+    tags
+  })
+}
+
+/**
+ * Create a community moderation event (kind 39460)
+ * Published by a community admin or moderator to hide or pin an event in the domain feed.
+ * Addressable per domain and event, so the latest decision replaces earlier ones.
+ *
+ * @param domain - The NIP-05 domain community
+ * @param event - The event being moderated
+ * @param action - Hide, pin, or clear a previous decision
+ * @param reason - Optional reason shown to viewers of a hidden post
+ * @returns Draft event for the moderation decision
+ */
+export function createCommunityModerationDraftEvent(
+  domain: string,
+  event: Event,
+  action: TCommunityModerationAction,
+  reason?: string
+): TDraftEvent {
+  const tags: string[][] = [
+    ['d', `${domain}:${event.id}`], // one decision per event per domain
+    buildETag(event.id, event.pubkey),
+    ['p', event.pubkey],
+    ['k', event.kind.toString()],
+    ['t', 'community-moderation'],
+    ['domain', domain],
+    ['action', action]
+  ]
+
+  return setDraftEventCache({
+    content: reason ?? '',
+    kind: ExtendedKind.COMMUNITY_MODERATION,
+    tags
+  })
+}
+
+/**
+ * Create a private direct message (NIP-17 kind 14)
+ * This draft is never signed or published directly, it is sealed and gift-wrapped
+ * for each participant by the direct message service.
+ *
+ * @param recipientPubkey - The pubkey of the recipient
+ * @param content - Plain text message
+ * @returns Draft event for the message rumor
+ */
+export function createPrivateDirectMessageDraftEvent(
+  recipientPubkey: string,
+  content: string
+): TDraftEvent {
+  return {
+    kind: kinds.PrivateDirectMessage,
+    content: content.trim(),
+    tags: [['p', recipientPubkey]],
+    created_at: dayjs().unix()
+  }
+}
+
+/**
+ * Create a community group chat message (NIP-29 kind 9)
+ *
+ * @param domain - The NIP-05 domain community
+ * @param group - The group id the message belongs to
+ * @param content - Plain text message
+ * @returns Draft event for the chat message
+ */
+export function createCommunityChatMessageDraftEvent(
+  domain: string,
+  group: string,
+  content: string
+): TDraftEvent {
+  return {
+    kind: kinds.ChatMessage,
+    content: content.trim(),
+    tags: [
+      ['h', group],
+      ['domain', domain]
+    ],
+    created_at: dayjs().unix()
+  }
+}
+
+/**
+ * Create a Cashu wallet event (kind 17375, NIP-60)
+ *
+ * @param content - Wallet tags (privkey and mints) encrypted to the account itself
+ * @returns Draft event for the wallet
+ */
+export function createCashuWalletDraftEvent(content: string): TDraftEvent {
+  return {
+    kind: ExtendedKind.CASHU_WALLET,
+    content,
+    tags: [],
+    created_at: dayjs().unix()
+  }
+}
+
+/**
+ * Create a Cashu token event (kind 7375, NIP-60) holding unspent proofs of one mint
+ *
+ * @param content - Token JSON encrypted to the account itself
+ * @returns Draft event for the token
+ */
+export function createCashuTokenDraftEvent(content: string): TDraftEvent {
+  return {
+    kind: ExtendedKind.CASHU_TOKEN,
+    content,
+    tags: [],
+    created_at: dayjs().unix()
+  }
+}
+
+/**
+ * Create a spending history event (kind 7376, NIP-60)
+ *
+ * @param content - History tags encrypted to the account itself
+ * @param redeemedNutzap - Nutzap redeemed by this transaction, kept public so it isn't redeemed twice
+ * @returns Draft event for the history entry
+ */
+export function createCashuHistoryDraftEvent(content: string, redeemedNutzap?: Event): TDraftEvent {
+  const tags: string[][] = []
+  if (redeemedNutzap) {
+    tags.push(['e', redeemedNutzap.id, client.getEventHint(redeemedNutzap.id), 'redeemed'])
+    tags.push(buildPTag(redeemedNutzap.pubkey))
+  }
+
+  return {
+    kind: ExtendedKind.CASHU_HISTORY,
+    content,
+    tags,
+    created_at: dayjs().unix()
+  }
+}
+
+/**
+ * Create a nutzap info event (kind 10019, NIP-61) telling others how to send nutzaps
+ *
+ * @param relays - Relays where nutzaps should be published
+ * @param mints - Mints the account accepts tokens from
+ * @param p2pkPubkey - Public key the tokens must be locked to
+ * @returns Draft event for the nutzap info
+ */
+export function createNutzapInfoDraftEvent(
+  relays: string[],
+  mints: string[],
+  p2pkPubkey: string
+): TDraftEvent {
+  return {
+    kind: ExtendedKind.NUTZAP_INFO,
+    content: '',
+    tags: [
+      ...relays.map((url) => buildRelayTag(url)),
+      ...mints.map((mint) => ['mint', mint, 'sat']),
+      ['pubkey', p2pkPubkey]
+    ],
+    created_at: dayjs().unix()
+  }
+}
+
+/**
+ * Create a nutzap event (kind 9321, NIP-61)
+ *
+ * @param recipient - Pubkey of the recipient
+ * @param mint - Mint the proofs were issued by
+ * @param proofs - Proofs locked to the recipient's P2PK pubkey
+ * @param comment - Optional comment
+ * @param event - Optional event being zapped
+ * @returns Draft event for the nutzap
+ */
+export function createNutzapDraftEvent(
+  recipient: string,
+  mint: string,
+  proofs: Proof[],
+  comment: string,
+  event?: Event
+): TDraftEvent {
+  const tags: string[][] = proofs.map((proof) => ['proof', JSON.stringify(proof)])
+  tags.push(['u', mint])
+  if (event) {
+    tags.push(buildETag(event.id, event.pubkey))
+    tags.push(buildKTag(event.kind))
+  }
+  tags.push(buildPTag(recipient))
+
+  return {
+    kind: ExtendedKind.NUTZAP,
+    content: comment,
+    tags,
+    created_at: dayjs().unix()
+  }
+}
+
+/**
+ * Create a deletion request for spent Cashu token events (NIP-60)
+ *
+ * @param tokenIds - Ids of the kind 7375 events to delete
+ * @returns Draft event for the deletion request
+ */
+export function createCashuTokenDeletionDraftEvent(tokenIds: string[]): TDraftEvent {
+  return {
+    kind: kinds.EventDeletion,
+    content: '',
+    tags: [...tokenIds.map((id) => ['e', id]), buildKTag(ExtendedKind.CASHU_TOKEN)],
+    created_at: dayjs().unix()
+  }
+}
+
+export function createDraftWrapDraftEvent(
+  id: string,
+  draftKind: number,
+  encryptedDraft: string
+): TDraftEvent {
+  return {
+    kind: ExtendedKind.DRAFT,
+    content: encryptedDraft, // empty content marks the draft as deleted
+    tags: [
+      ['d', id],
+      ['k', draftKind.toString()]
+    ],
+    created_at: dayjs().unix()
+  }
+}
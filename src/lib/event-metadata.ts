@@ -1,10 +1,11 @@
-import { BIG_RELAY_URLS, MAX_PINNED_NOTES, POLL_TYPE } from '@/constants'
-import { TEmoji, TPollType, TRelayList, TRelaySet } from '@/types'
+import { BIG_RELAY_URLS, ExtendedKind, MAX_PINNED_NOTES, POLL_TYPE } from '@/constants'
+import { TEmoji, TNutzapInfo, TPollType, TRelayList, TRelaySet, TZapSplit } from '@/types'
+import { Proof } from '@cashu/cashu-ts'
 import { Event, kinds } from 'nostr-tools'
 import { buildATag } from './draft-event'
 import { getReplaceableEventIdentifier } from './event'
 import { getAmountFromInvoice, getLightningAddressFromProfile } from './lightning'
-import { formatPubkey, pubkeyToNpub } from './pubkey'
+import { formatPubkey, isValidPubkey, pubkeyToNpub } from './pubkey'
 import { generateBech32IdFromETag, tagNameEquals } from './tag'
 import { isWebsocketUrl, normalizeHttpUrl, normalizeUrl } from './url'
 import { isTorBrowser } from './utils'
@@ -161,6 +162,28 @@ export function getZapInfoFromEvent(receiptEvent: Event) {
   }
 }
 
+// https://github.com/nostr-protocol/nips/blob/master/57.md#appendix-g-zap-tag-on-other-events
+export function getZapSplitsFromEvent(event: Event): TZapSplit[] {
+  const splits = event.tags
+    .filter(tagNameEquals('zap'))
+    .filter(([, pubkey]) => isValidPubkey(pubkey))
+    .map(([, pubkey, relay, weight]) => ({
+      pubkey,
+      relay: relay && isWebsocketUrl(relay) ? normalizeUrl(relay) : undefined,
+      weight: weight ? parseFloat(weight) : NaN
+    }))
+
+  // Without any weight the amount is divided equally,
+  // tags missing a weight among weighted ones get nothing
+  const hasWeight = splits.some(({ weight }) => !isNaN(weight))
+  return splits
+    .map((split) => ({
+      ...split,
+      weight: hasWeight ? (isNaN(split.weight) ? 0 : split.weight) : 1
+    }))
+    .filter(({ weight }) => weight > 0)
+}
+
 export function getLongFormArticleMetadataFromEvent(event: Event) {
   let title: string | undefined
   let summary: string | undefined
@@ -390,3 +413,89 @@ export function getPinnedEventHexIdSetFromPinListEvent(event?: Event | null): Se
       .slice(0, MAX_PINNED_NOTES) ?? []
   )
 }
+
+export function getNutzapInfoFromEvent(event: Event): TNutzapInfo | null {
+  if (event.kind !== ExtendedKind.NUTZAP_INFO) return null
+
+  const relays: string[] = []
+  const mints: string[] = []
+  let p2pkPubkey: string | undefined
+  event.tags.forEach(([tagName, tagValue, unit]) => {
+    if (tagName === 'relay' && tagValue && isWebsocketUrl(tagValue)) {
+      relays.push(normalizeUrl(tagValue))
+    } else if (tagName === 'mint' && tagValue && (!unit || unit === 'sat')) {
+      mints.push(normalizeHttpUrl(tagValue))
+    } else if (tagName === 'pubkey' && tagValue) {
+      p2pkPubkey = tagValue
+    }
+  })
+  if (!p2pkPubkey || mints.length === 0) return null
+
+  return { pubkey: event.pubkey, relays, mints, p2pkPubkey }
+}
+
+export function getNutzapFromEvent(event: Event) {
+  if (event.kind !== ExtendedKind.NUTZAP) return null
+
+  let mint: string | undefined
+  let recipientPubkey: string | undefined
+  let originalEventId: string | undefined
+  const proofs: Proof[] = []
+  event.tags.forEach(([tagName, tagValue]) => {
+    if (tagName === 'u' && tagValue) {
+      mint = normalizeHttpUrl(tagValue)
+    } else if (tagName === 'p') {
+      recipientPubkey = tagValue
+    } else if (tagName === 'e') {
+      originalEventId = tagValue
+    } else if (tagName === 'proof' && tagValue) {
+      try {
+        proofs.push(JSON.parse(tagValue))
+      } catch {
+        // ignore invalid proofs
+      }
+    }
+  })
+  if (!mint || !recipientPubkey || proofs.length === 0) return null
+
+  return {
+    senderPubkey: event.pubkey,
+    recipientPubkey,
+    originalEventId,
+    mint,
+    proofs,
+    amount: proofs.reduce((sum, proof) => sum + proof.amount, 0),
+    comment: event.content
+  }
+}
+
+export function getHighlightSourceTagFromEvent(event: Event) {
+  let sourceTag: string[] | undefined
+  for (const tag of event.tags) {
+    // Highest priority: 'source' tag
+    if (tag[2] === 'source') {
+      sourceTag = tag
+      break
+    }
+
+    // Give 'e' tags highest priority
+    if (tag[0] === 'e') {
+      sourceTag = tag
+      continue
+    }
+
+    // Give 'a' tags second priority over 'e' tags
+    if (tag[0] === 'a' && (!sourceTag || sourceTag[0] !== 'e')) {
+      sourceTag = tag
+      continue
+    }
+
+    // Give 'r' tags lowest priority
+    if (tag[0] === 'r' && (!sourceTag || sourceTag[0] === 'r')) {
+      sourceTag = tag
+      continue
+    }
+  }
+
+  return sourceTag
+}
@@ -45,6 +45,15 @@ export function isPictureEvent(event: Event) {
   return event.kind === ExtendedKind.PICTURE
 }
 
+export function isVideoEvent(event: Event) {
+  return [
+    ExtendedKind.VIDEO,
+    ExtendedKind.SHORT_VIDEO,
+    ExtendedKind.ADDRESSABLE_VIDEO,
+    ExtendedKind.ADDRESSABLE_SHORT_VIDEO
+  ].includes(event.kind)
+}
+
 export function isProtectedEvent(event: Event) {
   return event.tags.some(([tagName]) => tagName === '-')
 }
@@ -94,6 +103,15 @@ export function getParentATag(event?: Event) {
   return event.tags.find(tagNameEquals('a')) ?? event.tags.find(tagNameEquals('A'))
 }
 
+// NIP-22 comments on external content (NIP-73) have no parent event
+export function getParentITag(event?: Event) {
+  if (!event || ![ExtendedKind.COMMENT, ExtendedKind.VOICE_COMMENT].includes(event.kind)) {
+    return undefined
+  }
+
+  return event.tags.find(tagNameEquals('i'))
+}
+
 export function getParentEventHexId(event?: Event) {
   const tag = getParentETag(event)
   return tag?.[1]
@@ -302,7 +320,8 @@ export function createFakeEvent(event: Partial<Event>): Event {
 
 export async function minePow(
   unsigned: UnsignedEvent,
-  difficulty: number
+  difficulty: number,
+  keepCreatedAt = false
 ): Promise<Omit<Event, 'sig'>> {
   let count = 0
 
@@ -318,7 +337,7 @@ export async function minePow(
       while (iterations < 1000) {
         const now = Math.floor(new Date().getTime() / 1000)
 
-        if (now !== event.created_at) {
+        if (!keepCreatedAt && now !== event.created_at) {
           count = 0
           event.created_at = now
         }
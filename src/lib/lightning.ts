@@ -1,4 +1,4 @@
-import { TProfile } from '@/types'
+import { TProfile, TZapLedgerEntry, TZapSplit } from '@/types'
 import { Invoice } from '@getalby/lightning-tools'
 import { isEmail } from './utils'
 
@@ -13,6 +13,27 @@ export function formatAmount(amount: number) {
   return `${Math.round(amount / 100000) / 10}M`
 }
 
+/**
+ * Divide an amount by zap split weights. Leftover sats from rounding go to
+ * the recipients with the largest remainders, legs that end up empty are dropped.
+ */
+export function splitZapAmount(sats: number, splits: TZapSplit[]) {
+  const totalWeight = splits.reduce((sum, { weight }) => sum + weight, 0)
+  if (totalWeight <= 0) return []
+
+  const legs = splits.map(({ pubkey, weight }) => {
+    const exact = (sats * weight) / totalWeight
+    return { pubkey, sats: Math.floor(exact), remainder: exact - Math.floor(exact) }
+  })
+  const leftover = sats - legs.reduce((sum, leg) => sum + leg.sats, 0)
+  const byRemainder = [...legs].sort((a, b) => b.remainder - a.remainder)
+  for (let i = 0; i < leftover; i++) {
+    byRemainder[i % byRemainder.length].sats++
+  }
+
+  return legs.filter((leg) => leg.sats > 0).map(({ pubkey, sats }) => ({ pubkey, sats }))
+}
+
 export function getLightningAddressFromProfile(profile: TProfile) {
   // Some clients have incorrectly filled in the positions for lud06 and lud16
   const { lud16: a, lud06: b } = profile
@@ -30,3 +51,52 @@ export function getLightningAddressFromProfile(profile: TProfile) {
 
   return lud16 || lud06 || undefined
 }
+
+export type TZapLedgerTotal = {
+  key: string
+  sent: number
+  received: number
+  count: number
+}
+
+export function getZapLedgerTotals(
+  entries: TZapLedgerEntry[],
+  getKey: (entry: TZapLedgerEntry) => string | undefined
+): TZapLedgerTotal[] {
+  const totalMap = new Map<string, TZapLedgerTotal>()
+  entries.forEach((entry) => {
+    const key = getKey(entry)
+    if (!key) return
+
+    const total = totalMap.get(key) ?? { key, sent: 0, received: 0, count: 0 }
+    total[entry.direction] += entry.sats
+    total.count++
+    totalMap.set(key, total)
+  })
+  return Array.from(totalMap.values()).sort((a, b) => b.sent + b.received - (a.sent + a.received))
+}
+
+export function zapLedgerToCsv(
+  entries: TZapLedgerEntry[],
+  getDomain: (pubkey: string) => string | undefined
+) {
+  const escape = (value: string | number | undefined) => {
+    const str = value === undefined ? '' : value.toString()
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+  }
+  const rows = entries.map((entry) =>
+    [
+      new Date(entry.createdAt).toISOString(),
+      entry.direction,
+      entry.counterparty,
+      entry.counterparty ? getDomain(entry.counterparty) : undefined,
+      entry.sats,
+      entry.comment,
+      entry.eventId,
+      entry.id
+    ]
+      .map(escape)
+      .join(',')
+  )
+  return ['date,direction,counterparty,domain,sats,comment,event,invoice', ...rows].join('\n')
+}
@@ -32,6 +32,8 @@ export const toNoteList = ({
   if (domain) query.set('d', domain)
   return `${path}?${query.toString()}`
 }
+export const toExternalContent = (externalContent: string) =>
+  `/external/${encodeURIComponent(externalContent)}`
 export const toProfile = (userId: string) => {
   if (userId.startsWith('npub') || userId.startsWith('nprofile')) return `/users/${userId}`
   const npub = nip19.npubEncode(userId)
@@ -63,10 +65,13 @@ export const toSearch = (params?: TSearchParams) => {
   return `/search?${query.toString()}`
 }
 export const toSettings = () => '/settings'
-export const toRelaySettings = (tag?: 'mailbox' | 'favorite-relays') => {
+export const toRelaySettings = (tag?: 'mailbox' | 'favorite-relays' | 'health') => {
   return '/settings/relays' + (tag ? '#' + tag : '')
 }
+export const toRelayAuthSettings = () => '/settings/relay-auth'
 export const toWallet = () => '/settings/wallet'
+export const toZapLedger = () => '/settings/wallet/ledger'
+export const toCashuWallet = () => '/settings/wallet/cashu'
 export const toPostSettings = () => '/settings/posts'
 export const toGeneralSettings = () => '/settings/general'
 export const toAppearanceSettings = () => '/settings/appearance'
@@ -75,9 +80,26 @@ export const toProfileEditor = () => '/profile-editor'
 export const toRelay = (url: string) => `/relays/${encodeURIComponent(url)}`
 export const toRelayReviews = (url: string) => `/relays/${encodeURIComponent(url)}/reviews`
 export const toNip05Community = (domain: string) => `/communities/${encodeURIComponent(domain)}`
+export const toCommunityZapReceipts = (domain: string) =>
+  `/communities/${encodeURIComponent(domain)}/zaps`
+export const toCommunityFeedCoverage = (domain: string) =>
+  `/communities/${encodeURIComponent(domain)}/coverage`
+export const toFeedCoverage = () => '/feed-coverage'
 export const toMuteList = () => '/mutes'
 export const toRizful = () => '/rizful'
 export const toBookmarks = () => '/bookmarks'
+export const toDirectMessages = () => '/messages'
+export const toDirectMessageConversation = (pubkey: string) => {
+  const npub = nip19.npubEncode(pubkey)
+  return `/messages/${npub}`
+}
+export const toOutbox = () => '/outbox'
+export const toScheduledPosts = () => '/scheduled'
+export const toDrafts = () => '/drafts'
+export const toArticleEditor = (article?: Event) => {
+  if (!article) return '/articles/new'
+  return `/articles/${getNoteBech32Id(article)}/edit`
+}
 
 export const toUserAggregationDetail = (feedId: string, pubkey: string) => {
   const npub = nip19.npubEncode(pubkey)
@@ -1,4 +1,6 @@
+import { TCommunityMetadata } from '@/types'
 import { LRUCache } from 'lru-cache'
+import { COMMUNITY_METADATA_FILE_NAME, validateCommunityMetadata } from './community'
 import { isValidPubkey } from './pubkey'
 
 type TVerifyNip05Result = {
@@ -49,6 +51,27 @@ export function getWellKnownNip05Url(domain: string, name?: string): string {
   return url.toString()
 }
 
+export function getWellKnownCommunityUrl(domain: string): string {
+  return new URL(`/.well-known/${COMMUNITY_METADATA_FILE_NAME}`, `https://${domain}`).toString()
+}
+
+/**
+ * Look up the pubkey a NIP-05 identifier points to, a bare domain stands for _@domain
+ */
+export async function fetchPubkeyFromNip05(nip05: string): Promise<string | null> {
+  const [nip05Name, nip05Domain] = nip05.includes('@') ? nip05.split('@') : ['_', nip05]
+  if (!nip05Name || !nip05Domain?.includes('.')) return null
+
+  try {
+    const res = await fetch(getWellKnownNip05Url(nip05Domain, nip05Name))
+    const json = await res.json()
+    const pubkey = json.names?.[nip05Name]
+    return typeof pubkey === 'string' && isValidPubkey(pubkey) ? pubkey : null
+  } catch {
+    return null
+  }
+}
+
 export async function fetchPubkeysFromDomain(domain: string): Promise<string[]> {
   try {
     // Validate domain before fetching
@@ -93,3 +116,38 @@ export async function fetchPubkeysFromDomain(domain: string): Promise<string[]>
     return []
   }
 }
+
+/**
+ * Fetch and validate the community metadata file (.well-known/community.json) of a domain.
+ * Returns null if the file is missing or unreachable. Invalid fields are dropped.
+ */
+export async function fetchCommunityMetadataFromDomain(
+  domain: string
+): Promise<TCommunityMetadata | null> {
+  if (!domain || domain.includes('/') || domain.includes('?')) {
+    return null
+  }
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), 5000)
+  try {
+    const res = await fetch(getWellKnownCommunityUrl(domain), {
+      mode: 'cors',
+      signal: controller.signal
+    })
+    if (!res.ok) {
+      return null
+    }
+
+    const { metadata, errors } = validateCommunityMetadata(await res.json())
+    if (errors.length) {
+      console.warn(`[community.json] ${domain}:`, errors)
+    }
+    return metadata
+  } catch {
+    // Missing file, CORS errors and timeouts are expected for most domains
+    return null
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
@@ -0,0 +1,52 @@
+import { Event } from 'nostr-tools'
+import { z } from 'zod'
+
+type TDecrypt = (pubkey: string, cipherText: string) => Promise<string>
+type TEncrypt = (pubkey: string, plainText: string) => Promise<string>
+
+/**
+ * NIP-04 payloads carry the IV as a query string suffix, NIP-44 payloads are plain base64
+ */
+export function isNip04CipherText(cipherText: string) {
+  return cipherText.includes('?iv=')
+}
+
+/**
+ * Decrypt the private tags of a NIP-51 list, whichever encryption it was written with
+ */
+export async function decryptPrivateTags(
+  event: Event,
+  { nip04Decrypt, nip44Decrypt }: { nip04Decrypt: TDecrypt; nip44Decrypt: TDecrypt }
+): Promise<string[][]> {
+  if (!event.content) return []
+
+  const plainText = isNip04CipherText(event.content)
+    ? await nip04Decrypt(event.pubkey, event.content)
+    : await nip44Decrypt(event.pubkey, event.content)
+  return z.array(z.array(z.string())).parse(JSON.parse(plainText))
+}
+
+/**
+ * Encrypt the private tags of a NIP-51 list to the account itself.
+ * Prefers NIP-44 and falls back to NIP-04 for signers that don't support it yet.
+ */
+export async function encryptPrivateTags(
+  pubkey: string,
+  tags: string[][],
+  { nip04Encrypt, nip44Encrypt }: { nip04Encrypt: TEncrypt; nip44Encrypt: TEncrypt }
+): Promise<string> {
+  const plainText = JSON.stringify(tags)
+  try {
+    return await nip44Encrypt(pubkey, plainText)
+  } catch (error) {
+    // A rejected request or an unreachable signer must not silently downgrade the list
+    if (!isNip44UnsupportedError(error)) throw error
+
+    console.warn('The signer does not support NIP-44, falling back to NIP-04', error)
+    return await nip04Encrypt(pubkey, plainText)
+  }
+}
+
+function isNip44UnsupportedError(error: unknown) {
+  return error instanceof Error && /does not support nip44/i.test(error.message)
+}
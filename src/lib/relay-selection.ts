@@ -0,0 +1,177 @@
+import { BIG_RELAY_URLS } from '@/constants'
+import relayHealthService from '@/services/relay-health.service'
+import { TRelayCoverage, TRelayList } from '@/types'
+
+/**
+ * Relay selection following the NIP-65 outbox model: an author's events live on their write
+ * (outbox) relays, and events addressed to someone (replies, reactions, mentions) are
+ * delivered to that person's read (inbox) relays. Relays that keep failing are moved behind
+ * the others, so they are the first to be dropped when a list is cut short.
+ */
+
+const MIN_RELAY_COUNT = 4
+const RELAYS_PER_AUTHOR = 4
+const RELAYS_PER_REPLIER = 2
+const RELAYS_PER_RECIPIENT = 4
+const MAX_OUTBOX_RELAYS = 10
+
+function dedupe(urls: string[]) {
+  return Array.from(new Set(urls))
+}
+
+function pick(urls: string[], limit: number) {
+  return relayHealthService.sortByHealth(urls).slice(0, limit)
+}
+
+/**
+ * Relays to read an author's own events from
+ */
+export function selectOutboxRelays(
+  relayList: TRelayList,
+  {
+    limit = RELAYS_PER_AUTHOR,
+    excludeRelayUrls = []
+  }: { limit?: number; excludeRelayUrls?: string[] } = {}
+) {
+  return pick(
+    relayList.write.filter((url) => !excludeRelayUrls.includes(url)),
+    limit
+  )
+}
+
+/**
+ * Relays to read replies, reactions and zaps of an event from: the target author's inbox,
+ * where the event has been seen, and the outboxes of the people already known to interact.
+ */
+export function selectInteractionRelays(
+  targetRelayList: TRelayList | undefined,
+  {
+    hints = [],
+    replierRelayLists = [],
+    limit = 8
+  }: { hints?: string[]; replierRelayLists?: TRelayList[]; limit?: number } = {}
+) {
+  const relays = dedupe([
+    ...pick(targetRelayList?.read ?? [], RELAYS_PER_AUTHOR),
+    ...pick(hints, 2),
+    ...replierRelayLists.flatMap((relayList) => pick(relayList.write, RELAYS_PER_REPLIER))
+  ])
+  // Users without a relay list are most likely reachable on the big relays
+  if (relays.length < MIN_RELAY_COUNT) {
+    return pick(dedupe(relays.concat(BIG_RELAY_URLS)), Math.max(limit, MIN_RELAY_COUNT))
+  }
+  return pick(relays, limit)
+}
+
+/**
+ * Relays to publish an event to: the author's outbox plus the inbox of everyone it mentions
+ */
+export function selectPublishRelays(
+  authorRelayList: TRelayList | undefined,
+  {
+    recipientRelayLists = [],
+    additionalRelayUrls = []
+  }: { recipientRelayLists?: TRelayList[]; additionalRelayUrls?: string[] } = {}
+) {
+  const relays = dedupe([
+    ...pick(authorRelayList?.write ?? [], MAX_OUTBOX_RELAYS),
+    ...recipientRelayLists.flatMap((relayList) => pick(relayList.read, RELAYS_PER_RECIPIENT)),
+    ...additionalRelayUrls
+  ])
+  return relays.length ? relays : BIG_RELAY_URLS
+}
+
+/**
+ * Group authors by their outbox relays, dropping small relays whose authors are already
+ * covered twice once there are more than 10 relays
+ */
+export function groupAuthorsByOutboxRelays(pubkeys: string[], relayLists: TRelayList[]) {
+  const group: Record<string, Set<string>> = {}
+  relayLists.forEach((relayList, index) => {
+    pick(relayList.write, RELAYS_PER_AUTHOR).forEach((url) => {
+      if (!group[url]) {
+        group[url] = new Set()
+      }
+      group[url].add(pubkeys[index])
+    })
+  })
+
+  const relayCount = Object.keys(group).length
+  const coveredCount = new Map<string, number>()
+  Object.entries(group)
+    .sort(([, a], [, b]) => b.size - a.size)
+    .forEach(([url, pubkeys]) => {
+      if (
+        relayCount > 10 &&
+        pubkeys.size < 10 &&
+        Array.from(pubkeys).every((pubkey) => (coveredCount.get(pubkey) ?? 0) >= 2)
+      ) {
+        delete group[url]
+      } else {
+        pubkeys.forEach((pubkey) => {
+          coveredCount.set(pubkey, (coveredCount.get(pubkey) ?? 0) + 1)
+        })
+      }
+    })
+
+  return Object.entries(group).map(([url, authors]) => ({ url, authors: Array.from(authors) }))
+}
+
+/**
+ * Greedily pick the outbox relays that reach the most authors not covered yet, until the
+ * target share of the authors is covered. Authors without a relay list can't be located,
+ * so they are never counted as covered.
+ */
+export function computeRelayCoverage(
+  pubkeys: string[],
+  relayLists: TRelayList[],
+  { targetRatio = 0.9, maxRelayCount = 20 }: { targetRatio?: number; maxRelayCount?: number } = {}
+): TRelayCoverage {
+  const authorsByRelay = new Map<string, Set<string>>()
+  const authorsWithoutRelayList = new Set<string>()
+  relayLists.forEach((relayList, index) => {
+    const pubkey = pubkeys[index]
+    if (!relayList.originalRelays.length) {
+      authorsWithoutRelayList.add(pubkey)
+      return
+    }
+    relayList.write.forEach((url) => {
+      authorsByRelay.set(url, (authorsByRelay.get(url) ?? new Set()).add(pubkey))
+    })
+  })
+
+  const authors = dedupe(pubkeys)
+  const targetCount = Math.ceil(authors.length * targetRatio)
+  // On a tie the healthier relay wins
+  const candidates = relayHealthService.sortByHealth(Array.from(authorsByRelay.keys()))
+  const coveredAuthorSet = new Set<string>()
+  const relays: TRelayCoverage['relays'] = []
+  while (coveredAuthorSet.size < targetCount && relays.length < maxRelayCount) {
+    let bestUrl: string | undefined
+    let bestNewAuthors: string[] = []
+    candidates.forEach((url) => {
+      const newAuthors = Array.from(authorsByRelay.get(url)!).filter(
+        (pubkey) => !coveredAuthorSet.has(pubkey)
+      )
+      if (newAuthors.length > bestNewAuthors.length) {
+        bestUrl = url
+        bestNewAuthors = newAuthors
+      }
+    })
+    if (!bestUrl) break
+
+    bestNewAuthors.forEach((pubkey) => coveredAuthorSet.add(pubkey))
+    relays.push({
+      url: bestUrl,
+      authorCount: authorsByRelay.get(bestUrl)!.size,
+      newAuthorCount: bestNewAuthors.length
+    })
+  }
+
+  return {
+    relays,
+    coveredAuthors: authors.filter((pubkey) => coveredAuthorSet.has(pubkey)),
+    uncoveredAuthors: authors.filter((pubkey) => !coveredAuthorSet.has(pubkey)),
+    authorsWithoutRelayList: Array.from(authorsWithoutRelayList)
+  }
+}
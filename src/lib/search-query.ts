@@ -0,0 +1,238 @@
+import { BIG_RELAY_URLS, ExtendedKind, SEARCHABLE_RELAY_URLS, URL_REGEX } from '@/constants'
+import dayjs from 'dayjs'
+import { Event, Filter, kinds } from 'nostr-tools'
+import { getImetaInfosFromEvent, isVideoEvent } from './event'
+import { isValidPubkey, userIdToPubkey } from './pubkey'
+import { isImage, isMedia } from './url'
+
+/**
+ * A note search written in the query language:
+ *   from:npub… in:domain.com kind:article since:2024-01-01 until:2024-06-30
+ *   has:image #tag -word -#tag "exact phrase"
+ * Everything else is passed on to NIP-50 relays as the search text, so NIP-50 extensions
+ * like language:en keep working.
+ */
+export type TSearchQuery = {
+  text: string
+  authors: string[]
+  excludedAuthors: string[]
+  // from: values that aren't a pubkey, they have to be resolved as NIP-05 identifiers
+  unresolvedAuthors: string[]
+  unresolvedExcludedAuthors: string[]
+  domains: string[]
+  kinds: number[]
+  since?: number
+  until?: number
+  hashtags: string[]
+  excludedHashtags: string[]
+  excludedTerms: string[]
+  has: TSearchQueryHas[]
+}
+
+export type TSearchQueryHas = 'image' | 'video' | 'link'
+
+const KIND_ALIASES: Record<string, number[]> = {
+  note: [kinds.ShortTextNote],
+  article: [kinds.LongFormArticle],
+  highlight: [kinds.Highlights],
+  picture: [ExtendedKind.PICTURE],
+  video: [
+    ExtendedKind.VIDEO,
+    ExtendedKind.SHORT_VIDEO,
+    ExtendedKind.ADDRESSABLE_VIDEO,
+    ExtendedKind.ADDRESSABLE_SHORT_VIDEO
+  ],
+  poll: [ExtendedKind.POLL],
+  comment: [ExtendedKind.COMMENT],
+  voice: [ExtendedKind.VOICE]
+}
+
+const HAS_VALUES: TSearchQueryHas[] = ['image', 'video', 'link']
+
+const TOKEN_REGEX = /-?(?:[a-z]+:)?"[^"]*"|\S+/gi
+const OPERATOR_REGEX = /^(from|in|kind|since|until|has):(.+)$/i
+
+export function parseSearchQuery(input: string): TSearchQuery {
+  const query: TSearchQuery = {
+    text: '',
+    authors: [],
+    excludedAuthors: [],
+    unresolvedAuthors: [],
+    unresolvedExcludedAuthors: [],
+    domains: [],
+    kinds: [],
+    hashtags: [],
+    excludedHashtags: [],
+    excludedTerms: [],
+    has: []
+  }
+  const terms: string[] = []
+
+  for (const token of input.match(TOKEN_REGEX) ?? []) {
+    const isExcluded = token.length > 1 && token.startsWith('-')
+    const body = isExcluded ? token.slice(1) : token
+
+    if (body.length > 1 && body.startsWith('#')) {
+      const hashtag = body.slice(1).toLowerCase()
+      ;(isExcluded ? query.excludedHashtags : query.hashtags).push(hashtag)
+      continue
+    }
+
+    const operatorMatch = body.match(OPERATOR_REGEX)
+    if (!operatorMatch) {
+      if (isExcluded) {
+        query.excludedTerms.push(unquote(body).toLowerCase())
+      } else {
+        terms.push(body)
+      }
+      continue
+    }
+
+    const operator = operatorMatch[1].toLowerCase()
+    const value = unquote(operatorMatch[2])
+    if (operator === 'from') {
+      const pubkey = userIdToPubkey(value.replace(/^nostr:/, ''))
+      if (isValidPubkey(pubkey)) {
+        ;(isExcluded ? query.excludedAuthors : query.authors).push(pubkey)
+      } else {
+        ;(isExcluded ? query.unresolvedExcludedAuthors : query.unresolvedAuthors).push(
+          value.toLowerCase()
+        )
+      }
+    } else if (operator === 'in') {
+      query.domains.push(value.replace(/^@/, '').toLowerCase())
+    } else if (operator === 'kind') {
+      value.split(',').forEach((kind) => {
+        const alias = KIND_ALIASES[kind.toLowerCase()]
+        if (alias) {
+          query.kinds.push(...alias)
+        } else if (/^\d+$/.test(kind)) {
+          query.kinds.push(parseInt(kind))
+        }
+      })
+    } else if (operator === 'since') {
+      query.since = parseTimestamp(value, 'start')
+    } else if (operator === 'until') {
+      query.until = parseTimestamp(value, 'end')
+    } else if (operator === 'has') {
+      const has = value.toLowerCase() as TSearchQueryHas
+      if (HAS_VALUES.includes(has)) {
+        query.has.push(has)
+      }
+    }
+  }
+
+  query.text = terms.join(' ')
+  return query
+}
+
+/**
+ * Whether the input uses more than a plain text or a single hashtag search
+ */
+export function isAdvancedSearchQuery(input: string) {
+  const query = parseSearchQuery(input)
+  return (
+    query.authors.length > 0 ||
+    query.excludedAuthors.length > 0 ||
+    query.unresolvedAuthors.length > 0 ||
+    query.unresolvedExcludedAuthors.length > 0 ||
+    query.domains.length > 0 ||
+    query.kinds.length > 0 ||
+    query.since !== undefined ||
+    query.until !== undefined ||
+    query.has.length > 0 ||
+    query.excludedTerms.length > 0 ||
+    query.excludedHashtags.length > 0 ||
+    (query.hashtags.length > 0 && (query.hashtags.length > 1 || !!query.text))
+  )
+}
+
+/**
+ * The relay filter for a query. `authors` are the from: authors already narrowed down to the
+ * members of the in: domains.
+ */
+export function buildSearchFilter(query: TSearchQuery, authors?: string[]) {
+  const filter: Filter = {}
+  if (query.text) {
+    filter.search = query.text
+  }
+  if (authors?.length) {
+    filter.authors = authors
+  }
+  if (query.kinds.length) {
+    filter.kinds = query.kinds
+  }
+  // Relays treat several values as OR, all of them are required locally
+  if (query.hashtags.length) {
+    filter['#t'] = query.hashtags
+  }
+  if (query.since !== undefined) {
+    filter.since = query.since
+  }
+  if (query.until !== undefined) {
+    filter.until = query.until
+  }
+  return filter
+}
+
+export function getSearchRelayUrls(query: TSearchQuery) {
+  return query.text ? SEARCHABLE_RELAY_URLS : BIG_RELAY_URLS
+}
+
+/**
+ * Apply the parts of a query relays can't express (or may ignore) to an event
+ */
+export function matchSearchQuery(event: Event, query: TSearchQuery) {
+  if (query.excludedAuthors.includes(event.pubkey)) return false
+  if (query.kinds.length && !query.kinds.includes(event.kind)) return false
+  if (query.since !== undefined && event.created_at < query.since) return false
+  if (query.until !== undefined && event.created_at > query.until) return false
+
+  const content = event.content.toLowerCase()
+  if (query.excludedTerms.some((term) => content.includes(term))) return false
+
+  const hashtags = event.tags
+    .filter(([tagName, tagValue]) => tagName === 't' && !!tagValue)
+    .map(([, tagValue]) => tagValue.toLowerCase())
+  if (query.excludedHashtags.some((hashtag) => hashtags.includes(hashtag))) return false
+  if (!query.hashtags.every((hashtag) => hashtags.includes(hashtag))) return false
+
+  if (query.has.length) {
+    const urls: string[] = event.content.match(URL_REGEX) ?? []
+    const imetaUrls = getImetaInfosFromEvent(event).map(({ url }) => url)
+    const mediaUrls = urls.concat(imetaUrls)
+    for (const has of query.has) {
+      if (
+        has === 'image' &&
+        event.kind !== ExtendedKind.PICTURE &&
+        !mediaUrls.some((url) => isImage(url))
+      ) {
+        return false
+      }
+      if (has === 'video' && !isVideoEvent(event) && !mediaUrls.some((url) => isMedia(url))) {
+        return false
+      }
+      if (has === 'link' && !urls.some((url) => !isImage(url) && !isMedia(url))) {
+        return false
+      }
+    }
+  }
+
+  return true
+}
+
+function unquote(value: string) {
+  return value.replace(/^"(.*)"$/, '$1')
+}
+
+function parseTimestamp(value: string, boundary: 'start' | 'end') {
+  if (/^\d{9,}$/.test(value)) {
+    return parseInt(value)
+  }
+  const date = dayjs(value)
+  if (!date.isValid()) return undefined
+
+  // A bare date covers the whole day
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value)
+  return (isDateOnly ? date[boundary === 'start' ? 'startOf' : 'endOf']('day') : date).unix()
+}
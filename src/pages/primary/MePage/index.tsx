@@ -7,8 +7,21 @@ import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
 import { SimpleUserAvatar } from '@/components/UserAvatar'
 import { SimpleUsername } from '@/components/Username'
+import VideoPostDialog from '@/components/VideoPostDialog'
+import { useOutbox, useScheduledPosts } from '@/hooks'
 import PrimaryPageLayout from '@/layouts/PrimaryPageLayout'
-import { toBookmarks, toProfile, toRelaySettings, toSettings, toWallet } from '@/lib/link'
+import {
+  toArticleEditor,
+  toBookmarks,
+  toDirectMessages,
+  toDrafts,
+  toOutbox,
+  toProfile,
+  toRelaySettings,
+  toScheduledPosts,
+  toSettings,
+  toWallet
+} from '@/lib/link'
 import { cn } from '@/lib/utils'
 import { useSecondaryPage } from '@/PageManager'
 import { useNostr } from '@/providers/NostrProvider'
@@ -16,7 +29,13 @@ import {
   ArrowDownUp,
   Bookmark,
   ChevronRight,
+  Clapperboard,
+  Clock,
+  CloudOff,
+  FilePen,
   LogOut,
+  Mail,
+  Newspaper,
   Server,
   Settings,
   UserRound,
@@ -29,8 +48,11 @@ const MePage = forwardRef((_, ref) => {
   const { t } = useTranslation()
   const { push } = useSecondaryPage()
   const { pubkey } = useNostr()
+  const outboxItems = useOutbox(pubkey)
+  const scheduledPosts = useScheduledPosts(pubkey)
   const [loginDialogOpen, setLoginDialogOpen] = useState(false)
   const [logoutDialogOpen, setLogoutDialogOpen] = useState(false)
+  const [videoPostDialogOpen, setVideoPostDialogOpen] = useState(false)
 
   if (!pubkey) {
     return (
@@ -79,6 +101,32 @@ const MePage = forwardRef((_, ref) => {
         <Item onClick={() => push(toBookmarks())}>
           <Bookmark /> {t('Bookmarks')}
         </Item>
+        <Item onClick={() => push(toDirectMessages())}>
+          <Mail /> {t('Messages')}
+        </Item>
+        <Item onClick={() => push(toDrafts())}>
+          <FilePen /> {t('Drafts')}
+        </Item>
+        <Item onClick={() => push(toArticleEditor())}>
+          <Newspaper /> {t('Write article')}
+        </Item>
+        <Item onClick={() => setVideoPostDialogOpen(true)}>
+          <Clapperboard /> {t('Publish video')}
+        </Item>
+        {outboxItems.length > 0 && (
+          <Item onClick={() => push(toOutbox())}>
+            <CloudOff /> {t('Outbox')}
+            <div className="text-xs text-muted-foreground">
+              {t('n pending', { n: outboxItems.length })}
+            </div>
+          </Item>
+        )}
+        {scheduledPosts.length > 0 && (
+          <Item onClick={() => push(toScheduledPosts())}>
+            <Clock /> {t('Scheduled notes')}
+            <div className="text-xs text-muted-foreground">{scheduledPosts.length}</div>
+          </Item>
+        )}
         <Item onClick={() => push(toWallet())}>
           <Wallet />
           {t('Wallet')}
@@ -98,6 +146,7 @@ const MePage = forwardRef((_, ref) => {
       </div>
       <LoginDialog open={loginDialogOpen} setOpen={setLoginDialogOpen} />
       <LogoutDialog open={logoutDialogOpen} setOpen={setLogoutDialogOpen} />
+      <VideoPostDialog open={videoPostDialogOpen} setOpen={setVideoPostDialogOpen} />
     </PrimaryPageLayout>
   )
 })
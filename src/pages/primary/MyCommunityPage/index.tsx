@@ -1,18 +1,20 @@
 import PrimaryPageLayout from '@/layouts/PrimaryPageLayout'
 import { TPageRef } from '@/types'
-import { Users, PlusCircle } from 'lucide-react'
+import { Users, PlusCircle, Shield } from 'lucide-react'
 import { forwardRef, useImperativeHandle, useRef, useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useFeed } from '@/providers/FeedProvider'
 import { useNostr } from '@/providers/NostrProvider'
 import { Skeleton } from '@/components/ui/skeleton'
 import { SimpleUserAvatar } from '@/components/UserAvatar'
-import { useFetchProfile } from '@/hooks'
+import { useFetchCommunityRoles, useFetchProfile } from '@/hooks'
 import { toProfile } from '@/lib/link'
 import { useSecondaryPage } from '@/PageManager'
 import ProfileAbout from '@/components/ProfileAbout'
 import Nip05 from '@/components/Nip05'
+import communityRolesService from '@/services/community-roles.service'
 import nip05CommunityService from '@/services/nip05-community.service'
+import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 
 const MyCommunityPage = forwardRef((_, ref) => {
@@ -50,11 +52,9 @@ function MyCommunityPageTitlebar() {
       }
 
       try {
-        // Get members from the domain (uses cache if available)
-        const members = await nip05CommunityService.getDomainMembers(domain)
-
-        // User is admin if they're the first member
-        setIsAdmin(members.length > 0 && members[0] === pubkey)
+        // Admins are the nostr.json owner plus any declared in the community's roles
+        const roles = await communityRolesService.getRoles(domain)
+        setIsAdmin(roles.admins.includes(pubkey))
       } catch (error) {
         console.error('[MyCommunityPageTitlebar] Error checking admin status:', error)
         setIsAdmin(false)
@@ -101,6 +101,7 @@ function MyCommunityContent() {
 
   // Get user's NIP-05 domain
   const domain = feedInfo.feedType === 'nip05-domain' ? feedInfo.id : null
+  const { roles } = useFetchCommunityRoles(domain)
 
   useEffect(() => {
     const fetchMembers = async () => {
@@ -169,9 +170,10 @@ function MyCommunityContent() {
     )
   }
 
-  // First member is the admin
-  const adminPubkey = members[0]
-  const otherMembers = members.slice(1)
+  // The first member is the owner; the role list can add more admins and moderators
+  const admins = roles?.admins.length ? roles.admins : members.slice(0, 1)
+  const moderators = roles?.moderators ?? []
+  const otherMembers = members.filter((pubkey) => !admins.includes(pubkey))
 
   return (
     <div className="pb-4">
@@ -194,11 +196,17 @@ function MyCommunityContent() {
         </div>
       </div>
 
-      {/* Admin Profile */}
-      {adminPubkey && (
+      {/* Admin Profiles */}
+      {admins.length > 0 && (
         <div className="p-6 border-b">
-          <h2 className="text-lg font-semibold mb-4">{t('Community Admin')}</h2>
-          <AdminProfile pubkey={adminPubkey} />
+          <h2 className="text-lg font-semibold mb-4">
+            {admins.length > 1 ? t('Community Admins') : t('Community Admin')}
+          </h2>
+          <div className="space-y-2">
+            {admins.map((pubkey) => (
+              <AdminProfile key={pubkey} pubkey={pubkey} />
+            ))}
+          </div>
         </div>
       )}
 
@@ -210,7 +218,12 @@ function MyCommunityContent() {
           </h2>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
             {otherMembers.map((pubkey) => (
-              <MemberCard key={pubkey} pubkey={pubkey} domain={domain} />
+              <MemberCard
+                key={pubkey}
+                pubkey={pubkey}
+                domain={domain}
+                isModerator={moderators.includes(pubkey)}
+              />
             ))}
           </div>
         </div>
@@ -271,7 +284,16 @@ function AdminProfile({ pubkey }: { pubkey: string }) {
   )
 }
 
-function MemberCard({ pubkey, domain }: { pubkey: string; domain: string }) {
+function MemberCard({
+  pubkey,
+  domain,
+  isModerator = false
+}: {
+  pubkey: string
+  domain: string
+  isModerator?: boolean
+}) {
+  const { t } = useTranslation()
   const { push } = useSecondaryPage()
   const { profile, isFetching } = useFetchProfile(pubkey)
 
@@ -297,7 +319,15 @@ function MemberCard({ pubkey, domain }: { pubkey: string; domain: string }) {
     >
       <SimpleUserAvatar userId={pubkey} className="w-12 h-12" />
       <div className="flex-1 min-w-0">
-        <div className="font-medium truncate">{displayName}</div>
+        <div className="flex items-center gap-2">
+          <div className="font-medium truncate">{displayName}</div>
+          {isModerator && (
+            <Badge variant="secondary" className="shrink-0 gap-1 px-1.5 py-0 text-xs">
+              <Shield className="w-3 h-3" />
+              {t('Moderator')}
+            </Badge>
+          )}
+        </div>
         {nip05 && (
           <div className="text-xs text-muted-foreground truncate">
             {nip05.endsWith(`@${domain}`) ? nip05.replace(`@${domain}`, '') : nip05}@{domain}
@@ -5,8 +5,9 @@ import { simplifyUrl } from '@/lib/url'
 import { cn } from '@/lib/utils'
 import { useFavoriteRelays } from '@/providers/FavoriteRelaysProvider'
 import { useFeed } from '@/providers/FeedProvider'
+import { useSavedSearches } from '@/providers/SavedSearchesProvider'
 import { useScreenSize } from '@/providers/ScreenSizeProvider'
-import { ChevronDown, Server, UsersRound } from 'lucide-react'
+import { ChevronDown, Search, Server, UsersRound } from 'lucide-react'
 import { forwardRef, HTMLAttributes, useMemo, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 
@@ -53,6 +54,7 @@ const FeedSwitcherTrigger = forwardRef<HTMLDivElement, HTMLAttributes<HTMLDivEle
     const { t } = useTranslation()
     const { feedInfo, relayUrls } = useFeed()
     const { relaySets } = useFavoriteRelays()
+    const { savedSearches } = useSavedSearches()
     const activeRelaySet = useMemo(() => {
       return feedInfo.feedType === 'relays' && feedInfo.id
         ? relaySets.find((set) => set.id === feedInfo.id)
@@ -62,6 +64,9 @@ const FeedSwitcherTrigger = forwardRef<HTMLDivElement, HTMLAttributes<HTMLDivEle
       if (feedInfo.feedType === 'following') {
         return t('Following')
       }
+      if (feedInfo.feedType === 'search') {
+        return savedSearches.find((savedSearch) => savedSearch.id === feedInfo.id)?.query
+      }
       if (relayUrls.length === 0) {
         return t('Choose a relay')
       }
@@ -71,7 +76,7 @@ const FeedSwitcherTrigger = forwardRef<HTMLDivElement, HTMLAttributes<HTMLDivEle
       if (feedInfo.feedType === 'relays') {
         return activeRelaySet?.name ?? activeRelaySet?.id
       }
-    }, [feedInfo, activeRelaySet])
+    }, [feedInfo, activeRelaySet, savedSearches])
 
     return (
       <div
@@ -79,7 +84,13 @@ const FeedSwitcherTrigger = forwardRef<HTMLDivElement, HTMLAttributes<HTMLDivEle
         ref={ref}
         {...props}
       >
-        {feedInfo.feedType === 'following' ? <UsersRound /> : <Server />}
+        {feedInfo.feedType === 'following' ? (
+          <UsersRound />
+        ) : feedInfo.feedType === 'search' ? (
+          <Search />
+        ) : (
+          <Server />
+        )}
         <div className="text-lg font-semibold truncate">{title}</div>
         <ChevronDown />
       </div>
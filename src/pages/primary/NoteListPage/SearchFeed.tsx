@@ -0,0 +1,21 @@
+import NoteSearchResult from '@/components/NoteSearchResult'
+import { useFeed } from '@/providers/FeedProvider'
+import { useSavedSearches } from '@/providers/SavedSearchesProvider'
+import { useTranslation } from 'react-i18next'
+
+export default function SearchFeed() {
+  const { t } = useTranslation()
+  const { feedInfo } = useFeed()
+  const { savedSearches } = useSavedSearches()
+  const savedSearch = savedSearches.find((savedSearch) => savedSearch.id === feedInfo.id)
+
+  if (!savedSearch) {
+    return (
+      <div className="text-center text-sm text-muted-foreground">
+        {t('This saved search no longer exists')}
+      </div>
+    )
+  }
+
+  return <NoteSearchResult query={savedSearch.query} isMainFeed />
+}
@@ -24,6 +24,7 @@ import { useTranslation } from 'react-i18next'
 import DomainFeed from './DomainFeed'
 import FollowingFeed from './FollowingFeed'
 import RelaysFeed from './RelaysFeed'
+import SearchFeed from './SearchFeed'
 
 type THomeFeedTab = 'domain' | 'following'
 
@@ -85,6 +86,8 @@ const NoteListPage = forwardRef((_, ref) => {
       // No tabs (not logged in), just show domain feed
       content = <DomainFeed />
     }
+  } else if (feedInfo.feedType === 'search') {
+    content = <SearchFeed />
   } else {
     content = (
       <>
@@ -176,6 +179,11 @@ function NoteListPageTitlebar({
               <div className="font-semibold">{t('Relay Feed')}</div>
             </div>
           )}
+          {feedInfo.feedType === 'search' && (
+            <div className="flex gap-2 items-center px-2">
+              <div className="font-semibold">{t('Saved search')}</div>
+            </div>
+          )}
         </>
       )}
 
@@ -0,0 +1,62 @@
+import { FormattedTimestamp } from '@/components/FormattedTimestamp'
+import { BIG_RELAY_URLS } from '@/constants'
+import { getLongFormArticleMetadataFromEvent } from '@/lib/event-metadata'
+import { toArticleEditor } from '@/lib/link'
+import { useSecondaryPage } from '@/PageManager'
+import { useDeletedEvent } from '@/providers/DeletedEventProvider'
+import { useNostr } from '@/providers/NostrProvider'
+import client from '@/services/client.service'
+import { Event, kinds } from 'nostr-tools'
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+export default function ArticleDraftList() {
+  const { t } = useTranslation()
+  const { push } = useSecondaryPage()
+  const { pubkey } = useNostr()
+  const { isEventDeleted } = useDeletedEvent()
+  const [drafts, setDrafts] = useState<Event[]>([])
+  const visibleDrafts = drafts.filter((draft) => !isEventDeleted(draft))
+
+  useEffect(() => {
+    if (!pubkey) {
+      setDrafts([])
+      return
+    }
+
+    const fetchDrafts = async () => {
+      const relayList = await client.fetchRelayList(pubkey)
+      const events = await client.fetchEvents(relayList.write.concat(BIG_RELAY_URLS).slice(0, 5), {
+        kinds: [kinds.DraftLong],
+        authors: [pubkey]
+      })
+      setDrafts(events.sort((a, b) => b.created_at - a.created_at))
+    }
+    fetchDrafts().catch((error) => console.error('Failed to fetch article drafts', error))
+  }, [pubkey])
+
+  if (visibleDrafts.length === 0) return null
+
+  return (
+    <div className="mt-6">
+      <div className="px-4 py-2 text-sm font-semibold text-muted-foreground">
+        {t('Article drafts')}
+      </div>
+      {visibleDrafts.map((draft) => (
+        <div
+          key={draft.id}
+          className="flex items-center gap-2 px-4 py-3 border-t clickable"
+          onClick={() => push(toArticleEditor(draft))}
+        >
+          <div className="flex-1 w-0 truncate font-medium">
+            {getLongFormArticleMetadataFromEvent(draft).title}
+          </div>
+          <FormattedTimestamp
+            timestamp={draft.created_at}
+            className="shrink-0 text-sm text-muted-foreground"
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
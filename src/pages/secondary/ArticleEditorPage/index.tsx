@@ -0,0 +1,54 @@
+import ArticleEditor from '@/components/ArticleEditor'
+import { useFetchEvent } from '@/hooks'
+import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
+import { useNostr } from '@/providers/NostrProvider'
+import { kinds } from 'nostr-tools'
+import { forwardRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import ArticleDraftList from './ArticleDraftList'
+
+const ArticleEditorPage = forwardRef(({ id, index }: { id?: string; index?: number }, ref) => {
+  const { t } = useTranslation()
+
+  return (
+    <SecondaryPageLayout
+      ref={ref}
+      index={index}
+      title={id ? t('Edit article') : t('New article')}
+      displayScrollToTopButton
+    >
+      {id ? (
+        <ExistingArticleEditor id={id} />
+      ) : (
+        <>
+          <ArticleEditor />
+          <ArticleDraftList />
+        </>
+      )}
+    </SecondaryPageLayout>
+  )
+})
+ArticleEditorPage.displayName = 'ArticleEditorPage'
+export default ArticleEditorPage
+
+function ExistingArticleEditor({ id }: { id: string }) {
+  const { t } = useTranslation()
+  const { pubkey } = useNostr()
+  const { event, isFetching } = useFetchEvent(id)
+
+  if (!event && isFetching) {
+    return <div className="p-8 text-center text-muted-foreground">{t('loading...')}</div>
+  }
+  if (
+    !event ||
+    event.pubkey !== pubkey ||
+    ![kinds.LongFormArticle, kinds.DraftLong].includes(event.kind)
+  ) {
+    return (
+      <div className="p-8 text-center text-muted-foreground">
+        {t('You can only edit your own articles')}
+      </div>
+    )
+  }
+  return <ArticleEditor key={event.id} article={event} />
+}
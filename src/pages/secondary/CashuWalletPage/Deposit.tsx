@@ -0,0 +1,131 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { simplifyUrl } from '@/lib/url'
+import { useCashuWallet } from '@/providers/CashuWalletProvider'
+import { useZap } from '@/providers/ZapProvider'
+import lightning from '@/services/lightning.service'
+import { MintQuoteResponse } from '@cashu/cashu-ts'
+import { Copy, Loader } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+const CHECK_INTERVAL = 3000 // 3 seconds
+
+export default function Deposit() {
+  const { t } = useTranslation()
+  const { wallet, createDepositQuote, claimDeposit } = useCashuWallet()
+  const { isWalletConnected } = useZap()
+  const [mint, setMint] = useState(wallet?.mints[0] ?? '')
+  const [sats, setSats] = useState(1000)
+  const [quote, setQuote] = useState<MintQuoteResponse | null>(null)
+  const [creating, setCreating] = useState(false)
+
+  useEffect(() => {
+    if (!quote) return
+
+    // Wait for the invoice to be paid, then mint the ecash
+    let claiming = false
+    const timer = setInterval(async () => {
+      if (claiming) return
+      claiming = true
+      try {
+        if (await claimDeposit(mint, quote)) {
+          clearInterval(timer)
+          setQuote(null)
+          toast.success(t('Deposited n sats', { n: quote.amount }))
+        }
+      } catch (error) {
+        console.error('Failed to claim deposit', error)
+      } finally {
+        claiming = false
+      }
+    }, CHECK_INTERVAL)
+    return () => clearInterval(timer)
+  }, [quote])
+
+  if (!wallet) return null
+
+  const handleCreateInvoice = async () => {
+    setCreating(true)
+    try {
+      setQuote(await createDepositQuote(mint, sats))
+    } catch (error) {
+      toast.error(`${t('Failed to create invoice')}: ${(error as Error).message}`)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>{t('Deposit')}</Label>
+      {quote ? (
+        <div className="space-y-2">
+          <div className="text-sm text-muted-foreground">
+            {t('Pay this invoice to receive n sats of ecash', { n: quote.amount })}
+          </div>
+          <div className="rounded-lg border p-2 text-xs break-all select-text">{quote.request}</div>
+          <div className="flex gap-2">
+            <Button
+              variant="secondary"
+              onClick={() => {
+                navigator.clipboard.writeText(quote.request)
+                toast.success(t('Copied'))
+              }}
+            >
+              <Copy />
+              {t('Copy')}
+            </Button>
+            {isWalletConnected && (
+              <Button onClick={() => lightning.payInvoice(quote.request)}>
+                {t('Pay with connected wallet')}
+              </Button>
+            )}
+            <Button variant="ghost" onClick={() => setQuote(null)}>
+              {t('Cancel')}
+            </Button>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader className="size-4 animate-spin" />
+            {t('Waiting for payment...')}
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <Input
+            className="w-28"
+            type="number"
+            min={1}
+            value={sats}
+            onChange={(e) => setSats(Math.max(0, parseInt(e.target.value) || 0))}
+          />
+          <Select value={mint} onValueChange={setMint}>
+            <SelectTrigger className="flex-1 w-0">
+              <SelectValue placeholder={t('Mint')} />
+            </SelectTrigger>
+            <SelectContent>
+              {wallet.mints.map((mint) => (
+                <SelectItem key={mint} value={mint}>
+                  {simplifyUrl(mint)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button disabled={creating || !mint || sats <= 0} onClick={handleCreateInvoice}>
+            {creating && <Loader className="animate-spin" />}
+            {t('Create invoice')}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
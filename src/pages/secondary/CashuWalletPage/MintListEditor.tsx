@@ -0,0 +1,79 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { normalizeHttpUrl } from '@/lib/url'
+import { Plus, X } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+export default function MintListEditor({
+  mints,
+  setMints,
+  disabled = false
+}: {
+  mints: string[]
+  setMints: (mints: string[]) => void
+  disabled?: boolean
+}) {
+  const { t } = useTranslation()
+  const [input, setInput] = useState('')
+  const [error, setError] = useState('')
+
+  const handleAdd = () => {
+    const url = input.trim()
+    if (!/^https?:\/\/[^\s/]+/.test(url)) {
+      setError(t('Invalid mint URL'))
+      return
+    }
+    const mint = normalizeHttpUrl(url)
+    if (!mints.includes(mint)) {
+      setMints([...mints, mint])
+    }
+    setInput('')
+    setError('')
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>{t('Mints')}</Label>
+      <div className="text-muted-foreground text-xs">
+        {t('Others can only send you nutzaps from these mints')}
+      </div>
+      {mints.map((mint) => (
+        <div key={mint} className="flex items-center gap-2">
+          <div className="flex-1 w-0 truncate text-sm">{mint}</div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setMints(mints.filter((m) => m !== mint))}
+            disabled={disabled}
+          >
+            <X />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="https://"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value)
+            setError('')
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleAdd()
+            }
+          }}
+          disabled={disabled}
+        />
+        <Button variant="secondary" onClick={handleAdd} disabled={disabled || !input.trim()}>
+          <Plus />
+          {t('Add')}
+        </Button>
+      </div>
+      {error && <div className="text-destructive text-xs">{error}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useCashuWallet } from '@/providers/CashuWalletProvider'
+import { Loader } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+export default function ReceiveToken() {
+  const { t } = useTranslation()
+  const { receiveToken, redeemNutzaps } = useCashuWallet()
+  const [token, setToken] = useState('')
+  const [receiving, setReceiving] = useState(false)
+  const [redeeming, setRedeeming] = useState(false)
+
+  const handleReceive = async () => {
+    setReceiving(true)
+    try {
+      const amount = await receiveToken(token)
+      setToken('')
+      toast.success(t('Received n sats', { n: amount }))
+    } catch (error) {
+      toast.error(`${t('Failed to receive ecash')}: ${(error as Error).message}`)
+    } finally {
+      setReceiving(false)
+    }
+  }
+
+  const handleRedeem = async () => {
+    setRedeeming(true)
+    try {
+      const amount = await redeemNutzaps()
+      if (amount > 0) {
+        toast.success(t('Received n sats in nutzaps', { n: amount }))
+      } else {
+        toast.info(t('No new nutzaps'))
+      }
+    } catch (error) {
+      toast.error(`${t('Failed to receive ecash')}: ${(error as Error).message}`)
+    } finally {
+      setRedeeming(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="cashu-token">{t('Receive ecash')}</Label>
+      <Textarea
+        id="cashu-token"
+        placeholder="cashuB..."
+        value={token}
+        onChange={(e) => setToken(e.target.value)}
+        rows={3}
+      />
+      <div className="flex gap-2">
+        <Button disabled={receiving || !token.trim()} onClick={handleReceive}>
+          {receiving && <Loader className="animate-spin" />}
+          {t('Receive')}
+        </Button>
+        <Button variant="secondary" disabled={redeeming} onClick={handleRedeem}>
+          {redeeming && <Loader className="animate-spin" />}
+          {t('Check for nutzaps')}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+import { Button } from '@/components/ui/button'
+import { DEFAULT_CASHU_MINTS } from '@/constants'
+import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
+import { simplifyUrl } from '@/lib/url'
+import { useCashuWallet } from '@/providers/CashuWalletProvider'
+import { Loader } from 'lucide-react'
+import { forwardRef, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import Deposit from './Deposit'
+import MintListEditor from './MintListEditor'
+import ReceiveToken from './ReceiveToken'
+
+const CashuWalletPage = forwardRef(({ index }: { index?: number }, ref) => {
+  const { t } = useTranslation()
+  const { wallet, isLoading, balance, balances, createWallet, updateMints } = useCashuWallet()
+  const [mints, setMints] = useState<string[]>(wallet?.mints ?? DEFAULT_CASHU_MINTS)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (wallet) setMints(wallet.mints)
+  }, [wallet])
+
+  const hasMintsChanged = !!wallet && mints.join(',') !== wallet.mints.join(',')
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      if (wallet) {
+        await updateMints(mints)
+      } else {
+        await createWallet(mints)
+      }
+    } catch (error) {
+      toast.error(`${t('Failed to save wallet')}: ${(error as Error).message}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <SecondaryPageLayout ref={ref} index={index} title={t('Cashu wallet')}>
+      {isLoading ? (
+        <div className="p-8 text-center text-muted-foreground">{t('loading...')}</div>
+      ) : !wallet ? (
+        <div className="px-4 pt-3 space-y-4">
+          <div className="text-sm text-muted-foreground">
+            {t(
+              'Ecash lets you send and receive nutzaps without a Lightning wallet. Your tokens are stored encrypted on your relays.'
+            )}
+          </div>
+          <MintListEditor mints={mints} setMints={setMints} disabled={saving} />
+          <Button disabled={saving || mints.length === 0} onClick={handleSave}>
+            {saving && <Loader className="animate-spin" />}
+            {t('Create Cashu wallet')}
+          </Button>
+        </div>
+      ) : (
+        <div className="px-4 pt-3 space-y-6">
+          <div>
+            <div className="text-4xl font-bold">{t('n sats', { n: balance.toLocaleString() })}</div>
+            {Object.entries(balances).map(([mint, amount]) => (
+              <div key={mint} className="flex justify-between text-sm text-muted-foreground">
+                <div className="truncate">{simplifyUrl(mint)}</div>
+                <div className="shrink-0">{amount.toLocaleString()}</div>
+              </div>
+            ))}
+          </div>
+          <Deposit />
+          <ReceiveToken />
+          <div className="space-y-2">
+            <MintListEditor mints={mints} setMints={setMints} disabled={saving} />
+            {hasMintsChanged && (
+              <Button disabled={saving || mints.length === 0} onClick={handleSave}>
+                {saving && <Loader className="animate-spin" />}
+                {t('Save')}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </SecondaryPageLayout>
+  )
+})
+CashuWalletPage.displayName = 'CashuWalletPage'
+export default CashuWalletPage
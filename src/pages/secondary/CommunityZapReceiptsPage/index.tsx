@@ -0,0 +1,72 @@
+import ZapSplitLegs from '@/components/ZapDialog/ZapSplitLegs'
+import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
+import communityZapService from '@/services/community-zap.service'
+import { TCommunityZapReceipt } from '@/types'
+import dayjs from 'dayjs'
+import { forwardRef, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const CommunityZapReceiptsPage = forwardRef(
+  ({ domain, index }: { domain?: string; index?: number }, ref) => {
+    const { t } = useTranslation()
+    const [receipts, setReceipts] = useState<TCommunityZapReceipt[] | null>(null)
+    const decodedDomain = domain ? decodeURIComponent(domain) : undefined
+
+    useEffect(() => {
+      if (!decodedDomain) return
+
+      communityZapService
+        .getReceipts(decodedDomain)
+        .then(setReceipts)
+        .catch(() => setReceipts([]))
+    }, [decodedDomain])
+
+    return (
+      <SecondaryPageLayout
+        index={index}
+        title={t('Community zaps')}
+        displayScrollToTopButton
+        ref={ref}
+      >
+        {receipts === null ? (
+          <div className="p-8 text-center text-muted-foreground">{t('loading...')}</div>
+        ) : receipts.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            {t('You have not zapped this community yet')}
+          </div>
+        ) : (
+          receipts.map((receipt) => <CommunityZapReceipt key={receipt.id} receipt={receipt} />)
+        )}
+      </SecondaryPageLayout>
+    )
+  }
+)
+CommunityZapReceiptsPage.displayName = 'CommunityZapReceiptsPage'
+export default CommunityZapReceiptsPage
+
+function CommunityZapReceipt({ receipt }: { receipt: TCommunityZapReceipt }) {
+  const { t } = useTranslation()
+  const paidLegs = receipt.legs.filter(({ status }) => status === 'success')
+  const paidSats = paidLegs.reduce((sum, leg) => sum + leg.sats, 0)
+  // Older receipts only stored the attempted total, under sats
+  const attemptedSats = receipt.attemptedSats ?? receipt.sats
+
+  return (
+    <div className="px-4 py-3 border-b space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 font-semibold">
+          {t('n of m sats sent', { n: paidSats, m: attemptedSats })}
+        </div>
+        <div className="shrink-0 text-sm text-muted-foreground">
+          {dayjs(receipt.createdAt).format('YYYY-MM-DD HH:mm')}
+        </div>
+      </div>
+      {receipt.comment && (
+        <div className="text-sm text-muted-foreground break-words" dir="auto">
+          {receipt.comment}
+        </div>
+      )}
+      <ZapSplitLegs legs={receipt.legs} />
+    </div>
+  )
+}
@@ -5,6 +5,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import {
@@ -18,20 +26,71 @@ import {
   Clock,
   Search,
   Check,
-  RefreshCw
+  RefreshCw,
+  AlertTriangle,
+  X
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { useNostr } from '@/providers/NostrProvider'
 import { useSearchProfiles } from '@/hooks/useSearchProfiles'
 import { useFetchProfile } from '@/hooks'
 import { userIdToPubkey } from '@/lib/pubkey'
+import {
+  COMMUNITY_METADATA_FILE_NAME,
+  generateCommunityMetadataJson,
+  getCommunityJoinDecisionFromEvent,
+  getCommunityStaff,
+  parseCommunityMetadata
+} from '@/lib/community'
+import {
+  createCommunityJoinDecisionDraftEvent,
+  createCommunityRoleListDraftEvent
+} from '@/lib/draft-event'
+import { ExtendedKind } from '@/constants'
+import {
+  TCommunityJoinDecision,
+  TCommunityJoinDecisionStatus,
+  TCommunityRole,
+  TProfile
+} from '@/types'
+import { getWellKnownCommunityUrl } from '@/lib/nip05'
 import { nip19 } from 'nostr-tools'
 import UserItem from '@/components/UserItem'
 import client from '@/services/client.service'
+import communityRolesService from '@/services/community-roles.service'
 import nip05CommunityService from '@/services/nip05-community.service'
 
+type TMemberEntry = { username: string; alias: string; pubkey: string }
+
 const CreateCommunityPage = forwardRef(({ index }: { index?: number }, ref) => {
   const { t } = useTranslation()
+  const [members, setMembers] = useState<TMemberEntry[]>([])
+  const [rejectedPubkeys, setRejectedPubkeys] = useState<Set<string>>(new Set())
+
+  // The member list used to generate nostr.json follows the latest join decision of each requester
+  const handleMemberDecision = (
+    pubkey: string,
+    status: TCommunityJoinDecisionStatus,
+    userProfile: TProfile | null
+  ) => {
+    if (status === 'rejected') {
+      setMembers((prev) => prev.filter((m) => m.pubkey !== pubkey))
+      setRejectedPubkeys((prev) => new Set(prev).add(pubkey))
+      return
+    }
+
+    const username = userProfile?.username || 'user'
+    setMembers((prev) =>
+      prev.some((m) => m.pubkey === pubkey)
+        ? prev
+        : [...prev, { username, alias: username, pubkey }]
+    )
+    setRejectedPubkeys((prev) => {
+      const next = new Set(prev)
+      next.delete(pubkey)
+      return next
+    })
+  }
 
   return (
     <SecondaryPageLayout
@@ -53,10 +112,11 @@ const CreateCommunityPage = forwardRef(({ index }: { index?: number }, ref) => {
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="instructions" className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="instructions">{t('Instructions')}</TabsTrigger>
                 <TabsTrigger value="manage">{t('Manage Members')}</TabsTrigger>
                 <TabsTrigger value="requests">{t('Join Requests')}</TabsTrigger>
+                <TabsTrigger value="settings">{t('Community Settings')}</TabsTrigger>
               </TabsList>
 
               <TabsContent value="instructions" className="space-y-6 mt-6">
@@ -64,11 +124,19 @@ const CreateCommunityPage = forwardRef(({ index }: { index?: number }, ref) => {
               </TabsContent>
 
               <TabsContent value="manage" className="space-y-6 mt-6">
-                <ManageMembersSection />
+                <ManageMembersSection
+                  members={members}
+                  setMembers={setMembers}
+                  rejectedPubkeys={rejectedPubkeys}
+                />
               </TabsContent>
 
               <TabsContent value="requests" className="space-y-6 mt-6">
-                <JoinRequestsSection />
+                <JoinRequestsSection onMemberDecision={handleMemberDecision} />
+              </TabsContent>
+
+              <TabsContent value="settings" className="space-y-6 mt-6">
+                <CommunitySettingsSection />
               </TabsContent>
             </Tabs>
           </CardContent>
@@ -248,7 +316,8 @@ function GithubPagesInstructions() {
             <div className="bg-muted p-4 rounded-lg space-y-2 font-mono text-xs">
               <div>your-repo/</div>
               <div className="ms-4">├── .well-known/</div>
-              <div className="ms-8">│   └── nostr.json</div>
+              <div className="ms-8">│   ├── nostr.json</div>
+              <div className="ms-8">│   └── community.json ({t('optional')})</div>
               <div className="ms-4">├── .nojekyll</div>
               <div className="ms-4">└── favicon.png (or .svg, .ico)</div>
             </div>
@@ -745,10 +814,17 @@ function MemberSearchInput({
   )
 }
 
-function ManageMembersSection() {
+function ManageMembersSection({
+  members,
+  setMembers,
+  rejectedPubkeys
+}: {
+  members: TMemberEntry[]
+  setMembers: (members: TMemberEntry[]) => void
+  rejectedPubkeys: Set<string>
+}) {
   const { t } = useTranslation()
   const { profile } = useNostr()
-  const [members, setMembers] = useState<Array<{ username: string; alias: string; pubkey: string }>>([])
   const [existingNostrJson, setExistingNostrJson] = useState<any>(null)
   const [searchInput, setSearchInput] = useState('')
   const [debouncedSearch, setDebouncedSearch] = useState('')
@@ -819,13 +895,21 @@ function ManageMembersSection() {
   const generateNostrJson = () => {
     const names: Record<string, string> = {}
 
-    // Merge existing names if available
+    // Merge existing names if available, minus the requesters rejected since
     if (existingNostrJson?.names) {
-      Object.assign(names, existingNostrJson.names)
+      Object.entries(existingNostrJson.names as Record<string, string>).forEach(
+        ([name, pubkey]) => {
+          if (!rejectedPubkeys.has(pubkey)) {
+            names[name] = pubkey
+          }
+        }
+      )
     }
 
-    // Add new members
+    // Add new members, skipping anyone already listed in the existing file
+    const existingPubkeys = new Set(Object.values(names))
     members.forEach(member => {
+      if (existingPubkeys.has(member.pubkey)) return
       names[member.alias] = member.pubkey
     })
 
@@ -946,10 +1030,19 @@ function ManageMembersSection() {
   )
 }
 
-function JoinRequestsSection() {
+function JoinRequestsSection({
+  onMemberDecision
+}: {
+  onMemberDecision: (
+    pubkey: string,
+    status: TCommunityJoinDecisionStatus,
+    userProfile: TProfile | null
+  ) => void
+}) {
   const { t } = useTranslation()
-  const { account } = useNostr()
+  const { account, profile } = useNostr()
   const [requests, setRequests] = useState<any[]>([])
+  const [decisions, setDecisions] = useState<Map<string, TCommunityJoinDecision>>(new Map())
   const [isLoading, setIsLoading] = useState(true)
   const [, setFollowingList] = useState<Set<string>>(new Set())
 
@@ -982,18 +1075,47 @@ function JoinRequestsSection() {
         ]
         console.log('[JoinRequests] Fetching from relays:', targetRelays)
 
-        // Fetch join requests where the current user is tagged as admin
-        const events = await client.fetchEvents(targetRelays, {
-          kinds: [39457], // COMMUNITY_JOIN_REQUEST
-          '#p': [account.pubkey]
+        // Admins and moderators of the user's own community share its request queue
+        const domain = profile?.nip05?.split('@')[1]
+        const roles = domain ? await communityRolesService.getRoles(domain) : undefined
+        const staff = getCommunityStaff(roles)
+        const isStaff = staff.includes(account.pubkey)
+
+        // Fetch join requests where the current user is tagged, plus all requests for their community
+        const events = await client.fetchEvents(targetRelays, [
+          {
+            kinds: [ExtendedKind.COMMUNITY_JOIN_REQUEST],
+            '#p': [account.pubkey]
+          },
+          ...(isStaff && domain
+            ? [{ kinds: [ExtendedKind.COMMUNITY_JOIN_REQUEST], '#d': [domain] }]
+            : [])
+        ])
+        const uniqueEvents = Array.from(new Map(events.map((event) => [event.id, event])).values())
+
+        console.log('[JoinRequests] Found events:', uniqueEvents.length)
+        console.log('[JoinRequests] Events:', uniqueEvents)
+
+        // Fetch the decisions already published by this admin or the other staff members
+        const decisionEvents = await client.fetchEvents(targetRelays, {
+          kinds: [ExtendedKind.COMMUNITY_JOIN_DECISION],
+          authors: isStaff ? staff : [account.pubkey]
         })
+        const decisionMap = new Map<string, TCommunityJoinDecision>()
+        decisionEvents.forEach((event) => {
+          const decision = getCommunityJoinDecisionFromEvent(event)
+          if (!decision) return
+          const key = getJoinDecisionKey(decision.domain, decision.requesterPubkey)
+          const existing = decisionMap.get(key)
+          if (!existing || existing.created_at < decision.created_at) {
+            decisionMap.set(key, decision)
+          }
+        })
+        setDecisions(decisionMap)
 
-        console.log('[JoinRequests] Found events:', events?.length || 0)
-        console.log('[JoinRequests] Events:', events)
-
-        if (events && events.length > 0) {
+        if (uniqueEvents.length > 0) {
           // Filter to only show requests from users we follow
-          const filteredRequests = events.filter((event) => {
+          const filteredRequests = uniqueEvents.filter((event) => {
             const isFollowing = followingSet.has(event.pubkey)
             console.log('[JoinRequests] Event from', event.pubkey.slice(0, 8), 'following:', isFollowing)
             return isFollowing
@@ -1016,7 +1138,7 @@ function JoinRequestsSection() {
     }
 
     fetchJoinRequests()
-  }, [account])
+  }, [account, profile?.nip05])
 
   if (!account) {
     return (
@@ -1044,7 +1166,7 @@ function JoinRequestsSection() {
         <CardHeader>
           <CardTitle className="text-lg">{t('Incoming Join Requests')}</CardTitle>
           <CardDescription>
-            {t('Review requests from users who want to join your community. Add them to your nostr.json file to approve.')}
+            {t('Review requests from users who want to join your community. Approved users are added to the member list in Manage Members.')}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -1072,7 +1194,25 @@ function JoinRequestsSection() {
           ) : (
             <div className="space-y-4">
               {requests.map((request) => (
-                <JoinRequestCard key={request.id} request={request} />
+                <JoinRequestCard
+                  key={request.id}
+                  request={request}
+                  decision={decisions.get(
+                    getJoinDecisionKey(
+                      request.tags.find((tag: string[]) => tag[0] === 'd')?.[1],
+                      request.pubkey
+                    )
+                  )}
+                  onDecision={(decision) =>
+                    setDecisions((prev) =>
+                      new Map(prev).set(
+                        getJoinDecisionKey(decision.domain, decision.requesterPubkey),
+                        decision
+                      )
+                    )
+                  }
+                  onMemberDecision={onMemberDecision}
+                />
               ))}
             </div>
           )}
@@ -1082,18 +1222,34 @@ function JoinRequestsSection() {
       <Alert>
         <Info className="h-4 w-4" />
         <AlertDescription>
-          <strong>{t('How to approve')}:</strong> {t('To approve a request, add the user\'s pubkey to your domain\'s .well-known/nostr.json file. Once they appear in the file, the request will automatically be marked as approved.')}
+          <strong>{t('How to approve')}:</strong> {t('Approving publishes a signed decision and notifies the requester. Approved users are added to the generated nostr.json in Manage Members, so you can download the merged file and upload it to your domain\'s .well-known directory.')}
         </AlertDescription>
       </Alert>
     </div>
   )
 }
 
-function JoinRequestCard({ request }: { request: any }) {
+function JoinRequestCard({
+  request,
+  decision,
+  onDecision,
+  onMemberDecision
+}: {
+  request: any
+  decision?: TCommunityJoinDecision
+  onDecision: (decision: TCommunityJoinDecision) => void
+  onMemberDecision: (
+    pubkey: string,
+    status: TCommunityJoinDecisionStatus,
+    userProfile: TProfile | null
+  ) => void
+}) {
   const { t } = useTranslation()
-  const { profile } = useFetchProfile(request.pubkey)
+  const { publish } = useNostr()
+  const { profile, isFetching: isFetchingProfile } = useFetchProfile(request.pubkey)
   const [isApproved, setIsApproved] = useState(false)
   const [isChecking, setIsChecking] = useState(false)
+  const [isDeciding, setIsDeciding] = useState(false)
 
   // Extract domain from d-tag
   const domainTag = request.tags.find((tag: string[]) => tag[0] === 'd')
@@ -1111,16 +1267,6 @@ function JoinRequestCard({ request }: { request: any }) {
         const members = await nip05CommunityService.getDomainMembers(domain)
         if (members.includes(request.pubkey)) {
           setIsApproved(true)
-
-          // TODO: Phase 5 - Notification System
-          // When request is approved, we should notify the requester
-          // Possible implementations:
-          // 1. Send a DM (NIP-04) to the requester notifying them of approval
-          // 2. Publish a kind 1 reply/mention to their join request event
-          // 3. Use a notification relay (NIP-51 or custom)
-          // For now, the user can check their request status manually or receive
-          // the periodic auto-check notification in the UI
-          console.log('[TODO] Send approval notification to requester:', request.pubkey)
         }
       } catch (error) {
         console.error('Error checking approval status:', error)
@@ -1142,11 +1288,46 @@ function JoinRequestCard({ request }: { request: any }) {
     return () => clearInterval(interval)
   }, [domain, request.pubkey, isApproved])
 
+  // Keep approved requesters in the nostr.json member list until they show up in the published
+  // file, and take rejected ones out of it again
+  const decisionStatus =
+    decision && decision.created_at >= request.created_at ? decision.status : undefined
+  useEffect(() => {
+    if (!decisionStatus || isFetchingProfile) return
+    if (decisionStatus === 'approved' && isApproved) return
+    onMemberDecision(request.pubkey, decisionStatus, profile)
+  }, [decisionStatus, isApproved, isFetchingProfile])
+
   const handleCopyPubkey = () => {
     navigator.clipboard.writeText(request.pubkey)
     toast(t('Pubkey copied to clipboard'))
   }
 
+  const handleDecision = async (status: TCommunityJoinDecisionStatus) => {
+    setIsDeciding(true)
+    try {
+      const draftEvent = createCommunityJoinDecisionDraftEvent(request, status)
+      // The requester is p-tagged, so the event is also sent to their read relays
+      const event = await publish(draftEvent, {
+        additionalRelayUrls: ['wss://relay.damus.io', 'wss://relay.primal.net', 'wss://nos.lol']
+      })
+      const newDecision = getCommunityJoinDecisionFromEvent(event)
+      if (newDecision) {
+        onDecision(newDecision)
+      }
+      if (status === 'approved') {
+        toast.success(t('Request approved. The user has been added to your nostr.json.'))
+      } else {
+        toast.success(t('Request rejected'))
+      }
+    } catch (error) {
+      console.error('Error publishing join decision:', error)
+      toast.error(t('Failed to publish decision'))
+    } finally {
+      setIsDeciding(false)
+    }
+  }
+
   const handleRefreshStatus = async () => {
     if (!domain || isApproved) return
 
@@ -1184,6 +1365,18 @@ function JoinRequestCard({ request }: { request: any }) {
               {t('Approved')}
             </div>
           )}
+          {!isApproved && decisionStatus === 'approved' && (
+            <div className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400 font-medium">
+              <Check className="w-3 h-3" />
+              {t('Approved, pending nostr.json upload')}
+            </div>
+          )}
+          {!isApproved && decisionStatus === 'rejected' && (
+            <div className="flex items-center gap-1 text-xs text-destructive font-medium">
+              <X className="w-3 h-3" />
+              {t('Rejected')}
+            </div>
+          )}
           {isChecking && !isApproved && (
             <div className="flex items-center gap-1 text-xs text-muted-foreground">
               <RefreshCw className="w-3 h-3 animate-spin" />
@@ -1216,7 +1409,30 @@ function JoinRequestCard({ request }: { request: any }) {
               <Copy className="w-3 h-3" />
               <span>{t('Copy Pubkey')}</span>
             </Button>
-            {!isApproved && (
+            {!isApproved && decisionStatus !== 'rejected' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDecision('rejected')}
+                disabled={isDeciding}
+                className="gap-2"
+              >
+                <X className="w-3 h-3" />
+                <span>{t('Reject')}</span>
+              </Button>
+            )}
+            {!isApproved && decisionStatus !== 'approved' && (
+              <Button
+                size="sm"
+                onClick={() => handleDecision('approved')}
+                disabled={isDeciding}
+                className="gap-2"
+              >
+                <Check className="w-3 h-3" />
+                <span>{t('Approve')}</span>
+              </Button>
+            )}
+            {!isApproved && decisionStatus === 'approved' && (
               <Button
                 variant="outline"
                 size="sm"
@@ -1235,7 +1451,382 @@ function JoinRequestCard({ request }: { request: any }) {
   )
 }
 
+function CommunitySettingsSection() {
+  const { t } = useTranslation()
+  const { profile, publish } = useNostr()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [icon, setIcon] = useState('')
+  const [banner, setBanner] = useState('')
+  const [website, setWebsite] = useState('')
+  const [contact, setContact] = useState('')
+  const [chatRelay, setChatRelay] = useState('')
+  const [chatGroup, setChatGroup] = useState('')
+  const [rulesText, setRulesText] = useState('')
+  const [categoriesText, setCategoriesText] = useState('')
+  const [admins, setAdmins] = useState<string[]>([])
+  const [moderators, setModerators] = useState<string[]>([])
+  const [owner, setOwner] = useState<string | undefined>(undefined)
+  const [isPublishingRoles, setIsPublishingRoles] = useState(false)
+  const [existingFileErrors, setExistingFileErrors] = useState<string[] | null>(null)
+  const [searchInput, setSearchInput] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [isSearching, setIsSearching] = useState(false)
+
+  const domain = profile?.nip05?.split('@')[1]
+
+  // Debounce search input
+  useEffect(() => {
+    const handler = setTimeout(() => {
+      setDebouncedSearch(searchInput)
+    }, 500)
+    return () => clearTimeout(handler)
+  }, [searchInput])
+
+  // Prefill the form with the community.json already published on the user's NIP-05 domain
+  useEffect(() => {
+    const fetchExistingMetadata = async () => {
+      if (!domain) return
+
+      try {
+        const response = await fetch(getWellKnownCommunityUrl(domain))
+        if (response.ok) {
+          const { metadata, errors } = parseCommunityMetadata(await response.text())
+          setExistingFileErrors(errors)
+          setName(metadata.name ?? '')
+          setDescription(metadata.description ?? '')
+          setIcon(metadata.icon ?? '')
+          setBanner(metadata.banner ?? '')
+          setWebsite(metadata.website ?? '')
+          setContact(metadata.contact ?? '')
+          setChatRelay(metadata.chat?.relay ?? '')
+          setChatGroup(metadata.chat?.group ?? '')
+          setRulesText((metadata.rules ?? []).join('\n'))
+          setCategoriesText((metadata.categories ?? []).join(', '))
+        }
+      } catch {
+        // Silently fail - user may not have a community.json yet
+      }
+
+      // Roles combine community.json with the latest signed role list
+      const roles = await communityRolesService.getRoles(domain)
+      setOwner(roles.owner)
+      setAdmins(roles.admins.filter((pubkey) => pubkey !== roles.owner))
+      setModerators(roles.moderators)
+    }
+
+    fetchExistingMetadata()
+  }, [domain])
+
+  const metadataJson = generateCommunityMetadataJson({
+    name,
+    description,
+    icon,
+    banner,
+    website,
+    contact,
+    rules: rulesText.split('\n'),
+    categories: categoriesText.split(','),
+    admins,
+    moderators,
+    chat: { relay: chatRelay, group: chatGroup }
+  })
+  const { errors } = parseCommunityMetadata(metadataJson)
+
+  const handleAddModerator = (userId: string) => {
+    const pubkey = userIdToPubkey(userId)
+    if (pubkey === owner || admins.includes(pubkey) || moderators.includes(pubkey)) {
+      toast(t('This user already has a role'))
+      return
+    }
+    setModerators([...moderators, pubkey])
+    setSearchInput('')
+  }
+
+  const handleChangeRole = (pubkey: string, role: TCommunityRole) => {
+    if (role === 'admin') {
+      setModerators(moderators.filter((m) => m !== pubkey))
+      setAdmins([...admins, pubkey])
+    } else {
+      setAdmins(admins.filter((a) => a !== pubkey))
+      setModerators([...moderators, pubkey])
+    }
+  }
+
+  const handleRemoveRole = (pubkey: string) => {
+    setAdmins(admins.filter((a) => a !== pubkey))
+    setModerators(moderators.filter((m) => m !== pubkey))
+  }
+
+  const handlePublishRoles = async () => {
+    if (!domain) return
+
+    setIsPublishingRoles(true)
+    try {
+      const draftEvent = createCommunityRoleListDraftEvent(domain, admins, moderators)
+      await publish(draftEvent, {
+        additionalRelayUrls: ['wss://relay.damus.io', 'wss://relay.primal.net', 'wss://nos.lol']
+      })
+      await communityRolesService.refreshRoles(domain)
+      toast.success(t('Role list published'))
+    } catch (error) {
+      console.error('Error publishing role list:', error)
+      toast.error(t('Failed to publish role list'))
+    } finally {
+      setIsPublishingRoles(false)
+    }
+  }
+
+  const handleCopyJson = () => {
+    navigator.clipboard.writeText(metadataJson)
+    toast(t('Copied to clipboard'))
+  }
+
+  const handleDownloadJson = () => {
+    downloadFile(COMMUNITY_METADATA_FILE_NAME, metadataJson)
+    toast(t('File downloaded'))
+  }
+
+  return (
+    <div className="space-y-6">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription>
+          {t(
+            'The community.json file describes your community. Place it next to nostr.json in the .well-known directory and clients will show its name, description, rules and banner on your community page.'
+          )}
+        </AlertDescription>
+      </Alert>
+
+      {existingFileErrors && existingFileErrors.length > 0 && (
+        <Alert className="border-yellow-500/50 bg-yellow-500/10">
+          <AlertTriangle className="h-4 w-4 text-yellow-600" />
+          <AlertDescription className="text-yellow-700 dark:text-yellow-300 space-y-1">
+            <div className="font-medium">{t('Your published community.json has problems')}:</div>
+            <ul className="list-disc list-inside">
+              {existingFileErrors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t('Community Details')}</CardTitle>
+          <CardDescription>
+            {t('Shown on community cards and at the top of your community page')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="community-name">{t('Name')}</Label>
+            <Input
+              id="community-name"
+              value={name}
+              placeholder={domain}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="community-description">{t('Description')}</Label>
+            <Textarea
+              id="community-description"
+              value={description}
+              rows={3}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="community-icon">{t('Icon URL')}</Label>
+            <Input
+              id="community-icon"
+              value={icon}
+              placeholder="https://"
+              onChange={(e) => setIcon(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="community-banner">{t('Banner URL')}</Label>
+            <Input
+              id="community-banner"
+              value={banner}
+              placeholder="https://"
+              onChange={(e) => setBanner(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="community-website">{t('Website')}</Label>
+            <Input
+              id="community-website"
+              value={website}
+              placeholder="https://"
+              onChange={(e) => setWebsite(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="community-contact">{t('Contact')}</Label>
+            <Input
+              id="community-contact"
+              value={contact}
+              onChange={(e) => setContact(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="community-categories">{t('Categories')}</Label>
+            <Input
+              id="community-categories"
+              value={categoriesText}
+              placeholder="bitcoin, art, development"
+              onChange={(e) => setCategoriesText(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">{t('Separate categories with commas')}</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="community-rules">{t('Rules')}</Label>
+            <Textarea
+              id="community-rules"
+              value={rulesText}
+              rows={4}
+              onChange={(e) => setRulesText(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">{t('One rule per line')}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t('Community Chat')}</CardTitle>
+          <CardDescription>
+            {t(
+              'Members chat in a NIP-29 group. Use a relay that hosts groups to have it enforce membership, otherwise the chat runs on public relays and only messages from verified members are shown.'
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="community-chat-relay">{t('Group relay')}</Label>
+            <Input
+              id="community-chat-relay"
+              value={chatRelay}
+              placeholder="wss://"
+              onChange={(e) => setChatRelay(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="community-chat-group">{t('Group ID')}</Label>
+            <Input
+              id="community-chat-group"
+              value={chatGroup}
+              placeholder={domain}
+              onChange={(e) => setChatGroup(e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t('Admins & Moderators')}</CardTitle>
+          <CardDescription>
+            {t(
+              'Admins and moderators can review join requests. Save them in community.json, or publish them as a signed role list that only the owner or an admin listed in community.json can update.'
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <MemberSearchInput
+            searchInput={searchInput}
+            setSearchInput={setSearchInput}
+            debouncedSearch={debouncedSearch}
+            isSearching={isSearching}
+            setIsSearching={setIsSearching}
+            onSelectUser={handleAddModerator}
+          />
+          {owner && (
+            <div className="flex items-center gap-2">
+              <UserItem userId={owner} hideFollowButton className="flex-1" />
+              <div className="w-32 text-sm text-muted-foreground">{t('Owner')}</div>
+              <div className="w-9" />
+            </div>
+          )}
+          {[...admins, ...moderators].map((pubkey) => (
+            <div key={pubkey} className="flex items-center gap-2">
+              <UserItem userId={pubkey} hideFollowButton className="flex-1" />
+              <Select
+                value={admins.includes(pubkey) ? 'admin' : 'moderator'}
+                onValueChange={(role) => handleChangeRole(pubkey, role as TCommunityRole)}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="admin">{t('Admin')}</SelectItem>
+                  <SelectItem value="moderator">{t('Moderator')}</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="icon" onClick={() => handleRemoveRole(pubkey)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            onClick={handlePublishRoles}
+            disabled={!domain || isPublishingRoles}
+            className="w-full"
+          >
+            {isPublishingRoles ? t('Publishing...') : t('Publish Role List')}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t('Live community.json Preview')}</CardTitle>
+          <CardDescription>
+            {t('Copy or download to .well-known/community.json next to your nostr.json')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {errors.length > 0 && (
+            <Alert className="border-destructive/50 bg-destructive/10">
+              <Info className="h-4 w-4 text-destructive" />
+              <AlertDescription className="text-destructive">
+                <ul className="list-disc list-inside">
+                  {errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+          <pre className="bg-muted p-4 rounded-lg text-xs overflow-x-auto max-h-96">
+            {metadataJson}
+          </pre>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleCopyJson} className="flex-1">
+              <Copy className="w-4 h-4 me-2" />
+              {t('Copy')}
+            </Button>
+            <Button variant="outline" onClick={handleDownloadJson} className="flex-1">
+              <Download className="w-4 h-4 me-2" />
+              {t('Download')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
 // Helper functions
+function getJoinDecisionKey(domain: string, pubkey: string) {
+  return `${domain}:${pubkey}`
+}
+
 function getNostrJsonTemplate(): string {
   return `{
   "names": {
@@ -0,0 +1,25 @@
+import DirectMessageConversation from '@/components/DirectMessageConversation'
+import NotFound from '@/components/NotFound'
+import { useFetchProfile } from '@/hooks'
+import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
+import { isValidPubkey, userIdToPubkey } from '@/lib/pubkey'
+import { forwardRef, useMemo } from 'react'
+
+const DirectMessageConversationPage = forwardRef(
+  ({ id, index }: { id?: string; index?: number }, ref) => {
+    const pubkey = useMemo(() => (id ? userIdToPubkey(id) : undefined), [id])
+    const { profile } = useFetchProfile(pubkey)
+
+    return (
+      <SecondaryPageLayout index={index} title={profile?.username} ref={ref}>
+        {pubkey && isValidPubkey(pubkey) ? (
+          <DirectMessageConversation peerPubkey={pubkey} />
+        ) : (
+          <NotFound />
+        )}
+      </SecondaryPageLayout>
+    )
+  }
+)
+DirectMessageConversationPage.displayName = 'DirectMessageConversationPage'
+export default DirectMessageConversationPage
@@ -0,0 +1,16 @@
+import DirectMessageInbox from '@/components/DirectMessageInbox'
+import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
+import { forwardRef } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const DirectMessagesPage = forwardRef(({ index }: { index?: number }, ref) => {
+  const { t } = useTranslation()
+
+  return (
+    <SecondaryPageLayout index={index} title={t('Messages')} displayScrollToTopButton ref={ref}>
+      <DirectMessageInbox />
+    </SecondaryPageLayout>
+  )
+})
+DirectMessagesPage.displayName = 'DirectMessagesPage'
+export default DirectMessagesPage
@@ -0,0 +1,76 @@
+import { FormattedTimestamp } from '@/components/FormattedTimestamp'
+import PostEditor from '@/components/PostEditor'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
+import { useDrafts } from '@/providers/DraftsProvider'
+import { TPostDraft } from '@/types'
+import dayjs from 'dayjs'
+import { Pencil, Trash2 } from 'lucide-react'
+import { forwardRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const DraftsPage = forwardRef(({ index }: { index?: number }, ref) => {
+  const { t } = useTranslation()
+  const { drafts, isSyncEnabled, setSyncEnabled, deleteDraft } = useDrafts()
+  const [openedDraft, setOpenedDraft] = useState<TPostDraft | null>(null)
+
+  return (
+    <SecondaryPageLayout index={index} title={t('Drafts')} displayScrollToTopButton ref={ref}>
+      <div className="px-4 py-3 border-b space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="sync-drafts">{t('Sync drafts across devices')}</Label>
+          <Switch id="sync-drafts" checked={isSyncEnabled} onCheckedChange={setSyncEnabled} />
+        </div>
+        <div className="text-muted-foreground text-xs">
+          {t('Drafts are encrypted and stored on your relays (NIP-37)')}
+        </div>
+      </div>
+      {drafts.length === 0 ? (
+        <div className="p-8 text-center text-muted-foreground">{t('No drafts')}</div>
+      ) : (
+        drafts.map((draft) => (
+          <div key={draft.id} className="px-4 py-3 border-b space-y-2">
+            <div className="flex items-center gap-2">
+              <div className="flex-1 w-0 truncate font-semibold">{draft.name}</div>
+              <FormattedTimestamp
+                timestamp={dayjs(draft.updatedAt).unix()}
+                className="shrink-0 text-sm text-muted-foreground"
+              />
+            </div>
+            {draft.parentEvent && (
+              <div className="text-xs text-muted-foreground">{t('Reply draft')}</div>
+            )}
+            <div className="text-sm text-muted-foreground line-clamp-3 whitespace-pre-wrap break-words">
+              {draft.text}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => deleteDraft(draft.id)}>
+                <Trash2 />
+                {t('Delete')}
+              </Button>
+              <Button variant="secondary" size="sm" onClick={() => setOpenedDraft(draft)}>
+                <Pencil />
+                {t('Open')}
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+      {openedDraft && (
+        <PostEditor
+          key={openedDraft.id}
+          draft={openedDraft}
+          parentEvent={openedDraft.parentEvent}
+          open
+          setOpen={(open) => {
+            if (!open) setOpenedDraft(null)
+          }}
+        />
+      )}
+    </SecondaryPageLayout>
+  )
+})
+DraftsPage.displayName = 'DraftsPage'
+export default DraftsPage
@@ -0,0 +1,122 @@
+import ReplyNoteList from '@/components/ReplyNoteList'
+import WebPreview from '@/components/WebPreview'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Separator } from '@/components/ui/separator'
+import { Textarea } from '@/components/ui/textarea'
+import { StorageKey } from '@/constants'
+import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
+import { createExternalContentCommentDraftEvent } from '@/lib/draft-event'
+import { toNoteList } from '@/lib/link'
+import { useSecondaryPage } from '@/PageManager'
+import { useNostr } from '@/providers/NostrProvider'
+import { useReply } from '@/providers/ReplyProvider'
+import { ExternalLink, Hash, LoaderCircle } from 'lucide-react'
+import { forwardRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import NotFoundPage from '../NotFoundPage'
+
+const ExternalContentPage = forwardRef(({ id, index }: { id?: string; index?: number }, ref) => {
+  const { t } = useTranslation()
+
+  if (!id) {
+    return <NotFoundPage ref={ref} />
+  }
+
+  return (
+    <SecondaryPageLayout ref={ref} index={index} title={t('Discussion')} displayScrollToTopButton>
+      <div className="px-4 pt-3 space-y-3">
+        <ExternalContentHeader externalContent={id} />
+        <CommentInput externalContent={id} />
+      </div>
+      <Separator className="mt-4" />
+      <ReplyNoteList index={index} externalContent={id} />
+    </SecondaryPageLayout>
+  )
+})
+ExternalContentPage.displayName = 'ExternalContentPage'
+export default ExternalContentPage
+
+function ExternalContentHeader({ externalContent }: { externalContent: string }) {
+  const { push } = useSecondaryPage()
+
+  if (/^https?:\/\//.test(externalContent)) {
+    return (
+      <div className="space-y-2">
+        <a
+          href={externalContent}
+          target="_blank"
+          rel="noreferrer"
+          className="flex items-center gap-1 text-primary hover:underline break-all"
+        >
+          {externalContent}
+          <ExternalLink className="size-4 shrink-0" />
+        </a>
+        <WebPreview url={externalContent} />
+      </div>
+    )
+  }
+
+  if (externalContent.startsWith('#')) {
+    const hashtag = externalContent.slice(1)
+    return (
+      <Card
+        className="flex items-center gap-1 px-3 py-2 clickable font-semibold"
+        onClick={() => push(toNoteList({ hashtag }))}
+      >
+        <Hash className="size-4 shrink-0" />
+        <div className="truncate">{hashtag}</div>
+      </Card>
+    )
+  }
+
+  return <Card className="px-3 py-2 font-semibold break-all">{externalContent}</Card>
+}
+
+function CommentInput({ externalContent }: { externalContent: string }) {
+  const { t } = useTranslation()
+  const { publish, checkLogin } = useNostr()
+  const { addReplies } = useReply()
+  const [text, setText] = useState('')
+  const [posting, setPosting] = useState(false)
+
+  const handlePost = () => {
+    checkLogin(async () => {
+      if (!text.trim() || posting) return
+
+      setPosting(true)
+      try {
+        const draftEvent = createExternalContentCommentDraftEvent(text, externalContent, [], {
+          addClientTag: window.localStorage.getItem(StorageKey.ADD_CLIENT_TAG) === 'true'
+        })
+        const event = await publish(draftEvent, { queueOnFailure: true })
+        addReplies([event])
+        setText('')
+        toast.success(t('Post successful'), { duration: 2000 })
+      } catch (error) {
+        toast.error(`${t('Failed to post')}: ${(error as Error).message}`)
+      } finally {
+        setPosting(false)
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        className="min-h-20"
+        placeholder={t('Write a comment...')}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={posting}
+      />
+      <div className="flex justify-end">
+        <Button disabled={!text.trim() || posting} onClick={handlePost}>
+          {posting && <LoaderCircle className="animate-spin" />}
+          {t('Comment')}
+        </Button>
+      </div>
+    </div>
+  )
+}
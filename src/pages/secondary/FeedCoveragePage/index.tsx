@@ -0,0 +1,24 @@
+import FeedCoverage from '@/components/FeedCoverage'
+import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
+import { forwardRef } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const FeedCoveragePage = forwardRef(
+  ({ domain, index }: { domain?: string; index?: number }, ref) => {
+    const { t } = useTranslation()
+    const decodedDomain = domain ? decodeURIComponent(domain) : undefined
+
+    return (
+      <SecondaryPageLayout
+        index={index}
+        title={decodedDomain ? `${t('Feed coverage')}: ${decodedDomain}` : t('Feed coverage')}
+        displayScrollToTopButton
+        ref={ref}
+      >
+        <FeedCoverage domain={decodedDomain} />
+      </SecondaryPageLayout>
+    )
+  }
+)
+FeedCoveragePage.displayName = 'FeedCoveragePage'
+export default FeedCoveragePage
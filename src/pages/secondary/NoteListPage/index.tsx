@@ -3,13 +3,13 @@ import NormalFeed from '@/components/NormalFeed'
 import { Button } from '@/components/ui/button'
 import { BIG_RELAY_URLS, SEARCHABLE_RELAY_URLS } from '@/constants'
 import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
-import { toProfileList } from '@/lib/link'
+import { toExternalContent, toProfileList } from '@/lib/link'
 import { fetchPubkeysFromDomain, getWellKnownNip05Url } from '@/lib/nip05'
 import { useSecondaryPage } from '@/PageManager'
 import { useNostr } from '@/providers/NostrProvider'
 import client from '@/services/client.service'
 import { TFeedSubRequest } from '@/types'
-import { UserRound } from 'lucide-react'
+import { MessagesSquare, UserRound } from 'lucide-react'
 import React, { forwardRef, useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 
@@ -44,6 +44,7 @@ const NoteListPage = forwardRef(({ index }: { index?: number }, ref) => {
       if (hashtag) {
         setData({ type: 'hashtag' })
         setTitle(`# ${hashtag}`)
+        setControls(<DiscussionButton externalContent={`#${hashtag.toLowerCase()}`} />)
         setSubRequests([
           {
             filter: { '#t': [hashtag], ...(kinds.length > 0 ? { kinds } : {}) },
@@ -68,6 +69,7 @@ const NoteListPage = forwardRef(({ index }: { index?: number }, ref) => {
       if (externalContentId) {
         setData({ type: 'externalContent' })
         setTitle(externalContentId)
+        setControls(<DiscussionButton externalContent={externalContentId} />)
         setSubRequests([
           {
             filter: { '#I': [externalContentId], ...(kinds.length > 0 ? { kinds } : {}) },
@@ -136,3 +138,19 @@ const NoteListPage = forwardRef(({ index }: { index?: number }, ref) => {
 })
 NoteListPage.displayName = 'NoteListPage'
 export default NoteListPage
+
+function DiscussionButton({ externalContent }: { externalContent: string }) {
+  const { t } = useTranslation()
+  const { push } = useSecondaryPage()
+
+  return (
+    <Button
+      variant="ghost"
+      size="titlebar-icon"
+      title={t('Discussion')}
+      onClick={() => push(toExternalContent(externalContent))}
+    >
+      <MessagesSquare />
+    </Button>
+  )
+}
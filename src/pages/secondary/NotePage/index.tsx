@@ -17,7 +17,7 @@ import {
   getParentTag,
   getRootBech32Id
 } from '@/lib/event'
-import { toNote, toNoteList } from '@/lib/link'
+import { toExternalContent, toNote } from '@/lib/link'
 import { tagNameEquals } from '@/lib/tag'
 import { cn } from '@/lib/utils'
 import { Ellipsis } from 'lucide-react'
@@ -119,7 +119,7 @@ function ExternalRoot({ value }: { value: string }) {
     <div>
       <Card
         className="flex space-x-1 px-1.5 py-1 items-center clickable text-sm text-muted-foreground hover:text-foreground"
-        onClick={() => push(toNoteList({ externalContentId: value }))}
+        onClick={() => push(toExternalContent(value))}
       >
         <div className="truncate">{value}</div>
       </Card>
@@ -0,0 +1,16 @@
+import OutboxList from '@/components/OutboxList'
+import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
+import { forwardRef } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const OutboxPage = forwardRef(({ index }: { index?: number }, ref) => {
+  const { t } = useTranslation()
+
+  return (
+    <SecondaryPageLayout index={index} title={t('Outbox')} displayScrollToTopButton ref={ref}>
+      <OutboxList />
+    </SecondaryPageLayout>
+  )
+})
+OutboxPage.displayName = 'OutboxPage'
+export default OutboxPage
@@ -0,0 +1,116 @@
+import { FormattedTimestamp } from '@/components/FormattedTimestamp'
+import RelayIcon from '@/components/RelayIcon'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger } from '@/components/ui/select'
+import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
+import { toRelay } from '@/lib/link'
+import { simplifyUrl } from '@/lib/url'
+import { useSecondaryPage } from '@/PageManager'
+import storage from '@/services/local-storage.service'
+import { TRelayAuthPolicy, TRelayAuthRecord } from '@/types'
+import { SelectValue } from '@radix-ui/react-select'
+import { Trash2 } from 'lucide-react'
+import { forwardRef, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const RelayAuthSettingsPage = forwardRef(({ index }: { index?: number }, ref) => {
+  const { t } = useTranslation()
+  const [recordMap, setRecordMap] = useState(storage.getRelayAuthRecordMap())
+  const records = useMemo(
+    () =>
+      Object.entries(recordMap).sort(
+        ([, a], [, b]) => (b.authenticatedAt ?? 0) - (a.authenticatedAt ?? 0)
+      ),
+    [recordMap]
+  )
+
+  const handlePolicyChange = (url: string, policy: TRelayAuthPolicy) => {
+    storage.setRelayAuthPolicy(url, policy)
+    setRecordMap(storage.getRelayAuthRecordMap())
+  }
+
+  const handleRemove = (url: string) => {
+    storage.removeRelayAuthRecord(url)
+    setRecordMap(storage.getRelayAuthRecordMap())
+  }
+
+  return (
+    <SecondaryPageLayout ref={ref} index={index} title={t('Relay authentication')}>
+      <div className="px-4 pt-3 text-sm text-muted-foreground">
+        {t(
+          'Some relays ask you to prove who you are (NIP-42) before you can read or write. Choose how to answer them.'
+        )}
+      </div>
+      {records.length === 0 ? (
+        <div className="p-8 text-center text-muted-foreground">
+          {t('You have not authenticated to any relay yet')}
+        </div>
+      ) : (
+        <div className="mt-3">
+          {records.map(([url, record]) => (
+            <RelayAuthItem
+              key={url}
+              url={url}
+              record={record}
+              onPolicyChange={(policy) => handlePolicyChange(url, policy)}
+              onRemove={() => handleRemove(url)}
+            />
+          ))}
+        </div>
+      )}
+    </SecondaryPageLayout>
+  )
+})
+RelayAuthSettingsPage.displayName = 'RelayAuthSettingsPage'
+export default RelayAuthSettingsPage
+
+function RelayAuthItem({
+  url,
+  record,
+  onPolicyChange,
+  onRemove
+}: {
+  url: string
+  record: TRelayAuthRecord
+  onPolicyChange: (policy: TRelayAuthPolicy) => void
+  onRemove: () => void
+}) {
+  const { t } = useTranslation()
+  const { push } = useSecondaryPage()
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-2">
+      <div
+        className="flex items-center gap-2 flex-1 w-0 clickable"
+        onClick={() => push(toRelay(url))}
+      >
+        <RelayIcon url={url} />
+        <div className="flex-1 w-0">
+          <div className="truncate font-semibold">{simplifyUrl(url)}</div>
+          <div className="text-xs text-muted-foreground">
+            {record.authenticatedAt ? (
+              <>
+                {t('Last authenticated')} <FormattedTimestamp timestamp={record.authenticatedAt} />
+              </>
+            ) : (
+              t('Never authenticated')
+            )}
+          </div>
+        </div>
+      </div>
+      <Select value={record.policy} onValueChange={onPolicyChange}>
+        <SelectTrigger className="w-32 shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="always">{t('Always allow')}</SelectItem>
+          <SelectItem value="ask">{t('Ask')}</SelectItem>
+          <SelectItem value="never">{t('Never')}</SelectItem>
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="icon" onClick={onRemove}>
+        <Trash2 />
+      </Button>
+    </div>
+  )
+}
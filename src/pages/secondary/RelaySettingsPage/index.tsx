@@ -1,5 +1,6 @@
 import MailboxSetting from '@/components/MailboxSetting'
 import FavoriteRelaysSetting from '@/components/FavoriteRelaysSetting'
+import RelayHealthList from '@/components/RelayHealthList'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
 import { forwardRef, useEffect, useState } from 'react'
@@ -17,6 +18,9 @@ const RelaySettingsPage = forwardRef(({ index }: { index?: number }, ref) => {
       case '#favorite-relays':
         setTabValue('favorite-relays')
         break
+      case '#health':
+        setTabValue('health')
+        break
     }
   }, [])
 
@@ -26,6 +30,7 @@ const RelaySettingsPage = forwardRef(({ index }: { index?: number }, ref) => {
         <TabsList>
           <TabsTrigger value="favorite-relays">{t('Favorite Relays')}</TabsTrigger>
           <TabsTrigger value="mailbox">{t('Read & Write Relays')}</TabsTrigger>
+          <TabsTrigger value="health">{t('Health')}</TabsTrigger>
         </TabsList>
         <TabsContent value="favorite-relays">
           <FavoriteRelaysSetting />
@@ -33,6 +38,9 @@ const RelaySettingsPage = forwardRef(({ index }: { index?: number }, ref) => {
         <TabsContent value="mailbox">
           <MailboxSetting />
         </TabsContent>
+        <TabsContent value="health">
+          <RelayHealthList />
+        </TabsContent>
       </Tabs>
     </SecondaryPageLayout>
   )
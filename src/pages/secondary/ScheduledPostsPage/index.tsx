@@ -0,0 +1,21 @@
+import ScheduledPostList from '@/components/ScheduledPostList'
+import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
+import { forwardRef } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const ScheduledPostsPage = forwardRef(({ index }: { index?: number }, ref) => {
+  const { t } = useTranslation()
+
+  return (
+    <SecondaryPageLayout
+      index={index}
+      title={t('Scheduled notes')}
+      displayScrollToTopButton
+      ref={ref}
+    >
+      <ScheduledPostList />
+    </SecondaryPageLayout>
+  )
+})
+ScheduledPostsPage.displayName = 'ScheduledPostsPage'
+export default ScheduledPostsPage
@@ -12,9 +12,11 @@ import {
 } from '@/components/ui/alert-dialog'
 import { Button } from '@/components/ui/button'
 import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
-import { toRizful } from '@/lib/link'
+import { toCashuWallet, toRizful, toZapLedger } from '@/lib/link'
+import { useNostr } from '@/providers/NostrProvider'
 import { useZap } from '@/providers/ZapProvider'
 import { disconnect, launchModal } from '@getalby/bitcoin-connect-react'
+import { Coins, History } from 'lucide-react'
 import { forwardRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import DefaultZapAmountInput from './DefaultZapAmountInput'
@@ -26,6 +28,20 @@ const WalletPage = forwardRef(({ index }: { index?: number }, ref) => {
   const { t } = useTranslation()
   const { push } = useSecondaryPage()
   const { isWalletConnected, walletInfo } = useZap()
+  const { pubkey } = useNostr()
+
+  const walletLinks = pubkey && (
+    <div className="flex flex-wrap gap-2">
+      <Button variant="secondary" onClick={() => push(toZapLedger())}>
+        <History />
+        {t('Zap history')}
+      </Button>
+      <Button variant="secondary" onClick={() => push(toCashuWallet())}>
+        <Coins />
+        {t('Cashu wallet')}
+      </Button>
+    </div>
+  )
 
   return (
     <SecondaryPageLayout ref={ref} index={index} title={t('Wallet')}>
@@ -61,6 +77,7 @@ const WalletPage = forwardRef(({ index }: { index?: number }, ref) => {
           <DefaultZapCommentInput />
           <QuickZapSwitch />
           <LightningAddressInput />
+          {walletLinks}
         </div>
       ) : (
         <div className="px-4 pt-3 flex items-center gap-2">
@@ -78,6 +95,7 @@ const WalletPage = forwardRef(({ index }: { index?: number }, ref) => {
           </Button>
         </div>
       )}
+      {!isWalletConnected && pubkey && <div className="px-4 pt-3">{walletLinks}</div>}
     </SecondaryPageLayout>
   )
 })
@@ -0,0 +1,241 @@
+import Tabs from '@/components/Tabs'
+import { Button } from '@/components/ui/button'
+import { SimpleUserAvatar } from '@/components/UserAvatar'
+import { SimpleUsername } from '@/components/Username'
+import SecondaryPageLayout from '@/layouts/SecondaryPageLayout'
+import { formatAmount, getZapLedgerTotals, TZapLedgerTotal, zapLedgerToCsv } from '@/lib/lightning'
+import { toNip05Community, toProfile } from '@/lib/link'
+import { useSecondaryPage } from '@/PageManager'
+import { useNostr } from '@/providers/NostrProvider'
+import client from '@/services/client.service'
+import zapLedgerService from '@/services/zap-ledger.service'
+import { TZapLedgerEntry } from '@/types'
+import dayjs from 'dayjs'
+import { ArrowDownLeft, ArrowUpRight, Download } from 'lucide-react'
+import { forwardRef, useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+type TLedgerTab = 'counterparties' | 'communities' | 'months' | 'zaps'
+
+const ZapLedgerPage = forwardRef(({ index }: { index?: number }, ref) => {
+  const { t } = useTranslation()
+  const { pubkey } = useNostr()
+  const [entries, setEntries] = useState<TZapLedgerEntry[] | null>(null)
+  const [domainMap, setDomainMap] = useState<Map<string, string>>(new Map())
+  const [tab, setTab] = useState<TLedgerTab>('counterparties')
+
+  useEffect(() => {
+    if (!pubkey) return
+
+    const init = async () => {
+      setEntries(null)
+      const entries = await zapLedgerService.fetchEntries(pubkey).catch((error) => {
+        console.error('[ZapLedgerPage] Failed to fetch zaps:', error)
+        return []
+      })
+      setEntries(entries)
+
+      // Communities are the NIP-05 domains of the counterparties
+      const counterparties = Array.from(
+        new Set(entries.map(({ counterparty }) => counterparty).filter(Boolean) as string[])
+      )
+      const profiles = await Promise.all(
+        counterparties.map((counterparty) => client.fetchProfile(counterparty))
+      )
+      const domainMap = new Map<string, string>()
+      profiles.forEach((profile) => {
+        const domain = profile?.nip05?.split('@')[1]?.toLowerCase().trim()
+        if (profile && domain) {
+          domainMap.set(profile.pubkey, domain)
+        }
+      })
+      setDomainMap(domainMap)
+    }
+    init()
+  }, [pubkey])
+
+  const totals = useMemo(() => {
+    if (!entries) return []
+
+    switch (tab) {
+      case 'counterparties':
+        return getZapLedgerTotals(entries, ({ counterparty }) => counterparty)
+      case 'communities':
+        return getZapLedgerTotals(entries, ({ counterparty }) =>
+          counterparty ? domainMap.get(counterparty) : undefined
+        )
+      case 'months':
+        return getZapLedgerTotals(entries, ({ createdAt }) =>
+          dayjs(createdAt).format('YYYY-MM')
+        ).sort((a, b) => b.key.localeCompare(a.key))
+      default:
+        return []
+    }
+  }, [entries, domainMap, tab])
+
+  const sentTotal = entries?.reduce(
+    (sum, entry) => (entry.direction === 'sent' ? sum + entry.sats : sum),
+    0
+  )
+  const receivedTotal = entries?.reduce(
+    (sum, entry) => (entry.direction === 'received' ? sum + entry.sats : sum),
+    0
+  )
+
+  const handleExport = () => {
+    if (!entries) return
+
+    const csv = zapLedgerToCsv(entries, (pubkey) => domainMap.get(pubkey))
+    const blob = new Blob([csv], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `zaps-${dayjs().format('YYYY-MM-DD')}.csv`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  const controls = (
+    <Button
+      variant="ghost"
+      size="titlebar-icon"
+      disabled={!entries?.length}
+      onClick={handleExport}
+      title={t('Export CSV')}
+    >
+      <Download />
+    </Button>
+  )
+
+  return (
+    <SecondaryPageLayout
+      ref={ref}
+      index={index}
+      title={t('Zap history')}
+      controls={controls}
+      displayScrollToTopButton
+    >
+      {!entries ? (
+        <div className="p-8 text-center text-muted-foreground">{t('loading...')}</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2 px-4 py-3">
+            <LedgerSummary label={t('Sent')} sats={sentTotal ?? 0} />
+            <LedgerSummary label={t('Received')} sats={receivedTotal ?? 0} />
+          </div>
+          <Tabs
+            value={tab}
+            tabs={[
+              { value: 'counterparties', label: 'People' },
+              { value: 'communities', label: 'Communities' },
+              { value: 'months', label: 'Months' },
+              { value: 'zaps', label: 'Zaps' }
+            ]}
+            onTabChange={(tab) => setTab(tab as TLedgerTab)}
+          />
+          {entries.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">{t('No zaps yet')}</div>
+          ) : tab === 'zaps' ? (
+            entries.map((entry) => <LedgerEntry key={entry.id} entry={entry} />)
+          ) : (
+            totals.map((total) => <LedgerTotal key={total.key} total={total} tab={tab} />)
+          )}
+        </>
+      )}
+    </SecondaryPageLayout>
+  )
+})
+ZapLedgerPage.displayName = 'ZapLedgerPage'
+export default ZapLedgerPage
+
+function LedgerSummary({ label, sats }: { label: string; sats: number }) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="rounded-lg border p-3">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="text-2xl font-bold">{t('n sats', { n: sats.toLocaleString() })}</div>
+    </div>
+  )
+}
+
+function LedgerTotal({ total, tab }: { total: TZapLedgerTotal; tab: TLedgerTab }) {
+  const { t } = useTranslation()
+  const { push } = useSecondaryPage()
+
+  const label =
+    tab === 'counterparties' ? (
+      <div className="flex items-center gap-2 min-w-0">
+        <SimpleUserAvatar userId={total.key} size="small" />
+        <SimpleUsername userId={total.key} className="truncate font-semibold" />
+      </div>
+    ) : (
+      <div className="truncate font-semibold">{total.key}</div>
+    )
+
+  return (
+    <div
+      className={
+        tab === 'months'
+          ? 'flex items-center gap-2 px-4 py-3 border-b'
+          : 'flex items-center gap-2 px-4 py-3 border-b clickable'
+      }
+      onClick={() => {
+        if (tab === 'counterparties') push(toProfile(total.key))
+        if (tab === 'communities') push(toNip05Community(total.key))
+      }}
+    >
+      <div className="flex-1 w-0">
+        {label}
+        <div className="text-xs text-muted-foreground">{t('n zaps', { n: total.count })}</div>
+      </div>
+      <div className="shrink-0 text-right text-sm">
+        <div className="flex items-center justify-end gap-1 text-muted-foreground">
+          <ArrowUpRight className="size-3" />
+          {formatAmount(total.sent)}
+        </div>
+        <div className="flex items-center justify-end gap-1 text-green-500">
+          <ArrowDownLeft className="size-3" />
+          {formatAmount(total.received)}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function LedgerEntry({ entry }: { entry: TZapLedgerEntry }) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-3 border-b">
+      {entry.direction === 'sent' ? (
+        <ArrowUpRight className="size-4 shrink-0 text-muted-foreground" />
+      ) : (
+        <ArrowDownLeft className="size-4 shrink-0 text-green-500" />
+      )}
+      <div className="flex-1 w-0">
+        {entry.counterparty ? (
+          <div className="flex items-center gap-2 min-w-0">
+            <SimpleUserAvatar userId={entry.counterparty} size="xSmall" />
+            <SimpleUsername userId={entry.counterparty} className="truncate font-semibold" />
+          </div>
+        ) : (
+          <div className="font-semibold text-muted-foreground">{t('Anonymous')}</div>
+        )}
+        {entry.comment && (
+          <div className="text-sm truncate" dir="auto">
+            {entry.comment}
+          </div>
+        )}
+      </div>
+      <div className="shrink-0 text-right">
+        <div className="font-semibold">{t('n sats', { n: entry.sats.toLocaleString() })}</div>
+        <div className="text-xs text-muted-foreground">
+          {dayjs(entry.createdAt).format('YYYY-MM-DD HH:mm')}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,12 +1,19 @@
 import { buildATag, buildETag, createBookmarkDraftEvent } from '@/lib/draft-event'
 import { getReplaceableCoordinateFromEvent, isReplaceableEvent } from '@/lib/event'
+import { decryptPrivateTags, encryptPrivateTags } from '@/lib/private-tags'
 import client from '@/services/client.service'
+import indexedDb from '@/services/indexed-db.service'
 import { Event } from 'nostr-tools'
-import { createContext, useContext } from 'react'
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
 import { useNostr } from './NostrProvider'
 
 type TBookmarksContext = {
-  addBookmark: (event: Event) => Promise<void>
+  /**
+   * Public bookmark tags followed by private ones
+   */
+  bookmarkTags: string[][]
+  getBookmarkType: (event: Event) => 'public' | 'private' | null
+  addBookmark: (event: Event, isPrivate?: boolean) => Promise<void>
   removeBookmark: (event: Event) => Promise<void>
 }
 
@@ -21,31 +28,99 @@ export const useBookmarks = () => {
 }
 
 export function BookmarksProvider({ children }: { children: React.ReactNode }) {
-  const { pubkey: accountPubkey, publish, updateBookmarkListEvent } = useNostr()
+  const {
+    pubkey: accountPubkey,
+    bookmarkListEvent,
+    publish,
+    updateBookmarkListEvent,
+    nip04Decrypt,
+    nip04Encrypt,
+    nip44Decrypt,
+    nip44Encrypt
+  } = useNostr()
+  const [privateTags, setPrivateTags] = useState<string[][]>([])
+  const bookmarkTags = useMemo(
+    () => (bookmarkListEvent?.tags ?? []).concat(privateTags),
+    [bookmarkListEvent, privateTags]
+  )
+
+  /**
+   * Throws when the content can't be decrypted, so callers never mistake an unreadable list
+   * for an empty one and overwrite it
+   */
+  const getPrivateTags = async (bookmarkListEvent: Event) => {
+    if (!bookmarkListEvent.content) return []
+
+    const storedDecryptedTags = await indexedDb.getDecryptedTags(bookmarkListEvent.id)
+    if (storedDecryptedTags) {
+      return storedDecryptedTags
+    }
 
-  const addBookmark = async (event: Event) => {
+    const privateTags = await decryptPrivateTags(bookmarkListEvent, {
+      nip04Decrypt,
+      nip44Decrypt
+    })
+    await indexedDb.putDecryptedTags(bookmarkListEvent.id, privateTags)
+    return privateTags
+  }
+
+  useEffect(() => {
+    if (!bookmarkListEvent) {
+      setPrivateTags([])
+      return
+    }
+
+    getPrivateTags(bookmarkListEvent)
+      .catch((error) => {
+        console.error('Failed to decrypt bookmark list content', error)
+        return []
+      })
+      .then((tags) => setPrivateTags(tags))
+  }, [bookmarkListEvent])
+
+  const getBookmarkType = useCallback(
+    (event: Event): 'public' | 'private' | null => {
+      const isBookmarkTag = getBookmarkTagMatcher(event)
+      if (bookmarkListEvent?.tags.some(isBookmarkTag)) return 'public'
+      if (privateTags.some(isBookmarkTag)) return 'private'
+      return null
+    },
+    [bookmarkListEvent, privateTags]
+  )
+
+  const addBookmark = async (event: Event, isPrivate = false) => {
     if (!accountPubkey) return
 
     const bookmarkListEvent = await client.fetchBookmarkListEvent(accountPubkey)
     const currentTags = bookmarkListEvent?.tags || []
-    const isReplaceable = isReplaceableEvent(event.kind)
-    const eventKey = isReplaceable ? getReplaceableCoordinateFromEvent(event) : event.id
+    const currentPrivateTags = bookmarkListEvent ? await getPrivateTags(bookmarkListEvent) : []
+    const isBookmarkTag = getBookmarkTagMatcher(event)
 
-    if (
-      currentTags.some((tag) =>
-        isReplaceable
-          ? tag[0] === 'a' && tag[1] === eventKey
-          : tag[0] === 'e' && tag[1] === eventKey
-      )
-    ) {
+    if (currentTags.some(isBookmarkTag) || currentPrivateTags.some(isBookmarkTag)) {
       return
     }
 
-    const newBookmarkDraftEvent = createBookmarkDraftEvent(
-      [...currentTags, isReplaceable ? buildATag(event) : buildETag(event.id, event.pubkey)],
-      bookmarkListEvent?.content
-    )
+    const newTag = isReplaceableEvent(event.kind)
+      ? buildATag(event)
+      : buildETag(event.id, event.pubkey)
+    let newTags = currentTags
+    let newPrivateTags = currentPrivateTags
+    let content = bookmarkListEvent?.content
+    if (isPrivate) {
+      newPrivateTags = [...currentPrivateTags, newTag]
+      content = await encryptPrivateTags(accountPubkey, newPrivateTags, {
+        nip04Encrypt,
+        nip44Encrypt
+      })
+    } else {
+      newTags = [...currentTags, newTag]
+    }
+
+    const newBookmarkDraftEvent = createBookmarkDraftEvent(newTags, content)
     const newBookmarkEvent = await publish(newBookmarkDraftEvent)
+    if (newBookmarkEvent.content) {
+      await indexedDb.putDecryptedTags(newBookmarkEvent.id, newPrivateTags)
+    }
     await updateBookmarkListEvent(newBookmarkEvent)
   }
 
@@ -55,22 +130,38 @@ export function BookmarksProvider({ children }: { children: React.ReactNode }) {
     const bookmarkListEvent = await client.fetchBookmarkListEvent(accountPubkey)
     if (!bookmarkListEvent) return
 
-    const isReplaceable = isReplaceableEvent(event.kind)
-    const eventKey = isReplaceable ? getReplaceableCoordinateFromEvent(event) : event.id
+    const isBookmarkTag = getBookmarkTagMatcher(event)
+    const newTags = bookmarkListEvent.tags.filter((tag) => !isBookmarkTag(tag))
+    const privateTags = await getPrivateTags(bookmarkListEvent)
+    const newPrivateTags = privateTags.filter((tag) => !isBookmarkTag(tag))
+    if (
+      newTags.length === bookmarkListEvent.tags.length &&
+      newPrivateTags.length === privateTags.length
+    ) {
+      return
+    }
 
-    const newTags = bookmarkListEvent.tags.filter((tag) =>
-      isReplaceable ? tag[0] !== 'a' || tag[1] !== eventKey : tag[0] !== 'e' || tag[1] !== eventKey
-    )
-    if (newTags.length === bookmarkListEvent.tags.length) return
+    let content = bookmarkListEvent.content
+    if (newPrivateTags.length !== privateTags.length) {
+      content = await encryptPrivateTags(accountPubkey, newPrivateTags, {
+        nip04Encrypt,
+        nip44Encrypt
+      })
+    }
 
-    const newBookmarkDraftEvent = createBookmarkDraftEvent(newTags, bookmarkListEvent.content)
+    const newBookmarkDraftEvent = createBookmarkDraftEvent(newTags, content)
     const newBookmarkEvent = await publish(newBookmarkDraftEvent)
+    if (newBookmarkEvent.content) {
+      await indexedDb.putDecryptedTags(newBookmarkEvent.id, newPrivateTags)
+    }
     await updateBookmarkListEvent(newBookmarkEvent)
   }
 
   return (
     <BookmarksContext.Provider
       value={{
+        bookmarkTags,
+        getBookmarkType,
         addBookmark,
         removeBookmark
       }}
@@ -79,3 +170,11 @@ export function BookmarksProvider({ children }: { children: React.ReactNode }) {
     </BookmarksContext.Provider>
   )
 }
+
+function getBookmarkTagMatcher(event: Event) {
+  const isReplaceable = isReplaceableEvent(event.kind)
+  const eventKey = isReplaceable ? getReplaceableCoordinateFromEvent(event) : event.id
+
+  return (tag: string[]) =>
+    isReplaceable ? tag[0] === 'a' && tag[1] === eventKey : tag[0] === 'e' && tag[1] === eventKey
+}
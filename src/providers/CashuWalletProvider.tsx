@@ -0,0 +1,508 @@
+import { BIG_RELAY_URLS, ExtendedKind } from '@/constants'
+import {
+  createCashuHistoryDraftEvent,
+  createCashuTokenDeletionDraftEvent,
+  createCashuTokenDraftEvent,
+  createCashuWalletDraftEvent,
+  createNutzapDraftEvent,
+  createNutzapInfoDraftEvent
+} from '@/lib/draft-event'
+import { getNutzapFromEvent } from '@/lib/event-metadata'
+import { randomString } from '@/lib/random'
+import { normalizeHttpUrl } from '@/lib/url'
+import cashuService from '@/services/cashu.service'
+import client from '@/services/client.service'
+import indexedDb from '@/services/indexed-db.service'
+import { TCashuToken, TCashuWallet, TPendingCashuReceipt, TPendingNutzap } from '@/types'
+import { getDecodedToken, MintQuoteResponse, MintQuoteState, Proof } from '@cashu/cashu-ts'
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils'
+import dayjs from 'dayjs'
+import { Event, generateSecretKey, getPublicKey } from 'nostr-tools'
+import { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { useNostr } from './NostrProvider'
+
+type TCashuWalletContext = {
+  wallet: TCashuWallet | null
+  isLoading: boolean
+  balance: number
+  balances: Record<string, number>
+  createWallet: (mints: string[]) => Promise<void>
+  updateMints: (mints: string[]) => Promise<void>
+  createDepositQuote: (mint: string, sats: number) => Promise<MintQuoteResponse>
+  claimDeposit: (mint: string, quote: MintQuoteResponse) => Promise<boolean>
+  receiveToken: (token: string) => Promise<number>
+  redeemNutzaps: () => Promise<number>
+  sendNutzap: (recipient: string, sats: number, comment: string, event?: Event) => Promise<void>
+}
+
+const CashuWalletContext = createContext<TCashuWalletContext | undefined>(undefined)
+
+export const useCashuWallet = () => {
+  const context = useContext(CashuWalletContext)
+  if (!context) {
+    throw new Error('useCashuWallet must be used within a CashuWalletProvider')
+  }
+  return context
+}
+
+export function CashuWalletProvider({ children }: { children: React.ReactNode }) {
+  const { t } = useTranslation()
+  const { pubkey: accountPubkey, publish, nip44Encrypt, nip44Decrypt } = useNostr()
+  const [wallet, setWallet] = useState<TCashuWallet | null>(null)
+  const [tokens, setTokens] = useState<TCashuToken[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  // Spending reads the latest tokens, not the ones captured by a stale closure
+  const tokensRef = useRef<TCashuToken[]>([])
+  const balances = useMemo(() => {
+    const balances: Record<string, number> = {}
+    tokens.forEach(({ mint, proofs }) => {
+      balances[mint] = (balances[mint] ?? 0) + sumProofs(proofs)
+    })
+    return balances
+  }, [tokens])
+  const balance = useMemo(
+    () => Object.values(balances).reduce((sum, amount) => sum + amount, 0),
+    [balances]
+  )
+
+  const updateTokens = (updater: (tokens: TCashuToken[]) => TCashuToken[]) => {
+    tokensRef.current = updater(tokensRef.current)
+    setTokens(tokensRef.current)
+  }
+
+  useEffect(() => {
+    setWallet(null)
+    updateTokens(() => [])
+    if (!accountPubkey) return
+
+    const init = async () => {
+      setIsLoading(true)
+      try {
+        const relayList = await client.fetchRelayList(accountPubkey)
+        const relays = relayList.write.concat(BIG_RELAY_URLS)
+        const [walletEvents, tokenEvents] = await Promise.all([
+          client.fetchEvents(relays, {
+            kinds: [ExtendedKind.CASHU_WALLET],
+            authors: [accountPubkey]
+          }),
+          client.fetchEvents(relays, {
+            kinds: [ExtendedKind.CASHU_TOKEN],
+            authors: [accountPubkey]
+          })
+        ])
+        const walletEvent = walletEvents.sort((a, b) => b.created_at - a.created_at)[0]
+        if (!walletEvent) return
+
+        const wallet = await decryptWallet(walletEvent)
+        const tokens = await decryptTokens(tokenEvents)
+        setWallet(wallet)
+        updateTokens(() => tokens)
+
+        await resumePendingNutzaps()
+        await resumePendingCashuReceipts()
+
+        const redeemed = await redeemNutzapsOf(wallet)
+        if (redeemed > 0) {
+          toast.success(t('Received n sats in nutzaps', { n: redeemed }))
+        }
+      } catch (error) {
+        console.error('[CashuWalletProvider] Failed to load wallet:', error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    init()
+  }, [accountPubkey])
+
+  const decryptWallet = async (walletEvent: Event): Promise<TCashuWallet> => {
+    const tags: string[][] = JSON.parse(await nip44Decrypt(walletEvent.pubkey, walletEvent.content))
+    let privkey = ''
+    const mints: string[] = []
+    tags.forEach(([tagName, tagValue]) => {
+      if (tagName === 'privkey') {
+        privkey = tagValue
+      } else if (tagName === 'mint' && tagValue) {
+        mints.push(normalizeHttpUrl(tagValue))
+      }
+    })
+    return { privkey, mints }
+  }
+
+  const decryptTokens = async (tokenEvents: Event[]): Promise<TCashuToken[]> => {
+    const deletedIds = new Set<string>()
+    const tokens: TCashuToken[] = []
+    await Promise.allSettled(
+      tokenEvents.map(async (event) => {
+        const {
+          mint,
+          proofs,
+          del = []
+        } = JSON.parse(await nip44Decrypt(event.pubkey, event.content))
+        del.forEach((id: string) => deletedIds.add(id))
+        tokens.push({
+          id: event.id,
+          mint: normalizeHttpUrl(mint),
+          proofs: proofs ?? [],
+          createdAt: event.created_at
+        })
+      })
+    )
+    // Tokens rolled over into newer ones are spent
+    return tokens.filter((token) => !deletedIds.has(token.id))
+  }
+
+  const encrypt = async (value: unknown) => {
+    if (!accountPubkey) {
+      throw new Error('You need to be logged in')
+    }
+    return nip44Encrypt(accountPubkey, JSON.stringify(value))
+  }
+
+  /**
+   * Store the proofs of a mint in a new token event, replacing the spent token events.
+   * Once signed, the outbox keeps retrying the events until a relay accepts them.
+   */
+  const saveToken = async (mint: string, proofs: Proof[], spentTokenIds: string[] = []) => {
+    let newToken: TCashuToken | undefined
+    if (proofs.length > 0) {
+      const tokenEvent = await publish(
+        createCashuTokenDraftEvent(await encrypt({ mint, proofs, del: spentTokenIds })),
+        { queueOnFailure: true }
+      )
+      newToken = { id: tokenEvent.id, mint, proofs, createdAt: tokenEvent.created_at }
+    }
+    if (spentTokenIds.length > 0) {
+      await publish(createCashuTokenDeletionDraftEvent(spentTokenIds), {
+        queueOnFailure: true
+      }).catch((error) => {
+        console.error('[CashuWalletProvider] Failed to delete spent tokens:', error)
+      })
+    }
+    updateTokens((tokens) =>
+      tokens.filter((token) => !spentTokenIds.includes(token.id)).concat(newToken ?? [])
+    )
+    return newToken
+  }
+
+  const addHistory = async (
+    direction: 'in' | 'out',
+    amount: number,
+    createdTokenId?: string,
+    destroyedTokenIds: string[] = [],
+    redeemedNutzap?: Event
+  ) => {
+    const tags = [
+      ['direction', direction],
+      ['amount', amount.toString()],
+      ['unit', 'sat'],
+      ...(createdTokenId ? [['e', createdTokenId, '', 'created']] : []),
+      ...destroyedTokenIds.map((id) => ['e', id, '', 'destroyed'])
+    ]
+    // A nutzap without its redeemed marker would be redeemed again on the next load
+    await publish(createCashuHistoryDraftEvent(await encrypt(tags), redeemedNutzap), {
+      queueOnFailure: true
+    }).catch((error) => {
+      console.error('[CashuWalletProvider] Failed to publish history:', error)
+    })
+  }
+
+  const publishWallet = async (privkey: string, mints: string[]) => {
+    if (!accountPubkey) return
+
+    const normalizedMints = Array.from(new Set(mints.map((mint) => normalizeHttpUrl(mint))))
+    await publish(
+      createCashuWalletDraftEvent(
+        await encrypt([['privkey', privkey], ...normalizedMints.map((mint) => ['mint', mint])])
+      )
+    )
+
+    // Nutzaps are published to the relays the account reads from
+    const relayList = await client.fetchRelayList(accountPubkey)
+    await publish(
+      createNutzapInfoDraftEvent(
+        relayList.read.slice(0, 4),
+        normalizedMints,
+        getPublicKey(hexToBytes(privkey))
+      )
+    )
+    cashuService.clearNutzapInfo(accountPubkey)
+    setWallet({ privkey, mints: normalizedMints })
+  }
+
+  const createWallet = async (mints: string[]) => {
+    await publishWallet(bytesToHex(generateSecretKey()), mints)
+  }
+
+  const updateMints = async (mints: string[]) => {
+    if (!wallet) return
+    await publishWallet(wallet.privkey, mints)
+  }
+
+  const createDepositQuote = async (mint: string, sats: number) => {
+    const mintWallet = await cashuService.getMintWallet(mint)
+    return mintWallet.createMintQuote(sats)
+  }
+
+  const claimDeposit = async (mint: string, quote: MintQuoteResponse) => {
+    const mintWallet = await cashuService.getMintWallet(mint)
+    const { state } = await mintWallet.checkMintQuote(quote.quote)
+    if (state !== MintQuoteState.PAID) return false
+
+    const proofs = await mintWallet.mintProofs(quote.amount, quote.quote)
+    await storeReceivedProofs(mint, proofs)
+    return true
+  }
+
+  const receiveToken = async (token: string) => {
+    const { mint } = getDecodedToken(token.trim())
+    const normalizedMint = normalizeHttpUrl(mint)
+    const mintWallet = await cashuService.getMintWallet(normalizedMint)
+    const proofs = await mintWallet.receive(token.trim())
+    await storeReceivedProofs(normalizedMint, proofs)
+    return sumProofs(proofs)
+  }
+
+  const redeemNutzapsOf = async (wallet: TCashuWallet) => {
+    if (!accountPubkey || !wallet.privkey) return 0
+
+    const relayList = await client.fetchRelayList(accountPubkey)
+    const relays = relayList.read.concat(BIG_RELAY_URLS)
+    const [historyEvents, nutzapEvents] = await Promise.all([
+      client.fetchEvents(relayList.write.concat(BIG_RELAY_URLS), {
+        kinds: [ExtendedKind.CASHU_HISTORY],
+        authors: [accountPubkey]
+      }),
+      client.fetchEvents(relays, {
+        kinds: [ExtendedKind.NUTZAP],
+        '#p': [accountPubkey],
+        since: dayjs().subtract(30, 'days').unix()
+      })
+    ])
+    const redeemedIds = new Set(
+      historyEvents.flatMap((event) =>
+        event.tags
+          .filter(([tagName, , , marker]) => tagName === 'e' && marker === 'redeemed')
+          .map(([, id]) => id)
+      )
+    )
+
+    let redeemed = 0
+    for (const nutzapEvent of nutzapEvents) {
+      if (redeemedIds.has(nutzapEvent.id)) continue
+
+      const nutzap = getNutzapFromEvent(nutzapEvent)
+      if (!nutzap || !wallet.mints.includes(nutzap.mint)) continue
+
+      try {
+        const mintWallet = await cashuService.getMintWallet(nutzap.mint)
+        const proofs = await mintWallet.receive(
+          { mint: nutzap.mint, proofs: nutzap.proofs, unit: 'sat' },
+          { privkey: wallet.privkey }
+        )
+        await storeReceivedProofs(nutzap.mint, proofs, nutzapEvent)
+        redeemed += sumProofs(proofs)
+      } catch (error) {
+        console.error('[CashuWalletProvider] Failed to redeem nutzap:', nutzapEvent.id, error)
+      }
+    }
+    return redeemed
+  }
+
+  const redeemNutzaps = async () => {
+    if (!wallet) return 0
+    await resumePendingCashuReceipts()
+    return redeemNutzapsOf(wallet)
+  }
+
+  /**
+   * The mint has already swapped the proofs, so keep them locally until they are safely on relays
+   */
+  const storeReceivedProofs = async (mint: string, proofs: Proof[], nutzapEvent?: Event) => {
+    if (!accountPubkey) {
+      throw new Error('You need to be logged in')
+    }
+    const pendingCashuReceipt: TPendingCashuReceipt = {
+      id: randomString(),
+      pubkey: accountPubkey,
+      mint,
+      proofs,
+      nutzapEvent,
+      createdAt: dayjs().unix()
+    }
+    await indexedDb.putPendingCashuReceipt(pendingCashuReceipt).catch((error) => {
+      console.error('[CashuWalletProvider] Failed to store pending receipt:', error)
+    })
+    try {
+      await completeCashuReceipt(pendingCashuReceipt)
+    } catch (error) {
+      console.error('[CashuWalletProvider] Failed to complete receipt:', error)
+      throw new Error('The ecash could not be stored yet, it will be retried when the wallet loads')
+    }
+  }
+
+  const completeCashuReceipt = async (pendingCashuReceipt: TPendingCashuReceipt) => {
+    let pending = pendingCashuReceipt
+    if (!pending.tokenSaved) {
+      const newToken = await saveToken(pending.mint, pending.proofs)
+      pending = { ...pending, tokenSaved: true, tokenId: newToken?.id }
+      await indexedDb.putPendingCashuReceipt(pending).catch((error) => {
+        console.error('[CashuWalletProvider] Failed to update pending receipt:', error)
+      })
+    }
+
+    await addHistory('in', sumProofs(pending.proofs), pending.tokenId, [], pending.nutzapEvent)
+    await indexedDb.deletePendingCashuReceipt(pending.id).catch((error) => {
+      console.error('[CashuWalletProvider] Failed to delete pending receipt:', error)
+    })
+  }
+
+  const resumePendingCashuReceipts = async () => {
+    if (!accountPubkey) return
+
+    const pendingCashuReceipts = await indexedDb.getAllPendingCashuReceipts()
+    for (const pendingCashuReceipt of pendingCashuReceipts) {
+      if (pendingCashuReceipt.pubkey !== accountPubkey) continue
+
+      try {
+        await completeCashuReceipt(pendingCashuReceipt)
+      } catch (error) {
+        console.error(
+          '[CashuWalletProvider] Failed to resume receipt:',
+          pendingCashuReceipt.id,
+          error
+        )
+      }
+    }
+  }
+
+  const sendNutzap = async (recipient: string, sats: number, comment: string, event?: Event) => {
+    if (!accountPubkey) {
+      throw new Error('You need to be logged in')
+    }
+    if (!wallet) {
+      throw new Error('You need to create a Cashu wallet first')
+    }
+    const nutzapInfo = await cashuService.fetchNutzapInfo(recipient)
+    if (!nutzapInfo) {
+      throw new Error('Recipient does not accept nutzaps')
+    }
+
+    const currentBalances: Record<string, number> = {}
+    tokensRef.current.forEach(({ mint, proofs }) => {
+      currentBalances[mint] = (currentBalances[mint] ?? 0) + sumProofs(proofs)
+    })
+    const mint = nutzapInfo.mints.find((mint) => (currentBalances[mint] ?? 0) >= sats)
+    if (!mint) {
+      throw new Error('Not enough ecash at a mint the recipient accepts')
+    }
+
+    const mintTokens = tokensRef.current.filter((token) => token.mint === mint)
+    const mintWallet = await cashuService.getMintWallet(mint)
+    // NIP-61: the x-only pubkey must be prefixed with 02 to lock the proofs
+    const p2pkPubkey =
+      nutzapInfo.p2pkPubkey.length === 64 ? `02${nutzapInfo.p2pkPubkey}` : nutzapInfo.p2pkPubkey
+    const { keep, send } = await mintWallet.send(
+      sats,
+      mintTokens.flatMap(({ proofs }) => proofs),
+      { p2pk: { pubkey: p2pkPubkey }, includeFees: true }
+    )
+
+    // The old proofs are spent now, keep the new ones locally until they are safely on relays
+    const pendingNutzap: TPendingNutzap = {
+      id: randomString(),
+      pubkey: accountPubkey,
+      recipient,
+      mint,
+      keep,
+      send,
+      spentTokenIds: mintTokens.map(({ id }) => id),
+      comment,
+      event,
+      relays: nutzapInfo.relays,
+      createdAt: dayjs().unix()
+    }
+    await indexedDb.putPendingNutzap(pendingNutzap).catch((error) => {
+      console.error('[CashuWalletProvider] Failed to store pending nutzap:', error)
+    })
+    try {
+      await completeNutzap(pendingNutzap)
+    } catch (error) {
+      console.error('[CashuWalletProvider] Failed to complete nutzap:', error)
+      throw new Error('The nutzap could not be sent yet, it will be retried when the wallet loads')
+    }
+  }
+
+  /**
+   * Store the change and publish the nutzap, recording progress so a retry never repeats a step
+   */
+  const completeNutzap = async (pendingNutzap: TPendingNutzap) => {
+    let pending = pendingNutzap
+    if (!pending.keepSaved) {
+      const newToken = await saveToken(pending.mint, pending.keep, pending.spentTokenIds)
+      pending = { ...pending, keepSaved: true, keepTokenId: newToken?.id }
+      await indexedDb.putPendingNutzap(pending).catch((error) => {
+        console.error('[CashuWalletProvider] Failed to update pending nutzap:', error)
+      })
+    }
+
+    // Once signed, the outbox keeps retrying the nutzap until a relay accepts it
+    await publish(
+      createNutzapDraftEvent(
+        pending.recipient,
+        pending.mint,
+        pending.send,
+        pending.comment,
+        pending.event
+      ),
+      {
+        specifiedRelayUrls: pending.relays.length ? pending.relays : undefined,
+        queueOnFailure: true
+      }
+    )
+    await indexedDb.deletePendingNutzap(pending.id).catch((error) => {
+      console.error('[CashuWalletProvider] Failed to delete pending nutzap:', error)
+    })
+    await addHistory('out', sumProofs(pending.send), pending.keepTokenId, pending.spentTokenIds)
+  }
+
+  const resumePendingNutzaps = async () => {
+    if (!accountPubkey) return
+
+    const pendingNutzaps = await indexedDb.getAllPendingNutzaps()
+    for (const pendingNutzap of pendingNutzaps) {
+      if (pendingNutzap.pubkey !== accountPubkey) continue
+
+      try {
+        await completeNutzap(pendingNutzap)
+      } catch (error) {
+        console.error('[CashuWalletProvider] Failed to resume nutzap:', pendingNutzap.id, error)
+      }
+    }
+  }
+
+  return (
+    <CashuWalletContext.Provider
+      value={{
+        wallet,
+        isLoading,
+        balance,
+        balances,
+        createWallet,
+        updateMints,
+        createDepositQuote,
+        claimDeposit,
+        receiveToken,
+        redeemNutzaps,
+        sendNutzap
+      }}
+    >
+      {children}
+    </CashuWalletContext.Provider>
+  )
+}
+
+function sumProofs(proofs: Proof[]) {
+  return proofs.reduce((sum, proof) => sum + proof.amount, 0)
+}
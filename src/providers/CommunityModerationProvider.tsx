@@ -0,0 +1,104 @@
+import { BIG_RELAY_URLS, ExtendedKind, MAX_PINNED_NOTES } from '@/constants'
+import { getCommunityModerationFromEvent, getCommunityStaff } from '@/lib/community'
+import { createCommunityModerationDraftEvent } from '@/lib/draft-event'
+import client from '@/services/client.service'
+import communityRolesService from '@/services/community-roles.service'
+import { TCommunityModeration, TCommunityModerationAction } from '@/types'
+import { Event, nip19 } from 'nostr-tools'
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import { useNostr } from './NostrProvider'
+
+type TCommunityModerationContext = {
+  domain: string
+  canModerate: boolean
+  pinnedEventIds: string[]
+  getModeration: (eventId: string) => TCommunityModeration | undefined
+  moderate: (event: Event, action: TCommunityModerationAction, reason?: string) => Promise<void>
+}
+
+const CommunityModerationContext = createContext<TCommunityModerationContext | undefined>(undefined)
+
+/**
+ * Returns undefined outside of a community feed, so shared components like
+ * NoteCard can use it without requiring a provider.
+ */
+export const useCommunityModeration = () => useContext(CommunityModerationContext)
+
+export function CommunityModerationProvider({
+  domain,
+  children
+}: {
+  domain: string
+  children: React.ReactNode
+}) {
+  const { pubkey, publish } = useNostr()
+  const [staff, setStaff] = useState<string[]>([])
+  const [moderationMap, setModerationMap] = useState<Map<string, TCommunityModeration>>(new Map())
+
+  useEffect(() => {
+    const init = async () => {
+      setModerationMap(new Map())
+      const roles = await communityRolesService.getRoles(domain)
+      const staff = getCommunityStaff(roles)
+      setStaff(staff)
+      if (staff.length === 0) return
+
+      const relayLists = await client.fetchRelayLists(staff)
+      const relays = relayLists.flatMap((relayList) => relayList.write.slice(0, 4))
+      const events = await client.fetchEvents(relays.concat(BIG_RELAY_URLS), {
+        kinds: [ExtendedKind.COMMUNITY_MODERATION],
+        authors: staff
+      })
+
+      // The latest decision by any admin or moderator wins
+      const map = new Map<string, TCommunityModeration>()
+      events.forEach((event) => {
+        const moderation = getCommunityModerationFromEvent(event)
+        if (!moderation || moderation.domain !== domain) return
+        const existing = map.get(moderation.eventId)
+        if (!existing || existing.created_at < moderation.created_at) {
+          map.set(moderation.eventId, moderation)
+        }
+      })
+      setModerationMap(map)
+    }
+
+    init()
+  }, [domain])
+
+  const canModerate = !!pubkey && staff.includes(pubkey)
+
+  const pinnedEventIds = useMemo(() => {
+    return Array.from(moderationMap.values())
+      .filter((moderation) => moderation.action === 'pin')
+      .sort((a, b) => b.created_at - a.created_at)
+      .slice(0, MAX_PINNED_NOTES)
+      .map((moderation) =>
+        nip19.neventEncode({ id: moderation.eventId, author: moderation.authorPubkey })
+      )
+  }, [moderationMap])
+
+  const getModeration = useCallback(
+    (eventId: string) => moderationMap.get(eventId),
+    [moderationMap]
+  )
+
+  const moderate = async (event: Event, action: TCommunityModerationAction, reason?: string) => {
+    if (!canModerate) return
+
+    const draftEvent = createCommunityModerationDraftEvent(domain, event, action, reason)
+    const moderationEvent = await publish(draftEvent)
+    const moderation = getCommunityModerationFromEvent(moderationEvent)
+    if (!moderation) return
+
+    setModerationMap((prev) => new Map(prev).set(moderation.eventId, moderation))
+  }
+
+  return (
+    <CommunityModerationContext.Provider
+      value={{ domain, canModerate, pinnedEventIds, getModeration, moderate }}
+    >
+      {children}
+    </CommunityModerationContext.Provider>
+  )
+}
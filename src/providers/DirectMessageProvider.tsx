@@ -0,0 +1,149 @@
+import { createPrivateDirectMessageDraftEvent } from '@/lib/draft-event'
+import client from '@/services/client.service'
+import directMessageService from '@/services/direct-message.service'
+import { TDirectMessage, TDirectMessageConversation } from '@/types'
+import { Event, kinds } from 'nostr-tools'
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import { useNostr } from './NostrProvider'
+
+type TDirectMessageContext = {
+  isSupported: boolean
+  isLoading: boolean
+  conversations: TDirectMessageConversation[]
+  getMessages: (peerPubkey: string) => TDirectMessage[]
+  /**
+   * Start loading the inbox. Loading is deferred until a messages page is opened,
+   * so signers aren't asked to decrypt anything before the user looks at their messages.
+   */
+  loadInbox: () => void
+  sendMessage: (recipientPubkey: string, content: string) => Promise<void>
+}
+
+const DirectMessageContext = createContext<TDirectMessageContext | undefined>(undefined)
+
+export const useDirectMessages = () => {
+  const context = useContext(DirectMessageContext)
+  if (!context) {
+    throw new Error('useDirectMessages must be used within a DirectMessageProvider')
+  }
+  return context
+}
+
+export function DirectMessageProvider({ children }: { children: React.ReactNode }) {
+  const { pubkey, account, signEvent, nip44Encrypt, nip44Decrypt } = useNostr()
+  const [shouldLoad, setShouldLoad] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [messageMap, setMessageMap] = useState<Map<string, TDirectMessage>>(new Map())
+  const unwrapQueueRef = useRef<Promise<void>>(Promise.resolve())
+  const isSupported = !!account && account.signerType !== 'npub'
+
+  useEffect(() => {
+    setMessageMap(new Map())
+    setShouldLoad(false)
+  }, [pubkey])
+
+  useEffect(() => {
+    if (!shouldLoad || !pubkey || !isSupported) return
+
+    let closed = false
+    let subCloser: { close: () => void } | null = null
+
+    const addMessage = (message: TDirectMessage) => {
+      setMessageMap((prev) => {
+        if (prev.has(message.id)) return prev
+        return new Map(prev).set(message.id, message)
+      })
+    }
+
+    // Unwrap one by one, signer extensions and bunkers don't cope well with bursts
+    const enqueueUnwrap = (giftWrap: Event) => {
+      unwrapQueueRef.current = unwrapQueueRef.current.then(async () => {
+        if (closed) return
+        const message = await directMessageService.unwrap(giftWrap, pubkey, nip44Decrypt)
+        if (message && !closed) {
+          addMessage(message)
+        }
+      })
+    }
+
+    const subscribe = async () => {
+      setIsLoading(true)
+      const relays = await directMessageService.getInboxRelays(pubkey)
+      if (closed) return
+
+      subCloser = client.subscribe(
+        relays,
+        { kinds: [kinds.GiftWrap], '#p': [pubkey], limit: 500 },
+        {
+          onevent: enqueueUnwrap,
+          oneose: (eosed) => {
+            if (eosed) {
+              unwrapQueueRef.current.then(() => !closed && setIsLoading(false))
+            }
+          }
+        }
+      )
+    }
+
+    subscribe()
+
+    return () => {
+      closed = true
+      subCloser?.close()
+    }
+  }, [shouldLoad, pubkey, isSupported])
+
+  const conversations = useMemo(() => {
+    const conversationMap = new Map<string, TDirectMessageConversation>()
+    messageMap.forEach((message) => {
+      const existing = conversationMap.get(message.peerPubkey)
+      if (!existing || existing.lastMessage.created_at < message.created_at) {
+        conversationMap.set(message.peerPubkey, {
+          peerPubkey: message.peerPubkey,
+          lastMessage: message
+        })
+      }
+    })
+    return Array.from(conversationMap.values()).sort(
+      (a, b) => b.lastMessage.created_at - a.lastMessage.created_at
+    )
+  }, [messageMap])
+
+  const getMessages = useCallback(
+    (peerPubkey: string) =>
+      Array.from(messageMap.values())
+        .filter((message) => message.peerPubkey === peerPubkey)
+        .sort((a, b) => a.created_at - b.created_at),
+    [messageMap]
+  )
+
+  const loadInbox = useCallback(() => setShouldLoad(true), [])
+
+  const sendMessage = async (recipientPubkey: string, content: string) => {
+    if (!pubkey || !isSupported) {
+      throw new Error('You need to login first')
+    }
+
+    const draftEvent = createPrivateDirectMessageDraftEvent(recipientPubkey, content)
+    const message = await directMessageService.sendMessage(draftEvent, pubkey, {
+      signEvent,
+      nip44Encrypt
+    })
+    setMessageMap((prev) => new Map(prev).set(message.id, message))
+  }
+
+  return (
+    <DirectMessageContext.Provider
+      value={{
+        isSupported,
+        isLoading,
+        conversations,
+        getMessages,
+        loadInbox,
+        sendMessage
+      }}
+    >
+      {children}
+    </DirectMessageContext.Provider>
+  )
+}
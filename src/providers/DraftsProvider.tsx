@@ -0,0 +1,198 @@
+import { BIG_RELAY_URLS, ExtendedKind } from '@/constants'
+import { createDraftWrapDraftEvent } from '@/lib/draft-event'
+import { randomString } from '@/lib/random'
+import { tagNameEquals } from '@/lib/tag'
+import client from '@/services/client.service'
+import indexedDb from '@/services/indexed-db.service'
+import storage from '@/services/local-storage.service'
+import { TPostDraft } from '@/types'
+import dayjs from 'dayjs'
+import { kinds } from 'nostr-tools'
+import { createContext, useContext, useEffect, useMemo, useState } from 'react'
+import { useNostr } from './NostrProvider'
+
+type TDraftInput = Omit<TPostDraft, 'id' | 'pubkey' | 'createdAt' | 'updatedAt'> & {
+  id?: string
+}
+
+type TDraftsContext = {
+  drafts: TPostDraft[]
+  isSyncEnabled: boolean
+  setSyncEnabled: (enabled: boolean) => void
+  saveDraft: (draft: TDraftInput) => Promise<TPostDraft>
+  deleteDraft: (id: string) => Promise<void>
+}
+
+const DraftsContext = createContext<TDraftsContext | undefined>(undefined)
+
+export const useDrafts = () => {
+  const context = useContext(DraftsContext)
+  if (!context) {
+    throw new Error('useDrafts must be used within a DraftsProvider')
+  }
+  return context
+}
+
+export function DraftsProvider({ children }: { children: React.ReactNode }) {
+  const { pubkey: accountPubkey, publish, nip44Encrypt, nip44Decrypt } = useNostr()
+  const [allDrafts, setAllDrafts] = useState<TPostDraft[]>([])
+  const [isSyncEnabled, setIsSyncEnabled] = useState(storage.getSyncDrafts())
+  const drafts = useMemo(
+    () =>
+      allDrafts
+        .filter((draft) => draft.pubkey === accountPubkey)
+        .sort((a, b) => b.updatedAt - a.updatedAt),
+    [allDrafts, accountPubkey]
+  )
+
+  useEffect(() => {
+    indexedDb
+      .getAllPostDrafts()
+      .then((drafts) => setAllDrafts(drafts))
+      .catch((error) => console.error('Failed to load drafts', error))
+  }, [])
+
+  useEffect(() => {
+    if (!accountPubkey || !isSyncEnabled) return
+
+    syncDrafts(accountPubkey).catch((error) => console.error('Failed to sync drafts', error))
+  }, [accountPubkey, isSyncEnabled])
+
+  const putLocalDraft = async (draft: TPostDraft) => {
+    setAllDrafts((prev) => [draft, ...prev.filter(({ id }) => id !== draft.id)])
+    await indexedDb.putPostDraft(draft)
+  }
+
+  const deleteLocalDraft = async (id: string) => {
+    setAllDrafts((prev) => prev.filter((draft) => draft.id !== id))
+    await indexedDb.deletePostDraft(id)
+  }
+
+  /**
+   * Merge NIP-37 draft events with the local drafts, the newest version of each wins
+   */
+  const syncDrafts = async (pubkey: string) => {
+    const relayList = await client.fetchRelayList(pubkey)
+    const [localDrafts, draftEvents] = await Promise.all([
+      indexedDb.getAllPostDrafts(),
+      client.fetchEvents(relayList.write.concat(BIG_RELAY_URLS).slice(0, 5), {
+        kinds: [ExtendedKind.DRAFT],
+        authors: [pubkey]
+      })
+    ])
+
+    const remoteUpdatedAtMap = new Map<string, number>()
+    for (const event of draftEvents) {
+      const id = event.tags.find(tagNameEquals('d'))?.[1]
+      if (!id) continue
+
+      const updatedAt = event.created_at * 1000
+      if ((remoteUpdatedAtMap.get(id) ?? 0) >= updatedAt) continue
+      remoteUpdatedAtMap.set(id, updatedAt)
+
+      const localDraft = localDrafts.find((draft) => draft.id === id)
+      if (localDraft && localDraft.updatedAt >= updatedAt) continue
+
+      if (!event.content) {
+        if (localDraft) {
+          await deleteLocalDraft(id)
+        }
+        continue
+      }
+      try {
+        const payload = JSON.parse(await nip44Decrypt(pubkey, event.content))
+        if (!payload.jumble) continue
+
+        await putLocalDraft({ ...payload.jumble, id, pubkey, updatedAt })
+      } catch (error) {
+        console.error('Failed to decrypt draft', error)
+      }
+    }
+
+    // Upload drafts written on this device before sync was turned on or while offline
+    const outdatedDrafts = localDrafts.filter(
+      (draft) =>
+        draft.pubkey === pubkey && (remoteUpdatedAtMap.get(draft.id) ?? 0) < draft.updatedAt
+    )
+    await Promise.allSettled(outdatedDrafts.map((draft) => publishDraft(draft)))
+  }
+
+  const publishDraft = async (draft: TPostDraft) => {
+    if (!accountPubkey) return
+
+    // The unsigned event follows NIP-37, the editor state rides along for Jumble
+    const draftKind = getDraftKind(draft)
+    const payload = {
+      kind: draftKind,
+      content: draft.text,
+      tags: draft.mentions.map((pubkey) => ['p', pubkey]),
+      created_at: dayjs(draft.updatedAt).unix(),
+      jumble: draft
+    }
+    const encryptedDraft = await nip44Encrypt(accountPubkey, JSON.stringify(payload))
+    await publish(createDraftWrapDraftEvent(draft.id, draftKind, encryptedDraft))
+  }
+
+  const setSyncEnabled = (enabled: boolean) => {
+    storage.setSyncDrafts(enabled)
+    setIsSyncEnabled(enabled)
+  }
+
+  const saveDraft = async ({ id, ...draftInput }: TDraftInput) => {
+    if (!accountPubkey) {
+      throw new Error('You need to login first')
+    }
+
+    const existingDraft = id ? allDrafts.find((draft) => draft.id === id) : undefined
+    const now = Date.now()
+    const draft: TPostDraft = {
+      ...draftInput,
+      id: existingDraft?.id ?? randomString(),
+      pubkey: accountPubkey,
+      createdAt: existingDraft?.createdAt ?? now,
+      updatedAt: now
+    }
+    await putLocalDraft(draft)
+
+    if (isSyncEnabled) {
+      publishDraft(draft).catch((error) => console.error('Failed to sync draft', error))
+    }
+    return draft
+  }
+
+  const deleteDraft = async (id: string) => {
+    const draft = allDrafts.find((draft) => draft.id === id)
+    if (!draft) return
+
+    await deleteLocalDraft(id)
+
+    if (isSyncEnabled) {
+      publish(createDraftWrapDraftEvent(id, getDraftKind(draft), '')).catch((error) =>
+        console.error('Failed to delete synced draft', error)
+      )
+    }
+  }
+
+  return (
+    <DraftsContext.Provider
+      value={{
+        drafts,
+        isSyncEnabled,
+        setSyncEnabled,
+        saveDraft,
+        deleteDraft
+      }}
+    >
+      {children}
+    </DraftsContext.Provider>
+  )
+}
+
+function getDraftKind(draft: TPostDraft) {
+  if (draft.parentEvent) {
+    return draft.parentEvent.kind === kinds.ShortTextNote
+      ? kinds.ShortTextNote
+      : ExtendedKind.COMMENT
+  }
+  return draft.isPoll ? ExtendedKind.POLL : kinds.ShortTextNote
+}
@@ -22,6 +22,7 @@ type TFeedContext = {
       relay?: string | null
       activeCommunitySetId?: string
       domain?: string | null
+      savedSearchId?: string | null
     }
   ) => Promise<void>
 }
@@ -134,6 +135,10 @@ export function FeedProvider({ children }: { children: React.ReactNode }) {
         return await switchFeed('nip05-domain', { domain: feedInfo.id })
       }
 
+      if (feedInfo.feedType === 'search') {
+        return await switchFeed('search', { savedSearchId: feedInfo.id })
+      }
+
       // update following feed if pubkey changes
       if (feedInfo.feedType === 'following' && pubkey) {
         return await switchFeed('following', { pubkey })
@@ -151,6 +156,7 @@ export function FeedProvider({ children }: { children: React.ReactNode }) {
       relay?: string | null
       activeCommunitySetId?: string | null
       domain?: string | null
+      savedSearchId?: string | null
     } = {}
   ) => {
     setIsReady(false)
@@ -267,6 +273,22 @@ export function FeedProvider({ children }: { children: React.ReactNode }) {
       setIsReady(true)
       return
     }
+    if (feedType === 'search') {
+      if (!options.savedSearchId) {
+        setIsReady(true)
+        return
+      }
+
+      const newFeedInfo = { feedType, id: options.savedSearchId }
+      setFeedInfo(newFeedInfo)
+      feedInfoRef.current = newFeedInfo
+      storage.setFeedInfo(newFeedInfo, pubkey)
+
+      // The saved search decides which relays to query
+      setRelayUrls([])
+      setIsReady(true)
+      return
+    }
     setIsReady(true)
   }
 
@@ -1,4 +1,5 @@
 import { createMuteListDraftEvent } from '@/lib/draft-event'
+import { decryptPrivateTags, encryptPrivateTags } from '@/lib/private-tags'
 import { getPubkeysFromPTags } from '@/lib/tag'
 import client from '@/services/client.service'
 import indexedDb from '@/services/indexed-db.service'
@@ -7,7 +8,6 @@ import { Event } from 'nostr-tools'
 import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
-import { z } from 'zod'
 import { useNostr } from './NostrProvider'
 
 type TMuteListContext = {
@@ -40,7 +40,9 @@ export function MuteListProvider({ children }: { children: React.ReactNode }) {
     publish,
     updateMuteListEvent,
     nip04Decrypt,
-    nip04Encrypt
+    nip04Encrypt,
+    nip44Decrypt,
+    nip44Encrypt
   } = useNostr()
   const [tags, setTags] = useState<string[][]>([])
   const [privateTags, setPrivateTags] = useState<string[][]>([])
@@ -54,23 +56,21 @@ export function MuteListProvider({ children }: { children: React.ReactNode }) {
   }, [publicMutePubkeySet, privateMutePubkeySet])
   const [changing, setChanging] = useState(false)
 
+  /**
+   * Throws when the content can't be decrypted, so callers never mistake an unreadable list
+   * for an empty one and overwrite it
+   */
   const getPrivateTags = async (muteListEvent: Event) => {
     if (!muteListEvent.content) return []
 
-    const storedDecryptedTags = await indexedDb.getMuteDecryptedTags(muteListEvent.id)
+    const storedDecryptedTags = await indexedDb.getDecryptedTags(muteListEvent.id)
 
     if (storedDecryptedTags) {
       return storedDecryptedTags
     } else {
-      try {
-        const plainText = await nip04Decrypt(muteListEvent.pubkey, muteListEvent.content)
-        const privateTags = z.array(z.array(z.string())).parse(JSON.parse(plainText))
-        await indexedDb.putMuteDecryptedTags(muteListEvent.id, privateTags)
-        return privateTags
-      } catch (error) {
-        console.error('Failed to decrypt mute list content', error)
-        return []
-      }
+      const privateTags = await decryptPrivateTags(muteListEvent, { nip04Decrypt, nip44Decrypt })
+      await indexedDb.putDecryptedTags(muteListEvent.id, privateTags)
+      return privateTags
     }
   }
 
@@ -82,7 +82,8 @@ export function MuteListProvider({ children }: { children: React.ReactNode }) {
         return
       }
 
-      const privateTags = await getPrivateTags(muteListEvent).catch(() => {
+      const privateTags = await getPrivateTags(muteListEvent).catch((error) => {
+        console.error('Failed to decrypt mute list content', error)
         return []
       })
       setPrivateTags(privateTags)
@@ -91,6 +92,9 @@ export function MuteListProvider({ children }: { children: React.ReactNode }) {
     updateMuteTags()
   }, [muteListEvent])
 
+  const encrypt = (privateTags: string[][]) =>
+    encryptPrivateTags(accountPubkey!, privateTags, { nip04Encrypt, nip44Encrypt })
+
   const getMutePubkeys = () => {
     return Array.from(mutePubkeySet)
   }
@@ -139,7 +143,8 @@ export function MuteListProvider({ children }: { children: React.ReactNode }) {
       }
       const newTags = (muteListEvent?.tags ?? []).concat([['p', pubkey]])
       const newMuteListEvent = await publishNewMuteListEvent(newTags, muteListEvent?.content)
-      const privateTags = await getPrivateTags(newMuteListEvent)
+      // The private part is carried over as is, it doesn't need to be readable here
+      const privateTags = await getPrivateTags(newMuteListEvent).catch(() => undefined)
       await updateMuteListEvent(newMuteListEvent, privateTags)
     } catch (error) {
       toast.error(t('Failed to mute user publicly') + ': ' + (error as Error).message)
@@ -161,7 +166,7 @@ export function MuteListProvider({ children }: { children: React.ReactNode }) {
       }
 
       const newPrivateTags = privateTags.concat([['p', pubkey]])
-      const cipherText = await nip04Encrypt(accountPubkey, JSON.stringify(newPrivateTags))
+      const cipherText = await encrypt(newPrivateTags)
       const newMuteListEvent = await publishNewMuteListEvent(muteListEvent?.tags ?? [], cipherText)
       await updateMuteListEvent(newMuteListEvent, newPrivateTags)
     } catch (error) {
@@ -183,7 +188,7 @@ export function MuteListProvider({ children }: { children: React.ReactNode }) {
       const newPrivateTags = privateTags.filter((tag) => tag[0] !== 'p' || tag[1] !== pubkey)
       let cipherText = muteListEvent.content
       if (newPrivateTags.length !== privateTags.length) {
-        cipherText = await nip04Encrypt(accountPubkey, JSON.stringify(newPrivateTags))
+        cipherText = await encrypt(newPrivateTags)
       }
 
       const newMuteListEvent = await publishNewMuteListEvent(
@@ -191,6 +196,8 @@ export function MuteListProvider({ children }: { children: React.ReactNode }) {
         cipherText
       )
       await updateMuteListEvent(newMuteListEvent, newPrivateTags)
+    } catch (error) {
+      toast.error(t('Failed to unmute user') + ': ' + (error as Error).message)
     } finally {
       setChanging(false)
     }
@@ -210,7 +217,7 @@ export function MuteListProvider({ children }: { children: React.ReactNode }) {
         return
       }
 
-      const cipherText = await nip04Encrypt(accountPubkey, JSON.stringify(newPrivateTags))
+      const cipherText = await encrypt(newPrivateTags)
       const newMuteListEvent = await publishNewMuteListEvent(
         muteListEvent.tags
           .filter((tag) => tag[0] !== 'p' || tag[1] !== pubkey)
@@ -218,6 +225,8 @@ export function MuteListProvider({ children }: { children: React.ReactNode }) {
         cipherText
       )
       await updateMuteListEvent(newMuteListEvent, newPrivateTags)
+    } catch (error) {
+      toast.error(t('Failed to update mute list') + ': ' + (error as Error).message)
     } finally {
       setChanging(false)
     }
@@ -240,9 +249,11 @@ export function MuteListProvider({ children }: { children: React.ReactNode }) {
       const newPrivateTags = privateTags
         .filter((tag) => tag[0] !== 'p' || tag[1] !== pubkey)
         .concat([['p', pubkey]])
-      const cipherText = await nip04Encrypt(accountPubkey, JSON.stringify(newPrivateTags))
+      const cipherText = await encrypt(newPrivateTags)
       const newMuteListEvent = await publishNewMuteListEvent(newTags, cipherText)
       await updateMuteListEvent(newMuteListEvent, newPrivateTags)
+    } catch (error) {
+      toast.error(t('Failed to update mute list') + ': ' + (error as Error).message)
     } finally {
       setChanging(false)
     }
@@ -20,6 +20,8 @@ import customEmojiService from '@/services/custom-emoji.service'
 import indexedDb from '@/services/indexed-db.service'
 import storage from '@/services/local-storage.service'
 import noteStatsService from '@/services/note-stats.service'
+import outbox from '@/services/outbox.service'
+import scheduledPostService from '@/services/scheduled-post.service'
 import {
   ISigner,
   TAccount,
@@ -78,12 +80,14 @@ type TNostrContext = {
   signEvent: (draftEvent: TDraftEvent) => Promise<VerifiedEvent>
   nip04Encrypt: (pubkey: string, plainText: string) => Promise<string>
   nip04Decrypt: (pubkey: string, cipherText: string) => Promise<string>
+  nip44Encrypt: (pubkey: string, plainText: string) => Promise<string>
+  nip44Decrypt: (pubkey: string, cipherText: string) => Promise<string>
   startLogin: () => void
   checkLogin: <T>(cb?: () => T) => Promise<T | void>
   updateRelayListEvent: (relayListEvent: Event) => Promise<void>
   updateProfileEvent: (profileEvent: Event) => Promise<void>
   updateFollowListEvent: (followListEvent: Event) => Promise<void>
-  updateMuteListEvent: (muteListEvent: Event, privateTags: string[][]) => Promise<void>
+  updateMuteListEvent: (muteListEvent: Event, privateTags?: string[][]) => Promise<void>
   updateBookmarkListEvent: (bookmarkListEvent: Event) => Promise<void>
   updateFavoriteRelaysEvent: (favoriteRelaysEvent: Event) => Promise<void>
   updatePinListEvent: (pinListEvent: Event) => Promise<void>
@@ -618,16 +622,23 @@ export function NostrProvider({ children }: { children: React.ReactNode }) {
 
   const publish = async (
     draftEvent: TDraftEvent,
-    { minPow = 0, ...options }: TPublishOptions = {}
+    { minPow = 0, queueOnFailure = false, scheduledAt, ...options }: TPublishOptions = {}
   ) => {
     if (!account || !signer || account.signerType === 'npub') {
       throw new Error('You need to login first')
     }
 
     const draft = JSON.parse(JSON.stringify(draftEvent)) as TDraftEvent
+    if (scheduledAt) {
+      draft.created_at = scheduledAt
+    }
     let event: VerifiedEvent
     if (minPow > 0) {
-      const unsignedEvent = await minePow({ ...draft, pubkey: account.pubkey }, minPow)
+      const unsignedEvent = await minePow(
+        { ...draft, pubkey: account.pubkey },
+        minPow,
+        !!scheduledAt
+      )
       event = await signEvent(unsignedEvent)
     } else {
       event = await signEvent(draft)
@@ -648,7 +659,20 @@ export function NostrProvider({ children }: { children: React.ReactNode }) {
 
     const relays = await client.determineTargetRelays(event, options)
 
-    await client.publishEvent(relays, event)
+    if (scheduledAt) {
+      await scheduledPostService.schedule(event, relays)
+      return event
+    }
+    if (queueOnFailure && !navigator.onLine) {
+      await outbox.enqueue(event, relays)
+      return event
+    }
+    try {
+      await client.publishEvent(relays, event)
+    } catch (error) {
+      if (!queueOnFailure) throw error
+      await outbox.enqueue(event, relays)
+    }
     return event
   }
 
@@ -695,6 +719,14 @@ export function NostrProvider({ children }: { children: React.ReactNode }) {
     return signer?.nip04Decrypt(pubkey, cipherText) ?? ''
   }
 
+  const nip44Encrypt = async (pubkey: string, plainText: string) => {
+    return signer?.nip44Encrypt(pubkey, plainText) ?? ''
+  }
+
+  const nip44Decrypt = async (pubkey: string, cipherText: string) => {
+    return signer?.nip44Decrypt(pubkey, cipherText) ?? ''
+  }
+
   const checkLogin = async <T,>(cb?: () => T): Promise<T | void> => {
     if (signer) {
       return cb && cb()
@@ -721,11 +753,14 @@ export function NostrProvider({ children }: { children: React.ReactNode }) {
     await client.updateFollowListCache(newFollowListEvent)
   }
 
-  const updateMuteListEvent = async (muteListEvent: Event, privateTags: string[][]) => {
+  const updateMuteListEvent = async (muteListEvent: Event, privateTags?: string[][]) => {
     const newMuteListEvent = await indexedDb.putReplaceableEvent(muteListEvent)
     if (newMuteListEvent.id !== muteListEvent.id) return
 
-    await indexedDb.putMuteDecryptedTags(muteListEvent.id, privateTags)
+    // Only tags that were actually decrypted are cached
+    if (privateTags) {
+      await indexedDb.putDecryptedTags(muteListEvent.id, privateTags)
+    }
     setMuteListEvent(muteListEvent)
   }
 
@@ -804,6 +839,8 @@ export function NostrProvider({ children }: { children: React.ReactNode }) {
         signHttpAuth,
         nip04Encrypt,
         nip04Decrypt,
+        nip44Encrypt,
+        nip44Decrypt,
         startLogin: () => setOpenLoginDialog(true),
         checkLogin,
         signEvent,
@@ -1,5 +1,5 @@
 import { ISigner, TDraftEvent } from '@/types'
-import { finalizeEvent, getPublicKey as nGetPublicKey, nip04, nip19 } from 'nostr-tools'
+import { finalizeEvent, getPublicKey as nGetPublicKey, nip04, nip19, nip44 } from 'nostr-tools'
 
 export class NsecSigner implements ISigner {
   private privkey: Uint8Array | null = null
@@ -50,4 +50,18 @@ export class NsecSigner implements ISigner {
     }
     return nip04.decrypt(this.privkey, pubkey, cipherText)
   }
+
+  async nip44Encrypt(pubkey: string, plainText: string) {
+    if (!this.privkey) {
+      throw new Error('Not logged in')
+    }
+    return nip44.encrypt(plainText, nip44.getConversationKey(this.privkey, pubkey))
+  }
+
+  async nip44Decrypt(pubkey: string, cipherText: string) {
+    if (!this.privkey) {
+      throw new Error('Not logged in')
+    }
+    return nip44.decrypt(cipherText, nip44.getConversationKey(this.privkey, pubkey))
+  }
 }
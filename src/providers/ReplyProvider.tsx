@@ -1,4 +1,4 @@
-import { getEventKey, getEventKeyFromTag, getParentTag } from '@/lib/event'
+import { getEventKey, getEventKeyFromTag, getParentITag, getParentTag } from '@/lib/event'
 import { Event } from 'nostr-tools'
 import { createContext, useCallback, useContext, useState } from 'react'
 
@@ -31,11 +31,10 @@ export function ReplyProvider({ children }: { children: React.ReactNode }) {
       newReplyKeySet.add(key)
 
       const parentTag = getParentTag(reply)
-      if (parentTag) {
-        const parentKey = getEventKeyFromTag(parentTag.tag)
-        if (parentKey) {
-          newReplyEventMap.set(parentKey, [...(newReplyEventMap.get(parentKey) || []), reply])
-        }
+      // Top-level comments on external content are keyed by the external content id
+      const parentKey = parentTag ? getEventKeyFromTag(parentTag.tag) : getParentITag(reply)?.[1]
+      if (parentKey) {
+        newReplyEventMap.set(parentKey, [...(newReplyEventMap.get(parentKey) || []), reply])
       }
     })
     if (newReplyEventMap.size === 0) return
@@ -0,0 +1,66 @@
+import { randomString } from '@/lib/random'
+import storage from '@/services/local-storage.service'
+import { TSavedSearch } from '@/types'
+import dayjs from 'dayjs'
+import { createContext, useContext, useState } from 'react'
+
+type TSavedSearchesContext = {
+  savedSearches: TSavedSearch[]
+  saveSearch: (query: string, pinned?: boolean) => void
+  deleteSavedSearch: (id: string) => void
+  setSavedSearchPinned: (id: string, pinned: boolean) => void
+}
+
+const SavedSearchesContext = createContext<TSavedSearchesContext | undefined>(undefined)
+
+export const useSavedSearches = () => {
+  const context = useContext(SavedSearchesContext)
+  if (!context) {
+    throw new Error('useSavedSearches must be used within a SavedSearchesProvider')
+  }
+  return context
+}
+
+export function SavedSearchesProvider({ children }: { children: React.ReactNode }) {
+  const [savedSearches, setSavedSearches] = useState<TSavedSearch[]>(() =>
+    storage.getSavedSearches()
+  )
+
+  const updateSavedSearches = (newSavedSearches: TSavedSearch[]) => {
+    setSavedSearches(newSavedSearches)
+    storage.setSavedSearches(newSavedSearches)
+  }
+
+  const saveSearch = (query: string, pinned = false) => {
+    const trimmedQuery = query.trim()
+    if (savedSearches.some((savedSearch) => savedSearch.query === trimmedQuery)) return
+
+    const savedSearch: TSavedSearch = {
+      id: randomString(),
+      query: trimmedQuery,
+      pinned,
+      createdAt: dayjs().unix()
+    }
+    updateSavedSearches([savedSearch, ...savedSearches])
+  }
+
+  const deleteSavedSearch = (id: string) => {
+    updateSavedSearches(savedSearches.filter((savedSearch) => savedSearch.id !== id))
+  }
+
+  const setSavedSearchPinned = (id: string, pinned: boolean) => {
+    updateSavedSearches(
+      savedSearches.map((savedSearch) =>
+        savedSearch.id === id ? { ...savedSearch, pinned } : savedSearch
+      )
+    )
+  }
+
+  return (
+    <SavedSearchesContext.Provider
+      value={{ savedSearches, saveSearch, deleteSavedSearch, setSavedSearchPinned }}
+    >
+      {children}
+    </SavedSearchesContext.Provider>
+  )
+}
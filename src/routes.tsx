@@ -1,8 +1,16 @@
 import { match } from 'path-to-regexp'
 import { isValidElement } from 'react'
 import AppearanceSettingsPage from './pages/secondary/AppearanceSettingsPage'
+import ArticleEditorPage from './pages/secondary/ArticleEditorPage'
 import BookmarkPage from './pages/secondary/BookmarkPage'
+import CashuWalletPage from './pages/secondary/CashuWalletPage'
+import CommunityZapReceiptsPage from './pages/secondary/CommunityZapReceiptsPage'
 import CreateCommunityPage from './pages/secondary/CreateCommunityPage'
+import DirectMessageConversationPage from './pages/secondary/DirectMessageConversationPage'
+import DirectMessagesPage from './pages/secondary/DirectMessagesPage'
+import DraftsPage from './pages/secondary/DraftsPage'
+import ExternalContentPage from './pages/secondary/ExternalContentPage'
+import FeedCoveragePage from './pages/secondary/FeedCoveragePage'
 import FollowingListPage from './pages/secondary/FollowingListPage'
 import GeneralSettingsPage from './pages/secondary/GeneralSettingsPage'
 import MuteListPage from './pages/secondary/MuteListPage'
@@ -10,23 +18,28 @@ import Nip05CommunityPage from './pages/secondary/Nip05CommunityPage'
 import NoteListPage from './pages/secondary/NoteListPage'
 import NotePage from './pages/secondary/NotePage'
 import OthersRelaySettingsPage from './pages/secondary/OthersRelaySettingsPage'
+import OutboxPage from './pages/secondary/OutboxPage'
 import PostSettingsPage from './pages/secondary/PostSettingsPage'
 import ProfileEditorPage from './pages/secondary/ProfileEditorPage'
 import ProfileListPage from './pages/secondary/ProfileListPage'
 import ProfilePage from './pages/secondary/ProfilePage'
+import RelayAuthSettingsPage from './pages/secondary/RelayAuthSettingsPage'
 import RelayPage from './pages/secondary/RelayPage'
 import RelayReviewsPage from './pages/secondary/RelayReviewsPage'
 import RelaySettingsPage from './pages/secondary/RelaySettingsPage'
 import RizfulPage from './pages/secondary/RizfulPage'
+import ScheduledPostsPage from './pages/secondary/ScheduledPostsPage'
 import SearchPage from './pages/secondary/SearchPage'
 import SettingsPage from './pages/secondary/SettingsPage'
 import TranslationPage from './pages/secondary/TranslationPage'
 import UserAggregationDetailPage from './pages/secondary/UserAggregationDetailPage'
 import WalletPage from './pages/secondary/WalletPage'
+import ZapLedgerPage from './pages/secondary/ZapLedgerPage'
 
 const ROUTES = [
   { path: '/notes', element: <NoteListPage /> },
   { path: '/notes/:id', element: <NotePage /> },
+  { path: '/external/:id', element: <ExternalContentPage /> },
   { path: '/users', element: <ProfileListPage /> },
   { path: '/users/:id', element: <ProfilePage /> },
   { path: '/users/:id/following', element: <FollowingListPage /> },
@@ -36,10 +49,16 @@ const ROUTES = [
   { path: '/relays/:url/reviews', element: <RelayReviewsPage /> },
   { path: '/communities/create', element: <CreateCommunityPage /> },
   { path: '/communities/:domain', element: <Nip05CommunityPage /> },
+  { path: '/communities/:domain/zaps', element: <CommunityZapReceiptsPage /> },
+  { path: '/communities/:domain/coverage', element: <FeedCoveragePage /> },
+  { path: '/feed-coverage', element: <FeedCoveragePage /> },
   { path: '/search', element: <SearchPage /> },
   { path: '/settings', element: <SettingsPage /> },
   { path: '/settings/relays', element: <RelaySettingsPage /> },
+  { path: '/settings/relay-auth', element: <RelayAuthSettingsPage /> },
   { path: '/settings/wallet', element: <WalletPage /> },
+  { path: '/settings/wallet/ledger', element: <ZapLedgerPage /> },
+  { path: '/settings/wallet/cashu', element: <CashuWalletPage /> },
   { path: '/settings/posts', element: <PostSettingsPage /> },
   { path: '/settings/general', element: <GeneralSettingsPage /> },
   { path: '/settings/appearance', element: <AppearanceSettingsPage /> },
@@ -47,7 +66,14 @@ const ROUTES = [
   { path: '/profile-editor', element: <ProfileEditorPage /> },
   { path: '/mutes', element: <MuteListPage /> },
   { path: '/rizful', element: <RizfulPage /> },
-  { path: '/bookmarks', element: <BookmarkPage /> }
+  { path: '/bookmarks', element: <BookmarkPage /> },
+  { path: '/messages', element: <DirectMessagesPage /> },
+  { path: '/messages/:id', element: <DirectMessageConversationPage /> },
+  { path: '/outbox', element: <OutboxPage /> },
+  { path: '/scheduled', element: <ScheduledPostsPage /> },
+  { path: '/drafts', element: <DraftsPage /> },
+  { path: '/articles/new', element: <ArticleEditorPage /> },
+  { path: '/articles/:id/edit', element: <ArticleEditorPage /> }
 ]
 
 export const routes = ROUTES.map(({ path, element }) => ({
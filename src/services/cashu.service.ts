@@ -0,0 +1,68 @@
+import { BIG_RELAY_URLS, ExtendedKind } from '@/constants'
+import { getNutzapInfoFromEvent } from '@/lib/event-metadata'
+import { TNutzapInfo } from '@/types'
+import { CashuMint, CashuWallet } from '@cashu/cashu-ts'
+import { LRUCache } from 'lru-cache'
+import client from './client.service'
+
+class CashuService {
+  static instance: CashuService
+
+  public static getInstance(): CashuService {
+    if (!CashuService.instance) {
+      CashuService.instance = new CashuService()
+    }
+    return CashuService.instance
+  }
+
+  private mintWalletMap = new Map<string, Promise<CashuWallet>>()
+  private nutzapInfoCache = new LRUCache<string, Promise<TNutzapInfo | null>>({
+    max: 500,
+    ttl: 1000 * 60 * 10 // 10 minutes
+  })
+
+  /**
+   * Get a wallet bound to a mint, with its keysets loaded
+   */
+  async getMintWallet(mintUrl: string): Promise<CashuWallet> {
+    let promise = this.mintWalletMap.get(mintUrl)
+    if (!promise) {
+      promise = (async () => {
+        const wallet = new CashuWallet(new CashuMint(mintUrl), { unit: 'sat' })
+        await wallet.loadMint()
+        return wallet
+      })()
+      this.mintWalletMap.set(mintUrl, promise)
+      // Let a later call retry when the mint was unreachable
+      promise.catch(() => this.mintWalletMap.delete(mintUrl))
+    }
+    return promise
+  }
+
+  /**
+   * Fetch how a user accepts nutzaps (kind 10019, NIP-61)
+   */
+  async fetchNutzapInfo(pubkey: string): Promise<TNutzapInfo | null> {
+    let promise = this.nutzapInfoCache.get(pubkey)
+    if (!promise) {
+      promise = (async () => {
+        const relayList = await client.fetchRelayList(pubkey)
+        const events = await client.fetchEvents(relayList.write.concat(BIG_RELAY_URLS), {
+          kinds: [ExtendedKind.NUTZAP_INFO],
+          authors: [pubkey]
+        })
+        const latest = events.sort((a, b) => b.created_at - a.created_at)[0]
+        return latest ? getNutzapInfoFromEvent(latest) : null
+      })()
+      this.nutzapInfoCache.set(pubkey, promise)
+    }
+    return promise
+  }
+
+  clearNutzapInfo(pubkey: string) {
+    this.nutzapInfoCache.delete(pubkey)
+  }
+}
+
+const instance = CashuService.getInstance()
+export default instance
@@ -7,6 +7,11 @@ import {
 } from '@/lib/event'
 import { getProfileFromEvent, getRelayListFromEvent } from '@/lib/event-metadata'
 import { formatPubkey, isValidPubkey, pubkeyToNpub, userIdToPubkey } from '@/lib/pubkey'
+import {
+  groupAuthorsByOutboxRelays,
+  selectOutboxRelays,
+  selectPublishRelays
+} from '@/lib/relay-selection'
 import { getPubkeysFromPTags, getServersFromServerTags, tagNameEquals } from '@/lib/tag'
 import { isLocalNetworkUrl, isWebsocketUrl, normalizeUrl } from '@/lib/url'
 import { isSafari } from '@/lib/utils'
@@ -30,16 +35,27 @@ import {
 } from 'nostr-tools'
 import { AbstractRelay } from 'nostr-tools/abstract-relay'
 import indexedDb from './indexed-db.service'
+import storage from './local-storage.service'
 import nip05CommunityService from './nip05-community.service'
+import publishReceiptService from './publish-receipt.service'
+import relayHealthService from './relay-health.service'
 
 type TTimelineRef = [string, number]
 
+const PERSIST_DELAY = 2000 // 2 seconds
+const MAX_PERSISTED_TIMELINE_REFS = 500
+
 class ClientService extends EventTarget {
   static instance: ClientService
 
   signer?: ISigner
   pubkey?: string
+  /**
+   * Asks the user whether to authenticate to a relay whose policy is "ask"
+   */
+  authConsentHandler?: (url: string) => Promise<boolean>
   private pool: SimplePool
+  private authConsentPromiseMap = new Map<string, Promise<boolean>>()
 
   private timelines: Record<
     string,
@@ -62,6 +78,11 @@ class ClientService extends EventTarget {
     { cache: false, batchScheduleFn: (callback) => setTimeout(callback, 50) }
   )
   private trendingNotesCache: NEvent[] | null = null
+  private pendingStoredEventMap = new Map<string, NEvent>()
+  private dirtyTimelineKeySet = new Set<string>()
+  // Timelines pieced together from stored events while offline have gaps, they live in memory only
+  private offlineTimelineKeySet = new Set<string>()
+  private persistTimer: ReturnType<typeof setTimeout> | null = null
 
   private userIndex = new FlexSearch.Index({
     tokenize: 'forward'
@@ -71,6 +92,11 @@ class ClientService extends EventTarget {
     super()
     this.pool = new SimplePool()
     this.pool.trackRelays = true
+    // Answer AUTH challenges right away for relays the user always allows
+    this.pool.automaticallyAuth = (url: string) =>
+      storage.getRelayAuthPolicy(url) === 'always' && this.signer
+        ? (authEvt: EventTemplate) => this.signAutomaticAuthEvent(url, authEvt)
+        : null
   }
 
   public static getInstance(): ClientService {
@@ -82,6 +108,12 @@ class ClientService extends EventTarget {
   }
 
   async init() {
+    // Write pending events and timelines before the app may be killed in the background
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.persist()
+      }
+    })
     await indexedDb.iterateProfileEvents((profileEvent) => this.addUsernameToIndex(profileEvent))
   }
 
@@ -96,53 +128,44 @@ class ClientService extends EventTarget {
       }
     }
 
-    let relays: string[]
     if (specifiedRelayUrls?.length) {
-      relays = specifiedRelayUrls
-    } else {
-      const _additionalRelayUrls: string[] = additionalRelayUrls ?? []
-      if (!specifiedRelayUrls?.length && ![kinds.Contacts, kinds.Mutelist].includes(event.kind)) {
-        const mentions: string[] = []
-        event.tags.forEach(([tagName, tagValue]) => {
-          if (
-            ['p', 'P'].includes(tagName) &&
-            !!tagValue &&
-            isValidPubkey(tagValue) &&
-            !mentions.includes(tagValue)
-          ) {
-            mentions.push(tagValue)
-          }
-        })
-        if (mentions.length > 0) {
-          const relayLists = await this.fetchRelayLists(mentions)
-          relayLists.forEach((relayList) => {
-            _additionalRelayUrls.push(...relayList.read.slice(0, 4))
-          })
-        }
-      }
-      if (
-        [
-          kinds.RelayList,
-          kinds.Contacts,
-          ExtendedKind.FAVORITE_RELAYS,
-          ExtendedKind.BLOSSOM_SERVER_LIST,
-          ExtendedKind.RELAY_REVIEW
-        ].includes(event.kind)
-      ) {
-        _additionalRelayUrls.push(...BIG_RELAY_URLS)
-      }
-
-      const relayList = await this.fetchRelayList(event.pubkey)
-      relays = (relayList?.write.slice(0, 10) ?? []).concat(
-        Array.from(new Set(_additionalRelayUrls)) ?? []
-      )
+      return specifiedRelayUrls
     }
 
-    if (!relays.length) {
-      relays.push(...BIG_RELAY_URLS)
+    const mentions: string[] = []
+    if (![kinds.Contacts, kinds.Mutelist].includes(event.kind)) {
+      event.tags.forEach(([tagName, tagValue]) => {
+        if (
+          ['p', 'P'].includes(tagName) &&
+          !!tagValue &&
+          isValidPubkey(tagValue) &&
+          !mentions.includes(tagValue)
+        ) {
+          mentions.push(tagValue)
+        }
+      })
+    }
+    const _additionalRelayUrls: string[] = additionalRelayUrls ?? []
+    if (
+      [
+        kinds.RelayList,
+        kinds.Contacts,
+        ExtendedKind.FAVORITE_RELAYS,
+        ExtendedKind.BLOSSOM_SERVER_LIST,
+        ExtendedKind.RELAY_REVIEW
+      ].includes(event.kind)
+    ) {
+      _additionalRelayUrls.push(...BIG_RELAY_URLS)
     }
 
-    return relays
+    const [relayList, recipientRelayLists] = await Promise.all([
+      this.fetchRelayList(event.pubkey),
+      mentions.length > 0 ? this.fetchRelayLists(mentions) : []
+    ])
+    return selectPublishRelays(relayList, {
+      recipientRelayLists,
+      additionalRelayUrls: _additionalRelayUrls
+    })
   }
 
   async publishEvent(relayUrls: string[], event: NEvent) {
@@ -151,56 +174,146 @@ class ClientService extends EventTarget {
       let successCount = 0
       let finishedCount = 0
       const errors: { url: string; error: any }[] = []
+      const onFinished = () => {
+        // If one third of the relays have accepted the event, consider it a success
+        const isSuccess = successCount >= uniqueRelayUrls.length / 3
+        if (isSuccess) {
+          this.emitNewEvent(event)
+          resolve()
+        }
+        if (++finishedCount >= uniqueRelayUrls.length) {
+          reject(
+            new AggregateError(
+              errors.map(
+                ({ url, error }) =>
+                  new Error(`${url}: ${error instanceof Error ? error.message : String(error)}`)
+              )
+            )
+          )
+        }
+      }
+      const onAccepted = (url: string, relay: AbstractRelay, message: string) => {
+        this.trackEventSeenOn(event.id, relay)
+        publishReceiptService.record(event.id, url, 'success', message)
+        relayHealthService.recordPublish(url, true)
+        successCount++
+      }
+      const onRejected = (url: string, error: any) => {
+        const message = error instanceof Error ? error.message : String(error)
+        errors.push({ url, error })
+        publishReceiptService.record(event.id, url, 'failed', message)
+        relayHealthService.recordPublish(url, false, message)
+      }
+      publishReceiptService.start(event.id, uniqueRelayUrls)
       Promise.allSettled(
         uniqueRelayUrls.map(async (url) => {
           // eslint-disable-next-line @typescript-eslint/no-this-alias
           const that = this
-          const relay = await this.pool.ensureRelay(url)
+          let relay: AbstractRelay
+          try {
+            relay = await this.connectRelay(url)
+          } catch (error) {
+            // Unreachable relays (e.g. while offline) must still settle the publish
+            onRejected(url, error)
+            return onFinished()
+          }
           relay.publishTimeout = 10_000 // 10s
           return relay
             .publish(event)
-            .then(() => {
-              this.trackEventSeenOn(event.id, relay)
-              successCount++
-            })
+            .then((message) => onAccepted(url, relay, message))
             .catch((error) => {
-              if (
-                error instanceof Error &&
-                error.message.startsWith('auth-required') &&
-                !!that.signer
-              ) {
-                return relay
-                  .auth((authEvt: EventTemplate) => that.signer!.signEvent(authEvt))
-                  .then(() => relay.publish(event))
+              if (error instanceof Error && error.message.startsWith('auth-required')) {
+                return that
+                  .authenticate(relay)
+                  .then((authed) => {
+                    if (!authed) throw error
+                    return relay.publish(event)
+                  })
+                  .then((message) => onAccepted(url, relay, message))
+                  .catch((authError) => onRejected(url, authError))
               } else {
-                errors.push({ url, error })
-              }
-            })
-            .finally(() => {
-              // If one third of the relays have accepted the event, consider it a success
-              const isSuccess = successCount >= uniqueRelayUrls.length / 3
-              if (isSuccess) {
-                this.emitNewEvent(event)
-                resolve()
-              }
-              if (++finishedCount >= uniqueRelayUrls.length) {
-                reject(
-                  new AggregateError(
-                    errors.map(
-                      ({ url, error }) =>
-                        new Error(
-                          `${url}: ${error instanceof Error ? error.message : String(error)}`
-                        )
-                    )
-                  )
-                )
+                onRejected(url, error)
               }
             })
+            .finally(onFinished)
         })
       )
     })
   }
 
+  /**
+   * Connect to a relay, recording how long a new connection took or why it failed
+   */
+  private async connectRelay(url: string, params?: { connectionTimeout?: number }) {
+    if (this.pool.listConnectionStatus().get(normalizeUrl(url))) {
+      return this.pool.ensureRelay(url, params)
+    }
+
+    const startedAt = Date.now()
+    try {
+      const relay = await this.pool.ensureRelay(url, params)
+      relayHealthService.recordConnection(url, Date.now() - startedAt)
+      return relay
+    } catch (error) {
+      relayHealthService.recordConnectionFailure(url, error)
+      throw error
+    }
+  }
+
+  /**
+   * Answer the relay's AUTH challenge (NIP-42) if the user's policy for it allows.
+   * Returns false when authentication was declined.
+   */
+  async authenticate(relay: AbstractRelay) {
+    if (!this.signer) return false
+
+    const url = relay.url
+    const allowed = await this.requestAuthConsent(url)
+    if (!allowed) return false
+
+    await relay.auth((authEvt: EventTemplate) => this.signAuthEvent(authEvt))
+    storage.markRelayAuthenticated(url, dayjs().unix())
+    return true
+  }
+
+  private async requestAuthConsent(url: string) {
+    const policy = storage.getRelayAuthPolicy(url)
+    if (policy !== 'ask') return policy === 'always'
+    if (!this.authConsentHandler) return false
+
+    // Several subscriptions may hit the same relay at once, only ask once
+    let promise = this.authConsentPromiseMap.get(url)
+    if (!promise) {
+      promise = this.authConsentHandler(url).finally(() => {
+        this.authConsentPromiseMap.delete(url)
+      })
+      this.authConsentPromiseMap.set(url, promise)
+    }
+    return promise
+  }
+
+  private async signAuthEvent(authEvt: EventTemplate) {
+    if (!this.signer) {
+      throw new Error('Not logged in')
+    }
+    const evt = await this.signer.signEvent(authEvt)
+    if (!evt) {
+      throw new Error('sign event failed')
+    }
+    return evt as VerifiedEvent
+  }
+
+  private async signAutomaticAuthEvent(url: string, authEvt: EventTemplate) {
+    const evt = await this.signAuthEvent(authEvt)
+    // The pool doesn't expose the relay's answer, but relay.auth() hands back the AUTH in flight
+    this.pool
+      .ensureRelay(url)
+      .then((relay) => relay.auth((authEvt: EventTemplate) => this.signAuthEvent(authEvt)))
+      .then(() => storage.markRelayAuthenticated(url, dayjs().unix()))
+      .catch(() => {})
+    return evt
+  }
+
   emitNewEvent(event: NEvent) {
     this.dispatchEvent(new CustomEvent('newEvent', { detail: event }))
   }
@@ -371,6 +484,7 @@ class ClientService extends EventTarget {
   ) {
     const relays = Array.from(new Set(urls))
     const filters = Array.isArray(filter) ? filter : [filter]
+    const eoseTimeout = 10_000 // 10s
 
     // eslint-disable-next-line @typescript-eslint/no-this-alias
     const that = this
@@ -386,9 +500,19 @@ class ClientService extends EventTarget {
 
       subPromises.push(startSub())
 
+      // close the subscription
+      function handleClose(reason: string) {
+        closedCount++
+        closeReasons.push(reason)
+        onclose?.(url, reason)
+        if (closedCount >= startedCount) {
+          onAllClose?.(closeReasons)
+        }
+      }
+
       async function startSub() {
         startedCount++
-        const relay = await that.pool.ensureRelay(url, { connectionTimeout: 5000 }).catch(() => {
+        const relay = await that.connectRelay(url, { connectionTimeout: 5000 }).catch(() => {
           return undefined
         })
         // cannot connect to relay
@@ -403,6 +527,7 @@ class ClientService extends EventTarget {
           }
         }
 
+        const subscribedAt = Date.now()
         return relay.subscribe(filters, {
           receivedEvent: (relay, id) => {
             that.trackEventSeenOn(id, relay)
@@ -419,6 +544,9 @@ class ClientService extends EventTarget {
             onevent?.(evt)
           },
           oneose: () => {
+            const eoseTime = Date.now() - subscribedAt
+            relayHealthService.recordEose(url, eoseTime, eoseTime >= eoseTimeout)
+
             // make sure eosed is not called multiple times
             if (eosed) return
 
@@ -427,19 +555,17 @@ class ClientService extends EventTarget {
             oneose?.(eosed)
           },
           onclose: (reason: string) => {
+            relayHealthService.recordClose(url, reason)
+
             // auth-required
             if (reason.startsWith('auth-required') && !hasAuthed) {
               // already logged in
               if (that.signer) {
-                relay
-                  .auth(async (authEvt: EventTemplate) => {
-                    const evt = await that.signer!.signEvent(authEvt)
-                    if (!evt) {
-                      throw new Error('sign event failed')
-                    }
-                    return evt as VerifiedEvent
-                  })
-                  .then(() => {
+                that
+                  .authenticate(relay)
+                  .then((authed) => {
+                    if (!authed) return handleClose(reason)
+
                     hasAuthed = true
                     if (!eosed) {
                       subPromises.push(startSub())
@@ -458,16 +584,9 @@ class ClientService extends EventTarget {
               }
             }
 
-            // close the subscription
-            closedCount++
-            closeReasons.push(reason)
-            onclose?.(url, reason)
-            if (closedCount >= startedCount) {
-              onAllClose?.(closeReasons)
-            }
-            return
+            handleClose(reason)
           },
-          eoseTimeout: 10_000 // 10s
+          eoseTimeout
         })
       }
     })
@@ -525,6 +644,13 @@ class ClientService extends EventTarget {
   ) {
     const relays = Array.from(new Set(urls))
     const key = this.generateTimelineKey(relays, filter)
+    if (this.offlineTimelineKeySet.has(key) && navigator.onLine) {
+      this.offlineTimelineKeySet.delete(key)
+      delete this.timelines[key]
+    }
+    if (!this.timelines[key] && needSort) {
+      await this.restoreTimeline(key, urls, filter)
+    }
     const timeline = this.timelines[key]
     let cachedEvents: NEvent[] = []
     let since: number | undefined
@@ -577,6 +703,7 @@ class ClientService extends EventTarget {
 
         // insert the event to the right position
         timeline.refs.splice(idx, 0, [evt.id, evt.created_at])
+        that.markTimelineDirty(key)
       },
       oneose: (eosed) => {
         if (eosed && !eosedAt) {
@@ -600,8 +727,10 @@ class ClientService extends EventTarget {
             filter,
             urls
           }
+          that.markTimelineDirty(key)
           return onEvents([...events], true)
         }
+        that.markTimelineDirty(key)
 
         // Prevent concurrent requests from duplicating the same event
         const firstRefCreatedAt = timeline.refs[0][1]
@@ -653,6 +782,11 @@ class ClientService extends EventTarget {
     until = cachedEvents.length ? cachedEvents[cachedEvents.length - 1].created_at - 1 : until
     limit = limit - cachedEvents.length
     let events = await this.query(urls, { ...filter, until, limit })
+    // Relays are unreachable while offline, fall back to the events stored by earlier sessions
+    if (events.length === 0 && !navigator.onLine) {
+      events = await indexedDb.getEventsByFilter({ ...filter, until, limit }).catch(() => [])
+      this.offlineTimelineKeySet.add(key)
+    }
     events.forEach((evt) => {
       this.addEventToCache(evt)
     })
@@ -665,9 +799,86 @@ class ClientService extends EventTarget {
         .filter((evt) => evt.created_at < lastRefCreatedAt)
         .map((evt) => [evt.id, evt.created_at] as TTimelineRef)
     )
+    this.markTimelineDirty(key)
     return [...cachedEvents, ...events]
   }
 
+  /**
+   * Bring back a timeline from the local event store so it shows up before relays respond
+   */
+  private async restoreTimeline(key: string, urls: string[], filter: TSubRequestFilter) {
+    try {
+      const persistedTimeline = await indexedDb.getTimeline(key)
+      if (this.timelines[key]) return
+
+      if (persistedTimeline) {
+        const { refs, filter, urls } = persistedTimeline
+        this.timelines[key] = { refs, filter, urls }
+        return
+      }
+
+      // Never persisted, the stored events matching the filter are the best we have while offline
+      if (!navigator.onLine) {
+        const events = await indexedDb.getEventsByFilter(filter)
+        if (this.timelines[key] || events.length === 0) return
+
+        events.forEach((evt) => this.eventDataLoader.prime(evt.id, evt))
+        this.offlineTimelineKeySet.add(key)
+        this.timelines[key] = {
+          refs: events.map((evt) => [evt.id, evt.created_at]),
+          filter,
+          urls
+        }
+      }
+    } catch (error) {
+      console.error('Failed to restore timeline', error)
+    }
+  }
+
+  private markTimelineDirty(key: string) {
+    if (this.offlineTimelineKeySet.has(key)) return
+
+    this.dirtyTimelineKeySet.add(key)
+    this.schedulePersist()
+  }
+
+  private schedulePersist() {
+    if (this.persistTimer) return
+
+    this.persistTimer = setTimeout(() => this.persist(), PERSIST_DELAY)
+  }
+
+  private persist() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer)
+      this.persistTimer = null
+    }
+
+    const events = Array.from(this.pendingStoredEventMap.values())
+    this.pendingStoredEventMap.clear()
+    indexedDb.putEvents(events).catch((error) => {
+      console.error('Failed to store events', error)
+    })
+
+    const keys = Array.from(this.dirtyTimelineKeySet)
+    this.dirtyTimelineKeySet.clear()
+    keys.forEach((key) => {
+      const timeline = this.timelines[key]
+      if (!timeline || Array.isArray(timeline) || this.offlineTimelineKeySet.has(key)) return
+
+      indexedDb
+        .putTimeline({
+          key,
+          refs: timeline.refs.slice(0, MAX_PERSISTED_TIMELINE_REFS),
+          filter: timeline.filter,
+          urls: timeline.urls
+        })
+        .catch((error) => {
+          console.error('Failed to store timeline', error)
+        })
+    })
+  }
+
   /** =========== Event =========== */
 
   getSeenEventRelays(eventId: string) {
@@ -803,6 +1014,10 @@ class ClientService extends EventTarget {
 
   addEventToCache(event: NEvent) {
     this.eventDataLoader.prime(event.id, Promise.resolve(event))
+    if (!kinds.isEphemeralKind(event.kind)) {
+      this.pendingStoredEventMap.set(event.id, event)
+      this.schedulePersist()
+    }
     if (isReplaceableEvent(event.kind)) {
       const coordinate = getReplaceableCoordinateFromEvent(event)
       const cachedEvent = this.replaceableEventCacheMap.get(coordinate)
@@ -857,12 +1072,21 @@ class ClientService extends EventTarget {
 
     let event: NEvent | undefined
     if (filter.ids?.length) {
-      event = await this.fetchEventById(relays, filter.ids[0])
+      // Events are immutable, a stored copy is as good as a fresh one
+      event =
+        (await indexedDb.getEvent(filter.ids[0]).catch(() => null)) ??
+        (await this.fetchEventById(relays, filter.ids[0]))
     }
 
     if (!event && author) {
       const relayList = await this.fetchRelayList(author)
-      event = await this.tryHarderToFetchEvent(relayList.write.slice(0, 5), filter)
+      event = await this.tryHarderToFetchEvent(selectOutboxRelays(relayList, { limit: 5 }), filter)
+    }
+
+    // The latest version may be unreachable, an older stored one keeps the thread readable
+    if (!event && !filter.ids?.length) {
+      const [storedEvent] = await indexedDb.getEventsByFilter(filter).catch(() => [])
+      event = storedEvent
     }
 
     if (event && event.id !== id) {
@@ -879,9 +1103,9 @@ class ClientService extends EventTarget {
   ) {
     if (!relayUrls.length && filter.authors?.length) {
       const relayList = await this.fetchRelayList(filter.authors[0])
-      relayUrls = alreadyFetchedFromBigRelays
-        ? relayList.write.filter((url) => !BIG_RELAY_URLS.includes(url)).slice(0, 4)
-        : relayList.write.slice(0, 4)
+      relayUrls = selectOutboxRelays(relayList, {
+        excludeRelayUrls: alreadyFetchedFromBigRelays ? BIG_RELAY_URLS : []
+      })
     } else if (!relayUrls.length && !alreadyFetchedFromBigRelays) {
       relayUrls = BIG_RELAY_URLS
     }
@@ -1378,37 +1602,9 @@ class ClientService extends EventTarget {
     }
 
     const relayLists = await this.fetchRelayLists(pubkeys)
-    const group: Record<string, Set<string>> = {}
-    relayLists.forEach((relayList, index) => {
-      relayList.write.slice(0, 4).forEach((url) => {
-        if (!group[url]) {
-          group[url] = new Set()
-        }
-        group[url].add(pubkeys[index])
-      })
-    })
-
-    const relayCount = Object.keys(group).length
-    const coveredCount = new Map<string, number>()
-    Object.entries(group)
-      .sort(([, a], [, b]) => b.size - a.size)
-      .forEach(([url, pubkeys]) => {
-        if (
-          relayCount > 10 &&
-          pubkeys.size < 10 &&
-          Array.from(pubkeys).every((pubkey) => (coveredCount.get(pubkey) ?? 0) >= 2)
-        ) {
-          delete group[url]
-        } else {
-          pubkeys.forEach((pubkey) => {
-            coveredCount.set(pubkey, (coveredCount.get(pubkey) ?? 0) + 1)
-          })
-        }
-      })
-
-    return Object.entries(group).map(([url, authors]) => ({
+    return groupAuthorsByOutboxRelays(pubkeys, relayLists).map(({ url, authors }) => ({
       urls: [url],
-      filter: { authors: Array.from(authors) }
+      filter: { authors }
     }))
   }
 
@@ -0,0 +1,108 @@
+import { BIG_RELAY_URLS, ExtendedKind } from '@/constants'
+import { getCommunityRoleListFromEvent } from '@/lib/community'
+import { TCommunityRoles } from '@/types'
+import { LRUCache } from 'lru-cache'
+import { Event } from 'nostr-tools'
+import client from './client.service'
+import nip05CommunityService from './nip05-community.service'
+
+const CACHE_EXPIRATION = 1000 * 60 * 10 // 10 minutes
+
+class CommunityRolesService {
+  static instance: CommunityRolesService
+
+  public static getInstance(): CommunityRolesService {
+    if (!CommunityRolesService.instance) {
+      CommunityRolesService.instance = new CommunityRolesService()
+    }
+    return CommunityRolesService.instance
+  }
+
+  private rolesCache = new LRUCache<string, Promise<TCommunityRoles>>({
+    max: 100,
+    ttl: CACHE_EXPIRATION
+  })
+
+  /**
+   * Get the admins and moderators of a domain community.
+   * The first pubkey in nostr.json is the owner. Additional roles come from
+   * community.json and from the latest role list event signed by a trusted admin.
+   */
+  async getRoles(domain: string): Promise<TCommunityRoles> {
+    const cached = this.rolesCache.get(domain)
+    if (cached) return cached
+
+    const promise = this._getRoles(domain).catch((error) => {
+      console.error('[CommunityRolesService] Error fetching roles:', domain, error)
+      this.rolesCache.delete(domain)
+      return { domain, admins: [], moderators: [] } as TCommunityRoles
+    })
+    this.rolesCache.set(domain, promise)
+    return promise
+  }
+
+  /**
+   * Drop cached roles and fetch them again
+   */
+  async refreshRoles(domain: string): Promise<TCommunityRoles> {
+    this.rolesCache.delete(domain)
+    return this.getRoles(domain)
+  }
+
+  /**
+   * Fetch the latest role list event for a domain, signed by one of the given admins
+   */
+  async fetchRoleListEvent(domain: string, trustedAdmins: string[]): Promise<Event | undefined> {
+    if (trustedAdmins.length === 0) return undefined
+
+    const relayLists = await client.fetchRelayLists(trustedAdmins)
+    const relays = relayLists.flatMap((relayList) => relayList.write.slice(0, 4))
+    const events = await client.fetchEvents(relays.concat(BIG_RELAY_URLS), {
+      kinds: [ExtendedKind.COMMUNITY_ROLE_LIST],
+      authors: trustedAdmins,
+      '#d': [domain]
+    })
+    return events.sort((a, b) => b.created_at - a.created_at)[0]
+  }
+
+  private async _getRoles(domain: string): Promise<TCommunityRoles> {
+    const [members, info] = await Promise.all([
+      nip05CommunityService.getDomainMembers(domain),
+      nip05CommunityService.getDomainInfo(domain)
+    ])
+    const owner = members[0]
+    if (!owner) {
+      return { domain, admins: [], moderators: [] }
+    }
+
+    // Only the owner and admins declared by the domain itself may publish role lists
+    const trustedAdmins = Array.from(new Set([owner, ...(info?.admins ?? [])]))
+    const roleListEvent = await this.fetchRoleListEvent(domain, trustedAdmins)
+    const roleList = roleListEvent
+      ? getCommunityRoleListFromEvent(roleListEvent)
+      : { admins: [], moderators: [] }
+
+    return this.mergeRoles(
+      domain,
+      owner,
+      [info?.admins ?? [], roleList.admins],
+      [info?.moderators ?? [], roleList.moderators]
+    )
+  }
+
+  private mergeRoles(
+    domain: string,
+    owner: string | undefined,
+    adminLists: string[][],
+    moderatorLists: string[][]
+  ): TCommunityRoles {
+    const admins = Array.from(new Set([...(owner ? [owner] : []), ...adminLists.flat()]))
+    const moderators = Array.from(new Set(moderatorLists.flat())).filter(
+      (pubkey) => !admins.includes(pubkey)
+    )
+    return { domain, owner, admins, moderators }
+  }
+}
+
+const instance = CommunityRolesService.getInstance()
+export default instance
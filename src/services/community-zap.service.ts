@@ -0,0 +1,67 @@
+import { randomString } from '@/lib/random'
+import { TCommunityZapLeg, TCommunityZapReceipt } from '@/types'
+import indexedDb from './indexed-db.service'
+import lightning from './lightning.service'
+
+class CommunityZapService {
+  static instance: CommunityZapService
+
+  public static getInstance(): CommunityZapService {
+    if (!CommunityZapService.instance) {
+      CommunityZapService.instance = new CommunityZapService()
+    }
+    return CommunityZapService.instance
+  }
+
+  /**
+   * Zap every leg one after another and keep a receipt of the outcome.
+   * A failed leg doesn't stop the others from being paid.
+   */
+  async zap(
+    sender: string,
+    domain: string,
+    legs: Pick<TCommunityZapLeg, 'pubkey' | 'role' | 'sats'>[],
+    comment: string,
+    onProgress?: (index: number, leg?: TCommunityZapLeg) => void
+  ): Promise<TCommunityZapReceipt> {
+    const paidLegs: TCommunityZapLeg[] = []
+    for (const [index, leg] of legs.entries()) {
+      onProgress?.(index)
+      let paidLeg: TCommunityZapLeg
+      try {
+        const zapResult = await lightning.zap(sender, leg.pubkey, leg.sats, comment)
+        paidLeg = { ...leg, status: zapResult ? 'success' : 'cancelled' }
+      } catch (error) {
+        paidLeg = { ...leg, status: 'failed', error: (error as Error).message }
+      }
+      paidLegs.push(paidLeg)
+      onProgress?.(index, paidLeg)
+    }
+
+    const receipt: TCommunityZapReceipt = {
+      id: randomString(),
+      domain,
+      sats: paidLegs
+        .filter(({ status }) => status === 'success')
+        .reduce((sum, leg) => sum + leg.sats, 0),
+      attemptedSats: paidLegs.reduce((sum, leg) => sum + leg.sats, 0),
+      comment,
+      legs: paidLegs,
+      createdAt: Date.now()
+    }
+    await indexedDb.putCommunityZapReceipt(receipt).catch((error) => {
+      console.error('[CommunityZapService] Failed to store receipt:', error)
+    })
+    return receipt
+  }
+
+  async getReceipts(domain: string): Promise<TCommunityZapReceipt[]> {
+    const receipts = await indexedDb.getAllCommunityZapReceipts()
+    return receipts
+      .filter((receipt) => receipt.domain === domain)
+      .sort((a, b) => b.createdAt - a.createdAt)
+  }
+}
+
+const instance = CommunityZapService.getInstance()
+export default instance
@@ -0,0 +1,217 @@
+import { BIG_RELAY_URLS } from '@/constants'
+import { tagNameEquals } from '@/lib/tag'
+import { isWebsocketUrl, normalizeUrl } from '@/lib/url'
+import { TDirectMessage, TDraftEvent } from '@/types'
+import dayjs from 'dayjs'
+import { LRUCache } from 'lru-cache'
+import {
+  Event,
+  finalizeEvent,
+  generateSecretKey,
+  getEventHash,
+  kinds,
+  nip44,
+  UnsignedEvent,
+  VerifiedEvent,
+  verifyEvent
+} from 'nostr-tools'
+import client from './client.service'
+
+const CACHE_EXPIRATION = 1000 * 60 * 10 // 10 minutes
+const MAX_TIMESTAMP_TWEAK = 60 * 60 * 24 * 2 // 2 days
+
+type TSealSigner = {
+  signEvent: (draftEvent: TDraftEvent) => Promise<VerifiedEvent>
+  nip44Encrypt: (pubkey: string, plainText: string) => Promise<string>
+}
+
+type TRumor = UnsignedEvent & { id: string }
+
+class DirectMessageService {
+  static instance: DirectMessageService
+
+  public static getInstance(): DirectMessageService {
+    if (!DirectMessageService.instance) {
+      DirectMessageService.instance = new DirectMessageService()
+    }
+    return DirectMessageService.instance
+  }
+
+  private dmRelaysCache = new LRUCache<string, Promise<string[]>>({
+    max: 500,
+    ttl: CACHE_EXPIRATION
+  })
+  private unwrapCache = new LRUCache<string, Promise<TDirectMessage | null>>({ max: 5000 })
+
+  /**
+   * Fetch the relays a user wants to receive direct messages on (kind 10050)
+   */
+  async fetchDmRelays(pubkey: string): Promise<string[]> {
+    const cached = this.dmRelaysCache.get(pubkey)
+    if (cached) return cached
+
+    const promise = this._fetchDmRelays(pubkey).catch((error) => {
+      console.error('[DirectMessageService] Error fetching DM relays:', pubkey, error)
+      this.dmRelaysCache.delete(pubkey)
+      return [] as string[]
+    })
+    this.dmRelaysCache.set(pubkey, promise)
+    return promise
+  }
+
+  /**
+   * Relays to deliver gift wraps to. Falls back to the user's read relays
+   * when they haven't published a DM relay list yet, so they are still reachable.
+   */
+  async getInboxRelays(pubkey: string): Promise<string[]> {
+    const dmRelays = await this.fetchDmRelays(pubkey)
+    if (dmRelays.length) return dmRelays
+
+    const relayList = await client.fetchRelayList(pubkey)
+    return relayList.read.slice(0, 4).concat(BIG_RELAY_URLS)
+  }
+
+  /**
+   * Seal the message with the sender's key and gift-wrap it for every participant,
+   * then publish each copy to that participant's DM relays.
+   */
+  async sendMessage(
+    draftEvent: TDraftEvent,
+    senderPubkey: string,
+    signer: TSealSigner
+  ): Promise<TDirectMessage> {
+    const recipientPubkey = draftEvent.tags.find(tagNameEquals('p'))?.[1]
+    if (!recipientPubkey) {
+      throw new Error('Direct message has no recipient')
+    }
+
+    const unsignedRumor: UnsignedEvent = { ...draftEvent, pubkey: senderPubkey }
+    const rumor: TRumor = { ...unsignedRumor, id: getEventHash(unsignedRumor) }
+
+    const recipientGiftWrap = await this.wrap(rumor, recipientPubkey, signer)
+    const recipientRelays = await this.getInboxRelays(recipientPubkey)
+    await client.publishEvent(recipientRelays, recipientGiftWrap)
+
+    // Keep a copy for ourselves so the conversation shows up on other devices
+    if (recipientPubkey !== senderPubkey) {
+      const senderGiftWrap = await this.wrap(rumor, senderPubkey, signer)
+      const senderRelays = await this.getInboxRelays(senderPubkey)
+      client.publishEvent(senderRelays, senderGiftWrap).catch((error) => {
+        console.error('[DirectMessageService] Failed to store own copy:', error)
+      })
+    }
+
+    return this.toDirectMessage(rumor, senderPubkey)!
+  }
+
+  /**
+   * Open a gift wrap addressed to the account. Returns null for anything that
+   * isn't a valid one-to-one kind 14 message.
+   */
+  async unwrap(
+    giftWrap: Event,
+    accountPubkey: string,
+    nip44Decrypt: (pubkey: string, cipherText: string) => Promise<string>
+  ): Promise<TDirectMessage | null> {
+    const key = `${accountPubkey}:${giftWrap.id}`
+    const cached = this.unwrapCache.get(key)
+    if (cached) return cached
+
+    const promise = this._unwrap(giftWrap, accountPubkey, nip44Decrypt)
+    this.unwrapCache.set(key, promise)
+    return promise
+  }
+
+  private async _fetchDmRelays(pubkey: string) {
+    const relayList = await client.fetchRelayList(pubkey)
+    const events = await client.fetchEvents(relayList.write.slice(0, 4).concat(BIG_RELAY_URLS), {
+      kinds: [kinds.DirectMessageRelaysList],
+      authors: [pubkey]
+    })
+    if (events.length === 0) return []
+
+    const latest = events.reduce((a, b) => (a.created_at > b.created_at ? a : b))
+    const relays = latest.tags
+      .filter(tagNameEquals('relay'))
+      .map(([, url]) => url)
+      .filter((url) => url && isWebsocketUrl(url))
+      .map((url) => normalizeUrl(url))
+    return Array.from(new Set(relays))
+  }
+
+  private async wrap(rumor: TRumor, recipientPubkey: string, signer: TSealSigner) {
+    const seal = await signer.signEvent({
+      kind: kinds.Seal,
+      content: await signer.nip44Encrypt(recipientPubkey, JSON.stringify(rumor)),
+      tags: [],
+      created_at: this.randomPastTimestamp()
+    })
+
+    // Gift wraps are signed by a throwaway key so relays can't link them to the sender
+    const wrapKey = generateSecretKey()
+    return finalizeEvent(
+      {
+        kind: kinds.GiftWrap,
+        content: nip44.encrypt(
+          JSON.stringify(seal),
+          nip44.getConversationKey(wrapKey, recipientPubkey)
+        ),
+        tags: [['p', recipientPubkey]],
+        created_at: this.randomPastTimestamp()
+      },
+      wrapKey
+    )
+  }
+
+  private async _unwrap(
+    giftWrap: Event,
+    accountPubkey: string,
+    nip44Decrypt: (pubkey: string, cipherText: string) => Promise<string>
+  ) {
+    if (giftWrap.kind !== kinds.GiftWrap) return null
+
+    try {
+      const seal = JSON.parse(await nip44Decrypt(giftWrap.pubkey, giftWrap.content)) as Event
+      if (seal.kind !== kinds.Seal || !verifyEvent(seal)) return null
+
+      const rumor = JSON.parse(await nip44Decrypt(seal.pubkey, seal.content)) as TRumor
+      // The rumor must be authored by whoever signed the seal
+      if (rumor.pubkey !== seal.pubkey) return null
+
+      return this.toDirectMessage(rumor, accountPubkey)
+    } catch (error) {
+      console.error('[DirectMessageService] Failed to unwrap gift wrap:', giftWrap.id, error)
+      return null
+    }
+  }
+
+  private toDirectMessage(rumor: TRumor, accountPubkey: string): TDirectMessage | null {
+    if (rumor.kind !== kinds.PrivateDirectMessage || typeof rumor.content !== 'string') {
+      return null
+    }
+
+    // Group conversations are not supported yet
+    const recipients = Array.from(
+      new Set(rumor.tags.filter(tagNameEquals('p')).map(([, pubkey]) => pubkey))
+    )
+    if (recipients.length !== 1) return null
+
+    const peerPubkey = rumor.pubkey === accountPubkey ? recipients[0] : rumor.pubkey
+    if (rumor.pubkey !== accountPubkey && recipients[0] !== accountPubkey) return null
+
+    return {
+      id: rumor.id,
+      pubkey: rumor.pubkey,
+      peerPubkey,
+      content: rumor.content,
+      created_at: rumor.created_at
+    }
+  }
+
+  private randomPastTimestamp() {
+    return dayjs().unix() - Math.floor(Math.random() * MAX_TIMESTAMP_TWEAK)
+  }
+}
+
+const instance = DirectMessageService.getInstance()
+export default instance
@@ -1,12 +1,22 @@
 import { ExtendedKind } from '@/constants'
 import { tagNameEquals } from '@/lib/tag'
 import {
+  TCommunityZapReceipt,
   TNip05Community,
   TNip05CommunitySet,
   TNip05DomainInfo,
-  TRelayInfo
+  TOutboxItem,
+  TPendingCashuReceipt,
+  TPendingNutzap,
+  TPersistedTimeline,
+  TPostDraft,
+  TPublishReceipt,
+  TRelayHealth,
+  TRelayInfo,
+  TScheduledPost,
+  TZapPayment
 } from '@/types'
-import { Event, kinds } from 'nostr-tools'
+import { Event, Filter, kinds, matchFilter } from 'nostr-tools'
 
 type TValue<T = any> = {
   key: string
@@ -14,6 +24,14 @@ type TValue<T = any> = {
   addedAt: number
 }
 
+type TEventValue = TValue<Event> & {
+  // "<tag name>:<tag value>" of the single-letter tags, for #x filters
+  tagKeys: string[]
+}
+
+const MAX_STORED_EVENTS = 10_000
+const EVICTION_CHECK_INTERVAL = 1_000 // writes
+
 const StoreNames = {
   PROFILE_EVENTS: 'profileEvents',
   RELAY_LIST_EVENTS: 'relayListEvents',
@@ -32,7 +50,18 @@ const StoreNames = {
   RELAY_INFO_EVENTS: 'relayInfoEvents', // deprecated
   NIP05_COMMUNITIES: 'nip05Communities',
   NIP05_COMMUNITY_SETS: 'nip05CommunitySets',
-  NIP05_DOMAIN_INFOS: 'nip05DomainInfos'
+  NIP05_DOMAIN_INFOS: 'nip05DomainInfos',
+  OUTBOX: 'outbox',
+  PUBLISH_RECEIPTS: 'publishReceipts',
+  COMMUNITY_ZAP_RECEIPTS: 'communityZapReceipts',
+  ZAP_PAYMENTS: 'zapPayments',
+  SCHEDULED_POSTS: 'scheduledPosts',
+  POST_DRAFTS: 'postDrafts',
+  EVENTS: 'events',
+  TIMELINES: 'timelines',
+  RELAY_HEALTH: 'relayHealth',
+  PENDING_NUTZAPS: 'pendingNutzaps',
+  PENDING_CASHU_RECEIPTS: 'pendingCashuReceipts'
 }
 
 class IndexedDbService {
@@ -47,11 +76,12 @@ class IndexedDbService {
 
   private db: IDBDatabase | null = null
   private initPromise: Promise<void> | null = null
+  private eventWriteCount = 0
 
   init(): Promise<void> {
     if (!this.initPromise) {
       this.initPromise = new Promise((resolve, reject) => {
-        const request = window.indexedDB.open('jumble', 11)
+        const request = window.indexedDB.open('jumble', 21)
 
         request.onerror = (event) => {
           reject(event)
@@ -115,6 +145,44 @@ class IndexedDbService {
           if (!db.objectStoreNames.contains(StoreNames.NIP05_DOMAIN_INFOS)) {
             db.createObjectStore(StoreNames.NIP05_DOMAIN_INFOS, { keyPath: 'key' })
           }
+          if (!db.objectStoreNames.contains(StoreNames.OUTBOX)) {
+            db.createObjectStore(StoreNames.OUTBOX, { keyPath: 'key' })
+          }
+          if (!db.objectStoreNames.contains(StoreNames.PUBLISH_RECEIPTS)) {
+            db.createObjectStore(StoreNames.PUBLISH_RECEIPTS, { keyPath: 'key' })
+          }
+          if (!db.objectStoreNames.contains(StoreNames.COMMUNITY_ZAP_RECEIPTS)) {
+            db.createObjectStore(StoreNames.COMMUNITY_ZAP_RECEIPTS, { keyPath: 'key' })
+          }
+          if (!db.objectStoreNames.contains(StoreNames.ZAP_PAYMENTS)) {
+            db.createObjectStore(StoreNames.ZAP_PAYMENTS, { keyPath: 'key' })
+          }
+          if (!db.objectStoreNames.contains(StoreNames.SCHEDULED_POSTS)) {
+            db.createObjectStore(StoreNames.SCHEDULED_POSTS, { keyPath: 'key' })
+          }
+          if (!db.objectStoreNames.contains(StoreNames.POST_DRAFTS)) {
+            db.createObjectStore(StoreNames.POST_DRAFTS, { keyPath: 'key' })
+          }
+          if (!db.objectStoreNames.contains(StoreNames.EVENTS)) {
+            const eventStore = db.createObjectStore(StoreNames.EVENTS, { keyPath: 'key' })
+            eventStore.createIndex('createdAt', 'value.created_at')
+            eventStore.createIndex('pubkey', ['value.pubkey', 'value.created_at'])
+            eventStore.createIndex('kind', ['value.kind', 'value.created_at'])
+            eventStore.createIndex('tag', 'tagKeys', { multiEntry: true })
+            eventStore.createIndex('addedAt', 'addedAt')
+          }
+          if (!db.objectStoreNames.contains(StoreNames.TIMELINES)) {
+            db.createObjectStore(StoreNames.TIMELINES, { keyPath: 'key' })
+          }
+          if (!db.objectStoreNames.contains(StoreNames.RELAY_HEALTH)) {
+            db.createObjectStore(StoreNames.RELAY_HEALTH, { keyPath: 'key' })
+          }
+          if (!db.objectStoreNames.contains(StoreNames.PENDING_NUTZAPS)) {
+            db.createObjectStore(StoreNames.PENDING_NUTZAPS, { keyPath: 'key' })
+          }
+          if (!db.objectStoreNames.contains(StoreNames.PENDING_CASHU_RECEIPTS)) {
+            db.createObjectStore(StoreNames.PENDING_CASHU_RECEIPTS, { keyPath: 'key' })
+          }
           if (db.objectStoreNames.contains(StoreNames.RELAY_INFO_EVENTS)) {
             db.deleteObjectStore(StoreNames.RELAY_INFO_EVENTS)
           }
@@ -279,7 +347,10 @@ class IndexedDbService {
     })
   }
 
-  async getMuteDecryptedTags(id: string): Promise<string[][] | null> {
+  /**
+   * Decrypted private tags of NIP-51 lists (mute list, bookmarks), keyed by list event id
+   */
+  async getDecryptedTags(id: string): Promise<string[][] | null> {
     await this.initPromise
     return new Promise((resolve, reject) => {
       if (!this.db) {
@@ -301,7 +372,7 @@ class IndexedDbService {
     })
   }
 
-  async putMuteDecryptedTags(id: string, tags: string[][]): Promise<void> {
+  async putDecryptedTags(id: string, tags: string[][]): Promise<void> {
     await this.initPromise
     return new Promise((resolve, reject) => {
       if (!this.db) {
@@ -667,124 +738,934 @@ class IndexedDbService {
     })
   }
 
-  private getReplaceableEventKeyFromEvent(event: Event): string {
-    if (
-      [kinds.Metadata, kinds.Contacts].includes(event.kind) ||
-      (event.kind >= 10000 && event.kind < 20000)
-    ) {
-      return this.getReplaceableEventKey(event.pubkey)
-    }
+  async deleteNip05DomainInfo(domain: string): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.NIP05_DOMAIN_INFOS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.NIP05_DOMAIN_INFOS)
 
-    const [, d] = event.tags.find(tagNameEquals('d')) ?? []
-    return this.getReplaceableEventKey(event.pubkey, d)
+      const deleteRequest = store.delete(domain)
+      deleteRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      deleteRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
   }
 
-  private getReplaceableEventKey(pubkey: string, d?: string): string {
-    return d === undefined ? pubkey : `${pubkey}:${d}`
+  // Outbox Methods
+  async putOutboxItem(item: TOutboxItem): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.OUTBOX, 'readwrite')
+      const store = transaction.objectStore(StoreNames.OUTBOX)
+
+      const putRequest = store.put(this.formatValue(item.id, item))
+      putRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      putRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
   }
 
-  private getStoreNameByKind(kind: number): string | undefined {
-    switch (kind) {
-      case kinds.Metadata:
-        return StoreNames.PROFILE_EVENTS
-      case kinds.RelayList:
-        return StoreNames.RELAY_LIST_EVENTS
-      case kinds.Contacts:
-        return StoreNames.FOLLOW_LIST_EVENTS
-      case kinds.Mutelist:
-        return StoreNames.MUTE_LIST_EVENTS
-      case ExtendedKind.BLOSSOM_SERVER_LIST:
-        return StoreNames.BLOSSOM_SERVER_LIST_EVENTS
-      case kinds.Relaysets:
-        return StoreNames.RELAY_SETS
-      case ExtendedKind.FAVORITE_RELAYS:
-        return StoreNames.FAVORITE_RELAYS
-      case kinds.BookmarkList:
-        return StoreNames.BOOKMARK_LIST_EVENTS
-      case kinds.UserEmojiList:
-        return StoreNames.USER_EMOJI_LIST_EVENTS
-      case kinds.Emojisets:
-        return StoreNames.EMOJI_SET_EVENTS
-      case kinds.Pinlist:
-        return StoreNames.PIN_LIST_EVENTS
-      default:
-        return undefined
-    }
+  async getAllOutboxItems(): Promise<TOutboxItem[]> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.OUTBOX, 'readonly')
+      const store = transaction.objectStore(StoreNames.OUTBOX)
+      const request = store.getAll()
+
+      request.onsuccess = () => {
+        transaction.commit()
+        const results = request.result as TValue<TOutboxItem>[]
+        resolve(results.map((r) => r.value).filter((v): v is TOutboxItem => v !== null))
+      }
+
+      request.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
   }
 
-  private formatValue<T>(key: string, value: T): TValue<T> {
-    return {
-      key,
-      value,
-      addedAt: Date.now()
-    }
+  async deleteOutboxItem(id: string): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.OUTBOX, 'readwrite')
+      const store = transaction.objectStore(StoreNames.OUTBOX)
+
+      const deleteRequest = store.delete(id)
+      deleteRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      deleteRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
   }
 
-  private async cleanUp() {
+  // Scheduled Post Methods
+  async putScheduledPost(item: TScheduledPost): Promise<void> {
     await this.initPromise
-    if (!this.db) {
-      return
-    }
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.SCHEDULED_POSTS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.SCHEDULED_POSTS)
 
-    const stores = [
-      { name: StoreNames.PROFILE_EVENTS, expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 }, // 1 day
-      { name: StoreNames.RELAY_LIST_EVENTS, expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 }, // 1 day
-      {
-        name: StoreNames.FOLLOW_LIST_EVENTS,
-        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 // 1 day
-      },
-      {
-        name: StoreNames.BLOSSOM_SERVER_LIST_EVENTS,
-        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 // 1 days
-      },
-      {
-        name: StoreNames.RELAY_INFOS,
-        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 // 1 days
-      },
-      {
-        name: StoreNames.PIN_LIST_EVENTS,
-        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 * 30 // 30 days
-      },
-      {
-        name: StoreNames.NIP05_COMMUNITIES,
-        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 * 7 // 7 days
-      },
-      {
-        name: StoreNames.NIP05_DOMAIN_INFOS,
-        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 * 7 // 7 days
+      const putRequest = store.put(this.formatValue(item.id, item))
+      putRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
       }
-    ]
-    const transaction = this.db!.transaction(
-      stores.map((store) => store.name),
-      'readwrite'
-    )
-    await Promise.allSettled(
-      stores.map(({ name, expirationTimestamp }) => {
-        if (expirationTimestamp < 0) {
-          return Promise.resolve()
-        }
-        return new Promise<void>((resolve, reject) => {
-          const store = transaction.objectStore(name)
-          const request = store.openCursor()
-          request.onsuccess = (event) => {
-            const cursor = (event.target as IDBRequest).result
-            if (cursor) {
-              const value: TValue = cursor.value
-              if (value.addedAt < expirationTimestamp) {
-                cursor.delete()
-              }
-              cursor.continue()
-            } else {
-              resolve()
-            }
-          }
 
-          request.onerror = (event) => {
-            reject(event)
-          }
-        })
-      })
-    )
+      putRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async getAllScheduledPosts(): Promise<TScheduledPost[]> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.SCHEDULED_POSTS, 'readonly')
+      const store = transaction.objectStore(StoreNames.SCHEDULED_POSTS)
+      const request = store.getAll()
+
+      request.onsuccess = () => {
+        transaction.commit()
+        const results = request.result as TValue<TScheduledPost>[]
+        resolve(results.map((r) => r.value).filter((v): v is TScheduledPost => v !== null))
+      }
+
+      request.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async deleteScheduledPost(id: string): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.SCHEDULED_POSTS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.SCHEDULED_POSTS)
+
+      const deleteRequest = store.delete(id)
+      deleteRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      deleteRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  // Post Draft Methods
+  async putPostDraft(draft: TPostDraft): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.POST_DRAFTS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.POST_DRAFTS)
+
+      const putRequest = store.put(this.formatValue(draft.id, draft))
+      putRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      putRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async getAllPostDrafts(): Promise<TPostDraft[]> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.POST_DRAFTS, 'readonly')
+      const store = transaction.objectStore(StoreNames.POST_DRAFTS)
+      const request = store.getAll()
+
+      request.onsuccess = () => {
+        transaction.commit()
+        const results = request.result as TValue<TPostDraft>[]
+        resolve(results.map((r) => r.value).filter((v): v is TPostDraft => v !== null))
+      }
+
+      request.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async deletePostDraft(id: string): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.POST_DRAFTS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.POST_DRAFTS)
+
+      const deleteRequest = store.delete(id)
+      deleteRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      deleteRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  // Pending Nutzap Methods
+  async putPendingNutzap(pendingNutzap: TPendingNutzap): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.PENDING_NUTZAPS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.PENDING_NUTZAPS)
+
+      const putRequest = store.put(this.formatValue(pendingNutzap.id, pendingNutzap))
+      putRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      putRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async getAllPendingNutzaps(): Promise<TPendingNutzap[]> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.PENDING_NUTZAPS, 'readonly')
+      const store = transaction.objectStore(StoreNames.PENDING_NUTZAPS)
+      const request = store.getAll()
+
+      request.onsuccess = () => {
+        transaction.commit()
+        const results = request.result as TValue<TPendingNutzap>[]
+        resolve(results.map((r) => r.value).filter((v): v is TPendingNutzap => v !== null))
+      }
+
+      request.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async deletePendingNutzap(id: string): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.PENDING_NUTZAPS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.PENDING_NUTZAPS)
+
+      const deleteRequest = store.delete(id)
+      deleteRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      deleteRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  // Pending Cashu Receipt Methods
+  async putPendingCashuReceipt(pendingCashuReceipt: TPendingCashuReceipt): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.PENDING_CASHU_RECEIPTS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.PENDING_CASHU_RECEIPTS)
+
+      const putRequest = store.put(this.formatValue(pendingCashuReceipt.id, pendingCashuReceipt))
+      putRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      putRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async getAllPendingCashuReceipts(): Promise<TPendingCashuReceipt[]> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.PENDING_CASHU_RECEIPTS, 'readonly')
+      const store = transaction.objectStore(StoreNames.PENDING_CASHU_RECEIPTS)
+      const request = store.getAll()
+
+      request.onsuccess = () => {
+        transaction.commit()
+        const results = request.result as TValue<TPendingCashuReceipt>[]
+        resolve(results.map((r) => r.value).filter((v): v is TPendingCashuReceipt => v !== null))
+      }
+
+      request.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async deletePendingCashuReceipt(id: string): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.PENDING_CASHU_RECEIPTS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.PENDING_CASHU_RECEIPTS)
+
+      const deleteRequest = store.delete(id)
+      deleteRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      deleteRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  // Event Store Methods
+  async putEvents(events: Event[]): Promise<void> {
+    if (events.length === 0) return
+
+    await this.initPromise
+    await new Promise<void>((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.EVENTS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.EVENTS)
+
+      events.forEach((event) => {
+        const tagKeys = new Set<string>()
+        event.tags.forEach(([tagName, tagValue]) => {
+          if (tagName?.length === 1 && tagValue) {
+            tagKeys.add(`${tagName}:${tagValue}`)
+          }
+        })
+        const value: TEventValue = {
+          ...this.formatValue(event.id, event),
+          tagKeys: Array.from(tagKeys)
+        }
+        store.put(value)
+      })
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = (event) => reject(event)
+      transaction.commit()
+    })
+
+    this.eventWriteCount += events.length
+    if (this.eventWriteCount >= EVICTION_CHECK_INTERVAL) {
+      this.eventWriteCount = 0
+      await this.evictEvents()
+    }
+  }
+
+  async getEvent(id: string): Promise<Event | null> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.EVENTS, 'readonly')
+      const store = transaction.objectStore(StoreNames.EVENTS)
+      const request = store.get(id)
+
+      request.onsuccess = () => {
+        transaction.commit()
+        resolve((request.result as TEventValue | undefined)?.value ?? null)
+      }
+
+      request.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  /**
+   * Query the stored events, newest first. Search filters are not supported.
+   */
+  async getEventsByFilter(filter: Filter): Promise<Event[]> {
+    if (filter.search) return []
+    if (filter.ids) {
+      const events = await Promise.all(filter.ids.map((id) => this.getEvent(id)))
+      return events.filter((event): event is Event => !!event && matchFilter(filter, event))
+    }
+
+    await this.initPromise
+    const limit = filter.limit ?? 500
+    const since = filter.since ?? 0
+    const until = filter.until ?? Infinity
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.EVENTS, 'readonly')
+      const store = transaction.objectStore(StoreNames.EVENTS)
+
+      // Walk the most selective index, the other conditions are checked by matchFilter
+      let cursors: { index: IDBIndex; range: IDBKeyRange; ordered: boolean }[]
+      const tagFilter = Object.entries(filter).find(
+        ([key, value]) => key.startsWith('#') && Array.isArray(value) && value.length > 0
+      ) as [string, string[]] | undefined
+      if (filter.authors?.length) {
+        cursors = filter.authors.map((author) => ({
+          index: store.index('pubkey'),
+          range: IDBKeyRange.bound([author, since], [author, until]),
+          ordered: true
+        }))
+      } else if (tagFilter) {
+        const [key, values] = tagFilter
+        cursors = values.map((value) => ({
+          index: store.index('tag'),
+          range: IDBKeyRange.only(`${key.slice(1)}:${value}`),
+          ordered: false
+        }))
+      } else if (filter.kinds?.length) {
+        cursors = filter.kinds.map((kind) => ({
+          index: store.index('kind'),
+          range: IDBKeyRange.bound([kind, since], [kind, until]),
+          ordered: true
+        }))
+      } else {
+        cursors = [
+          { index: store.index('createdAt'), range: IDBKeyRange.bound(since, until), ordered: true }
+        ]
+      }
+
+      const eventMap = new Map<string, Event>()
+      let pending = cursors.length
+      cursors.forEach(({ index, range, ordered }) => {
+        let count = 0
+        const request = index.openCursor(range, 'prev')
+        request.onsuccess = () => {
+          const cursor = request.result
+          if (cursor && (!ordered || count < limit)) {
+            const event = (cursor.value as TEventValue).value
+            if (event && matchFilter(filter, event)) {
+              eventMap.set(event.id, event)
+              count++
+            }
+            cursor.continue()
+            return
+          }
+
+          pending--
+          if (pending === 0) {
+            transaction.commit()
+            resolve(
+              Array.from(eventMap.values())
+                .sort((a, b) => b.created_at - a.created_at)
+                .slice(0, limit)
+            )
+          }
+        }
+        request.onerror = (event) => {
+          transaction.commit()
+          reject(event)
+        }
+      })
+    })
+  }
+
+  async putTimeline(timeline: TPersistedTimeline): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.TIMELINES, 'readwrite')
+      const store = transaction.objectStore(StoreNames.TIMELINES)
+
+      const putRequest = store.put(this.formatValue(timeline.key, timeline))
+      putRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      putRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async getTimeline(key: string): Promise<TPersistedTimeline | null> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.TIMELINES, 'readonly')
+      const store = transaction.objectStore(StoreNames.TIMELINES)
+      const request = store.get(key)
+
+      request.onsuccess = () => {
+        transaction.commit()
+        resolve((request.result as TValue<TPersistedTimeline> | undefined)?.value ?? null)
+      }
+
+      request.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async putRelayHealthList(healthList: TRelayHealth[]): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.RELAY_HEALTH, 'readwrite')
+      const store = transaction.objectStore(StoreNames.RELAY_HEALTH)
+      healthList.forEach((health) => store.put(this.formatValue(health.url, health)))
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = (event) => reject(event)
+      transaction.commit()
+    })
+  }
+
+  async getAllRelayHealth(): Promise<TRelayHealth[]> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.RELAY_HEALTH, 'readonly')
+      const store = transaction.objectStore(StoreNames.RELAY_HEALTH)
+      const request = store.getAll()
+
+      request.onsuccess = () => {
+        transaction.commit()
+        const results = request.result as TValue<TRelayHealth>[]
+        resolve(results.map((r) => r.value).filter((v): v is TRelayHealth => v !== null))
+      }
+
+      request.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async clearRelayHealth(): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.RELAY_HEALTH, 'readwrite')
+      const store = transaction.objectStore(StoreNames.RELAY_HEALTH)
+      const request = store.clear()
+
+      request.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      request.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  // Publish Receipt Methods
+  async putPublishReceipt(receipt: TPublishReceipt): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.PUBLISH_RECEIPTS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.PUBLISH_RECEIPTS)
+
+      const putRequest = store.put(this.formatValue(receipt.eventId, receipt))
+      putRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      putRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async getPublishReceipt(eventId: string): Promise<TPublishReceipt | null> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.PUBLISH_RECEIPTS, 'readonly')
+      const store = transaction.objectStore(StoreNames.PUBLISH_RECEIPTS)
+      const request = store.get(eventId)
+
+      request.onsuccess = () => {
+        transaction.commit()
+        resolve((request.result as TValue<TPublishReceipt>)?.value ?? null)
+      }
+
+      request.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  // Community Zap Receipt Methods
+  async putCommunityZapReceipt(receipt: TCommunityZapReceipt): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.COMMUNITY_ZAP_RECEIPTS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.COMMUNITY_ZAP_RECEIPTS)
+
+      const putRequest = store.put(this.formatValue(receipt.id, receipt))
+      putRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      putRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async getAllCommunityZapReceipts(): Promise<TCommunityZapReceipt[]> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.COMMUNITY_ZAP_RECEIPTS, 'readonly')
+      const store = transaction.objectStore(StoreNames.COMMUNITY_ZAP_RECEIPTS)
+      const request = store.getAll()
+
+      request.onsuccess = () => {
+        transaction.commit()
+        const results = request.result as TValue<TCommunityZapReceipt>[]
+        resolve(results.map((r) => r.value).filter((v): v is TCommunityZapReceipt => v !== null))
+      }
+
+      request.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  // Zap Payment Methods
+  async putZapPayment(payment: TZapPayment): Promise<void> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.ZAP_PAYMENTS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.ZAP_PAYMENTS)
+
+      const putRequest = store.put(this.formatValue(payment.invoice, payment))
+      putRequest.onsuccess = () => {
+        transaction.commit()
+        resolve()
+      }
+
+      putRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  async getAllZapPayments(): Promise<TZapPayment[]> {
+    await this.initPromise
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.ZAP_PAYMENTS, 'readonly')
+      const store = transaction.objectStore(StoreNames.ZAP_PAYMENTS)
+      const request = store.getAll()
+
+      request.onsuccess = () => {
+        transaction.commit()
+        const results = request.result as TValue<TZapPayment>[]
+        resolve(results.map((r) => r.value).filter((v): v is TZapPayment => v !== null))
+      }
+
+      request.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
+  }
+
+  private getReplaceableEventKeyFromEvent(event: Event): string {
+    if (
+      [kinds.Metadata, kinds.Contacts].includes(event.kind) ||
+      (event.kind >= 10000 && event.kind < 20000)
+    ) {
+      return this.getReplaceableEventKey(event.pubkey)
+    }
+
+    const [, d] = event.tags.find(tagNameEquals('d')) ?? []
+    return this.getReplaceableEventKey(event.pubkey, d)
+  }
+
+  private getReplaceableEventKey(pubkey: string, d?: string): string {
+    return d === undefined ? pubkey : `${pubkey}:${d}`
+  }
+
+  private getStoreNameByKind(kind: number): string | undefined {
+    switch (kind) {
+      case kinds.Metadata:
+        return StoreNames.PROFILE_EVENTS
+      case kinds.RelayList:
+        return StoreNames.RELAY_LIST_EVENTS
+      case kinds.Contacts:
+        return StoreNames.FOLLOW_LIST_EVENTS
+      case kinds.Mutelist:
+        return StoreNames.MUTE_LIST_EVENTS
+      case ExtendedKind.BLOSSOM_SERVER_LIST:
+        return StoreNames.BLOSSOM_SERVER_LIST_EVENTS
+      case kinds.Relaysets:
+        return StoreNames.RELAY_SETS
+      case ExtendedKind.FAVORITE_RELAYS:
+        return StoreNames.FAVORITE_RELAYS
+      case kinds.BookmarkList:
+        return StoreNames.BOOKMARK_LIST_EVENTS
+      case kinds.UserEmojiList:
+        return StoreNames.USER_EMOJI_LIST_EVENTS
+      case kinds.Emojisets:
+        return StoreNames.EMOJI_SET_EVENTS
+      case kinds.Pinlist:
+        return StoreNames.PIN_LIST_EVENTS
+      default:
+        return undefined
+    }
+  }
+
+  private formatValue<T>(key: string, value: T): TValue<T> {
+    return {
+      key,
+      value,
+      addedAt: Date.now()
+    }
+  }
+
+  private async cleanUp() {
+    await this.initPromise
+    if (!this.db) {
+      return
+    }
+
+    const stores = [
+      { name: StoreNames.PROFILE_EVENTS, expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 }, // 1 day
+      { name: StoreNames.RELAY_LIST_EVENTS, expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 }, // 1 day
+      {
+        name: StoreNames.FOLLOW_LIST_EVENTS,
+        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 // 1 day
+      },
+      {
+        name: StoreNames.BLOSSOM_SERVER_LIST_EVENTS,
+        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 // 1 days
+      },
+      {
+        name: StoreNames.RELAY_INFOS,
+        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 // 1 days
+      },
+      {
+        name: StoreNames.PIN_LIST_EVENTS,
+        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 * 30 // 30 days
+      },
+      {
+        name: StoreNames.NIP05_COMMUNITIES,
+        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 * 7 // 7 days
+      },
+      {
+        name: StoreNames.NIP05_DOMAIN_INFOS,
+        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 * 7 // 7 days
+      },
+      {
+        name: StoreNames.PUBLISH_RECEIPTS,
+        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 * 30 // 30 days
+      },
+      {
+        name: StoreNames.EVENTS,
+        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 * 30 // 30 days
+      },
+      {
+        name: StoreNames.TIMELINES,
+        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 * 7 // 7 days
+      },
+      {
+        name: StoreNames.RELAY_HEALTH,
+        expirationTimestamp: Date.now() - 1000 * 60 * 60 * 24 * 30 // 30 days
+      }
+    ]
+    const transaction = this.db!.transaction(
+      stores.map((store) => store.name),
+      'readwrite'
+    )
+    await Promise.allSettled(
+      stores.map(({ name, expirationTimestamp }) => {
+        if (expirationTimestamp < 0) {
+          return Promise.resolve()
+        }
+        return new Promise<void>((resolve, reject) => {
+          const store = transaction.objectStore(name)
+          const request = store.openCursor()
+          request.onsuccess = (event) => {
+            const cursor = (event.target as IDBRequest).result
+            if (cursor) {
+              const value: TValue = cursor.value
+              if (value.addedAt < expirationTimestamp) {
+                cursor.delete()
+              }
+              cursor.continue()
+            } else {
+              resolve()
+            }
+          }
+
+          request.onerror = (event) => {
+            reject(event)
+          }
+        })
+      })
+    )
+    await this.evictEvents()
+  }
+
+  /**
+   * Keep the event store under MAX_STORED_EVENTS by dropping the least recently stored events
+   */
+  private async evictEvents() {
+    await this.initPromise
+    return new Promise<void>((resolve, reject) => {
+      if (!this.db) {
+        return reject('database not initialized')
+      }
+      const transaction = this.db.transaction(StoreNames.EVENTS, 'readwrite')
+      const store = transaction.objectStore(StoreNames.EVENTS)
+      const countRequest = store.count()
+      countRequest.onsuccess = () => {
+        let excess = countRequest.result - MAX_STORED_EVENTS
+        if (excess <= 0) {
+          transaction.commit()
+          return resolve()
+        }
+
+        const request = store.index('addedAt').openCursor()
+        request.onsuccess = () => {
+          const cursor = request.result
+          if (cursor && excess > 0) {
+            cursor.delete()
+            excess--
+            cursor.continue()
+          } else {
+            transaction.commit()
+            resolve()
+          }
+        }
+        request.onerror = (event) => {
+          transaction.commit()
+          reject(event)
+        }
+      }
+      countRequest.onerror = (event) => {
+        transaction.commit()
+        reject(event)
+      }
+    })
   }
 }
 
@@ -1,6 +1,6 @@
 import { BIG_RELAY_URLS, CODY_PUBKEY, JUMBLE_PUBKEY } from '@/constants'
 import { getZapInfoFromEvent } from '@/lib/event-metadata'
-import { TProfile } from '@/types'
+import { TProfile, TZapPayment } from '@/types'
 import { init, launchPaymentModal } from '@getalby/bitcoin-connect-react'
 import { Invoice } from '@getalby/lightning-tools'
 import { bech32 } from '@scure/base'
@@ -11,6 +11,7 @@ import { SubCloser } from 'nostr-tools/abstract-pool'
 import { makeZapRequest } from 'nostr-tools/nip57'
 import { utf8Decoder } from 'nostr-tools/utils'
 import client from './client.service'
+import indexedDb from './indexed-db.service'
 
 export type TRecentSupporter = { pubkey: string; amount: number; comment?: string }
 
@@ -47,6 +48,39 @@ class LightningService {
         ? { recipient: recipientOrEvent }
         : { recipient: recipientOrEvent.pubkey, event: recipientOrEvent }
 
+    return this._zap(sender, recipient, event, sats, comment, closeOuterModel)
+  }
+
+  /**
+   * Zap one recipient of an event's zap splits. The zap request still references
+   * the event, so the receipt counts towards it.
+   */
+  async zapSplitRecipient(
+    sender: string,
+    event: NostrEvent,
+    recipient: string,
+    sats: number,
+    comment: string,
+    closeOuterModel?: () => void
+  ): Promise<{ preimage: string; invoice: string } | null> {
+    if (!client.signer) {
+      throw new Error('You need to be logged in to zap')
+    }
+    return this._zap(sender, recipient, event, sats, comment, closeOuterModel)
+  }
+
+  private async _zap(
+    sender: string,
+    recipient: string,
+    event: NostrEvent | undefined,
+    sats: number,
+    comment: string,
+    closeOuterModel?: () => void
+  ): Promise<{ preimage: string; invoice: string } | null> {
+    if (!client.signer) {
+      throw new Error('You need to be logged in to zap')
+    }
+
     const [profile, receiptRelayList, senderRelayList] = await Promise.all([
       client.fetchProfile(recipient, true),
       client.fetchRelayList(recipient),
@@ -72,6 +106,11 @@ class LightningService {
         .concat(BIG_RELAY_URLS),
       comment
     })
+    if (event && recipient !== event.pubkey) {
+      zapRequestDraft.tags = zapRequestDraft.tags.map((tag) =>
+        tag[0] === 'p' ? ['p', recipient] : tag
+      )
+    }
     const zapRequest = await client.signer.signEvent(zapRequestDraft)
     const zapRequestRes = await fetch(
       `${callback}?amount=${amount}&nostr=${encodeURI(JSON.stringify(zapRequest))}&lnurl=${lnurl}`
@@ -85,9 +124,20 @@ class LightningService {
       throw new Error(reason ?? 'Failed to create invoice')
     }
 
+    const payment: TZapPayment = {
+      invoice: pr,
+      sender,
+      recipient,
+      eventId: event?.id,
+      sats,
+      comment,
+      createdAt: Date.now()
+    }
+
     if (this.provider) {
       const { preimage } = await this.provider.sendPayment(pr)
       closeOuterModel?.()
+      this.recordPayment(payment)
       return { preimage, invoice: pr }
     }
 
@@ -100,6 +150,7 @@ class LightningService {
         onPaid: (response) => {
           clearInterval(checkPaymentInterval)
           subCloser?.close()
+          this.recordPayment(payment)
           resolve({ preimage: response.preimage, invoice: pr })
         },
         onCancelled: () => {
@@ -203,6 +254,20 @@ class LightningService {
     return this.recentSupportersCache
   }
 
+  async getPayments(sender: string): Promise<TZapPayment[]> {
+    const payments = await indexedDb.getAllZapPayments()
+    return payments.filter((payment) => payment.sender === sender)
+  }
+
+  /**
+   * Keep a local record of paid zaps, the receipt may never reach our relays
+   */
+  private recordPayment(payment: TZapPayment) {
+    indexedDb.putZapPayment({ ...payment, createdAt: Date.now() }).catch((error) => {
+      console.error('[LightningService] Failed to record payment:', error)
+    })
+  }
+
   private async getZapEndpoint(profile: TProfile): Promise<null | {
     callback: string
     lnurl: string
@@ -19,7 +19,10 @@ import {
   TNip05CommunitySet,
   TNoteListMode,
   TNotificationStyle,
+  TRelayAuthPolicy,
+  TRelayAuthRecord,
   TRelaySet,
+  TSavedSearch,
   TThemeSetting,
   TTranslationServiceConfig
 } from '@/types'
@@ -59,6 +62,9 @@ class LocalStorageService {
   private hasSeenCommunitiesOnboarding: boolean = false
   private accountNip05Map: Record<string, string | undefined> = {}
   private pinnedPubkeys: Set<string> = new Set()
+  private relayAuthRecordMap: Record<string, TRelayAuthRecord> = {}
+  private syncDrafts: boolean = false
+  private savedSearches: TSavedSearch[] = []
 
   constructor() {
     if (!LocalStorageService.instance) {
@@ -200,10 +206,13 @@ class LocalStorageService {
       if (showKindsVersion < 1) {
         showKinds.push(ExtendedKind.VIDEO, ExtendedKind.SHORT_VIDEO)
       }
+      if (showKindsVersion < 2 && showKinds.includes(ExtendedKind.VIDEO)) {
+        showKinds.push(ExtendedKind.ADDRESSABLE_VIDEO, ExtendedKind.ADDRESSABLE_SHORT_VIDEO)
+      }
       this.showKinds = showKinds
     }
     window.localStorage.setItem(StorageKey.SHOW_KINDS, JSON.stringify(this.showKinds))
-    window.localStorage.setItem(StorageKey.SHOW_KINDS_VERSION, '1')
+    window.localStorage.setItem(StorageKey.SHOW_KINDS_VERSION, '2')
 
     this.hideContentMentioningMutedUsers =
       window.localStorage.getItem(StorageKey.HIDE_CONTENT_MENTIONING_MUTED_USERS) === 'true'
@@ -242,6 +251,15 @@ class LocalStorageService {
     this.enableSingleColumnLayout =
       window.localStorage.getItem(StorageKey.ENABLE_SINGLE_COLUMN_LAYOUT) !== 'false'
 
+    const relayAuthRecordMapStr =
+      window.localStorage.getItem(StorageKey.RELAY_AUTH_RECORD_MAP) ?? '{}'
+    this.relayAuthRecordMap = JSON.parse(relayAuthRecordMapStr)
+
+    this.syncDrafts = window.localStorage.getItem(StorageKey.SYNC_DRAFTS) === 'true'
+
+    const savedSearchesStr = window.localStorage.getItem(StorageKey.SAVED_SEARCHES)
+    this.savedSearches = savedSearchesStr ? JSON.parse(savedSearchesStr) : []
+
     // Clean up deprecated data
     window.localStorage.removeItem(StorageKey.ACCOUNT_PROFILE_EVENT_MAP)
     window.localStorage.removeItem(StorageKey.ACCOUNT_FOLLOW_LIST_EVENT_MAP)
@@ -569,6 +587,64 @@ class LocalStorageService {
     window.localStorage.setItem(StorageKey.ENABLE_SINGLE_COLUMN_LAYOUT, enable.toString())
   }
 
+  getRelayAuthRecordMap() {
+    return this.relayAuthRecordMap
+  }
+
+  getRelayAuthPolicy(url: string): TRelayAuthPolicy {
+    return this.relayAuthRecordMap[url]?.policy ?? 'ask'
+  }
+
+  setRelayAuthPolicy(url: string, policy: TRelayAuthPolicy) {
+    this.relayAuthRecordMap = {
+      ...this.relayAuthRecordMap,
+      [url]: { ...this.relayAuthRecordMap[url], policy }
+    }
+    window.localStorage.setItem(
+      StorageKey.RELAY_AUTH_RECORD_MAP,
+      JSON.stringify(this.relayAuthRecordMap)
+    )
+  }
+
+  markRelayAuthenticated(url: string, authenticatedAt: number) {
+    this.relayAuthRecordMap = {
+      ...this.relayAuthRecordMap,
+      [url]: { policy: this.getRelayAuthPolicy(url), authenticatedAt }
+    }
+    window.localStorage.setItem(
+      StorageKey.RELAY_AUTH_RECORD_MAP,
+      JSON.stringify(this.relayAuthRecordMap)
+    )
+  }
+
+  removeRelayAuthRecord(url: string) {
+    const relayAuthRecordMap = { ...this.relayAuthRecordMap }
+    delete relayAuthRecordMap[url]
+    this.relayAuthRecordMap = relayAuthRecordMap
+    window.localStorage.setItem(
+      StorageKey.RELAY_AUTH_RECORD_MAP,
+      JSON.stringify(this.relayAuthRecordMap)
+    )
+  }
+
+  getSyncDrafts() {
+    return this.syncDrafts
+  }
+
+  setSyncDrafts(sync: boolean) {
+    this.syncDrafts = sync
+    window.localStorage.setItem(StorageKey.SYNC_DRAFTS, sync.toString())
+  }
+
+  getSavedSearches() {
+    return this.savedSearches
+  }
+
+  setSavedSearches(savedSearches: TSavedSearch[]) {
+    this.savedSearches = savedSearches
+    window.localStorage.setItem(StorageKey.SAVED_SEARCHES, JSON.stringify(this.savedSearches))
+  }
+
   // NIP-05 Community Methods
   getFavoriteDomains() {
     return this.favoriteDomains
@@ -1,4 +1,4 @@
-import { fetchPubkeysFromDomain } from '@/lib/nip05'
+import { fetchCommunityMetadataFromDomain, fetchPubkeysFromDomain } from '@/lib/nip05'
 import indexDb from '@/services/indexed-db.service'
 import { TAwesomeNip05CommunityCollection, TNip05Community, TNip05DomainInfo } from '@/types'
 import DataLoader from 'dataloader'
@@ -191,17 +191,19 @@ class Nip05CommunityService {
       const existingCommunity = await indexDb.getNip05Community(domain)
       const domainInfo = await this.getDomainInfo(domain)
 
+      // Metadata published by the domain in community.json takes precedence over cached values
       const community: TNip05Community = {
         id: domain,
         domain,
-        name: existingCommunity?.name || domainInfo?.name || domain,
-        description: existingCommunity?.description || domainInfo?.description,
-        icon: existingCommunity?.icon || domainInfo?.icon,
+        name: domainInfo?.name || existingCommunity?.name || domain,
+        description: domainInfo?.description || existingCommunity?.description,
+        icon: domainInfo?.icon || existingCommunity?.icon,
+        banner: domainInfo?.banner || existingCommunity?.banner,
         members,
         memberCount: members.length,
         lastUpdated: Date.now(),
         featured: existingCommunity?.featured || false,
-        tags: existingCommunity?.tags || []
+        tags: domainInfo?.categories || existingCommunity?.tags || []
       }
 
       // Update cache and storage
@@ -215,7 +217,7 @@ class Nip05CommunityService {
   }
 
   /**
-   * Get or fetch domain metadata info
+   * Get or fetch domain metadata info from the domain's .well-known/community.json
    */
   async getDomainInfo(domain: string): Promise<TNip05DomainInfo | undefined> {
     const cached = this.domainInfoMap.get(domain)
@@ -230,10 +232,21 @@ class Nip05CommunityService {
       return stored
     }
 
-    // For now, create a basic domain info
-    // In the future, could fetch from domain's metadata endpoint
+    const metadata = await fetchCommunityMetadataFromDomain(domain)
     const domainInfo: TNip05DomainInfo = {
       domain,
+      name: metadata?.name,
+      description: metadata?.description,
+      icon: metadata?.icon,
+      banner: metadata?.banner,
+      website: metadata?.website,
+      contact: metadata?.contact,
+      rules: metadata?.rules,
+      categories: metadata?.categories,
+      admins: metadata?.admins,
+      moderators: metadata?.moderators,
+      chat: metadata?.chat,
+      hasMetadata: !!metadata,
       verified: true, // Will be verified when we fetch members
       lastChecked: Date.now()
     }
@@ -244,6 +257,15 @@ class Nip05CommunityService {
     return domainInfo
   }
 
+  /**
+   * Drop cached domain metadata and fetch it again from community.json
+   */
+  async refreshDomainInfo(domain: string): Promise<TNip05DomainInfo | undefined> {
+    this.domainInfoMap.delete(domain)
+    await indexDb.deleteNip05DomainInfo(domain)
+    return this.getDomainInfo(domain)
+  }
+
   /**
    * Get community statistics
    */
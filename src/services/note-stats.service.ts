@@ -1,6 +1,6 @@
-import { BIG_RELAY_URLS } from '@/constants'
 import { getReplaceableCoordinateFromEvent, isReplaceableEvent } from '@/lib/event'
 import { getZapInfoFromEvent } from '@/lib/event-metadata'
+import { selectInteractionRelays, selectOutboxRelays } from '@/lib/relay-selection'
 import { getEmojiInfosFromEmojiTags, tagNameEquals } from '@/lib/tag'
 import client from '@/services/client.service'
 import { TEmoji } from '@/types'
@@ -35,9 +35,10 @@ class NoteStatsService {
     if (oldStats?.updatedAt) {
       since = oldStats.updatedAt
     }
-    const [relayList, authorProfile] = await Promise.all([
+    const [relayList, authorProfile, myRelayList] = await Promise.all([
       client.fetchRelayList(event.pubkey),
-      client.fetchProfile(event.pubkey)
+      client.fetchProfile(event.pubkey),
+      pubkey ? client.fetchRelayList(pubkey) : undefined
     ])
 
     const replaceableCoordinate = isReplaceableEvent(event.kind)
@@ -126,7 +127,18 @@ class NoteStatsService {
       })
     }
     const events: Event[] = []
-    await client.fetchEvents(relayList.read.concat(BIG_RELAY_URLS).slice(0, 5), filters, {
+    const interactionRelayUrls = selectInteractionRelays(relayList, {
+      hints: client.getEventHints(event.id),
+      limit: 6
+    })
+    // The current user's own reactions and reposts live on their outbox relays, which must not
+    // be cut by the limit above
+    const relayUrls = myRelayList
+      ? interactionRelayUrls.concat(
+          selectOutboxRelays(myRelayList, { excludeRelayUrls: interactionRelayUrls })
+        )
+      : interactionRelayUrls
+    await client.fetchEvents(relayUrls, filters, {
       onevent: (evt) => {
         this.updateNoteStatsByEvents([evt])
         events.push(evt)
@@ -0,0 +1,218 @@
+import { TOutboxItem, TRelayPublishStatus } from '@/types'
+import { Event } from 'nostr-tools'
+import client from './client.service'
+import indexedDb from './indexed-db.service'
+import publishReceiptService from './publish-receipt.service'
+
+export const OUTBOX_SYNC_TAG = 'outbox-sync'
+
+const BASE_RETRY_DELAY = 1000 * 15 // 15 seconds
+const MAX_RETRY_DELAY = 1000 * 60 * 30 // 30 minutes
+
+type TSyncServiceWorkerRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> }
+}
+
+class OutboxService {
+  static instance: OutboxService
+
+  public static getInstance(): OutboxService {
+    if (!OutboxService.instance) {
+      OutboxService.instance = new OutboxService()
+      OutboxService.instance.init()
+    }
+    return OutboxService.instance
+  }
+
+  private items: TOutboxItem[] = []
+  private subscribers = new Set<() => void>()
+  private initPromise: Promise<void> | null = null
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private flushing = new Set<string>()
+
+  init() {
+    if (!this.initPromise) {
+      this.initPromise = indexedDb
+        .getAllOutboxItems()
+        .then((items) => {
+          this.setItems(items)
+        })
+        .catch((error) => {
+          console.error('[OutboxService] Failed to load outbox:', error)
+        })
+
+      window.addEventListener('online', () => this.flush(true))
+      navigator.serviceWorker?.addEventListener('message', (event) => {
+        if (event.data?.type === OUTBOX_SYNC_TAG) {
+          this.flush(true)
+        }
+      })
+
+      // Events left over from a previous session are retried right away
+      this.initPromise.then(() => this.flush(true))
+    }
+    return this.initPromise
+  }
+
+  subscribe(callback: () => void) {
+    this.subscribers.add(callback)
+    return () => {
+      this.subscribers.delete(callback)
+    }
+  }
+
+  getItems() {
+    return this.items
+  }
+
+  has(id: string) {
+    return this.items.some((item) => item.id === id)
+  }
+
+  /**
+   * Keep an event that no relay accepted so it can be published later.
+   * Relays that did accept it are remembered and won't be retried.
+   */
+  async enqueue(event: Event, relayUrls: string[]) {
+    await this.initPromise
+
+    const relayStatuses: TRelayPublishStatus[] = Array.from(new Set(relayUrls)).map((url) => {
+      const relayStatus = publishReceiptService.getRelayStatus(event.id, url)
+      return relayStatus?.status === 'success'
+        ? relayStatus
+        : { url, status: 'failed', message: relayStatus?.message }
+    })
+
+    const now = Date.now()
+    await this.saveItem({
+      id: event.id,
+      event,
+      relayStatuses,
+      attempts: 1,
+      nextAttemptAt: now + getRetryDelay(1),
+      createdAt: now
+    })
+    this.requestBackgroundSync()
+    this.scheduleRetry()
+  }
+
+  async retry(id: string) {
+    const item = this.items.find((item) => item.id === id)
+    if (!item) return
+
+    await this.attempt(item)
+    this.scheduleRetry()
+  }
+
+  async remove(id: string) {
+    this.setItems(this.items.filter((item) => item.id !== id))
+    await indexedDb.deleteOutboxItem(id)
+  }
+
+  /**
+   * Retry every event that is due, or all of them when forced (e.g. back online)
+   */
+  async flush(force = false) {
+    if (!navigator.onLine) return
+
+    const now = Date.now()
+    const dueItems = this.items.filter((item) => force || item.nextAttemptAt <= now)
+    for (const item of dueItems) {
+      await this.attempt(item)
+    }
+    this.scheduleRetry()
+  }
+
+  private async attempt(item: TOutboxItem) {
+    if (this.flushing.has(item.id)) return
+    this.flushing.add(item.id)
+
+    try {
+      await this.saveItem({
+        ...item,
+        relayStatuses: item.relayStatuses.map((relayStatus) =>
+          relayStatus.status === 'success'
+            ? relayStatus
+            : { url: relayStatus.url, status: 'pending' }
+        )
+      })
+
+      const relayStatuses = await Promise.all(
+        item.relayStatuses.map(async (relayStatus): Promise<TRelayPublishStatus> => {
+          if (relayStatus.status === 'success') return relayStatus
+
+          await client.publishEvent([relayStatus.url], item.event).catch(() => {})
+          return (
+            publishReceiptService.getRelayStatus(item.id, relayStatus.url) ?? {
+              url: relayStatus.url,
+              status: 'failed'
+            }
+          )
+        })
+      )
+
+      // Same threshold as a regular publish: delivered once a third of the relays accepted it
+      const successCount = relayStatuses.filter(({ status }) => status === 'success').length
+      if (successCount >= relayStatuses.length / 3) {
+        await this.remove(item.id)
+        return
+      }
+
+      const attempts = item.attempts + 1
+      await this.saveItem({
+        ...item,
+        relayStatuses,
+        attempts,
+        nextAttemptAt: Date.now() + getRetryDelay(attempts)
+      })
+    } finally {
+      this.flushing.delete(item.id)
+    }
+  }
+
+  private async saveItem(item: TOutboxItem) {
+    // The item may have been discarded while it was being retried
+    if (this.flushing.has(item.id) && !this.has(item.id)) return
+
+    const exists = this.has(item.id)
+    this.setItems(
+      exists
+        ? this.items.map((existing) => (existing.id === item.id ? item : existing))
+        : [item, ...this.items]
+    )
+    await indexedDb.putOutboxItem(item)
+  }
+
+  private setItems(items: TOutboxItem[]) {
+    this.items = [...items].sort((a, b) => b.createdAt - a.createdAt)
+    this.subscribers.forEach((callback) => callback())
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+    if (this.items.length === 0) return
+
+    const nextAttemptAt = Math.min(...this.items.map((item) => item.nextAttemptAt))
+    this.retryTimer = setTimeout(() => this.flush(), Math.max(nextAttemptAt - Date.now(), 0))
+  }
+
+  private requestBackgroundSync() {
+    navigator.serviceWorker?.ready
+      .then((registration: TSyncServiceWorkerRegistration) =>
+        registration.sync?.register(OUTBOX_SYNC_TAG)
+      )
+      .catch((error) => {
+        console.error('[OutboxService] Failed to register background sync:', error)
+      })
+  }
+}
+
+function getRetryDelay(attempts: number) {
+  return Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY)
+}
+
+const instance = OutboxService.getInstance()
+export default instance
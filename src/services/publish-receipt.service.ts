@@ -0,0 +1,111 @@
+import { TPublishReceipt, TRelayPublishStatus } from '@/types'
+import { LRUCache } from 'lru-cache'
+import indexedDb from './indexed-db.service'
+
+class PublishReceiptService {
+  static instance: PublishReceiptService
+
+  public static getInstance(): PublishReceiptService {
+    if (!PublishReceiptService.instance) {
+      PublishReceiptService.instance = new PublishReceiptService()
+    }
+    return PublishReceiptService.instance
+  }
+
+  private receiptCache = new LRUCache<string, TPublishReceipt>({ max: 1000 })
+  private loadingSet = new Set<string>()
+  private subscribers = new Map<string, Set<() => void>>()
+
+  /**
+   * Mark the relays an event is about to be sent to as pending.
+   * Results from earlier attempts on other relays are kept.
+   */
+  start(eventId: string, relayUrls: string[]) {
+    const relayStatuses = this.getRelayStatuses(eventId)
+    relayUrls.forEach((url) => {
+      const index = relayStatuses.findIndex((relayStatus) => relayStatus.url === url)
+      if (index >= 0) {
+        relayStatuses[index] = { url, status: 'pending' }
+      } else {
+        relayStatuses.push({ url, status: 'pending' })
+      }
+    })
+    this.update(eventId, relayStatuses)
+  }
+
+  record(eventId: string, url: string, status: 'success' | 'failed', message?: string) {
+    const relayStatuses = this.getRelayStatuses(eventId).map((relayStatus) =>
+      relayStatus.url === url ? { url, status, message: message || undefined } : relayStatus
+    )
+    if (!relayStatuses.some((relayStatus) => relayStatus.url === url)) {
+      relayStatuses.push({ url, status, message: message || undefined })
+    }
+    this.update(eventId, relayStatuses)
+
+    // Only persist once every relay has answered
+    if (relayStatuses.every(({ status }) => status !== 'pending')) {
+      indexedDb.putPublishReceipt(this.receiptCache.get(eventId)!).catch((error) => {
+        console.error('[PublishReceiptService] Failed to store receipt:', error)
+      })
+    }
+  }
+
+  getReceipt(eventId: string): TPublishReceipt | undefined {
+    return this.receiptCache.get(eventId)
+  }
+
+  getRelayStatus(eventId: string, url: string): TRelayPublishStatus | undefined {
+    return this.receiptCache
+      .get(eventId)
+      ?.relayStatuses.find((relayStatus) => relayStatus.url === url)
+  }
+
+  /**
+   * Load the receipt of an event published in an earlier session
+   */
+  async loadReceipt(eventId: string) {
+    if (this.receiptCache.has(eventId) || this.loadingSet.has(eventId)) return
+
+    this.loadingSet.add(eventId)
+    try {
+      const receipt = await indexedDb.getPublishReceipt(eventId)
+      if (receipt && !this.receiptCache.has(eventId)) {
+        this.receiptCache.set(eventId, receipt)
+        this.notify(eventId)
+      }
+    } catch (error) {
+      console.error('[PublishReceiptService] Failed to load receipt:', error)
+    } finally {
+      this.loadingSet.delete(eventId)
+    }
+  }
+
+  subscribe(eventId: string, callback: () => void) {
+    let set = this.subscribers.get(eventId)
+    if (!set) {
+      set = new Set()
+      this.subscribers.set(eventId, set)
+    }
+    set.add(callback)
+    return () => {
+      set?.delete(callback)
+      if (set?.size === 0) this.subscribers.delete(eventId)
+    }
+  }
+
+  private getRelayStatuses(eventId: string) {
+    return [...(this.receiptCache.get(eventId)?.relayStatuses ?? [])]
+  }
+
+  private update(eventId: string, relayStatuses: TRelayPublishStatus[]) {
+    this.receiptCache.set(eventId, { eventId, relayStatuses, updatedAt: Date.now() })
+    this.notify(eventId)
+  }
+
+  private notify(eventId: string) {
+    this.subscribers.get(eventId)?.forEach((callback) => callback())
+  }
+}
+
+const instance = PublishReceiptService.getInstance()
+export default instance
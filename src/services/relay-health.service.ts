@@ -0,0 +1,224 @@
+import { TRelayHealth, TRelayHealthStatus } from '@/types'
+import indexedDb from './indexed-db.service'
+
+// Weight of the newest sample in the moving averages
+const SMOOTHING = 0.2
+// Scores are only trusted once a relay has this many samples
+const MIN_SAMPLE_COUNT = 3
+const SLOW_CONNECTION_LATENCY = 3_000 // ms
+const DEGRADED_SCORE = 0.8
+const UNHEALTHY_SCORE = 0.5
+const PERSIST_DELAY = 5_000 // ms
+
+// Closes we initiated ourselves say nothing about the relay
+const IGNORED_CLOSE_REASONS = ['closed by caller', 'relay connection closed by us', 'auth-required']
+
+class RelayHealthService {
+  static instance: RelayHealthService
+
+  public static getInstance(): RelayHealthService {
+    if (!RelayHealthService.instance) {
+      RelayHealthService.instance = new RelayHealthService()
+      RelayHealthService.instance.init()
+    }
+    return RelayHealthService.instance
+  }
+
+  private healthMap = new Map<string, TRelayHealth>()
+  private healthList: TRelayHealth[] = []
+  private subscribers = new Set<() => void>()
+  private dirtyUrlSet = new Set<string>()
+  private persistTimer: ReturnType<typeof setTimeout> | null = null
+
+  init() {
+    indexedDb
+      .getAllRelayHealth()
+      .then((healthList) => {
+        healthList.forEach((health) => {
+          // Samples collected before the stored records were loaded are newer
+          if (!this.healthMap.has(health.url)) {
+            this.healthMap.set(health.url, health)
+          }
+        })
+        this.notify()
+      })
+      .catch((error) => {
+        console.error('[RelayHealthService] Failed to load relay health:', error)
+      })
+
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.persist()
+      }
+    })
+  }
+
+  recordConnection(url: string, latency: number) {
+    this.update(url, (health) => ({
+      ...health,
+      connectionCount: health.connectionCount + 1,
+      connectionSuccessRate: average(health.connectionSuccessRate, 1),
+      connectionLatency: average(health.connectionLatency, latency)
+    }))
+  }
+
+  recordConnectionFailure(url: string, error: unknown) {
+    this.update(url, (health) => ({
+      ...health,
+      connectionCount: health.connectionCount + 1,
+      connectionSuccessRate: average(health.connectionSuccessRate, 0),
+      lastError: error instanceof Error ? error.message : String(error),
+      lastErrorAt: Date.now()
+    }))
+  }
+
+  recordEose(url: string, eoseTime: number, timedOut: boolean) {
+    this.update(url, (health) => ({
+      ...health,
+      subscriptionCount: health.subscriptionCount + 1,
+      eoseTime: average(health.eoseTime, eoseTime),
+      eoseTimeoutRate: average(health.eoseTimeoutRate, timedOut ? 1 : 0)
+    }))
+  }
+
+  recordClose(url: string, reason: string) {
+    if (!reason || IGNORED_CLOSE_REASONS.some((ignored) => reason.startsWith(ignored))) return
+
+    this.update(url, (health) => ({ ...health, lastError: reason, lastErrorAt: Date.now() }))
+  }
+
+  recordPublish(url: string, success: boolean, message?: string) {
+    // Declining to authenticate is the user's choice, not the relay's fault
+    if (!success && message?.startsWith('auth-required')) return
+
+    this.update(url, (health) => ({
+      ...health,
+      publishCount: health.publishCount + 1,
+      publishSuccessRate: average(health.publishSuccessRate, success ? 1 : 0),
+      ...(success ? {} : { lastError: message, lastErrorAt: Date.now() })
+    }))
+  }
+
+  getHealth(url: string) {
+    return this.healthMap.get(url)
+  }
+
+  getHealthList() {
+    return this.healthList
+  }
+
+  /**
+   * 1 for a relay that connects, answers and accepts everything, down to 0 for a dead one.
+   * Relays we know little about get the benefit of the doubt.
+   */
+  getScore(url: string) {
+    const health = this.healthMap.get(url)
+    if (!health) return 1
+
+    let score = 1
+    if (health.connectionCount >= MIN_SAMPLE_COUNT) {
+      score *= health.connectionSuccessRate ?? 1
+    }
+    if (health.subscriptionCount >= MIN_SAMPLE_COUNT) {
+      score *= 1 - (health.eoseTimeoutRate ?? 0) / 2
+    }
+    if (health.publishCount >= MIN_SAMPLE_COUNT) {
+      score *= 0.5 + (health.publishSuccessRate ?? 1) / 2
+    }
+    if ((health.connectionLatency ?? 0) > SLOW_CONNECTION_LATENCY) {
+      score *= 0.8
+    }
+    return score
+  }
+
+  getStatus(url: string): TRelayHealthStatus {
+    if (!this.healthMap.has(url)) return 'unknown'
+
+    const score = this.getScore(url)
+    if (score < UNHEALTHY_SCORE) return 'unhealthy'
+    if (score < DEGRADED_SCORE) return 'degraded'
+    return 'healthy'
+  }
+
+  isUnhealthy(url: string) {
+    return this.getScore(url) < UNHEALTHY_SCORE
+  }
+
+  /**
+   * Move unhealthy relays to the end, keeping the given order otherwise
+   */
+  sortByHealth(urls: string[]) {
+    const healthy: string[] = []
+    const unhealthy: string[] = []
+    urls.forEach((url) => (this.isUnhealthy(url) ? unhealthy : healthy).push(url))
+    return healthy.concat(unhealthy)
+  }
+
+  async reset() {
+    this.healthMap.clear()
+    this.dirtyUrlSet.clear()
+    this.notify()
+    await indexedDb.clearRelayHealth().catch((error) => {
+      console.error('[RelayHealthService] Failed to reset relay health:', error)
+    })
+  }
+
+  subscribe(callback: () => void) {
+    this.subscribers.add(callback)
+    return () => {
+      this.subscribers.delete(callback)
+    }
+  }
+
+  private update(url: string, updater: (health: TRelayHealth) => TRelayHealth) {
+    // Every relay fails while offline, that says nothing about them
+    if (!navigator.onLine) return
+
+    const health = this.healthMap.get(url) ?? {
+      url,
+      connectionCount: 0,
+      subscriptionCount: 0,
+      publishCount: 0,
+      updatedAt: Date.now()
+    }
+    this.healthMap.set(url, { ...updater(health), updatedAt: Date.now() })
+    this.dirtyUrlSet.add(url)
+    this.schedulePersist()
+    this.notify()
+  }
+
+  private schedulePersist() {
+    if (this.persistTimer) return
+
+    this.persistTimer = setTimeout(() => this.persist(), PERSIST_DELAY)
+  }
+
+  private persist() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer)
+      this.persistTimer = null
+    }
+    const urls = Array.from(this.dirtyUrlSet)
+    this.dirtyUrlSet.clear()
+    const healthList = urls
+      .map((url) => this.healthMap.get(url))
+      .filter((health): health is TRelayHealth => !!health)
+    if (!healthList.length) return
+
+    indexedDb.putRelayHealthList(healthList).catch((error) => {
+      console.error('[RelayHealthService] Failed to persist relay health:', error)
+    })
+  }
+
+  private notify() {
+    this.healthList = Array.from(this.healthMap.values())
+    this.subscribers.forEach((callback) => callback())
+  }
+}
+
+function average(previous: number | undefined, sample: number) {
+  return previous === undefined ? sample : previous + SMOOTHING * (sample - previous)
+}
+
+const instance = RelayHealthService.getInstance()
+export default instance
@@ -0,0 +1,160 @@
+import { TScheduledPost } from '@/types'
+import { Event } from 'nostr-tools'
+import client from './client.service'
+import indexedDb from './indexed-db.service'
+import outbox from './outbox.service'
+
+// setTimeout overflows for delays longer than ~24.8 days
+const MAX_TIMER_DELAY = 1000 * 60 * 60 * 24 // 1 day
+
+class ScheduledPostService {
+  static instance: ScheduledPostService
+
+  public static getInstance(): ScheduledPostService {
+    if (!ScheduledPostService.instance) {
+      ScheduledPostService.instance = new ScheduledPostService()
+      ScheduledPostService.instance.init()
+    }
+    return ScheduledPostService.instance
+  }
+
+  private items: TScheduledPost[] = []
+  private subscribers = new Set<() => void>()
+  private initPromise: Promise<void> | null = null
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private publishing = new Set<string>()
+
+  init() {
+    if (!this.initPromise) {
+      this.initPromise = indexedDb
+        .getAllScheduledPosts()
+        .then((items) => {
+          this.setItems(items)
+        })
+        .catch((error) => {
+          console.error('[ScheduledPostService] Failed to load scheduled posts:', error)
+        })
+
+      // Timers are throttled in background tabs, catch up when the app is shown again
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') {
+          this.flush()
+        }
+      })
+
+      // Posts that became due while the app was closed are published right away
+      this.initPromise.then(() => this.flush())
+    }
+    return this.initPromise
+  }
+
+  subscribe(callback: () => void) {
+    this.subscribers.add(callback)
+    return () => {
+      this.subscribers.delete(callback)
+    }
+  }
+
+  getItems() {
+    return this.items
+  }
+
+  has(id: string) {
+    return this.items.some((item) => item.id === id)
+  }
+
+  /**
+   * Hold an event signed with a future created_at until that time comes
+   */
+  async schedule(event: Event, relayUrls: string[]) {
+    await this.initPromise
+
+    await this.saveItem({
+      id: event.id,
+      event,
+      relayUrls: Array.from(new Set(relayUrls)),
+      createdAt: Date.now()
+    })
+    this.scheduleNext()
+  }
+
+  /**
+   * Replace a scheduled event with a re-signed one (edited content or time)
+   */
+  async reschedule(id: string, event: Event) {
+    const item = this.items.find((item) => item.id === id)
+    if (!item) return
+
+    await this.remove(id)
+    await this.saveItem({ ...item, id: event.id, event })
+    this.scheduleNext()
+  }
+
+  async publishNow(id: string) {
+    const item = this.items.find((item) => item.id === id)
+    if (!item) return
+
+    await this.publish(item)
+    this.scheduleNext()
+  }
+
+  async remove(id: string) {
+    this.setItems(this.items.filter((item) => item.id !== id))
+    await indexedDb.deleteScheduledPost(id)
+  }
+
+  async flush() {
+    const now = Math.floor(Date.now() / 1000)
+    const dueItems = this.items.filter((item) => item.event.created_at <= now)
+    for (const item of dueItems) {
+      await this.publish(item)
+    }
+    this.scheduleNext()
+  }
+
+  private async publish(item: TScheduledPost) {
+    if (this.publishing.has(item.id)) return
+    this.publishing.add(item.id)
+
+    try {
+      // From here on the offline outbox takes care of retrying
+      if (!navigator.onLine) {
+        await outbox.enqueue(item.event, item.relayUrls)
+      } else {
+        await client.publishEvent(item.relayUrls, item.event).catch(() => {
+          return outbox.enqueue(item.event, item.relayUrls)
+        })
+      }
+      await this.remove(item.id)
+    } catch (error) {
+      console.error('[ScheduledPostService] Failed to publish scheduled post:', error)
+    } finally {
+      this.publishing.delete(item.id)
+    }
+  }
+
+  private async saveItem(item: TScheduledPost) {
+    this.setItems([item, ...this.items.filter((existing) => existing.id !== item.id)])
+    await indexedDb.putScheduledPost(item)
+  }
+
+  private setItems(items: TScheduledPost[]) {
+    this.items = [...items].sort((a, b) => a.event.created_at - b.event.created_at)
+    this.subscribers.forEach((callback) => callback())
+  }
+
+  private scheduleNext() {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    if (this.items.length === 0) return
+
+    const nextPublishAt = Math.min(...this.items.map((item) => item.event.created_at)) * 1000
+    const delay = Math.min(Math.max(nextPublishAt - Date.now(), 0), MAX_TIMER_DELAY)
+    this.timer = setTimeout(() => this.flush(), delay)
+  }
+}
+
+const instance = ScheduledPostService.getInstance()
+export default instance
@@ -0,0 +1,72 @@
+import { BIG_RELAY_URLS } from '@/constants'
+import { getZapInfoFromEvent } from '@/lib/event-metadata'
+import { TZapLedgerEntry } from '@/types'
+import { kinds } from 'nostr-tools'
+import client from './client.service'
+import lightning from './lightning.service'
+
+const RECEIPT_LIMIT = 500
+
+class ZapLedgerService {
+  static instance: ZapLedgerService
+
+  public static getInstance(): ZapLedgerService {
+    if (!ZapLedgerService.instance) {
+      ZapLedgerService.instance = new ZapLedgerService()
+    }
+    return ZapLedgerService.instance
+  }
+
+  /**
+   * Build the ledger of an account from zap receipts (kind 9735) found on relays,
+   * completed with the payments recorded locally whose receipt never showed up.
+   */
+  async fetchEntries(pubkey: string): Promise<TZapLedgerEntry[]> {
+    const relayList = await client.fetchRelayList(pubkey)
+    const [receipts, payments] = await Promise.all([
+      client.fetchEvents(relayList.read.slice(0, 5).concat(BIG_RELAY_URLS), [
+        { kinds: [kinds.Zap], '#p': [pubkey], limit: RECEIPT_LIMIT },
+        { kinds: [kinds.Zap], '#P': [pubkey], limit: RECEIPT_LIMIT }
+      ]),
+      lightning.getPayments(pubkey)
+    ])
+
+    const entryMap = new Map<string, TZapLedgerEntry>()
+    receipts.forEach((receipt) => {
+      const info = getZapInfoFromEvent(receipt)
+      if (!info?.invoice || entryMap.has(info.invoice)) return
+
+      const isSent = info.senderPubkey === pubkey
+      // Zaps to self cancel out
+      if (isSent && info.recipientPubkey === pubkey) return
+
+      entryMap.set(info.invoice, {
+        id: info.invoice,
+        direction: isSent ? 'sent' : 'received',
+        counterparty: isSent ? info.recipientPubkey : info.senderPubkey,
+        sats: info.amount,
+        comment: info.comment || undefined,
+        eventId: info.originalEventId,
+        createdAt: receipt.created_at * 1000
+      })
+    })
+    payments.forEach((payment) => {
+      if (entryMap.has(payment.invoice)) return
+
+      entryMap.set(payment.invoice, {
+        id: payment.invoice,
+        direction: 'sent',
+        counterparty: payment.recipient,
+        sats: payment.sats,
+        comment: payment.comment || undefined,
+        eventId: payment.eventId,
+        createdAt: payment.createdAt
+      })
+    })
+
+    return Array.from(entryMap.values()).sort((a, b) => b.createdAt - a.createdAt)
+  }
+}
+
+const instance = ZapLedgerService.getInstance()
+export default instance
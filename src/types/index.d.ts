@@ -1,8 +1,17 @@
+import { Proof } from '@cashu/cashu-ts'
+import { JSONContent } from '@tiptap/react'
 import { Event, Filter, VerifiedEvent } from 'nostr-tools'
 import { MEDIA_AUTO_LOAD_POLICY, NOTIFICATION_LIST_STYLE, POLL_TYPE } from '../constants'
 
 export type TSubRequestFilter = Omit<Filter, 'since' | 'until'> & { limit: number }
 
+export type TPersistedTimeline = {
+  key: string
+  refs: [string, number][]
+  filter: TSubRequestFilter
+  urls: string[]
+}
+
 export type TFeedSubRequest = {
   urls: string[]
   filter: Omit<Filter, 'since' | 'until'>
@@ -66,6 +75,17 @@ export type TRelaySet = {
   relayUrls: string[]
 }
 
+export type TRelayCoverage = {
+  relays: {
+    url: string
+    authorCount: number
+    newAuthorCount: number // authors not reachable through the relays picked before it
+  }[]
+  coveredAuthors: string[]
+  uncoveredAuthors: string[]
+  authorsWithoutRelayList: string[]
+}
+
 export type TNip05Community = {
   id: string // domain name (e.g., "bitcoin.org")
   domain: string // same as id for clarity
@@ -77,6 +97,7 @@ export type TNip05Community = {
   lastUpdated: number // timestamp for cache invalidation
   featured?: boolean // if this is a featured/curated community
   tags?: string[] // category tags (e.g., ["bitcoin", "development"])
+  banner?: string // community banner image URL
 }
 
 export type TNip05CommunitySet = {
@@ -93,10 +114,58 @@ export type TNip05DomainInfo = {
   icon?: string // icon/logo if provided
   website?: string // official website
   contact?: string // contact info
+  banner?: string // banner image if provided
+  rules?: string[] // community rules if provided
+  categories?: string[] // category tags if provided
+  admins?: string[] // additional admin pubkeys if provided
+  moderators?: string[] // moderator pubkeys if provided
+  chat?: TCommunityChat // group chat location if provided
+  hasMetadata?: boolean // if we successfully fetched .well-known/community.json
   verified: boolean // if we successfully fetched .well-known/nostr.json
   lastChecked: number // timestamp of last verification check
 }
 
+export type TCommunityMetadata = {
+  name?: string // display name for the community
+  description?: string // short description shown on cards and the community header
+  icon?: string // icon/logo URL
+  banner?: string // banner image URL
+  website?: string // official website
+  contact?: string // contact info
+  rules?: string[] // community rules, one per entry
+  categories?: string[] // category tags (e.g., ["bitcoin", "development"])
+  admins?: string[] // hex pubkeys of additional community admins
+  moderators?: string[] // hex pubkeys of community moderators
+  chat?: TCommunityChat // relay-hosted group chat for members
+}
+
+export type TCommunityChat = {
+  relay?: string // NIP-29 relay hosting the group, falls back to big relays
+  group?: string // group id ("h" tag), defaults to the domain
+}
+
+export type TCommunityRole = 'admin' | 'moderator'
+
+export type TCommunityModerationAction = 'hide' | 'pin' | 'clear'
+
+export type TCommunityModeration = {
+  id: string // moderation event id
+  moderatorPubkey: string // admin or moderator who made the decision
+  domain: string // community the decision applies to
+  eventId: string // moderated event id (from e-tag)
+  authorPubkey?: string // author of the moderated event (from p-tag)
+  action: TCommunityModerationAction
+  reason?: string // shown to viewers when a post is hidden
+  created_at: number // timestamp of decision
+}
+
+export type TCommunityRoles = {
+  domain: string
+  owner?: string // first pubkey in nostr.json, always an admin
+  admins: string[] // includes the owner
+  moderators: string[]
+}
+
 export type TCommunityJoinRequest = {
   id: string // event id
   pubkey: string // requester's pubkey
@@ -104,7 +173,20 @@ export type TCommunityJoinRequest = {
   adminPubkey: string // admin who receives the request (from p-tag)
   message?: string // optional message from requester
   created_at: number // timestamp of request
-  status?: 'pending' | 'approved' // auto-detected based on nostr.json
+  status?: 'pending' | TCommunityJoinDecisionStatus // from the admin's decision event or nostr.json
+}
+
+export type TCommunityJoinDecisionStatus = 'approved' | 'rejected'
+
+export type TCommunityJoinDecision = {
+  id: string // decision event id
+  adminPubkey: string // admin who made the decision
+  requesterPubkey: string // pubkey of the user who asked to join (from p-tag)
+  requestId?: string // join request event id (from e-tag)
+  domain: string // target domain
+  status: TCommunityJoinDecisionStatus
+  reason?: string // optional note from the admin
+  created_at: number // timestamp of decision
 }
 
 export type TConfig = {
@@ -124,6 +206,10 @@ export type TNip07 = {
     encrypt?: (pubkey: string, plainText: string) => Promise<string>
     decrypt?: (pubkey: string, cipherText: string) => Promise<string>
   }
+  nip44?: {
+    encrypt?: (pubkey: string, plainText: string) => Promise<string>
+    decrypt?: (pubkey: string, cipherText: string) => Promise<string>
+  }
 }
 
 export interface ISigner {
@@ -131,6 +217,8 @@ export interface ISigner {
   signEvent: (draftEvent: TDraftEvent) => Promise<VerifiedEvent>
   nip04Encrypt: (pubkey: string, plainText: string) => Promise<string>
   nip04Decrypt: (pubkey: string, cipherText: string) => Promise<string>
+  nip44Encrypt: (pubkey: string, plainText: string) => Promise<string>
+  nip44Decrypt: (pubkey: string, cipherText: string) => Promise<string>
 }
 
 export type TSignerType = 'nsec' | 'nip-07' | 'bunker' | 'browser-nsec' | 'ncryptsec' | 'npub'
@@ -147,9 +235,22 @@ export type TAccount = {
 
 export type TAccountPointer = Pick<TAccount, 'pubkey' | 'signerType'>
 
-export type TFeedType = 'following' | 'relays' | 'relay' | 'nip05-domains' | 'nip05-domain'
+export type TFeedType =
+  | 'following'
+  | 'relays'
+  | 'relay'
+  | 'nip05-domains'
+  | 'nip05-domain'
+  | 'search'
 export type TFeedInfo = { feedType: TFeedType; id?: string }
 
+export type TSavedSearch = {
+  id: string
+  query: string
+  pinned: boolean
+  createdAt: number
+}
+
 export type TLanguage = 'en' | 'zh' | 'pl'
 
 export type TImetaInfo = {
@@ -159,10 +260,30 @@ export type TImetaInfo = {
   pubkey?: string
 }
 
+export type TVideoVariant = {
+  url: string
+  mimeType?: string
+  dim?: { width: number; height: number }
+  duration?: number
+  thumbnail?: string
+  // NIP-94 tags returned by the media upload service
+  uploadTags?: string[][]
+}
+
 export type TPublishOptions = {
   specifiedRelayUrls?: string[]
   additionalRelayUrls?: string[]
   minPow?: number
+  /**
+   * Keep the event in the offline outbox and retry later instead of failing
+   * when no relay accepts it
+   */
+  queueOnFailure?: boolean
+  /**
+   * Sign the event with this future created_at (unix timestamp) and keep it in
+   * the scheduled queue until then instead of publishing it right away
+   */
+  scheduledAt?: number
 }
 
 export type TNoteListMode = 'posts' | 'postsAndReplies' | 'you' | '24h'
@@ -238,3 +359,185 @@ export type TAwesomeNip05CommunityCollection = {
 
 export type TMediaAutoLoadPolicy =
   (typeof MEDIA_AUTO_LOAD_POLICY)[keyof typeof MEDIA_AUTO_LOAD_POLICY]
+
+export type TDirectMessage = {
+  id: string // id of the kind 14 rumor, shared by every gift-wrapped copy
+  pubkey: string // sender
+  peerPubkey: string // the other participant of the conversation
+  content: string
+  created_at: number
+}
+
+export type TDirectMessageConversation = {
+  peerPubkey: string
+  lastMessage: TDirectMessage
+}
+
+export type TRelayPublishStatus = {
+  url: string
+  status: 'pending' | 'success' | 'failed'
+  message?: string // OK message from the relay, or why it failed (e.g. "auth-required: ...")
+}
+
+export type TRelayHealth = {
+  url: string
+  // Rates and times are moving averages, so a relay that recovers regains its score
+  connectionCount: number
+  connectionSuccessRate?: number
+  connectionLatency?: number // ms
+  subscriptionCount: number
+  eoseTime?: number // ms
+  eoseTimeoutRate?: number
+  publishCount: number
+  publishSuccessRate?: number
+  lastError?: string // close reason or rejection message
+  lastErrorAt?: number // ms
+  updatedAt: number // ms
+}
+
+export type TRelayHealthStatus = 'unknown' | 'healthy' | 'degraded' | 'unhealthy'
+
+export type TPublishReceipt = {
+  eventId: string
+  relayStatuses: TRelayPublishStatus[]
+  updatedAt: number // ms
+}
+
+export type TOutboxItem = {
+  id: string // id of the signed event
+  event: Event
+  relayStatuses: TRelayPublishStatus[]
+  attempts: number
+  nextAttemptAt: number // ms
+  createdAt: number // ms
+}
+
+export type TScheduledPost = {
+  id: string // id of the signed event
+  event: Event // published once its created_at is reached
+  relayUrls: string[]
+  createdAt: number // ms
+}
+
+export type TPostDraft = {
+  id: string
+  pubkey: string
+  name: string
+  content: JSONContent // editor document, keeps mentions, emojis and media links
+  text: string
+  parentEvent?: Event
+  mentions: string[]
+  isPoll: boolean
+  pollCreateData: TPollCreateData
+  isNsfw: boolean
+  addClientTag: boolean
+  minPow: number
+  isProtectedEvent: boolean
+  additionalRelayUrls: string[]
+  zapSplits: TZapSplit[]
+  createdAt: number // ms
+  updatedAt: number // ms
+}
+
+export type TRelayAuthPolicy = 'always' | 'ask' | 'never'
+
+export type TRelayAuthRecord = {
+  policy: TRelayAuthPolicy
+  authenticatedAt?: number // unix timestamp of the last successful AUTH
+}
+
+export type TZapSplit = {
+  pubkey: string
+  relay?: string
+  weight: number
+}
+
+export type TCommunityZapLeg = {
+  pubkey: string
+  role: 'admin' | 'member'
+  sats: number
+  status: 'success' | 'failed' | 'cancelled'
+  error?: string
+}
+
+export type TCommunityZapReceipt = {
+  id: string
+  domain: string
+  sats: number // only what was actually paid
+  attemptedSats?: number
+  comment: string
+  legs: TCommunityZapLeg[]
+  createdAt: number
+}
+
+export type TZapPayment = {
+  invoice: string
+  sender: string
+  recipient: string
+  eventId?: string
+  sats: number
+  comment: string
+  createdAt: number
+}
+
+export type TZapLedgerEntry = {
+  id: string // invoice
+  direction: 'sent' | 'received'
+  counterparty?: string // pubkey, unknown for anonymous zaps
+  sats: number
+  comment?: string
+  eventId?: string
+  createdAt: number
+}
+
+export type TCashuWallet = {
+  privkey: string // used to unlock P2PK-locked nutzaps
+  mints: string[]
+}
+
+export type TCashuToken = {
+  id: string // id of the kind 7375 event holding the proofs
+  mint: string
+  proofs: Proof[]
+  createdAt: number
+}
+
+/**
+ * A nutzap whose proofs were already swapped at the mint but not yet stored and published
+ */
+export type TPendingNutzap = {
+  id: string
+  pubkey: string // the sender
+  recipient: string
+  mint: string
+  keep: Proof[]
+  send: Proof[]
+  spentTokenIds: string[]
+  comment: string
+  event?: Event
+  relays: string[]
+  keepSaved?: boolean
+  keepTokenId?: string
+  createdAt: number
+}
+
+/**
+ * Ecash received from a deposit, a token or a nutzap that is not yet stored on relays
+ */
+export type TPendingCashuReceipt = {
+  id: string
+  pubkey: string // the receiver
+  mint: string
+  proofs: Proof[]
+  nutzapEvent?: Event
+  tokenSaved?: boolean
+  tokenId?: string
+  createdAt: number
+}
+
+export type TNutzapInfo = {
+  pubkey: string
+  relays: string[]
+  mints: string[]
+  p2pkPubkey: string
+}
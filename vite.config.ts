@@ -42,7 +42,9 @@ export default defineConfig({
         globPatterns: ['**/*.{js,css,html,png,jpg,svg}'],
         globDirectory: 'dist/',
         maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
-        cleanupOutdatedCaches: true
+        cleanupOutdatedCaches: true,
+        // Wakes up open tabs to flush the offline outbox when connectivity returns
+        importScripts: ['/outbox-sw.js']
       },
       devOptions: {
         enabled: false